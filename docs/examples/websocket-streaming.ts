@@ -34,7 +34,7 @@ async function streamPublicData() {
     // Subscribe to real-time trades
     console.log('Subscribing to BTC-USD.P trades...');
     client.subscribeTrades('BTC-USD.P', (trade) => {
-      console.log(`📊 Trade: ${trade.size} BTC @ $${trade.price} (${trade.aggressor_side})`);
+      console.log(`📊 Trade: ${trade.size} BTC @ $${trade.price} (${trade.side})`);
     });
 
     // Subscribe to order book updates
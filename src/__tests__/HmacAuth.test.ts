@@ -34,6 +34,21 @@ describe('HmacAuth', () => {
     });
   });
 
+  describe('signRequest', () => {
+    it('should sign with Web Crypto like generateAuthHeaders', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+      try {
+        const body = JSON.stringify({ market: 'BTC-USD.P', side: 'buy' });
+
+        await expect(auth.signRequest('POST', '/v1/perps/orders', body)).resolves.toEqual(
+          auth.generateAuthHeaders('POST', '/v1/perps/orders', body),
+        );
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+  });
+
   describe('validateWebhookSignature', () => {
     it('should validate correct webhook signature', () => {
       const timestamp = '1234567890';
@@ -1,34 +1,190 @@
 import Decimal from 'decimal.js';
-import * as https from 'https';
-import { URL } from 'url';
 import {
   API_URLS,
+  AmendOrderParams,
   ApiBalance,
   ApiWrapper,
   Balance,
+  BatchOptions,
+  Candle,
+  CandleInterval,
+  CandleQuery,
   ClientConfig,
+  CreateCrossOrderOptions,
   CreateOrderOptions,
+  CreateSpotOrderOptions,
   CreateStopOrderOptions,
+  CrossMarket,
+  Deposit,
   Environment,
+  FundingPayment,
   FundingRate,
+  HistoryQuery,
+  LedgerEntry,
+  LeverageSettings,
+  LimitOrderParams,
+  MarginMode,
   Market,
   Order,
   OrderBook,
   OrderSide,
+  OrderStatus,
   OrderType,
+  Page,
   Position,
   PositionDirection,
+  PositionFlip,
+  PriceUpdate,
+  SpotBalance,
+  SpotMarket,
   StopOrder,
   StopOrderType,
   Ticker,
   Trade,
+  Transfer,
+  ValidationConfig,
+  Withdrawal,
 } from '../types';
 import { HmacAuth } from './auth/HmacAuth';
+import { OrderValidationParams, ValidatedOrder, validateOrder } from '../utils/validation';
+import { RiskEstimate, RiskInput, applyOrderToPosition, calculateRisk } from '../utils/risk';
+import { PaginateOptions, paginate, paginateByTime } from '../utils/pagination';
+import { throwIfAborted } from '../utils/abort';
 import { roundDown } from '../utils/rounding';
-import { EnclaveApiError } from '../utils/errors';
-import { ApiMarketsResponse, ApiTrade, ApiOrderBook } from '../types/api-responses';
-import { adaptMarketsResponse, adaptTrade, adaptOrderBook } from '../utils/adapters';
+import { mapSettled } from '../utils/concurrency';
+import { randomUUID } from '../utils/uuid';
+import { CANDLE_INTERVAL_MS, aggregateTrades, getCandleOpenTime } from '../utils/candles';
+import {
+  EnclaveApiError,
+  EnclaveError,
+  EnclaveErrorCode,
+  NetworkError,
+  NotFoundError,
+  OrderRejectedError,
+  OrderStateUnknownError,
+  OrderValidationError,
+  TimeoutError,
+  createApiError,
+} from '../utils/errors';
+import {
+  ApiBatchItem,
+  ApiCandle,
+  ApiDeposit,
+  ApiFill,
+  ApiFundingPayment,
+  ApiLedgerEntry,
+  ApiLeverageSettings,
+  ApiMarketsResponse,
+  ApiOrder,
+  ApiOrderBook,
+  ApiPage,
+  ApiPosition,
+  ApiPriceUpdate,
+  ApiSpotBalance,
+  ApiTicker,
+  ApiTrade,
+  ApiTransfer,
+  ApiWithdrawal,
+} from '../types/api-responses';
+import {
+  adaptCandle,
+  adaptCrossMarketsResponse,
+  adaptDeposit,
+  adaptFill,
+  adaptFundingPayment,
+  adaptLedgerEntry,
+  adaptLeverageSettings,
+  adaptMarketsResponse,
+  adaptOrder,
+  adaptOrderBook,
+  adaptPage,
+  adaptPosition,
+  adaptPriceUpdate,
+  adaptSpotBalance,
+  adaptSpotMarketsResponse,
+  adaptTicker,
+  adaptTrade,
+  adaptTransfer,
+  adaptWithdrawal,
+} from '../utils/adapters';
 import { WebSocketClient, WebSocketChannel, MessageHandler } from './websocket/WebSocketClient';
+import { Transport, TransportResponse, TransportTimeoutError } from './transport/Transport';
+import { HttpsTransport } from './transport/HttpsTransport';
+import { FetchTransport } from './transport/FetchTransport';
+import { RateLimiter, classifyEndpoint, priorityFor } from './ratelimit/RateLimiter';
+import { isTerminalStatus } from './orders/OrderTracker';
+import { DeadMansSwitch } from './safety/DeadMansSwitch';
+import { StreamRecovery } from './websocket/StreamRecovery';
+import { ChannelStream, StreamOptions } from './websocket/ChannelStream';
+
+interface RequestOptions {
+  /**
+   * Resend after a transport error (default: true). Disabled for order
+   * placement, which reconciles by clientOrderId instead.
+   */
+  retryNetworkErrors?: boolean;
+  /**
+   * Aborts the request while it waits for the rate limiter
+   */
+  signal?: AbortSignal;
+}
+
+const PERPS_ORDERS_PATH = '/v1/perps/orders';
+const SPOT_ORDERS_PATH = '/v1/orders';
+const CROSS_ORDERS_PATH = '/v1/cross/orders';
+
+/**
+ * Fills endpoint searched when reconciling orders placed through each orders path
+ */
+const FILLS_PATHS: Record<string, string> = {
+  [PERPS_ORDERS_PATH]: '/v1/perps/fills',
+  [SPOT_ORDERS_PATH]: '/v1/fills',
+  [CROSS_ORDERS_PATH]: '/v1/cross/fills',
+};
+
+/**
+ * How far before a submission to search fills, covering clock skew with the exchange
+ */
+const RECONCILE_LOOKBACK_MS = 30000;
+
+/**
+ * Settles one item of a batch response like the equivalent single request
+ */
+function settleBatchItem(
+  item: ApiBatchItem<ApiOrder>,
+  endpoint: string,
+  method: string,
+): PromiseSettledResult<Order> {
+  if (item.success && item.result) {
+    return { status: 'fulfilled', value: adaptOrder(item.result) };
+  }
+  return {
+    status: 'rejected',
+    reason: createApiError(endpoint, method, undefined, JSON.stringify(item)),
+  };
+}
+
+/**
+ * Node's `https` module where it exists, `fetch` in browsers, Deno and edge workers
+ */
+function defaultTransport(): Transport {
+  // Read through globalThis: a bare `process` is a ReferenceError outside Node
+  const isNode = globalThis.process?.versions?.node !== undefined;
+  return isNode ? new HttpsTransport() : new FetchTransport();
+}
+
+/**
+ * Order side that reduces a position
+ */
+function closingSide(position: Position): OrderSide {
+  return position.side === PositionDirection.LONG ? OrderSide.SELL : OrderSide.BUY;
+}
+
+interface MarketsCache {
+  perps: Market[];
+  spot: SpotMarket[];
+  cross: CrossMarket[];
+}
 
 export class EnclaveClient {
   private readonly baseUrl: string;
@@ -37,34 +193,107 @@ export class EnclaveClient {
   private readonly debug: boolean;
   private readonly maxRetries: number;
   private readonly retryDelay: number;
-  private marketsCache?: Market[];
+  private marketsCache?: MarketsCache;
   private marketsCacheTime?: number;
   private readonly CACHE_DURATION = 60000; // 1 minute
   private wsClient?: WebSocketClient;
   private readonly environment: Environment;
+  private readonly transport: Transport;
+  private readonly wsUrl?: string;
+  private readonly wsConfig: ClientConfig['webSocket'];
+  private readonly limiter?: RateLimiter;
+  private readonly validation: ValidationConfig;
+  private candlesUnavailable = false;
+  private batchCreateUnavailable = false;
+  private batchCancelUnavailable = false;
+  private amendUnavailable = false;
+  private readonly safeguard?: DeadMansSwitch;
+  private readonly recovery?: StreamRecovery;
 
   constructor(config: ClientConfig = {}) {
     this.environment = config.environment ?? Environment.PROD_PERMISSIONLESS;
-    this.baseUrl = API_URLS[this.environment];
+    this.baseUrl = config.baseUrl ?? API_URLS[this.environment];
+    this.wsUrl = config.wsUrl;
+    this.wsConfig = config.webSocket;
     this.auth = config.auth ? new HmacAuth(config.auth.apiKey, config.auth.apiSecret) : undefined;
     this.timeout = config.timeout ?? 30000;
     this.debug = config.debug ?? false;
     this.maxRetries = config.maxRetries ?? 3;
     this.retryDelay = config.retryDelay ?? 1000;
+    this.transport = config.transport ?? defaultTransport();
+    this.validation = config.validation ?? {};
+    if (config.rateLimit) {
+      this.limiter =
+        config.rateLimit instanceof RateLimiter
+          ? config.rateLimit
+          : new RateLimiter(config.rateLimit === true ? {} : config.rateLimit);
+    }
+    if (config.deadMansSwitch) {
+      this.safeguard = new DeadMansSwitch(
+        this,
+        config.deadMansSwitch === true ? { debug: this.debug } : config.deadMansSwitch,
+      );
+      this.safeguard.start();
+    }
+    if (config.streamRecovery && this.auth) {
+      this.recovery = new StreamRecovery(
+        this,
+        config.streamRecovery === true ? { debug: this.debug } : config.streamRecovery,
+      );
+    }
+  }
+
+  /**
+   * Order safeguard, if enabled via `deadMansSwitch`
+   */
+  public get deadMansSwitch(): DeadMansSwitch | undefined {
+    return this.safeguard;
+  }
+
+  /**
+   * Replays private stream updates missed during WebSocket reconnects, if
+   * enabled via `streamRecovery`. Listen for `resynced` to know the state is
+   * consistent.
+   */
+  public get streamRecovery(): StreamRecovery | undefined {
+    return this.recovery;
+  }
+
+  /**
+   * Client-side rate limiter, if enabled via `rateLimit`
+   */
+  public get rateLimiter(): RateLimiter | undefined {
+    return this.limiter;
   }
 
   /**
    * Makes a request and automatically unwraps the API response wrapper
    */
-  private async requestWithWrapper<T>(method: string, path: string, body?: unknown): Promise<T> {
-    const response = await this.request<ApiWrapper<T>>(method, path, body);
+  private async requestWithWrapper<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const response = await this.request<ApiWrapper<T>>(method, path, body, options);
     if (!response.success) {
-      throw new EnclaveApiError(response.error ?? 'Request failed', path, method);
+      throw createApiError(path, method, undefined, JSON.stringify(response));
     }
     return response.result;
   }
 
-  private async request<T>(method: string, path: string, body?: unknown, attempt = 1): Promise<T> {
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options: RequestOptions = {},
+    attempt = 1,
+  ): Promise<T> {
+    const endpointClass = classifyEndpoint(method, path);
+    // Wait for a token before signing so the signature timestamp stays fresh
+    await this.limiter?.acquire(endpointClass, priorityFor(method), options.signal);
+    throwIfAborted(options.signal);
+
     const url = new URL(path, this.baseUrl);
     const bodyString = body ? JSON.stringify(body) : '';
 
@@ -74,7 +303,7 @@ export class EnclaveClient {
     };
 
     if (this.auth) {
-      const authHeaders = this.auth.generateAuthHeaders(
+      const authHeaders = await this.auth.signRequest(
         method,
         url.pathname + url.search,
         bodyString,
@@ -87,91 +316,308 @@ export class EnclaveClient {
       if (body) console.log('[Enclave] Body:', body);
     }
 
-    return new Promise((resolve, reject) => {
-      const options = {
+    let response: TransportResponse;
+    try {
+      response = await this.transport.send({
         method,
+        url: url.toString(),
         headers,
+        body: bodyString || undefined,
         timeout: this.timeout,
-      };
+      });
+    } catch (error) {
+      if (error instanceof TransportTimeoutError) {
+        throw new TimeoutError(path, method, this.timeout, { cause: error });
+      }
+      if ((options.retryNetworkErrors ?? true) && attempt <= this.maxRetries) {
+        await this.backoff(attempt);
+        return this.request<T>(method, path, body, options, attempt + 1);
+      }
+      throw new NetworkError(error instanceof Error ? error.message : String(error), path, method, {
+        cause: error,
+      });
+    }
 
-      const req = https.request(url, options, (res) => {
-        let data = '';
+    const { status, body: data, headers: responseHeaders } = response;
 
-        res.on('data', (chunk) => {
-          data += chunk;
-        });
+    if (!status) {
+      throw new EnclaveApiError('No status code received', path, method);
+    }
+
+    if (status === 429) {
+      this.limiter?.throttle(endpointClass);
+    }
+    if (status === 429 && attempt <= this.maxRetries) {
+      await this.backoff(attempt);
+      return this.request<T>(method, path, body, options, attempt + 1);
+    }
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = data ? (JSON.parse(data) as Record<string, unknown>) : {};
+    } catch (e) {
+      throw new EnclaveApiError(
+        `Failed to parse response: ${String(e)}`,
+        path,
+        method,
+        status,
+        data,
+      );
+    }
+
+    if (status >= 200 && status < 300) {
+      return parsed as T;
+    }
+
+    throw createApiError(path, method, status, data, 'Request failed', responseHeaders);
+  }
+
+  /**
+   * Waits for the exponential backoff delay of the given attempt
+   */
+  private backoff(attempt: number): Promise<void> {
+    return new Promise((resolve) =>
+      setTimeout(resolve, this.retryDelay * Math.pow(2, attempt - 1)),
+    );
+  }
+
+  /**
+   * Places an order exactly once from the caller's point of view.
+   *
+   * A clientOrderId is generated when absent. If the POST fails without a
+   * definitive answer (network error, timeout, 5xx), the order is looked up by
+   * clientOrderId and only resent when neither the open orders nor the fills
+   * since the submission mention it. A duplicate-clientOrderId rejection on a
+   * resend is resolved the same way.
+   *
+   * @throws OrderStateUnknownError if the exchange cannot confirm either way
+   */
+  private async submitOrder(
+    ordersPath: string,
+    body: Record<string, unknown>,
+    submittedAt = Date.now(),
+  ): Promise<Order> {
+    const clientOrderId =
+      typeof body.clientOrderId === 'string' ? body.clientOrderId : randomUUID();
+    const payload = { ...body, clientOrderId };
+    const market = String(body.market);
+    let ambiguous: EnclaveApiError | undefined;
 
-        res.on('end', () => {
-          try {
-            if (!res.statusCode) {
-              throw new EnclaveApiError('No status code received', path, method);
-            }
-
-            if (res.statusCode === 429 && attempt <= this.maxRetries) {
-              setTimeout(
-                () => {
-                  this.request<T>(method, path, body, attempt + 1)
-                    .then(resolve)
-                    .catch(reject);
-                },
-                this.retryDelay * Math.pow(2, attempt - 1),
-              );
-              return;
-            }
-
-            const parsed = data ? (JSON.parse(data) as Record<string, unknown>) : {};
-
-            if (res.statusCode >= 200 && res.statusCode < 300) {
-              resolve(parsed as T);
-            } else {
-              const errorMessage =
-                (parsed as { error?: string }).error ??
-                (parsed as { message?: string }).message ??
-                data ??
-                'Request failed';
-              reject(new EnclaveApiError(errorMessage, path, method, res.statusCode, data));
-            }
-          } catch (e) {
-            reject(
-              new EnclaveApiError(
-                `Failed to parse response: ${String(e)}`,
-                path,
-                method,
-                res.statusCode,
-                data,
-              ),
-            );
-          }
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const order = await this.requestWithWrapper<ApiOrder>('POST', ordersPath, payload, {
+          retryNetworkErrors: false,
         });
-      });
+        return adaptOrder(order);
+      } catch (error) {
+        const duplicate =
+          ambiguous !== undefined &&
+          error instanceof OrderRejectedError &&
+          /duplicate|already exists/i.test(error.message);
+        if (!duplicate && !this.isAmbiguousFailure(error)) {
+          throw error;
+        }
+        ambiguous ??= error as EnclaveApiError;
+      }
 
-      req.on('error', (error) => {
-        if (attempt <= this.maxRetries) {
-          setTimeout(
-            () => {
-              this.request<T>(method, path, body, attempt + 1)
-                .then(resolve)
-                .catch(reject);
-            },
-            this.retryDelay * Math.pow(2, attempt - 1),
+      const existing = await this.reconcileOrder(
+        ordersPath,
+        market,
+        clientOrderId,
+        submittedAt,
+        ambiguous,
+      );
+      if (existing) {
+        if (this.debug) {
+          console.log(`[Enclave] Reconciled order ${existing.id} (${clientOrderId})`);
+        }
+        return existing;
+      }
+      if (attempt > this.maxRetries) {
+        throw ambiguous;
+      }
+    }
+  }
+
+  /**
+   * Places prepared order bodies through the batch endpoint, falling back to
+   * individual idempotent placement
+   */
+  private async submitOrders(
+    bodies: Array<Record<string, unknown> & { market: string; clientOrderId: string }>,
+    concurrency: number,
+  ): Promise<PromiseSettledResult<Order>[]> {
+    if (!this.batchCreateUnavailable && bodies.length > 0) {
+      const submittedAt = Date.now();
+      try {
+        const items = await this.requestWithWrapper<ApiBatchItem<ApiOrder>[]>(
+          'POST',
+          `${PERPS_ORDERS_PATH}/batch`,
+          { orders: bodies },
+          { retryNetworkErrors: false },
+        );
+        if (items.length === bodies.length) {
+          return items.map((item) => settleBatchItem(item, PERPS_ORDERS_PATH, 'POST'));
+        }
+        // Items cannot be matched by position, so match placed orders by
+        // clientOrderId and reconcile the rest like an ambiguous failure
+        const cause = new EnclaveApiError(
+          `Batch response has ${items.length} items for ${bodies.length} orders`,
+          `${PERPS_ORDERS_PATH}/batch`,
+          'POST',
+        );
+        return mapSettled(bodies, concurrency, (body) => {
+          const item = items.find((i) => i.result?.clientOrderId === body.clientOrderId);
+          if (!item) return this.settleOrder(body, submittedAt, cause);
+          const settled = settleBatchItem(item, PERPS_ORDERS_PATH, 'POST');
+          return settled.status === 'fulfilled'
+            ? Promise.resolve(settled.value)
+            : Promise.reject(settled.reason);
+        });
+      } catch (error) {
+        if (this.isAmbiguousFailure(error)) {
+          // Some orders may have been placed; look each one up before resending it
+          const cause = error as EnclaveApiError;
+          return mapSettled(bodies, concurrency, (body) =>
+            this.settleOrder(body, submittedAt, cause),
           );
-        } else {
-          reject(error);
         }
-      });
+        if (!this.isMissingEndpoint(error)) throw error;
+        this.batchCreateUnavailable = true;
+      }
+    }
+    return mapSettled(bodies, concurrency, (body) => this.submitOrder(PERPS_ORDERS_PATH, body));
+  }
 
-      req.on('timeout', () => {
-        req.destroy();
-        reject(new Error(`Request timeout after ${this.timeout}ms`));
-      });
+  /**
+   * Finds an order whose batch placement has no definite answer, resending it
+   * only when the exchange confirms it was not placed
+   */
+  private async settleOrder(
+    body: Record<string, unknown> & { market: string; clientOrderId: string },
+    submittedAt: number,
+    cause: EnclaveApiError,
+  ): Promise<Order> {
+    const existing = await this.reconcileOrder(
+      PERPS_ORDERS_PATH,
+      body.market,
+      body.clientOrderId,
+      submittedAt,
+      cause,
+    );
+    return existing ?? this.submitOrder(PERPS_ORDERS_PATH, body, submittedAt);
+  }
+
+  /**
+   * Whether a request failed because the exchange does not serve the endpoint
+   */
+  private isMissingEndpoint(error: unknown): boolean {
+    return error instanceof NotFoundError && error.statusCode === 404;
+  }
+
+  private async getOpenPosition(market: string): Promise<Position | undefined> {
+    const positions = await this.getPositions(market);
+    return positions.find((p) => p.market === market && new Decimal(p.size).gt(0));
+  }
+
+  /**
+   * Sends a market order sized in base units for either side. Unlike
+   * createMarketOrder(), buys are not sized in quote units, so a short can be
+   * closed exactly.
+   */
+  private async submitPositionOrder(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    reduceOnly: boolean,
+  ): Promise<Order> {
+    const { baseIncrement } = await this.getMarket(market);
+    const validated = await this.validateOrder(market, {
+      side,
+      type: OrderType.MARKET,
+      // Round here so fractional sizes pass strict validation
+      size: roundDown(size, new Decimal(baseIncrement)),
+      reduceOnly,
+    });
+    return this.submitOrder(PERPS_ORDERS_PATH, {
+      market,
+      side,
+      type: OrderType.MARKET,
+      size: validated.size!.toString(),
+      reduceOnly,
+    });
+  }
 
-      if (bodyString) {
-        req.write(bodyString);
+  /**
+   * Looks up an order after an ambiguous failure, retrying the lookup itself.
+   * Throws OrderStateUnknownError if the exchange cannot be asked, so the order
+   * is never resent blind.
+   */
+  private async reconcileOrder(
+    ordersPath: string,
+    market: string,
+    clientOrderId: string,
+    submittedAt: number,
+    cause: EnclaveApiError,
+  ): Promise<Order | undefined> {
+    let lookupError: unknown = cause;
+    for (let attempt = 1; attempt <= this.maxRetries + 1; attempt++) {
+      await this.backoff(attempt);
+      try {
+        return await this.findOrderByClientId(ordersPath, market, clientOrderId, submittedAt);
+      } catch (error) {
+        lookupError = error;
+        if (!this.isAmbiguousFailure(error)) break;
       }
-      req.end();
+    }
+    throw new OrderStateUnknownError(clientOrderId, {
+      details: { market, submitError: cause.message },
+      cause: lookupError,
     });
   }
 
+  /**
+   * Whether a failed request may still have been processed by the exchange
+   */
+  private isAmbiguousFailure(error: unknown): boolean {
+    return (
+      error instanceof NetworkError ||
+      error instanceof TimeoutError ||
+      (error instanceof EnclaveApiError && (error.statusCode ?? 0) >= 500)
+    );
+  }
+
+  /**
+   * Looks up an order by clientOrderId among open orders, then among the orders
+   * of fills since it was submitted. Returns undefined only when both lists were
+   * fetched and neither mentions it; a failed lookup throws.
+   */
+  private async findOrderByClientId(
+    ordersPath: string,
+    market: string,
+    clientOrderId: string,
+    submittedAt: number,
+  ): Promise<Order | undefined> {
+    const open = await this.requestWithWrapper<ApiOrder[]>('GET', `${ordersPath}?market=${market}`);
+    const found = open.find((o) => o.clientOrderId === clientOrderId);
+    if (found) return adaptOrder(found);
+
+    const fills = this.iterateHistory<ApiFill, Trade>(
+      FILLS_PATHS[ordersPath],
+      { market, startTime: submittedAt - RECONCILE_LOOKBACK_MS },
+      adaptFill,
+      {},
+    );
+    const checked = new Set(open.map((o) => o.id));
+    for await (const fill of fills) {
+      if (checked.has(fill.orderId)) continue;
+      checked.add(fill.orderId);
+      const order = await this.requestWithWrapper<ApiOrder>('GET', `${ordersPath}/${fill.orderId}`);
+      if (order.clientOrderId === clientOrderId) return adaptOrder(order);
+    }
+    return undefined;
+  }
+
   /**
    * Fetches all available markets from the exchange.
    *
@@ -185,6 +631,83 @@ export class EnclaveClient {
    * ```
    */
   public async getMarkets(useCache = true): Promise<Market[]> {
+    return (await this.loadMarkets(useCache)).perps;
+  }
+
+  /**
+   * Fetches all spot markets from the exchange.
+   *
+   * @param useCache - Whether to use cached market data if available
+   * @returns Array of spot market information
+   *
+   * @example
+   * ```typescript
+   * const spotMarkets = await client.getSpotMarkets();
+   * ```
+   */
+  public async getSpotMarkets(useCache = true): Promise<SpotMarket[]> {
+    return (await this.loadMarkets(useCache)).spot;
+  }
+
+  /**
+   * Fetches all cross (dark pool) markets from the exchange.
+   *
+   * @param useCache - Whether to use cached market data if available
+   * @returns Array of cross market information
+   *
+   * @example
+   * ```typescript
+   * const crossMarkets = await client.getCrossMarkets();
+   * ```
+   */
+  public async getCrossMarkets(useCache = true): Promise<CrossMarket[]> {
+    return (await this.loadMarkets(useCache)).cross;
+  }
+
+  /**
+   * Fetches a specific spot market by symbol.
+   *
+   * @param market - Spot market symbol (e.g., "AVAX-USDC")
+   * @returns Spot market information
+   *
+   * @throws NotFoundError if the market does not exist
+   *
+   * @example
+   * ```typescript
+   * const avax = await client.getSpotMarket('AVAX-USDC');
+   * console.log(`Base increment: ${avax.baseIncrement}`);
+   * ```
+   */
+  public async getSpotMarket(market: string): Promise<SpotMarket> {
+    const markets = await this.getSpotMarkets();
+    const found = markets.find((m) => m.market === market);
+    if (!found) {
+      throw new NotFoundError(`Spot market ${market} not found`, '/v1/markets', 'GET');
+    }
+    return found;
+  }
+
+  /**
+   * Fetches a specific cross (dark pool) market by symbol.
+   *
+   * @param market - Cross market symbol
+   * @returns Cross market information
+   *
+   * @throws NotFoundError if the market does not exist
+   */
+  public async getCrossMarket(market: string): Promise<CrossMarket> {
+    const markets = await this.getCrossMarkets();
+    const found = markets.find((m) => m.market === market);
+    if (!found) {
+      throw new NotFoundError(`Cross market ${market} not found`, '/v1/markets', 'GET');
+    }
+    return found;
+  }
+
+  /**
+   * Fetches perps, spot and cross markets in one request, sharing a cache
+   */
+  private async loadMarkets(useCache: boolean): Promise<MarketsCache> {
     if (
       useCache &&
       this.marketsCache &&
@@ -195,7 +718,11 @@ export class EnclaveClient {
     }
 
     const response = await this.requestWithWrapper<ApiMarketsResponse>('GET', '/v1/markets');
-    const markets = adaptMarketsResponse(response);
+    const markets = {
+      perps: adaptMarketsResponse(response),
+      spot: adaptSpotMarketsResponse(response),
+      cross: adaptCrossMarketsResponse(response),
+    };
     this.marketsCache = markets;
     this.marketsCacheTime = Date.now();
     return markets;
@@ -219,7 +746,7 @@ export class EnclaveClient {
     const markets = await this.getMarkets();
     const found = markets.find((m) => m.market === market);
     if (!found) {
-      throw new Error(`Market ${market} not found`);
+      throw new NotFoundError(`Market ${market} not found`, '/v1/markets', 'GET');
     }
     return found;
   }
@@ -252,20 +779,24 @@ export class EnclaveClient {
     price: Decimal,
     options: CreateOrderOptions = {},
   ): Promise<Order> {
-    const marketInfo = await this.getMarket(market);
-    const roundedSize = roundDown(size, new Decimal(marketInfo.baseIncrement));
-    const roundedPrice = roundDown(price, new Decimal(marketInfo.quoteIncrement));
+    const validated = await this.validateOrder(market, {
+      side,
+      type: OrderType.LIMIT,
+      size,
+      price,
+      reduceOnly: options.reduceOnly,
+    });
 
     const body = {
       market,
       side,
       type: OrderType.LIMIT,
-      size: roundedSize.toString(),
-      price: roundedPrice.toString(),
+      size: validated.size!.toString(),
+      price: validated.price!.toString(),
       ...options,
     };
 
-    return this.requestWithWrapper<Order>('POST', '/v1/perps/orders', body);
+    return this.submitOrder(PERPS_ORDERS_PATH, body);
   }
 
   /**
@@ -300,7 +831,12 @@ export class EnclaveClient {
     size: Decimal,
     options: CreateOrderOptions = {},
   ): Promise<Order> {
-    const marketInfo = await this.getMarket(market);
+    const validated = await this.validateOrder(market, {
+      side,
+      type: OrderType.MARKET,
+      ...(side === OrderSide.BUY ? { quoteSize: size } : { size }),
+      reduceOnly: options.reduceOnly,
+    });
 
     const body: Record<string, unknown> = {
       market,
@@ -310,14 +846,114 @@ export class EnclaveClient {
     };
 
     if (side === OrderSide.BUY) {
-      const roundedQuoteSize = roundDown(size, new Decimal(marketInfo.quoteIncrement));
-      body.quoteSize = roundedQuoteSize.toString();
+      body.quoteSize = validated.quoteSize!.toString();
     } else {
-      const roundedSize = roundDown(size, new Decimal(marketInfo.baseIncrement));
-      body.size = roundedSize.toString();
+      body.size = validated.size!.toString();
+    }
+
+    return this.submitOrder(PERPS_ORDERS_PATH, body);
+  }
+
+  /**
+   * Validates order values against the market specs without sending anything.
+   * Used by every order method; honours the `validation` client config.
+   *
+   * @param market - Market symbol
+   * @param params - Order values to check
+   * @returns The values rounded to the market increments
+   * @throws OrderValidationError listing every violated rule
+   *
+   * @example
+   * ```typescript
+   * const { size, price } = await client.validateOrder('BTC-USD.P', {
+   *   side: OrderSide.BUY,
+   *   type: OrderType.LIMIT,
+   *   size: new Decimal(0.001),
+   *   price: new Decimal(50000),
+   * });
+   * ```
+   */
+  public async validateOrder(
+    market: string,
+    params: OrderValidationParams,
+  ): Promise<ValidatedOrder> {
+    const marketInfo = await this.getMarket(market);
+    let positionSize = params.positionSize;
+    if (
+      this.validation.checkPositionSize &&
+      positionSize === undefined &&
+      params.side &&
+      !params.reduceOnly
+    ) {
+      const [position] = await this.getPositions(market);
+      positionSize = position
+        ? new Decimal(position.size).mul(position.side === PositionDirection.SHORT ? -1 : 1)
+        : 0;
     }
+    return validateOrder(
+      marketInfo,
+      { ...params, positionSize },
+      { strict: this.validation.strict },
+    );
+  }
+
+  /**
+   * Estimates margin requirements and liquidation price of a hypothetical position.
+   *
+   * @param market - Market symbol
+   * @param input - Position direction, size, entry price and optional leverage
+   * @returns Margin and liquidation estimate using the market's margin brackets
+   *
+   * @example
+   * ```typescript
+   * const risk = await client.calculateRisk('BTC-USD.P', {
+   *   direction: PositionDirection.LONG,
+   *   size: new Decimal(0.5),
+   *   entryPrice: new Decimal(50000),
+   *   leverage: 10,
+   * });
+   * console.log(risk.liquidationPrice?.toString());
+   * ```
+   */
+  public async calculateRisk(market: string, input: RiskInput): Promise<RiskEstimate> {
+    return calculateRisk(await this.getMarket(market), input);
+  }
 
-    return this.requestWithWrapper<Order>('POST', '/v1/perps/orders', body);
+  /**
+   * Estimates the risk of the position that would result from filling an order
+   * on top of the current position.
+   *
+   * @param market - Market symbol
+   * @param side - Order side
+   * @param size - Order size in base units
+   * @param price - Expected fill price
+   * @param options - Leverage and extra collateral for the resulting position
+   * @returns Risk estimate, or null if the order would close the position
+   *
+   * @example
+   * ```typescript
+   * const risk = await client.estimateOrderRisk(
+   *   'BTC-USD.P',
+   *   OrderSide.BUY,
+   *   new Decimal(0.1),
+   *   new Decimal(50000),
+   *   { leverage: 5 },
+   * );
+   * ```
+   */
+  public async estimateOrderRisk(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    price: Decimal,
+    options: Pick<RiskInput, 'leverage' | 'additionalMargin'> = {},
+  ): Promise<RiskEstimate | null> {
+    const [marketInfo, positions] = await Promise.all([
+      this.getMarket(market),
+      this.getPositions(market),
+    ]);
+    const resulting = applyOrderToPosition(positions[0], side, size, price);
+    return resulting ? calculateRisk(marketInfo, { ...resulting, ...options }) : null;
   }
 
   /**
@@ -332,7 +968,8 @@ export class EnclaveClient {
    * ```
    */
   public async cancelOrder(orderId: string): Promise<Order> {
-    return this.requestWithWrapper<Order>('DELETE', `/v1/perps/orders/${orderId}`);
+    const order = await this.requestWithWrapper<ApiOrder>('DELETE', `/v1/perps/orders/${orderId}`);
+    return adaptOrder(order);
   }
 
   /**
@@ -352,44 +989,366 @@ export class EnclaveClient {
    */
   public async cancelAllOrders(market?: string): Promise<Order[]> {
     const params = market ? `?market=${market}` : '';
-    return this.requestWithWrapper<Order[]>('DELETE', `/v1/perps/orders${params}`);
+    const orders = await this.requestWithWrapper<ApiOrder[]>('DELETE', `/v1/perps/orders${params}`);
+    return orders.map(adaptOrder);
   }
 
   /**
-   * Fetches open orders.
+   * Places several limit orders. Uses the exchange's batch endpoint when it
+   * has one, otherwise sends the orders individually with bounded concurrency.
+   * Orders that fail validation are rejected without being sent.
    *
-   * @param market - Optional market filter
-   * @returns Array of open orders
+   * @param orders - Orders to place
+   * @param options - Concurrency of the individual fallback
+   * @returns One settled result per order, in input order
    *
    * @example
    * ```typescript
-   * const openOrders = await client.getOrders();
-   * const btcOrders = await client.getOrders('BTC-USD.P');
+   * const results = await client.createOrders([
+   *   { market: 'BTC-USD.P', side: OrderSide.BUY, size: new Decimal(0.1), price: new Decimal(49900) },
+   *   { market: 'BTC-USD.P', side: OrderSide.SELL, size: new Decimal(0.1), price: new Decimal(50100) },
+   * ]);
+   * const failed = results.filter((r) => r.status === 'rejected');
    * ```
    */
-  public async getOrders(market?: string): Promise<Order[]> {
-    const params = market ? `?market=${market}` : '';
-    return this.requestWithWrapper<Order[]>('GET', `/v1/perps/orders${params}`);
+  public async createOrders(
+    orders: LimitOrderParams[],
+    options: BatchOptions = {},
+  ): Promise<PromiseSettledResult<Order>[]> {
+    const concurrency = options.concurrency ?? 5;
+    const results = await mapSettled(orders, concurrency, async (params) => {
+      const { market, side, size, price, ...orderOptions } = params;
+      const validated = await this.validateOrder(market, {
+        side,
+        type: OrderType.LIMIT,
+        size,
+        price,
+        reduceOnly: orderOptions.reduceOnly,
+      });
+      return {
+        market,
+        side,
+        type: OrderType.LIMIT,
+        size: validated.size!.toString(),
+        price: validated.price!.toString(),
+        ...orderOptions,
+        clientOrderId: orderOptions.clientOrderId ?? randomUUID(),
+      };
+    });
+
+    const bodies = results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+    const placed = await this.submitOrders(bodies, concurrency);
+    return results.map((r) => (r.status === 'fulfilled' ? placed.shift()! : r));
   }
 
   /**
-   * Fetches a specific order by ID.
+   * Cancels several orders. Uses the exchange's batch endpoint when it has one,
+   * otherwise cancels them individually with bounded concurrency.
    *
-   * @param orderId - The order ID
-   * @returns Order details
+   * @param orderIds - IDs of the orders to cancel
+   * @param options - Concurrency of the individual fallback
+   * @returns One settled result per order, in input order
    *
    * @example
    * ```typescript
-   * const order = await client.getOrder('order-123');
+   * const results = await client.cancelOrders(quotes.map((q) => q.id));
    * ```
    */
-  public async getOrder(orderId: string): Promise<Order> {
-    return this.requestWithWrapper<Order>('GET', `/v1/perps/orders/${orderId}`);
+  public async cancelOrders(
+    orderIds: string[],
+    options: BatchOptions = {},
+  ): Promise<PromiseSettledResult<Order>[]> {
+    const concurrency = options.concurrency ?? 5;
+    if (!this.batchCancelUnavailable && orderIds.length > 0) {
+      try {
+        const items = await this.requestWithWrapper<ApiBatchItem<ApiOrder>[]>(
+          'DELETE',
+          `${PERPS_ORDERS_PATH}/batch`,
+          { orderIds },
+        );
+        // Match cancelled orders by ID; failed items carry no order, so they can
+        // only be matched by position when every order has an item
+        const byId = new Map(
+          items.flatMap((item) => (item.result ? [[item.result.id, item]] : [])),
+        );
+        const positional = items.length === orderIds.length;
+        const settled = orderIds.map((orderId, index) => {
+          const item =
+            byId.get(orderId) ?? (positional && !items[index].result ? items[index] : undefined);
+          return item && settleBatchItem(item, `${PERPS_ORDERS_PATH}/${orderId}`, 'DELETE');
+        });
+        const unmatched = orderIds.filter((_, index) => !settled[index]);
+        const checked = await mapSettled(unmatched, concurrency, (orderId) =>
+          this.cancelUnmatched(orderId),
+        );
+        return settled.map((result) => result ?? checked.shift()!);
+      } catch (error) {
+        // Cancels are safe to resend, so ambiguous failures fall back too
+        if (this.isMissingEndpoint(error)) {
+          this.batchCancelUnavailable = true;
+        } else if (!this.isAmbiguousFailure(error)) {
+          throw error;
+        }
+      }
+    }
+    return mapSettled(orderIds, concurrency, (orderId) => this.cancelOrder(orderId));
   }
 
   /**
-   * Fetches all open positions.
-   *
+   * Settles an order missing from a batch cancel response: it may already be
+   * cancelled, so look it up before cancelling it again
+   */
+  private async cancelUnmatched(orderId: string): Promise<Order> {
+    const order = await this.getOrder(orderId);
+    return order.status === OrderStatus.CANCELLED ? order : this.cancelOrder(orderId);
+  }
+
+  /**
+   * Cancels an open order by the clientOrderId it was placed with.
+   *
+   * If the exchange does not serve cancels by clientOrderId, the order is found
+   * among the open orders and cancelled by ID.
+   *
+   * @param clientOrderId - The client order ID
+   * @returns The cancelled order
+   * @throws NotFoundError if no open order has the clientOrderId
+   *
+   * @example
+   * ```typescript
+   * await client.cancelOrderByClientId('my-order-1');
+   * ```
+   */
+  public async cancelOrderByClientId(clientOrderId: string): Promise<Order> {
+    try {
+      const order = await this.requestWithWrapper<ApiOrder>(
+        'DELETE',
+        `${PERPS_ORDERS_PATH}/client:${encodeURIComponent(clientOrderId)}`,
+      );
+      return adaptOrder(order);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      const open = (await this.getOrders()).find((o) => o.clientOrderId === clientOrderId);
+      if (!open) throw error;
+      return this.cancelOrder(open.id);
+    }
+  }
+
+  /**
+   * Cancels several orders by the clientOrderIds they were placed with.
+   *
+   * @param clientOrderIds - Client order IDs of the orders to cancel
+   * @param options - Concurrency of the requests
+   * @returns One settled result per order, in input order
+   *
+   * @example
+   * ```typescript
+   * await client.cancelOrdersByClientId(['bid-1', 'ask-1']);
+   * ```
+   */
+  public async cancelOrdersByClientId(
+    clientOrderIds: string[],
+    options: BatchOptions = {},
+  ): Promise<PromiseSettledResult<Order>[]> {
+    return mapSettled(clientOrderIds, options.concurrency ?? 5, (clientOrderId) =>
+      this.cancelOrderByClientId(clientOrderId),
+    );
+  }
+
+  /**
+   * Changes the price and/or unfilled size of a resting limit order in place.
+   * Where the exchange cannot amend orders, falls back to `replaceOrder()`,
+   * which is not atomic and returns an order with a new ID.
+   *
+   * @param orderId - The order ID
+   * @param changes - Market of the order and the new values
+   * @returns The amended order
+   *
+   * @example
+   * ```typescript
+   * const quote = await client.amendOrder(quote.id, {
+   *   market: 'BTC-USD.P',
+   *   price: new Decimal(49950),
+   * });
+   * ```
+   */
+  public async amendOrder(orderId: string, changes: AmendOrderParams): Promise<Order> {
+    if (this.amendUnavailable) {
+      return this.replaceOrder(orderId, changes);
+    }
+    const validated = await this.validateOrder(changes.market, {
+      size: changes.size,
+      price: changes.price,
+    });
+    const body = {
+      ...(validated.price && { price: validated.price.toString() }),
+      ...(validated.size && { size: validated.size.toString() }),
+    };
+    try {
+      const order = await this.requestWithWrapper<ApiOrder>(
+        'PATCH',
+        `${PERPS_ORDERS_PATH}/${orderId}`,
+        body,
+      );
+      return adaptOrder(order);
+    } catch (error) {
+      if (!this.isMissingEndpoint(error)) throw error;
+      // A 404 for an order that exists means the exchange has no amend endpoint
+      await this.getOrder(orderId).catch(() => Promise.reject(error));
+      this.amendUnavailable = true;
+      return this.replaceOrder(orderId, changes);
+    }
+  }
+
+  /**
+   * Cancels a resting limit order and places a new one with the same side,
+   * time in force, post-only and reduce-only flags. Nothing is placed if the
+   * cancel fails, e.g. because the order filled first.
+   *
+   * The new values are validated before anything is cancelled. Without a new
+   * price the order keeps its own; an order that has none, such as a market
+   * order, is rejected.
+   *
+   * @param orderId - The order ID
+   * @param changes - Market of the order and the new values; the size
+   * defaults to the unfilled size of the order
+   * @returns The new order
+   * @throws OrderValidationError if the new values are invalid or no price is
+   * given and the order has none
+   * @throws EnclaveError with code VALIDATION_ERROR if the order is no longer open
+   *
+   * @example
+   * ```typescript
+   * const quote = await client.replaceOrder(quote.id, {
+   *   market: 'BTC-USD.P',
+   *   price: new Decimal(49950),
+   * });
+   * ```
+   */
+  public async replaceOrder(orderId: string, changes: AmendOrderParams): Promise<Order> {
+    const original = await this.getOrder(orderId);
+    const price = changes.price ?? (original.price ? new Decimal(original.price) : undefined);
+    if (!price) {
+      throw new OrderValidationError(changes.market, [
+        {
+          field: 'price',
+          message: `order ${orderId} has no price to keep; pass a new price`,
+          value: '',
+        },
+      ]);
+    }
+    if (isTerminalStatus(original.status)) {
+      throw new EnclaveError(`Order ${orderId} is not open`, {
+        code: EnclaveErrorCode.VALIDATION_ERROR,
+        details: { orderId, status: original.status },
+      });
+    }
+    const validated = await this.validateOrder(changes.market, {
+      side: original.side,
+      type: OrderType.LIMIT,
+      size: changes.size ?? new Decimal(original.remainingSize),
+      price,
+      reduceOnly: original.reduceOnly,
+    });
+
+    await this.cancelOrder(orderId);
+    return this.submitOrder(PERPS_ORDERS_PATH, {
+      market: original.market,
+      side: original.side,
+      type: OrderType.LIMIT,
+      size: validated.size!.toString(),
+      price: validated.price!.toString(),
+      postOnly: original.postOnly,
+      reduceOnly: original.reduceOnly,
+      timeInForce: original.timeInForce,
+    });
+  }
+
+  /**
+   * Asks the exchange to cancel all open orders `timeout` ms from now unless
+   * called again before then. Call it periodically as a server-side dead-man's
+   * switch; a timeout of 0 clears the timer.
+   *
+   * @param timeout - Time in ms until all orders are cancelled, or 0 to disable
+   * @throws NotFoundError (404) if the exchange does not support it
+   *
+   * @example
+   * ```typescript
+   * setInterval(() => void client.cancelAllAfter(60000), 20000);
+   * ```
+   */
+  public async cancelAllAfter(timeout: number): Promise<void> {
+    await this.requestWithWrapper<unknown>('POST', `${PERPS_ORDERS_PATH}/cancel_all_after`, {
+      timeout,
+    });
+  }
+
+  /**
+   * Fetches open orders.
+   *
+   * @param market - Optional market filter
+   * @returns Array of open orders
+   *
+   * @example
+   * ```typescript
+   * const openOrders = await client.getOrders();
+   * const btcOrders = await client.getOrders('BTC-USD.P');
+   * ```
+   */
+  public async getOrders(market?: string): Promise<Order[]> {
+    const params = market ? `?market=${market}` : '';
+    const orders = await this.requestWithWrapper<ApiOrder[]>('GET', `/v1/perps/orders${params}`);
+    return orders.map(adaptOrder);
+  }
+
+  /**
+   * Fetches a specific order by ID.
+   *
+   * @param orderId - The order ID
+   * @returns Order details
+   *
+   * @example
+   * ```typescript
+   * const order = await client.getOrder('order-123');
+   * ```
+   */
+  public async getOrder(orderId: string): Promise<Order> {
+    const order = await this.requestWithWrapper<ApiOrder>('GET', `/v1/perps/orders/${orderId}`);
+    return adaptOrder(order);
+  }
+
+  /**
+   * Fetches an order by its client order ID, including filled and cancelled orders.
+   *
+   * If the exchange does not serve lookups by clientOrderId, only open orders
+   * can be found.
+   *
+   * @param clientOrderId - The client order ID set (or generated) at placement
+   * @returns Order details
+   * @throws NotFoundError if no order with the clientOrderId can be found
+   *
+   * @example
+   * ```typescript
+   * const order = await client.getOrderByClientId('my-order-1');
+   * ```
+   */
+  public async getOrderByClientId(clientOrderId: string): Promise<Order> {
+    try {
+      const order = await this.requestWithWrapper<ApiOrder>(
+        'GET',
+        `/v1/perps/orders/client:${encodeURIComponent(clientOrderId)}`,
+      );
+      return adaptOrder(order);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) throw error;
+      const open = (await this.getOrders()).find((o) => o.clientOrderId === clientOrderId);
+      if (!open) throw error;
+      return open;
+    }
+  }
+
+  /**
+   * Fetches all open positions.
+   *
    * @param market - Optional market filter
    * @returns Array of positions
    *
@@ -401,7 +1360,168 @@ export class EnclaveClient {
    */
   public async getPositions(market?: string): Promise<Position[]> {
     const params = market ? `?market=${market}` : '';
-    return this.requestWithWrapper<Position[]>('GET', `/v1/perps/positions${params}`);
+    const positions = await this.requestWithWrapper<ApiPosition[]>(
+      'GET',
+      `/v1/perps/positions${params}`,
+    );
+    return positions.map(adaptPosition);
+  }
+
+  /**
+   * Closes the open position in a market with a reduce-only market order.
+   *
+   * @param market - Market symbol
+   * @returns The closing order, or null if there is no open position
+   *
+   * @example
+   * ```typescript
+   * const order = await client.closePosition('BTC-USD.P');
+   * ```
+   */
+  public async closePosition(market: string): Promise<Order | null> {
+    const position = await this.getOpenPosition(market);
+    if (!position) return null;
+    return this.submitPositionOrder(
+      market,
+      closingSide(position),
+      new Decimal(position.size),
+      true,
+    );
+  }
+
+  /**
+   * Reduces the open position in a market by a fraction of its size with a
+   * reduce-only market order. The size is rounded down to the base increment.
+   *
+   * @param market - Market symbol
+   * @param fraction - Share of the position to close, greater than 0 and at most 1
+   * @returns The reducing order, or null if there is no open position
+   * @throws OrderValidationError if the fraction is out of range or the resulting
+   * size is below the minimum order size
+   *
+   * @example
+   * ```typescript
+   * // Take half off the table
+   * await client.reducePosition('BTC-USD.P', 0.5);
+   * ```
+   */
+  public async reducePosition(market: string, fraction: Decimal.Value): Promise<Order | null> {
+    const share = new Decimal(fraction);
+    if (!share.isFinite() || share.lte(0) || share.gt(1)) {
+      throw new OrderValidationError(market, [
+        {
+          field: 'fraction',
+          message: 'fraction must be greater than 0 and at most 1',
+          value: share.toString(),
+          limit: '1',
+        },
+      ]);
+    }
+    const position = await this.getOpenPosition(market);
+    if (!position) return null;
+    return this.submitPositionOrder(
+      market,
+      closingSide(position),
+      new Decimal(position.size).mul(share),
+      true,
+    );
+  }
+
+  /**
+   * Reverses the open position in a market: closes it with a reduce-only market
+   * order, then opens the same size on the opposite side.
+   *
+   * @param market - Market symbol
+   * @returns Both orders, or null if there is no open position
+   *
+   * @example
+   * ```typescript
+   * // Long 0.5 BTC becomes short 0.5 BTC
+   * const flip = await client.flipPosition('BTC-USD.P');
+   * ```
+   */
+  public async flipPosition(market: string): Promise<PositionFlip | null> {
+    const position = await this.getOpenPosition(market);
+    if (!position) return null;
+    const side = closingSide(position);
+    const size = new Decimal(position.size);
+    const close = await this.submitPositionOrder(market, side, size, true);
+    const open = await this.submitPositionOrder(market, side, size, false);
+    return { close, open };
+  }
+
+  /**
+   * Closes every open position with reduce-only market orders. A failed close
+   * does not stop the others.
+   *
+   * @param options - Closing orders in flight at once
+   * @returns One settled closing order per open position
+   *
+   * @example
+   * ```typescript
+   * await client.cancelAllOrders();
+   * const results = await client.closeAllPositions();
+   * const failed = results.filter((r) => r.status === 'rejected');
+   * ```
+   */
+  public async closeAllPositions(
+    options: BatchOptions = {},
+  ): Promise<PromiseSettledResult<Order>[]> {
+    const positions = (await this.getPositions()).filter((p) => new Decimal(p.size).gt(0));
+    return mapSettled(positions, options.concurrency ?? 5, (position) =>
+      this.submitPositionOrder(
+        position.market,
+        closingSide(position),
+        new Decimal(position.size),
+        true,
+      ),
+    );
+  }
+
+  /**
+   * Sets the leverage used for a market.
+   *
+   * @param market - Market symbol
+   * @param leverage - Leverage, at most the market's maximum
+   * @returns The leverage settings of the market
+   * @throws OrderValidationError if the leverage exceeds the market's maximum
+   *
+   * @example
+   * ```typescript
+   * await client.setLeverage('BTC-USD.P', 5);
+   * ```
+   */
+  public async setLeverage(market: string, leverage: number): Promise<LeverageSettings> {
+    await this.validateOrder(market, { leverage });
+    const settings = await this.requestWithWrapper<ApiLeverageSettings>(
+      'POST',
+      '/v1/perps/leverage',
+      { market, leverage: String(leverage) },
+    );
+    return adaptLeverageSettings(settings);
+  }
+
+  /**
+   * Sets whether a market's position uses the shared account margin (cross)
+   * or only the margin assigned to it (isolated). The exchange may reject the
+   * change while the market has an open position or orders.
+   *
+   * @param market - Market symbol
+   * @param marginMode - Cross or isolated margin
+   * @returns The leverage settings of the market
+   *
+   * @example
+   * ```typescript
+   * await client.setMarginMode('BTC-USD.P', MarginMode.ISOLATED);
+   * ```
+   */
+  public async setMarginMode(market: string, marginMode: MarginMode): Promise<LeverageSettings> {
+    const settings = await this.requestWithWrapper<ApiLeverageSettings>(
+      'POST',
+      '/v1/perps/margin_mode',
+      { market, marginMode },
+    );
+    return adaptLeverageSettings(settings);
   }
 
   /**
@@ -440,15 +1560,19 @@ export class EnclaveClient {
     triggerPrice: Decimal,
     options: CreateStopOrderOptions = {},
   ): Promise<StopOrder> {
-    const marketInfo = await this.getMarket(market);
-    const roundedPrice = roundDown(triggerPrice, new Decimal(marketInfo.quoteIncrement));
+    const validated = await this.validateOrder(market, {
+      triggerPrice,
+      size: options.size,
+      reduceOnly: options.reduceOnly,
+    });
 
     const body = {
       market,
       positionDirection,
       type,
-      triggerPrice: roundedPrice.toString(),
+      triggerPrice: validated.triggerPrice!.toString(),
       ...options,
+      ...(validated.size && { size: validated.size.toString() }),
     };
 
     return this.requestWithWrapper<StopOrder>('POST', '/v1/perps/stop_order', body);
@@ -579,27 +1703,191 @@ export class EnclaveClient {
   }
 
   /**
-   * Fetches trade history.
+   * Fetches the current mark price, index price and funding rate of a perpetual market.
    *
-   * @param market - Optional market filter
+   * @param market - Market symbol
+   * @returns Latest price snapshot, in the same shape as `subscribePrices()` updates
+   *
+   * @example
+   * ```typescript
+   * const { markPrice, indexPrice } = await client.getPrices('BTC-USD.P');
+   * console.log(`Basis: ${Number(markPrice) - Number(indexPrice)}`);
+   * ```
+   */
+  public async getPrices(market: string): Promise<PriceUpdate> {
+    const response = await this.requestWithWrapper<ApiPriceUpdate>(
+      'GET',
+      `/v1/perps/prices?market=${market}`,
+    );
+    return adaptPriceUpdate(response);
+  }
+
+  /**
+   * Fetches the mark price of a perpetual market, the price positions are valued
+   * and liquidated at.
+   *
+   * @param market - Market symbol
+   * @returns Mark price as a string
+   *
+   * @example
+   * ```typescript
+   * const mark = await client.getMarkPrice('BTC-USD.P');
+   * const pnl = calculateUnrealizedPnl(position, mark);
+   * ```
+   */
+  public async getMarkPrice(market: string): Promise<string> {
+    return (await this.getPrices(market)).markPrice;
+  }
+
+  /**
+   * Fetches the index price of a perpetual market, the spot reference funding is measured against.
+   *
+   * @param market - Market symbol
+   * @returns Index price as a string
+   */
+  public async getIndexPrice(market: string): Promise<string> {
+    return (await this.getPrices(market)).indexPrice;
+  }
+
+  /**
+   * Fetches public trade history, newest first.
+   *
+   * Public trades carry no fee, order ID or maker flag; use getFills() for the
+   * account's own executions. Use iterateTrades() to walk a longer time range.
+   *
+   * @param market - Optional market filter, or a query with a time range
    * @param limit - Number of trades to fetch
    * @returns Array of trades
    *
    * @example
    * ```typescript
    * const trades = await client.getTrades('BTC-USD.P', 100);
+   * const lastHour = await client.getTrades({
+   *   market: 'BTC-USD.P',
+   *   startTime: Date.now() - 3600000,
+   *   limit: 500,
+   * });
+   * ```
+   */
+  public getTrades(market?: string, limit?: number): Promise<Trade[]>;
+  public getTrades(query: HistoryQuery): Promise<Trade[]>;
+  public async getTrades(marketOrQuery?: string | HistoryQuery, limit = 100): Promise<Trade[]> {
+    const query =
+      typeof marketOrQuery === 'object' ? marketOrQuery : { market: marketOrQuery, limit };
+    return this.fetchTrades(query);
+  }
+
+  /**
+   * Iterates over public trades, newest first, walking back through the time
+   * range page by page. Each page request goes through the rate limiter.
+   *
+   * @param query - Market, time range and page size (default 100)
+   * @param options - Abort signal and item cap
+   * @returns Async iterator of trades
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * for await (const trade of client.iterateTrades(
+   *   { market: 'BTC-USD.P', startTime: Date.now() - 30 * 86400000 },
+   *   { signal: controller.signal },
+   * )) {
+   *   candles.add(trade);
+   * }
    * ```
    */
-  public async getTrades(market?: string, limit = 100): Promise<Trade[]> {
-    const params = new URLSearchParams({ limit: limit.toString() });
-    if (market) params.append('market', market);
+  public iterateTrades(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<Trade, void, undefined> {
+    const limit = query.limit ?? 100;
+    return paginateByTime(
+      (endTime, signal) => this.fetchTrades({ ...query, limit, endTime }, { signal }),
+      limit,
+      query.endTime,
+      options,
+    );
+  }
+
+  private async fetchTrades(query: HistoryQuery, options: RequestOptions = {}): Promise<Trade[]> {
     const response = await this.requestWithWrapper<ApiTrade[]>(
       'GET',
-      `/v1/perps/trades?${params.toString()}`,
+      this.historyPath('/v1/perps/trades', { limit: 100, ...query }),
+      undefined,
+      options,
     );
     return response.map(adaptTrade);
   }
 
+  /**
+   * Fetches OHLCV candles for a perpetual market, oldest first.
+   *
+   * Candles come from `/v1/perps/candles` where the API offers them. When the
+   * endpoint is missing (HTTP 404) the client remembers that and aggregates
+   * public trades for the range instead, which costs one request per 1000
+   * trades. The bar still in progress is included with `closed: false`.
+   *
+   * @param market - Perpetual market symbol
+   * @param interval - Candle width, from '1s' to '1d'
+   * @param query - Time range and maximum number of candles
+   * @param options - Abort signal for the underlying requests
+   * @returns Candles, oldest first
+   * @throws NotFoundError if the market does not exist
+   *
+   * @example
+   * ```typescript
+   * const hourly = await client.getCandles('BTC-USD.P', '1h', { limit: 24 });
+   * const closes = hourly.filter((c) => c.closed).map((c) => new Decimal(c.close));
+   * ```
+   */
+  public async getCandles(
+    market: string,
+    interval: CandleInterval,
+    query: CandleQuery = {},
+    options: RequestOptions = {},
+  ): Promise<Candle[]> {
+    // Resolves unknown markets first so a 404 below can only mean a missing endpoint
+    await this.getMarket(market);
+
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+    const limit = query.limit ?? 100;
+    const endTime = query.endTime ?? Date.now();
+    const startTime =
+      query.startTime ?? getCandleOpenTime(endTime - 1, interval) - (limit - 1) * intervalMs;
+
+    if (!this.candlesUnavailable) {
+      try {
+        const response = await this.requestWithWrapper<ApiCandle[]>(
+          'GET',
+          `/v1/perps/candles?market=${market}&interval=${interval}` +
+            `&startTime=${startTime}&endTime=${endTime}&limit=${limit}`,
+          undefined,
+          options,
+        );
+        return response
+          .map((candle) => adaptCandle(candle, market, interval, intervalMs))
+          .sort((a, b) => a.openTime - b.openTime)
+          .slice(-limit);
+      } catch (error) {
+        if (!(error instanceof NotFoundError && error.statusCode === 404)) throw error;
+        if (this.debug) {
+          console.log('[Enclave Client] Candle endpoint unavailable, aggregating trades');
+        }
+        this.candlesUnavailable = true;
+      }
+    }
+
+    const trades: Trade[] = [];
+    const range = { market, startTime: getCandleOpenTime(startTime, interval), endTime };
+    for await (const trade of this.iterateTrades(
+      { ...range, limit: 1000 },
+      { signal: options.signal },
+    )) {
+      trades.push(trade);
+    }
+    return aggregateTrades(trades, market, interval, { endTime }).slice(-limit);
+  }
+
   /**
    * Fetches the order book for a market.
    *
@@ -628,35 +1916,46 @@ export class EnclaveClient {
   }
 
   /**
-   * Fetches ticker information for markets.
+   * Fetches 24h ticker information for spot markets.
    *
    * NOTE: The ticker endpoint (/v1/ticker) is only available for spot markets.
-   * For perpetual markets, use getTrades() to get the latest price information.
+   * For perpetual markets, use getLatestPrice() or getBidAsk() instead.
    *
-   * @param market - Optional market filter
-   * @returns Ticker or array of tickers
-   * @throws Error - Not available for perpetual markets
+   * @param market - Optional spot market; omit to fetch every ticker
+   * @returns The market's ticker, or all tickers when no market is given
+   * @throws EnclaveError with code VALIDATION_ERROR for perpetual markets
+   * @throws NotFoundError if the exchange has no ticker for the market
    *
    * @example
    * ```typescript
-   * // For perpetual markets, use trades instead:
-   * const trades = await client.getTrades('BTC-USD.P', 1);
-   * const latestPrice = trades[0]?.price;
+   * const ticker = await client.getTicker('AVAX-USDC');
+   * console.log(`Last: ${ticker.last}, 24h change: ${ticker.changePercent24h}%`);
    *
-   * // For orderbook bid/ask, use:
-   * const orderBook = await client.getOrderBook('BTC-USD.P', 1);
-   * const bestBid = orderBook.bids[0]?.[0];
-   * const bestAsk = orderBook.asks[0]?.[0];
+   * const allTickers = await client.getTicker();
    * ```
    */
-  public getTicker(_market?: string): Promise<Ticker | Ticker[]> {
-    // Ticker endpoint only exists for spot markets (/v1/ticker), not for perps
-    return Promise.reject(
-      new Error(
+  public getTicker(market: string): Promise<Ticker>;
+  public getTicker(): Promise<Ticker[]>;
+  public async getTicker(market?: string): Promise<Ticker | Ticker[]> {
+    if (market && (await this.getMarkets()).some((m) => m.market === market)) {
+      throw new EnclaveError(
         'Ticker endpoint is not available for perpetual markets. ' +
           'Use getLatestPrice() or getBidAsk() instead.',
-      ),
-    );
+        { code: EnclaveErrorCode.VALIDATION_ERROR },
+      );
+    }
+
+    const params = market ? `?market=${market}` : '';
+    const response = await this.requestWithWrapper<ApiTicker[]>('GET', `/v1/ticker${params}`);
+    const tickers = response.map(adaptTicker);
+    if (!market) {
+      return tickers;
+    }
+    const found = tickers.find((t) => t.market === market);
+    if (!found) {
+      throw new NotFoundError(`Ticker for ${market} not found`, '/v1/ticker', 'GET');
+    }
+    return found;
   }
 
   /**
@@ -704,6 +2003,577 @@ export class EnclaveClient {
     return { bid, ask, spread };
   }
 
+  // ==================== History Methods ====================
+
+  /**
+   * Fetches one page of the account's perps fills, newest first.
+   *
+   * @param query - Market, time range, page size and cursor
+   * @returns Fills with real fee, order ID and maker flag, and the next page cursor
+   *
+   * @example
+   * ```typescript
+   * const page = await client.getFills({ market: 'BTC-USD.P', startTime: Date.now() - 86400000 });
+   * const fees = page.items.reduce((sum, f) => sum.plus(f.fee), new Decimal(0));
+   * ```
+   */
+  public async getFills(query: HistoryQuery = {}): Promise<Page<Trade>> {
+    return this.getHistory<ApiFill, Trade>('/v1/perps/fills', query, adaptFill);
+  }
+
+  /**
+   * Fetches one page of funding payments, newest first.
+   *
+   * @param query - Market, time range, page size and cursor
+   * @returns Funding payments (positive when received) and the next page cursor
+   *
+   * @example
+   * ```typescript
+   * const { items } = await client.getFundingPayments({ market: 'BTC-USD.P' });
+   * ```
+   */
+  public async getFundingPayments(query: HistoryQuery = {}): Promise<Page<FundingPayment>> {
+    return this.getHistory<ApiFundingPayment, FundingPayment>(
+      '/v1/perps/funding_payments',
+      query,
+      adaptFundingPayment,
+    );
+  }
+
+  /**
+   * Fetches one page of deposit history, newest first.
+   *
+   * @param query - Time range, page size and cursor (`market` is ignored)
+   * @returns Deposits and the next page cursor
+   */
+  public async getDeposits(query: HistoryQuery = {}): Promise<Page<Deposit>> {
+    return this.getHistory<ApiDeposit, Deposit>('/v1/deposits', query, adaptDeposit);
+  }
+
+  /**
+   * Fetches one page of withdrawal history, newest first.
+   *
+   * @param query - Time range, page size and cursor (`market` is ignored)
+   * @returns Withdrawals and the next page cursor
+   */
+  public async getWithdrawals(query: HistoryQuery = {}): Promise<Page<Withdrawal>> {
+    return this.getHistory<ApiWithdrawal, Withdrawal>('/v1/withdrawals', query, adaptWithdrawal);
+  }
+
+  /**
+   * Fetches one page of transfers between the account's spot, perps and cross wallets.
+   *
+   * @param query - Time range, page size and cursor (`market` is ignored)
+   * @returns Transfers and the next page cursor
+   */
+  public async getTransfers(query: HistoryQuery = {}): Promise<Page<Transfer>> {
+    return this.getHistory<ApiTransfer, Transfer>('/v1/transfers', query, adaptTransfer);
+  }
+
+  /**
+   * Fetches one page of the account ledger: every balance change with its
+   * cause (trade, fee, funding, deposit, ...) and the resulting balance.
+   *
+   * @param query - Market, time range, page size and cursor
+   * @returns Ledger entries, newest first, and the next page cursor
+   *
+   * @example
+   * ```typescript
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await client.getLedger({ startTime, endTime, cursor });
+   *   page.items.forEach(record);
+   *   cursor = page.nextCursor;
+   * } while (cursor);
+   * ```
+   */
+  public async getLedger(query: HistoryQuery = {}): Promise<Page<LedgerEntry>> {
+    return this.getHistory<ApiLedgerEntry, LedgerEntry>('/v1/ledger', query, adaptLedgerEntry);
+  }
+
+  /**
+   * Iterates over every perps fill in the query range, following page cursors.
+   * Each page request goes through the rate limiter.
+   *
+   * @param query - Market, time range and page size
+   * @param options - Abort signal and item cap
+   * @returns Async iterator of fills
+   *
+   * @example
+   * ```typescript
+   * for await (const fill of client.iterateFills({ startTime: monthStart, endTime: monthEnd })) {
+   *   report.add(fill);
+   * }
+   * ```
+   */
+  public iterateFills(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<Trade, void, undefined> {
+    return this.iterateHistory<ApiFill, Trade>('/v1/perps/fills', query, adaptFill, options);
+  }
+
+  /**
+   * Iterates over every funding payment in the query range. See iterateFills().
+   */
+  public iterateFundingPayments(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<FundingPayment, void, undefined> {
+    return this.iterateHistory<ApiFundingPayment, FundingPayment>(
+      '/v1/perps/funding_payments',
+      query,
+      adaptFundingPayment,
+      options,
+    );
+  }
+
+  /**
+   * Iterates over every deposit in the query range. See iterateFills().
+   */
+  public iterateDeposits(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<Deposit, void, undefined> {
+    return this.iterateHistory<ApiDeposit, Deposit>('/v1/deposits', query, adaptDeposit, options);
+  }
+
+  /**
+   * Iterates over every withdrawal in the query range. See iterateFills().
+   */
+  public iterateWithdrawals(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<Withdrawal, void, undefined> {
+    return this.iterateHistory<ApiWithdrawal, Withdrawal>(
+      '/v1/withdrawals',
+      query,
+      adaptWithdrawal,
+      options,
+    );
+  }
+
+  /**
+   * Iterates over every transfer in the query range. See iterateFills().
+   */
+  public iterateTransfers(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<Transfer, void, undefined> {
+    return this.iterateHistory<ApiTransfer, Transfer>(
+      '/v1/transfers',
+      query,
+      adaptTransfer,
+      options,
+    );
+  }
+
+  /**
+   * Iterates over every ledger entry in the query range. See iterateFills().
+   */
+  public iterateLedger(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<LedgerEntry, void, undefined> {
+    return this.iterateHistory<ApiLedgerEntry, LedgerEntry>(
+      '/v1/ledger',
+      query,
+      adaptLedgerEntry,
+      options,
+    );
+  }
+
+  /**
+   * Fetches one page of a cursor-paginated history endpoint
+   */
+  private async getHistory<A, T>(
+    path: string,
+    query: HistoryQuery,
+    adapt: (item: A) => T,
+    options: RequestOptions = {},
+  ): Promise<Page<T>> {
+    const page = await this.requestWithWrapper<ApiPage<A>>(
+      'GET',
+      this.historyPath(path, query),
+      undefined,
+      options,
+    );
+    return adaptPage(page, adapt);
+  }
+
+  /**
+   * Walks every page of a cursor-paginated history endpoint
+   */
+  private iterateHistory<A, T>(
+    path: string,
+    query: Omit<HistoryQuery, 'cursor'>,
+    adapt: (item: A) => T,
+    options: PaginateOptions,
+  ): AsyncGenerator<T, void, undefined> {
+    return paginate(
+      (cursor, signal) => this.getHistory(path, { ...query, cursor }, adapt, { signal }),
+      options,
+    );
+  }
+
+  /**
+   * Appends the query string of a history query to a path
+   */
+  private historyPath(path: string, query: HistoryQuery): string {
+    const params = new URLSearchParams();
+    if (query.market) params.append('market', query.market);
+    if (query.startTime !== undefined) params.append('startTime', query.startTime.toString());
+    if (query.endTime !== undefined) params.append('endTime', query.endTime.toString());
+    if (query.limit !== undefined) params.append('limit', query.limit.toString());
+    if (query.cursor) params.append('cursor', query.cursor);
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+  }
+
+  // ==================== Spot Methods ====================
+
+  /**
+   * Creates a limit order on a spot market.
+   *
+   * @param market - Spot market symbol (e.g., "AVAX-USDC")
+   * @param side - Order side (BUY or SELL)
+   * @param size - Order size (will be rounded to base increment)
+   * @param price - Limit price (will be rounded to quote increment)
+   * @param options - Optional order parameters
+   * @returns Created order
+   *
+   * @example
+   * ```typescript
+   * const order = await client.createSpotLimitOrder(
+   *   'AVAX-USDC',
+   *   OrderSide.BUY,
+   *   new Decimal(10),
+   *   new Decimal(25),
+   *   { postOnly: true }
+   * );
+   * ```
+   */
+  public async createSpotLimitOrder(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    price: Decimal,
+    options: CreateSpotOrderOptions = {},
+  ): Promise<Order> {
+    const validated = await this.validateSpotOrder(market, {
+      side,
+      type: OrderType.LIMIT,
+      size,
+      price,
+    });
+
+    const body = {
+      market,
+      side,
+      type: OrderType.LIMIT,
+      size: validated.size!.toString(),
+      price: validated.price!.toString(),
+      ...options,
+    };
+
+    return this.submitOrder(SPOT_ORDERS_PATH, body);
+  }
+
+  /**
+   * Creates a market order on a spot market.
+   *
+   * @param market - Spot market symbol
+   * @param side - Order side (BUY or SELL)
+   * @param size - Order size for SELL, quote size for BUY
+   * @param options - Optional order parameters
+   * @returns Created order
+   *
+   * @example
+   * ```typescript
+   * // Spend 100 USDC on AVAX
+   * const order = await client.createSpotMarketOrder('AVAX-USDC', OrderSide.BUY, new Decimal(100));
+   * ```
+   */
+  public async createSpotMarketOrder(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    options: CreateSpotOrderOptions = {},
+  ): Promise<Order> {
+    const validated = await this.validateSpotOrder(market, {
+      side,
+      type: OrderType.MARKET,
+      ...(side === OrderSide.BUY ? { quoteSize: size } : { size }),
+    });
+
+    const body: Record<string, unknown> = {
+      market,
+      side,
+      type: OrderType.MARKET,
+      ...options,
+    };
+
+    if (side === OrderSide.BUY) {
+      body.quoteSize = validated.quoteSize!.toString();
+    } else {
+      body.size = validated.size!.toString();
+    }
+
+    return this.submitOrder(SPOT_ORDERS_PATH, body);
+  }
+
+  /**
+   * Validates spot order values against the spot market specs without sending anything.
+   *
+   * @param market - Spot market symbol
+   * @param params - Order values to check
+   * @returns The values rounded to the market increments
+   * @throws OrderValidationError listing every violated rule, or if the market is disabled
+   */
+  public async validateSpotOrder(
+    market: string,
+    params: Omit<OrderValidationParams, 'reduceOnly' | 'leverage' | 'positionSize'>,
+  ): Promise<ValidatedOrder> {
+    return this.validateListedOrder(await this.getSpotMarket(market), params);
+  }
+
+  /**
+   * Validates an order for a spot or cross market, which have no leverage or position limits
+   */
+  private validateListedOrder(
+    marketInfo: SpotMarket | CrossMarket,
+    params: OrderValidationParams,
+  ): ValidatedOrder {
+    if (marketInfo.disabled) {
+      throw new OrderValidationError(marketInfo.market, [
+        {
+          field: 'market',
+          message: `market ${marketInfo.market} is disabled`,
+          value: marketInfo.market,
+        },
+      ]);
+    }
+    return validateOrder(marketInfo, params, { strict: this.validation.strict });
+  }
+
+  /**
+   * Cancels an open spot order.
+   *
+   * @param orderId - The order ID to cancel
+   * @returns The cancelled order
+   */
+  public async cancelSpotOrder(orderId: string): Promise<Order> {
+    const order = await this.requestWithWrapper<ApiOrder>(
+      'DELETE',
+      `${SPOT_ORDERS_PATH}/${orderId}`,
+    );
+    return adaptOrder(order);
+  }
+
+  /**
+   * Cancels all open spot orders for a market or all spot markets.
+   *
+   * @param market - Optional market to cancel orders for
+   * @returns Array of cancelled orders
+   */
+  public async cancelAllSpotOrders(market?: string): Promise<Order[]> {
+    const params = market ? `?market=${market}` : '';
+    const orders = await this.requestWithWrapper<ApiOrder[]>(
+      'DELETE',
+      `${SPOT_ORDERS_PATH}${params}`,
+    );
+    return orders.map(adaptOrder);
+  }
+
+  /**
+   * Fetches open spot orders.
+   *
+   * @param market - Optional market filter
+   * @returns Array of open orders
+   */
+  public async getSpotOrders(market?: string): Promise<Order[]> {
+    const params = market ? `?market=${market}` : '';
+    const orders = await this.requestWithWrapper<ApiOrder[]>('GET', `${SPOT_ORDERS_PATH}${params}`);
+    return orders.map(adaptOrder);
+  }
+
+  /**
+   * Fetches a specific spot order by ID.
+   *
+   * @param orderId - The order ID
+   * @returns Order details
+   */
+  public async getSpotOrder(orderId: string): Promise<Order> {
+    const order = await this.requestWithWrapper<ApiOrder>('GET', `${SPOT_ORDERS_PATH}/${orderId}`);
+    return adaptOrder(order);
+  }
+
+  /**
+   * Fetches spot wallet balances.
+   *
+   * @returns Balance of every asset held
+   *
+   * @example
+   * ```typescript
+   * const balances = await client.getSpotBalances();
+   * const usdc = balances.find(b => b.asset === 'USDC');
+   * console.log(`Available USDC: ${usdc?.available}`);
+   * ```
+   */
+  public async getSpotBalances(): Promise<SpotBalance[]> {
+    const balances = await this.requestWithWrapper<ApiSpotBalance[]>('GET', '/v1/balances');
+    return balances.map(adaptSpotBalance);
+  }
+
+  /**
+   * Fetches one page of the account's spot fills, newest first.
+   *
+   * @param query - Market, time range, page size and cursor
+   * @returns Fills with order ID, fee and maker flag, and the next page cursor
+   *
+   * @example
+   * ```typescript
+   * const { items } = await client.getSpotFills({ market: 'AVAX-USDC', limit: 50 });
+   * ```
+   */
+  public async getSpotFills(query: HistoryQuery = {}): Promise<Page<Trade>> {
+    return this.getHistory<ApiFill, Trade>('/v1/fills', query, adaptFill);
+  }
+
+  /**
+   * Iterates over every spot fill in the query range. See iterateFills().
+   */
+  public iterateSpotFills(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<Trade, void, undefined> {
+    return this.iterateHistory<ApiFill, Trade>('/v1/fills', query, adaptFill, options);
+  }
+
+  // ==================== Cross Methods ====================
+
+  /**
+   * Creates an order on a cross (dark pool) market.
+   *
+   * Cross orders are not shown in any public book and match at the cross price.
+   * An optional `price` caps the worst acceptable cross price.
+   *
+   * @param market - Cross market symbol
+   * @param side - Order side (BUY or SELL)
+   * @param size - Order size in base units (will be rounded to base increment)
+   * @param options - Optional clientOrderId and price limit
+   * @returns Created order
+   *
+   * @example
+   * ```typescript
+   * const order = await client.createCrossOrder('BTC-USDC', OrderSide.BUY, new Decimal(2), {
+   *   price: '50000',
+   * });
+   * ```
+   */
+  public async createCrossOrder(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    options: CreateCrossOrderOptions = {},
+  ): Promise<Order> {
+    const validated = this.validateListedOrder(await this.getCrossMarket(market), {
+      side,
+      size,
+      price: options.price,
+    });
+
+    const body = {
+      market,
+      side,
+      ...options,
+      size: validated.size!.toString(),
+      ...(validated.price && { price: validated.price.toString() }),
+    };
+
+    return this.submitOrder(CROSS_ORDERS_PATH, body);
+  }
+
+  /**
+   * Cancels an open cross order.
+   *
+   * @param orderId - The order ID to cancel
+   * @returns The cancelled order
+   */
+  public async cancelCrossOrder(orderId: string): Promise<Order> {
+    const order = await this.requestWithWrapper<ApiOrder>(
+      'DELETE',
+      `${CROSS_ORDERS_PATH}/${orderId}`,
+    );
+    return adaptOrder(order);
+  }
+
+  /**
+   * Cancels all open cross orders for a market or all cross markets.
+   *
+   * @param market - Optional market to cancel orders for
+   * @returns Array of cancelled orders
+   */
+  public async cancelAllCrossOrders(market?: string): Promise<Order[]> {
+    const params = market ? `?market=${market}` : '';
+    const orders = await this.requestWithWrapper<ApiOrder[]>(
+      'DELETE',
+      `${CROSS_ORDERS_PATH}${params}`,
+    );
+    return orders.map(adaptOrder);
+  }
+
+  /**
+   * Fetches open cross orders.
+   *
+   * @param market - Optional market filter
+   * @returns Array of open orders
+   */
+  public async getCrossOrders(market?: string): Promise<Order[]> {
+    const params = market ? `?market=${market}` : '';
+    const orders = await this.requestWithWrapper<ApiOrder[]>(
+      'GET',
+      `${CROSS_ORDERS_PATH}${params}`,
+    );
+    return orders.map(adaptOrder);
+  }
+
+  /**
+   * Fetches a specific cross order by ID.
+   *
+   * @param orderId - The order ID
+   * @returns Order details
+   */
+  public async getCrossOrder(orderId: string): Promise<Order> {
+    const order = await this.requestWithWrapper<ApiOrder>('GET', `${CROSS_ORDERS_PATH}/${orderId}`);
+    return adaptOrder(order);
+  }
+
+  /**
+   * Fetches one page of the account's cross fills, newest first.
+   *
+   * @param query - Market, time range, page size and cursor
+   * @returns Fills with order ID and fee, and the next page cursor
+   *
+   * @example
+   * ```typescript
+   * const { items } = await client.getCrossFills({ market: 'BTC-USDC' });
+   * ```
+   */
+  public async getCrossFills(query: HistoryQuery = {}): Promise<Page<Trade>> {
+    return this.getHistory<ApiFill, Trade>('/v1/cross/fills', query, adaptFill);
+  }
+
+  /**
+   * Iterates over every cross fill in the query range. See iterateFills().
+   */
+  public iterateCrossFills(
+    query: Omit<HistoryQuery, 'cursor'> = {},
+    options: PaginateOptions = {},
+  ): AsyncGenerator<Trade, void, undefined> {
+    return this.iterateHistory<ApiFill, Trade>('/v1/cross/fills', query, adaptFill, options);
+  }
+
   // ==================== WebSocket Methods ====================
 
   /**
@@ -722,10 +2592,14 @@ export class EnclaveClient {
   public async connectWebSocket(): Promise<void> {
     if (!this.wsClient) {
       this.wsClient = new WebSocketClient({
+        ...this.wsConfig,
         auth: this.auth,
         environment: this.environment,
+        url: this.wsUrl,
         debug: this.debug,
       });
+      this.safeguard?.attach(this.wsClient);
+      this.recovery?.attach(this.wsClient);
     }
 
     return this.wsClient.connect();
@@ -736,6 +2610,8 @@ export class EnclaveClient {
    */
   public disconnectWebSocket(): void {
     if (this.wsClient) {
+      this.safeguard?.detach();
+      this.recovery?.detach();
       this.wsClient.disconnect();
       this.wsClient = undefined;
     }
@@ -746,6 +2622,7 @@ export class EnclaveClient {
    *
    * @param market - Market symbol
    * @param handler - Callback function for trade updates
+   * @returns Promise that resolves when the server acknowledges the subscription
    *
    * @example
    * ```typescript
@@ -754,17 +2631,17 @@ export class EnclaveClient {
    * });
    * ```
    */
-  public subscribeTrades(market: string, handler: MessageHandler): void {
+  public subscribeTrades(market: string, handler: MessageHandler<Trade>): Promise<void> {
     if (!this.wsClient) {
       throw new Error('WebSocket not connected. Call connectWebSocket() first.');
     }
-    this.wsClient.subscribe(WebSocketChannel.TRADES, handler, market);
+    return this.wsClient.subscribe(WebSocketChannel.TRADES, handler, market);
   }
 
   /**
    * Unsubscribe from trade updates.
    */
-  public unsubscribeTrades(market: string, handler?: MessageHandler): void {
+  public unsubscribeTrades(market: string, handler?: MessageHandler<Trade>): void {
     if (this.wsClient) {
       this.wsClient.unsubscribe(WebSocketChannel.TRADES, handler, market);
     }
@@ -775,6 +2652,7 @@ export class EnclaveClient {
    *
    * @param market - Market symbol
    * @param handler - Callback function for order book updates
+   * @returns Promise that resolves when the server acknowledges the subscription
    *
    * @example
    * ```typescript
@@ -783,17 +2661,17 @@ export class EnclaveClient {
    * });
    * ```
    */
-  public subscribeOrderBook(market: string, handler: MessageHandler): void {
+  public subscribeOrderBook(market: string, handler: MessageHandler<OrderBook>): Promise<void> {
     if (!this.wsClient) {
       throw new Error('WebSocket not connected. Call connectWebSocket() first.');
     }
-    this.wsClient.subscribe(WebSocketChannel.ORDERBOOK, handler, market);
+    return this.wsClient.subscribe(WebSocketChannel.ORDERBOOK, handler, market);
   }
 
   /**
    * Unsubscribe from order book updates.
    */
-  public unsubscribeOrderBook(market: string, handler?: MessageHandler): void {
+  public unsubscribeOrderBook(market: string, handler?: MessageHandler<OrderBook>): void {
     if (this.wsClient) {
       this.wsClient.unsubscribe(WebSocketChannel.ORDERBOOK, handler, market);
     }
@@ -803,6 +2681,7 @@ export class EnclaveClient {
    * Subscribe to real-time order updates (requires authentication).
    *
    * @param handler - Callback function for order updates
+   * @returns Promise that resolves when the server acknowledges the subscription
    *
    * @example
    * ```typescript
@@ -811,20 +2690,20 @@ export class EnclaveClient {
    * });
    * ```
    */
-  public subscribeOrders(handler: MessageHandler): void {
+  public subscribeOrders(handler: MessageHandler<Order>): Promise<void> {
     if (!this.wsClient) {
       throw new Error('WebSocket not connected. Call connectWebSocket() first.');
     }
     if (!this.auth) {
       throw new Error('Authentication required for order subscription.');
     }
-    this.wsClient.subscribe(WebSocketChannel.ORDERS, handler);
+    return this.wsClient.subscribe(WebSocketChannel.ORDERS, handler);
   }
 
   /**
    * Unsubscribe from order updates.
    */
-  public unsubscribeOrders(handler?: MessageHandler): void {
+  public unsubscribeOrders(handler?: MessageHandler<Order>): void {
     if (this.wsClient) {
       this.wsClient.unsubscribe(WebSocketChannel.ORDERS, handler);
     }
@@ -834,6 +2713,7 @@ export class EnclaveClient {
    * Subscribe to real-time position updates (requires authentication).
    *
    * @param handler - Callback function for position updates
+   * @returns Promise that resolves when the server acknowledges the subscription
    *
    * @example
    * ```typescript
@@ -842,25 +2722,172 @@ export class EnclaveClient {
    * });
    * ```
    */
-  public subscribePositions(handler: MessageHandler): void {
+  public subscribePositions(handler: MessageHandler<Position>): Promise<void> {
     if (!this.wsClient) {
       throw new Error('WebSocket not connected. Call connectWebSocket() first.');
     }
     if (!this.auth) {
       throw new Error('Authentication required for position subscription.');
     }
-    this.wsClient.subscribe(WebSocketChannel.POSITIONS, handler);
+    return this.wsClient.subscribe(WebSocketChannel.POSITIONS, handler);
   }
 
   /**
    * Unsubscribe from position updates.
    */
-  public unsubscribePositions(handler?: MessageHandler): void {
+  public unsubscribePositions(handler?: MessageHandler<Position>): void {
     if (this.wsClient) {
       this.wsClient.unsubscribe(WebSocketChannel.POSITIONS, handler);
     }
   }
 
+  /**
+   * Subscribe to real-time mark price, index price and funding rate updates.
+   *
+   * @param market - Market symbol
+   * @param handler - Callback function for price updates
+   * @returns Promise that resolves when the server acknowledges the subscription
+   *
+   * @example
+   * ```typescript
+   * client.subscribePrices('BTC-USD.P', (price) => {
+   *   position = markPosition(position, price.markPrice);
+   *   console.log(`Unrealized PnL: ${position.unrealizedPnl}`);
+   * });
+   * ```
+   */
+  public subscribePrices(market: string, handler: MessageHandler<PriceUpdate>): Promise<void> {
+    if (!this.wsClient) {
+      throw new Error('WebSocket not connected. Call connectWebSocket() first.');
+    }
+    return this.wsClient.subscribe(WebSocketChannel.PRICES, handler, market);
+  }
+
+  /**
+   * Unsubscribe from price updates.
+   */
+  public unsubscribePrices(market: string, handler?: MessageHandler<PriceUpdate>): void {
+    if (this.wsClient) {
+      this.wsClient.unsubscribe(WebSocketChannel.PRICES, handler, market);
+    }
+  }
+
+  /**
+   * Subscribe to deposit notifications (requires authentication).
+   *
+   * @param handler - Callback function for deposit updates
+   * @returns Promise that resolves when the server acknowledges the subscription
+   *
+   * @example
+   * ```typescript
+   * client.subscribeDeposits((deposit) => {
+   *   console.log(`Deposit of ${deposit.amount} ${deposit.asset}: ${deposit.status}`);
+   * });
+   * ```
+   */
+  public subscribeDeposits(handler: MessageHandler<Deposit>): Promise<void> {
+    if (!this.wsClient) {
+      throw new Error('WebSocket not connected. Call connectWebSocket() first.');
+    }
+    if (!this.auth) {
+      throw new Error('Authentication required for deposit subscription.');
+    }
+    return this.wsClient.subscribe(WebSocketChannel.DEPOSITS, handler);
+  }
+
+  /**
+   * Unsubscribe from deposit updates.
+   */
+  public unsubscribeDeposits(handler?: MessageHandler<Deposit>): void {
+    if (this.wsClient) {
+      this.wsClient.unsubscribe(WebSocketChannel.DEPOSITS, handler);
+    }
+  }
+
+  /**
+   * Streams real-time trades as an async iterable. Breaking out of the loop unsubscribes.
+   *
+   * @param market - Market symbol
+   * @param options - Buffer size, overflow policy and abort signal
+   *
+   * @example
+   * ```typescript
+   * for await (const trade of client.streamTrades('BTC-USD.P')) {
+   *   if (strategy.onTrade(trade) === 'done') break;
+   * }
+   * ```
+   */
+  public streamTrades(market: string, options?: StreamOptions): ChannelStream<Trade> {
+    return this.requireWebSocket().stream(WebSocketChannel.TRADES, market, options);
+  }
+
+  /**
+   * Streams real-time order book updates as an async iterable. See streamTrades().
+   *
+   * @example
+   * ```typescript
+   * // Conflate so a slow consumer always sees the latest book
+   * const books = client.streamOrderBook('BTC-USD.P', {
+   *   bufferSize: 1,
+   *   overflow: OverflowPolicy.CONFLATE,
+   * });
+   * ```
+   */
+  public streamOrderBook(market: string, options?: StreamOptions): ChannelStream<OrderBook> {
+    return this.requireWebSocket().stream(WebSocketChannel.ORDERBOOK, market, options);
+  }
+
+  /**
+   * Streams order updates as an async iterable (requires authentication). See streamTrades().
+   */
+  public streamOrders(options?: StreamOptions): ChannelStream<Order> {
+    if (!this.auth) {
+      throw new Error('Authentication required for order subscription.');
+    }
+    return this.requireWebSocket().stream(WebSocketChannel.ORDERS, undefined, options);
+  }
+
+  /**
+   * Streams position updates as an async iterable (requires authentication). See streamTrades().
+   */
+  public streamPositions(options?: StreamOptions): ChannelStream<Position> {
+    if (!this.auth) {
+      throw new Error('Authentication required for position subscription.');
+    }
+    return this.requireWebSocket().stream(WebSocketChannel.POSITIONS, undefined, options);
+  }
+
+  /**
+   * Streams mark and index price updates as an async iterable. See streamTrades().
+   */
+  public streamPrices(market: string, options?: StreamOptions): ChannelStream<PriceUpdate> {
+    return this.requireWebSocket().stream(WebSocketChannel.PRICES, market, options);
+  }
+
+  /**
+   * Streams deposit notifications as an async iterable (requires authentication). See streamTrades().
+   */
+  public streamDeposits(options?: StreamOptions): ChannelStream<Deposit> {
+    if (!this.auth) {
+      throw new Error('Authentication required for deposit subscription.');
+    }
+    return this.requireWebSocket().stream(WebSocketChannel.DEPOSITS, undefined, options);
+  }
+
+  private requireWebSocket(): WebSocketClient {
+    if (!this.wsClient) {
+      throw new Error('WebSocket not connected. Call connectWebSocket() first.');
+    }
+    return this.wsClient;
+  }
+
+  /**
+   * The underlying WebSocket client, if connectWebSocket() has been called.
+   */
+  public get webSocket(): WebSocketClient | undefined {
+    return this.wsClient;
+  }
+
   /**
    * Check if WebSocket is connected.
    */
@@ -0,0 +1,163 @@
+import Decimal from 'decimal.js';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Bracket, BracketManager, BracketStatus } from '../orders/BracketManager';
+import { FileBracketStore, InMemoryBracketStore } from '../orders/BracketStore';
+import { EnclaveClient } from '../EnclaveClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { OrderSide, StopOrderType } from '../../types';
+import { OrderValidationError } from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+function next(manager: BracketManager, event: string): Promise<Bracket> {
+  return new Promise((resolve) => manager.once(event, resolve));
+}
+
+describe('BracketManager', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+  let store: InMemoryBracketStore;
+  let manager: BracketManager;
+
+  beforeEach(async () => {
+    server = new MockEnclaveServer(auth);
+    await server.start();
+    client = new EnclaveClient({ auth, transport: server.transport(), wsUrl: server.wsUrl });
+    await client.connectWebSocket();
+    store = new InMemoryBracketStore();
+    manager = new BracketManager(client, { store, pollInterval: 0 });
+    await manager.start();
+    // Let the subscribe messages reach the server
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  });
+
+  afterEach(async () => {
+    manager.stop();
+    client.disconnectWebSocket();
+    await server.stop();
+  });
+
+  const long = {
+    market: 'BTC-USD.P',
+    side: OrderSide.BUY,
+    size: new Decimal(1),
+    price: new Decimal(50000),
+    stopLoss: new Decimal(49000),
+    takeProfit: new Decimal(52000),
+  };
+
+  it('should reject triggers on the wrong side of the entry without sending it', async () => {
+    const error = await manager
+      .place({ ...long, stopLoss: new Decimal(51000), takeProfit: undefined })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OrderValidationError);
+    expect((error as Error).message).toContain('Stop-loss must be below the entry price');
+    expect(await client.getOrders()).toHaveLength(0);
+  });
+
+  it('should resize legs with each fill and cancel the sibling when one triggers', async () => {
+    const bracket = await manager.place(long);
+    expect(bracket.status).toBe(BracketStatus.OPEN);
+
+    let protectedEvent = next(manager, 'protected');
+    server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '50000', '0.4');
+    expect((await protectedEvent).legs.map((leg) => leg.size)).toEqual(['0.4', '0.4']);
+
+    protectedEvent = next(manager, 'protected');
+    server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '50000', '0.6');
+    await protectedEvent;
+    const stops = await client.getStopOrders('BTC-USD.P');
+    expect(stops.map((s) => [s.type, (s as { size?: string }).size])).toEqual([
+      [StopOrderType.STOP_LOSS, '1'],
+      [StopOrderType.TAKE_PROFIT, '1'],
+    ]);
+
+    const closed = next(manager, 'closed');
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '51900', '2');
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '52000', '1');
+    server.exchange.executeExternal('BTC-USD.P', OrderSide.BUY, '52000', '0.1');
+
+    await expect(closed).resolves.toMatchObject({
+      status: BracketStatus.CLOSED,
+      closedBy: StopOrderType.TAKE_PROFIT,
+    });
+    expect(await client.getStopOrders('BTC-USD.P')).toHaveLength(0);
+    expect(await store.load()).toHaveLength(0);
+  });
+
+  it('should keep a bracket whose legs failed for the next check', async () => {
+    jest
+      .spyOn(client, 'createStopOrder')
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    const bracket = await manager.place(long);
+    const updated = next(manager, 'update');
+    server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '50000', '1');
+    await updated;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(manager.listenerCount('error')).toBe(0);
+    expect(manager.get(bracket.id)?.status).toBe(BracketStatus.ACTIVE);
+    expect(await client.getStopOrders('BTC-USD.P')).toHaveLength(0);
+
+    const protectedEvent = next(manager, 'protected');
+    manager.checkAll();
+    await protectedEvent;
+    expect(await client.getStopOrders('BTC-USD.P')).toHaveLength(2);
+  });
+
+  it('should resume saved brackets without placing duplicate legs', async () => {
+    await manager.place(long);
+    const protectedEvent = next(manager, 'protected');
+    server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '50000', '1');
+    await protectedEvent;
+    manager.stop();
+
+    // Simulate a crash after a leg was sent but before its ID was saved
+    const [saved] = await store.load();
+    delete saved.legs[1].stopOrderId;
+    await store.save(saved);
+
+    const restarted = new BracketManager(client, { store, pollInterval: 0 });
+    try {
+      await restarted.start();
+
+      const legIds = restarted.getActive()[0].legs.map((leg) => leg.stopOrderId);
+      expect(legIds.every((id) => typeof id === 'string')).toBe(true);
+      expect(await client.getStopOrders('BTC-USD.P')).toHaveLength(2);
+    } finally {
+      restarted.stop();
+    }
+  });
+});
+
+describe('FileBracketStore', () => {
+  it('should persist brackets across instances', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'brackets-'));
+    const path = join(dir, 'brackets.json');
+    const bracket = {
+      id: 'b1',
+      market: 'BTC-USD.P',
+      side: OrderSide.BUY,
+      size: '1',
+      status: BracketStatus.OPEN,
+      entryClientOrderId: 'entry-1',
+      filledSize: '0',
+      legs: [],
+      staleLegs: [],
+      createdAt: 1,
+      updatedAt: 1,
+    };
+    try {
+      const first = new FileBracketStore(path);
+      await Promise.all([first.save(bracket), first.save({ ...bracket, id: 'b2' })]);
+      await first.delete('b2');
+
+      await expect(new FileBracketStore(path).load()).resolves.toEqual([bracket]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { CandleBuilder, CandleBuilderSource } from '../candles/CandleBuilder';
+import { WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+import { Candle, OrderSide, Trade, WebSocketMessage } from '../../types';
+import { emptyCandle } from '../../utils/candles';
+
+const MINUTE = 60000;
+const NOW = 10 * MINUTE + 30000;
+
+function receive(ws: WebSocketClient, message: WebSocketMessage): void {
+  (ws as unknown as { handleMessage(m: WebSocketMessage): void }).handleMessage(message);
+}
+
+function trade(id: string, price: string, time: number): Trade {
+  return {
+    id,
+    market: 'BTC-USD.P',
+    side: OrderSide.BUY,
+    price,
+    size: '1',
+    fee: '0',
+    timestamp: time,
+    orderId: '',
+    maker: false,
+  };
+}
+
+function streamTrade(ws: WebSocketClient, id: string, price: string, time: number): void {
+  receive(ws, {
+    channel: WebSocketChannel.TRADES,
+    type: 'update',
+    data: {
+      id,
+      market: 'BTC-USD.P',
+      price,
+      size: '1',
+      cost: price,
+      aggressor_side: 'buy',
+      time: new Date(time).toISOString(),
+    },
+  });
+}
+
+describe('CandleBuilder', () => {
+  let ws: WebSocketClient;
+  let source: CandleBuilderSource & { getCandles: jest.Mock };
+  let builder: CandleBuilder;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    ws = new WebSocketClient();
+    const closed = (minute: number): Candle => ({
+      ...emptyCandle('BTC-USD.P', '1m', minute * MINUTE, '95'),
+      closed: true,
+    });
+    source = {
+      webSocket: ws,
+      getCandles: jest.fn(() => Promise.resolve([closed(8), closed(9)])),
+      iterateTrades: async function* (): AsyncGenerator<Trade> {
+        yield await Promise.resolve(trade('t2', '105', 10 * MINUTE + 20000));
+        yield trade('t1', '100', 10 * MINUTE + 10000);
+      },
+    };
+    builder = new CandleBuilder(source, 'BTC-USD.P', '1m');
+  });
+
+  afterEach(() => {
+    builder.stop();
+    jest.useRealTimers();
+  });
+
+  it('should require a WebSocket connection', async () => {
+    const detached = new CandleBuilder({ ...source, webSocket: undefined }, 'BTC-USD.P', '1m');
+    await expect(detached.start()).rejects.toThrow('WebSocket not connected');
+  });
+
+  it('should load history and replay buffered stream trades once', async () => {
+    const started = builder.start();
+    streamTrade(ws, 't2', '105', 10 * MINUTE + 20000);
+    streamTrade(ws, 't3', '104', 10 * MINUTE + 25000);
+    await started;
+
+    expect(source.getCandles).toHaveBeenCalledWith('BTC-USD.P', '1m', {
+      endTime: 10 * MINUTE,
+      limit: 100,
+    });
+    expect(builder.getCandles().map((c) => c.openTime / MINUTE)).toEqual([8, 9]);
+    expect(builder.current).toMatchObject({
+      openTime: 10 * MINUTE,
+      open: '100',
+      high: '105',
+      close: '104',
+      trades: 3,
+      closed: false,
+    });
+  });
+
+  it('should close bars, including empty ones, when a later trade arrives', async () => {
+    await builder.start();
+    const events: string[] = [];
+    builder.on('close', (c: Candle) => events.push(`close ${c.openTime / MINUTE} ${c.close}`));
+    builder.on('update', (c: Candle) => events.push(`update ${c.openTime / MINUTE} ${c.close}`));
+
+    streamTrade(ws, 't4', '110', 12 * MINUTE + 1);
+
+    expect(events).toEqual(['close 10 105', 'close 11 105', 'update 12 110']);
+    expect(builder.getCandles(2).map((c) => [c.trades, c.closed])).toEqual([
+      [2, true],
+      [0, true],
+    ]);
+  });
+
+  it('should close the bar on time without a newer trade', async () => {
+    await builder.start();
+    const closed = jest.fn();
+    builder.on('close', closed);
+
+    jest.advanceTimersByTime(30000);
+    expect(closed).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(250);
+
+    expect(closed).toHaveBeenCalledWith(expect.objectContaining({ close: '105', closed: true }));
+    expect(builder.current).toMatchObject({ openTime: 11 * MINUTE, open: '105', trades: 0 });
+  });
+
+  it('should drop trades older than the bar in progress', async () => {
+    await builder.start();
+    const updated = jest.fn();
+    builder.on('update', updated);
+
+    streamTrade(ws, 'late', '1', 9 * MINUTE);
+
+    expect(updated).not.toHaveBeenCalled();
+    expect(builder.current?.low).toBe('100');
+  });
+});
@@ -0,0 +1,145 @@
+import Decimal from 'decimal.js';
+import {
+  ChannelObservable,
+  ChannelStream,
+  OverflowPolicy,
+  StreamSink,
+  StreamSource,
+} from '../websocket/ChannelStream';
+import { WebSocketChannel } from '../websocket/WebSocketClient';
+import { EnclaveClient } from '../EnclaveClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { OrderSide, Trade } from '../../types';
+import { StreamOverflowError } from '../../utils/errors';
+
+/**
+ * Source whose sink is captured for the test to drive
+ */
+function manualSource<T>(): {
+  source: StreamSource<T>;
+  sink: () => StreamSink<T>;
+  stop: jest.Mock;
+} {
+  let captured: StreamSink<T> | undefined;
+  const stop = jest.fn();
+  return {
+    source: (sink): (() => void) => {
+      captured = sink;
+      return stop;
+    },
+    sink: () => captured!,
+    stop,
+  };
+}
+
+async function take<T>(stream: AsyncIterable<T>, count: number): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of stream) {
+    items.push(item);
+    if (items.length === count) break;
+  }
+  return items;
+}
+
+describe('ChannelStream', () => {
+  it('should apply the overflow policy once the buffer is full', async () => {
+    const oldest = manualSource<number>();
+    const dropping = new ChannelStream(oldest.source, { bufferSize: 2 });
+    const latest = manualSource<number>();
+    const conflating = new ChannelStream(latest.source, {
+      bufferSize: 2,
+      overflow: OverflowPolicy.CONFLATE,
+    });
+    for (const value of [1, 2, 3, 4]) {
+      oldest.sink().next(value);
+      latest.sink().next(value);
+    }
+
+    expect(await take(dropping, 2)).toEqual([3, 4]);
+    expect(dropping.dropped).toBe(2);
+    expect(await take(conflating, 2)).toEqual([1, 4]);
+    expect(oldest.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should end with an overflow error after draining the buffer', async () => {
+    const { source, sink, stop } = manualSource<number>();
+    const stream = new ChannelStream(source, { bufferSize: 1, overflow: OverflowPolicy.ERROR });
+    sink().next(1);
+    sink().next(2);
+
+    await expect(stream.next()).resolves.toEqual({ done: false, value: 1 });
+    await expect(stream.next()).rejects.toThrow(StreamOverflowError);
+    await expect(stream.next()).resolves.toEqual({ done: true, value: undefined });
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a pending read when aborted', async () => {
+    const { source, stop } = manualSource<number>();
+    const controller = new AbortController();
+    const stream = new ChannelStream(source, { signal: controller.signal });
+
+    const pending = stream.next();
+    controller.abort(new Error('strategy stopped'));
+
+    await expect(pending).rejects.toThrow('strategy stopped');
+    expect(stop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should deliver to observers until they unsubscribe', () => {
+    const { source, sink, stop } = manualSource<number>();
+    const observable = new ChannelObservable(source);
+    const values: number[] = [];
+
+    const subscription = observable.subscribe((value) => values.push(value));
+    sink().next(1);
+    subscription.unsubscribe();
+    sink().next(2);
+
+    expect(values).toEqual([1]);
+    expect(subscription.closed).toBe(true);
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(observable['@@observable']()).toBe(observable);
+  });
+
+  describe('with the mock server', () => {
+    const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+    let server: MockEnclaveServer;
+    let client: EnclaveClient;
+
+    beforeEach(async () => {
+      server = new MockEnclaveServer(auth);
+      await server.start();
+      client = new EnclaveClient({ auth, transport: server.transport(), wsUrl: server.wsUrl });
+      await client.connectWebSocket();
+    });
+
+    afterEach(async () => {
+      client.disconnectWebSocket();
+      await server.stop();
+    });
+
+    it('should iterate trades and unsubscribe on break', async () => {
+      const ws = client.webSocket!;
+      const trades = client.streamTrades('BTC-USD.P');
+      await new Promise((resolve) => ws.once('subscribed', resolve));
+
+      server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50000', '1');
+      server.exchange.executeExternal('BTC-USD.P', OrderSide.BUY, '50000', '0.1');
+      server.exchange.executeExternal('BTC-USD.P', OrderSide.BUY, '50000', '0.2');
+
+      const received: Trade[] = await take(trades, 2);
+
+      expect(received.map((t) => new Decimal(t.size).toNumber())).toEqual([0.1, 0.2]);
+      expect(ws.getSubscription(WebSocketChannel.TRADES, 'BTC-USD.P')).toBeUndefined();
+    });
+
+    it('should end open streams when the client disconnects', async () => {
+      const orders = client.streamOrders();
+      const next = orders.next();
+
+      client.disconnectWebSocket();
+
+      await expect(next).resolves.toEqual({ done: true, value: undefined });
+    });
+  });
+});
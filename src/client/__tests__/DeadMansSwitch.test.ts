@@ -0,0 +1,156 @@
+import Decimal from 'decimal.js';
+import { DeadMansSwitchOptions } from '../safety/DeadMansSwitch';
+import { EnclaveClient } from '../EnclaveClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { Order, OrderSide } from '../../types';
+import { EnclaveErrorCode } from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('DeadMansSwitch', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+
+  async function setup(options: DeadMansSwitchOptions): Promise<void> {
+    client = new EnclaveClient({
+      auth,
+      transport: server.transport(),
+      wsUrl: server.wsUrl,
+      deadMansSwitch: { signals: [], ...options },
+    });
+    await client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(49000), {
+      clientOrderId: 'mm-1',
+    });
+    await client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(48000), {
+      clientOrderId: 'manual-1',
+    });
+  }
+
+  function cancelled(): Promise<Order[]> {
+    return new Promise((resolve) => client.deadMansSwitch!.once('cancelled', resolve));
+  }
+
+  beforeEach(async () => {
+    server = new MockEnclaveServer(auth);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    client.deadMansSwitch?.stop();
+    client.disconnectWebSocket();
+    await server.stop();
+  });
+
+  it('should cancel tagged orders once heartbeats stop', async () => {
+    await setup({ heartbeatTimeout: 60, clientOrderIdPrefix: 'mm-' });
+    const triggered = jest.fn();
+    client.deadMansSwitch!.on('triggered', triggered);
+
+    for (let i = 0; i < 4; i++) {
+      await sleep(30);
+      client.deadMansSwitch!.heartbeat();
+    }
+    expect(triggered).not.toHaveBeenCalled();
+
+    const orders = await cancelled();
+    expect(triggered).toHaveBeenCalledWith('heartbeat');
+    expect(orders.map((o) => o.clientOrderId)).toEqual(['mm-1']);
+    expect((await client.getOrders()).map((o) => o.clientOrderId)).toEqual(['manual-1']);
+  });
+
+  it('should cancel after a disconnect outlasting the grace window', async () => {
+    await setup({ disconnectGrace: 50 });
+    await client.connectWebSocket();
+
+    const done = cancelled();
+    server.dropConnections();
+
+    await expect(done).resolves.toHaveLength(2);
+    expect(await client.getOrders()).toHaveLength(0);
+  });
+
+  it('should ignore a deliberate disconnect', async () => {
+    await setup({ disconnectGrace: 20 });
+    await client.connectWebSocket();
+    const triggered = jest.fn();
+    client.deadMansSwitch!.on('triggered', triggered);
+
+    client.disconnectWebSocket();
+    await sleep(60);
+
+    expect(triggered).not.toHaveBeenCalled();
+  });
+
+  it('should cancel on a process signal', async () => {
+    // Another handler keeps the switch from re-raising the signal
+    const appHandler = jest.fn();
+    process.on('SIGUSR2', appHandler);
+    try {
+      await setup({ signals: ['SIGUSR2'] });
+
+      const done = cancelled();
+      process.emit('SIGUSR2', 'SIGUSR2');
+
+      await expect(done).resolves.toHaveLength(2);
+      expect(process.listeners('SIGUSR2')).toEqual([appHandler]);
+    } finally {
+      process.off('SIGUSR2', appHandler);
+    }
+  });
+
+  it('should stop waiting for the cancel after the signal timeout', async () => {
+    const appHandler = jest.fn();
+    process.on('SIGUSR2', appHandler);
+    try {
+      await setup({ signals: ['SIGUSR2'], signalTimeout: 20 });
+      jest.spyOn(client, 'cancelAllOrders').mockReturnValue(new Promise(() => undefined));
+      const errors = jest.fn();
+      client.deadMansSwitch!.on('error', errors);
+
+      process.emit('SIGUSR2', 'SIGUSR2');
+      await sleep(40);
+
+      expect(errors).toHaveBeenCalledWith(
+        expect.objectContaining({ code: EnclaveErrorCode.TIMEOUT }),
+      );
+    } finally {
+      process.off('SIGUSR2', appHandler);
+    }
+  });
+
+  it('should log failures without crashing when nothing listens for errors', async () => {
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await setup({ serverTimeout: 30 });
+      jest.spyOn(client, 'cancelAllAfter').mockRejectedValue(new Error('503 Service Unavailable'));
+      await sleep(30);
+
+      expect(client.deadMansSwitch!.listenerCount('error')).toBe(0);
+      expect(logged).toHaveBeenCalledWith(
+        expect.stringContaining('[DeadMansSwitch]'),
+        expect.any(Error),
+      );
+    } finally {
+      client.deadMansSwitch?.stop();
+      await sleep(10);
+      logged.mockRestore();
+    }
+  });
+
+  it('should keep the server-side timer refreshed while running', async () => {
+    await setup({ serverTimeout: 90 });
+    await sleep(150);
+    expect(await client.getOrders()).toHaveLength(2);
+
+    // stop() clears the timer; a final short one stands in for a crashed process
+    client.deadMansSwitch!.stop();
+    await sleep(10);
+    await client.cancelAllAfter(30);
+    await sleep(60);
+    expect(await client.getOrders()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,269 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { Transport, TransportRequest } from '../transport/Transport';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { LimitOrderParams, Order, OrderSide, OrderStatus } from '../../types';
+import {
+  NotFoundError,
+  OrderRejectedError,
+  OrderStateUnknownError,
+  OrderValidationError,
+} from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+function quote(
+  side: OrderSide,
+  price: number,
+  extra: Partial<LimitOrderParams> = {},
+): LimitOrderParams {
+  return {
+    market: 'BTC-USD.P',
+    side,
+    size: new Decimal('0.1'),
+    price: new Decimal(price),
+    ...extra,
+  };
+}
+
+function values(results: PromiseSettledResult<Order>[]): Order[] {
+  return results.flatMap((r) => (r.status === 'fulfilled' ? [r.value] : []));
+}
+
+function reason(result: PromiseSettledResult<Order>): unknown {
+  return result.status === 'rejected' ? result.reason : undefined;
+}
+
+describe('EnclaveClient - Batch orders', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+  let requests: string[];
+  let unsupported: Set<string>;
+  let dropBatchItem: boolean;
+
+  beforeEach(() => {
+    server = new MockEnclaveServer(auth);
+    const inner = server.transport();
+    requests = [];
+    unsupported = new Set();
+    dropBatchItem = false;
+
+    // Records requests and hides endpoints to simulate an exchange without them
+    const transport: Transport = {
+      send: async (request: TransportRequest) => {
+        const route = `${request.method} ${new URL(request.url).pathname}`;
+        requests.push(route);
+        if ([...unsupported].some((r) => route.startsWith(r))) {
+          return { status: 404, headers: {}, body: '{"success":false,"error":"Not Found"}' };
+        }
+        const response = await inner.send(request);
+        if (dropBatchItem && route.endsWith(' /v1/perps/orders/batch')) {
+          const body = JSON.parse(response.body) as { result: unknown[] };
+          body.result.shift();
+          return { ...response, body: JSON.stringify(body) };
+        }
+        return response;
+      },
+    };
+    client = new EnclaveClient({ auth, transport, retryDelay: 1 });
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50100', '1');
+  });
+
+  it('should place a batch in one request with a result per order', async () => {
+    const results = await client.createOrders([
+      quote(OrderSide.BUY, 49900),
+      quote(OrderSide.BUY, 50200, { postOnly: true }),
+      quote(OrderSide.SELL, 50000, { size: new Decimal(0) }),
+    ]);
+
+    expect(requests.filter((r) => r.startsWith('POST'))).toEqual(['POST /v1/perps/orders/batch']);
+    expect(results[0]).toMatchObject({ status: 'fulfilled', value: { price: '49900' } });
+    expect(reason(results[1])).toBeInstanceOf(OrderRejectedError);
+    expect(reason(results[2])).toBeInstanceOf(OrderValidationError);
+  });
+
+  it('should reconcile orders missing from a short batch response', async () => {
+    dropBatchItem = true;
+
+    const results = await client.createOrders([
+      quote(OrderSide.BUY, 49900, { clientOrderId: 'bid-1' }),
+      quote(OrderSide.BUY, 50200, { clientOrderId: 'bid-2', postOnly: true }),
+      quote(OrderSide.BUY, 49800, { clientOrderId: 'bid-3' }),
+    ]);
+
+    // bid-1 was placed and is found; bid-2 was rejected, so it is resent and rejected again
+    expect(results[0]).toMatchObject({ status: 'fulfilled', value: { clientOrderId: 'bid-1' } });
+    expect(reason(results[1])).toBeInstanceOf(OrderRejectedError);
+    expect(results[2]).toMatchObject({ status: 'fulfilled', value: { clientOrderId: 'bid-3' } });
+    expect(requests.filter((r) => r.startsWith('POST'))).toEqual([
+      'POST /v1/perps/orders/batch',
+      'POST /v1/perps/orders',
+    ]);
+    expect(await client.getOrders()).toHaveLength(2);
+  });
+
+  it('should leave an order unknown when a short batch response cannot be reconciled', async () => {
+    dropBatchItem = true;
+    unsupported.add('GET /v1/perps/orders');
+
+    const results = await client.createOrders([quote(OrderSide.BUY, 49900)]);
+
+    expect(reason(results[0])).toBeInstanceOf(OrderStateUnknownError);
+    expect(requests.filter((r) => r.startsWith('POST'))).toHaveLength(1);
+  });
+
+  it('should fall back to individual orders without a batch endpoint', async () => {
+    unsupported.add('POST /v1/perps/orders/batch');
+
+    const first = await client.createOrders([
+      quote(OrderSide.BUY, 49900),
+      quote(OrderSide.BUY, 49800),
+    ]);
+    await client.createOrders([quote(OrderSide.BUY, 49700)], { concurrency: 1 });
+
+    expect(values(first).map((o) => o.price)).toEqual(['49900', '49800']);
+    expect(requests.filter((r) => r.startsWith('POST'))).toEqual([
+      'POST /v1/perps/orders/batch',
+      'POST /v1/perps/orders',
+      'POST /v1/perps/orders',
+      'POST /v1/perps/orders',
+    ]);
+    expect(await client.getOrders()).toHaveLength(3);
+  });
+
+  it('should cancel in batches, by ID or clientOrderId', async () => {
+    const placed = values(
+      await client.createOrders([
+        quote(OrderSide.BUY, 49900, { clientOrderId: 'bid-1' }),
+        quote(OrderSide.BUY, 49800, { clientOrderId: 'bid-2' }),
+      ]),
+    );
+
+    const cancelled = await client.cancelOrders([placed[0].id, 'missing']);
+    expect(cancelled[0]).toMatchObject({
+      status: 'fulfilled',
+      value: { status: OrderStatus.CANCELLED },
+    });
+    expect(reason(cancelled[1])).toBeInstanceOf(NotFoundError);
+
+    const byClientId = await client.cancelOrdersByClientId(['bid-2']);
+    expect(values(byClientId).map((o) => o.id)).toEqual([placed[1].id]);
+    expect(await client.getOrders()).toHaveLength(0);
+  });
+
+  it('should match a short batch cancel response by order ID', async () => {
+    const placed = values(
+      await client.createOrders([quote(OrderSide.BUY, 49900), quote(OrderSide.BUY, 49800)]),
+    );
+    dropBatchItem = true;
+
+    const cancelled = await client.cancelOrders([placed[0].id, placed[1].id]);
+
+    expect(values(cancelled).map((o) => [o.id, o.status])).toEqual([
+      [placed[0].id, OrderStatus.CANCELLED],
+      [placed[1].id, OrderStatus.CANCELLED],
+    ]);
+    expect(requests.filter((r) => r.startsWith('DELETE'))).toEqual([
+      'DELETE /v1/perps/orders/batch',
+    ]);
+  });
+
+  it('should amend a resting order in place', async () => {
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(49900),
+    );
+
+    const amended = await client.amendOrder(order.id, {
+      market: 'BTC-USD.P',
+      price: new Decimal(49950),
+      size: new Decimal('0.5'),
+    });
+
+    expect(amended).toMatchObject({ id: order.id, price: '49950', remainingSize: '0.5' });
+    expect(requests).toContain(`PATCH /v1/perps/orders/${order.id}`);
+  });
+
+  it('should cancel and replace where amending is not supported', async () => {
+    unsupported.add('PATCH /v1/perps/orders/');
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(49900),
+      {
+        postOnly: true,
+      },
+    );
+
+    const replaced = await client.amendOrder(order.id, {
+      market: 'BTC-USD.P',
+      price: new Decimal(49950),
+    });
+
+    expect(replaced).toMatchObject({ price: '49950', size: '1', postOnly: true });
+    expect(replaced.id).not.toBe(order.id);
+    expect((await client.getOrder(order.id)).status).toBe(OrderStatus.CANCELLED);
+    await expect(
+      client.amendOrder('missing', { market: 'BTC-USD.P', price: new Decimal(49950) }),
+    ).rejects.toThrow(NotFoundError);
+  });
+
+  it('should not place a replacement when the order already filled', async () => {
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(50100),
+    );
+
+    await expect(
+      client.replaceOrder(order.id, { market: 'BTC-USD.P', price: new Decimal(49000) }),
+    ).rejects.toThrow('is not open');
+    expect(await client.getOrders()).toHaveLength(0);
+  });
+
+  it('should validate a replacement before cancelling the order', async () => {
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(49900),
+    );
+
+    await expect(
+      client.replaceOrder(order.id, { market: 'BTC-USD.P', size: new Decimal('0.00001') }),
+    ).rejects.toThrow(OrderValidationError);
+    expect(requests.filter((r) => r.startsWith('DELETE'))).toHaveLength(0);
+    expect((await client.getOrder(order.id)).status).toBe(OrderStatus.OPEN);
+  });
+
+  it('should keep the reduce-only flag of a replaced order', async () => {
+    await client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(50100));
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.SELL,
+      new Decimal('0.5'),
+      new Decimal(51000),
+      { reduceOnly: true },
+    );
+
+    const replaced = await client.replaceOrder(order.id, {
+      market: 'BTC-USD.P',
+      price: new Decimal(50900),
+    });
+
+    expect(replaced).toMatchObject({ price: '50900', size: '0.5', reduceOnly: true });
+  });
+
+  it('should not cancel an order without a price to keep', async () => {
+    const order = await client.createMarketOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1000));
+
+    await expect(client.replaceOrder(order.id, { market: 'BTC-USD.P' })).rejects.toThrow(
+      OrderValidationError,
+    );
+    expect(requests.filter((r) => r.startsWith('DELETE'))).toHaveLength(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { URL } from 'url';
+import { EnclaveClient } from '../EnclaveClient';
+import { InMemoryTransport } from '../transport/InMemoryTransport';
+import { DEFAULT_MOCK_MARKETS } from '../../testing/MockExchange';
+import { ApiTrade } from '../../types/api-responses';
+
+const MINUTE = 60000;
+
+function trade(id: string, price: string, time: number): ApiTrade {
+  return {
+    id,
+    market: 'BTC-USD.P',
+    price,
+    size: '1',
+    cost: price,
+    aggressor_side: 'buy',
+    time: new Date(time).toISOString(),
+  };
+}
+
+describe('EnclaveClient - Candles', () => {
+  let transport: InMemoryTransport;
+  let client: EnclaveClient;
+
+  beforeEach(() => {
+    transport = new InMemoryTransport();
+    transport.respondJson('GET', '/v1/markets', {
+      success: true,
+      result: { spot: { tradingPairs: [] }, perps: { tradingPairs: DEFAULT_MOCK_MARKETS } },
+    });
+    client = new EnclaveClient({ transport, retryDelay: 1 });
+  });
+
+  it('should fetch candles from the API when it offers them', async () => {
+    const candle = { open: '1', high: '3', low: '1', close: '2', volume: '5', quoteVolume: '10' };
+    transport.respondJson('GET', '/v1/perps/candles', {
+      success: true,
+      result: [
+        { ...candle, time: MINUTE, trades: 4 },
+        { ...candle, time: 0, trades: 3 },
+      ],
+    });
+
+    const candles = await client.getCandles('BTC-USD.P', '1m', { endTime: 2 * MINUTE, limit: 2 });
+
+    expect(candles.map((c) => [c.openTime, c.closeTime, c.trades, c.closed])).toEqual([
+      [0, MINUTE, 3, true],
+      [MINUTE, 2 * MINUTE, 4, true],
+    ]);
+    const query = new URL(transport.requests[1].url).searchParams;
+    expect(Object.fromEntries(query)).toEqual({
+      market: 'BTC-USD.P',
+      interval: '1m',
+      startTime: '0',
+      endTime: '120000',
+      limit: '2',
+    });
+  });
+
+  it('should aggregate public trades when the candle endpoint is missing', async () => {
+    transport.respondJson('GET', '/v1/perps/trades', {
+      success: true,
+      result: [trade('t3', '102', 2 * MINUTE + 1), trade('t2', '101', 1), trade('t1', '100', 0)],
+    });
+    const range = { startTime: 0, endTime: 3 * MINUTE };
+
+    const candles = await client.getCandles('BTC-USD.P', '1m', range);
+    await client.getCandles('BTC-USD.P', '1m', range);
+
+    expect(candles.map((c) => [c.open, c.close, c.volume, c.trades])).toEqual([
+      ['100', '101', '2', 2],
+      ['101', '101', '0', 0],
+      ['102', '102', '1', 1],
+    ]);
+    const paths = transport.requests.map((r) => new URL(r.url).pathname);
+    expect(paths.filter((p) => p === '/v1/perps/candles')).toHaveLength(1);
+    expect(paths.filter((p) => p === '/v1/perps/trades')).toHaveLength(2);
+  });
+
+  it('should reject unknown markets before probing the endpoint', async () => {
+    await expect(client.getCandles('DOGE-USD.P', '1h')).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+    });
+    expect(transport.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,134 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { InMemoryTransport } from '../transport/InMemoryTransport';
+import { ApiMarketsResponse, ApiOrder, OrderSide } from '../../types';
+import { OrderValidationError } from '../../utils/errors';
+
+const markets: ApiMarketsResponse = {
+  spot: { tradingPairs: [] },
+  cross: {
+    tradingPairs: [
+      {
+        market: 'BTC-USDC',
+        pair: { base: 'BTC', quote: 'USDC' },
+        baseIncrement: '0.001',
+        quoteIncrement: '0.5',
+        minOrderSize: '0.01',
+      },
+    ],
+  },
+  perps: { tradingPairs: [] },
+};
+
+describe('EnclaveClient - Cross', () => {
+  let transport: InMemoryTransport;
+  let client: EnclaveClient;
+
+  beforeEach(() => {
+    transport = new InMemoryTransport();
+    transport.respondJson('GET', '/v1/markets', { success: true, result: markets });
+    client = new EnclaveClient({
+      auth: { apiKey: 'test-key', apiSecret: 'test-secret' },
+      transport,
+      retryDelay: 1,
+    });
+  });
+
+  it('should adapt cross markets', async () => {
+    await expect(client.getCrossMarkets()).resolves.toEqual([
+      {
+        market: 'BTC-USDC',
+        baseAsset: 'BTC',
+        quoteAsset: 'USDC',
+        baseIncrement: '0.001',
+        quoteIncrement: '0.5',
+        minOrderSize: '0.01',
+        feeDecimal: undefined,
+        disabled: false,
+      },
+    ]);
+    await expect(client.getCrossMarket('ETH-USDC')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should post rounded cross orders with an optional price limit', async () => {
+    const bodies: Array<Record<string, string>> = [];
+    transport.on('POST', '/v1/cross/orders', (request) => {
+      const body = JSON.parse(request.body!) as Record<string, string>;
+      bodies.push(body);
+      const order: ApiOrder = {
+        id: `cross-${bodies.length}`,
+        clientOrderId: body.clientOrderId,
+        market: body.market,
+        side: body.side as 'buy' | 'sell',
+        type: 'market',
+        price: body.price,
+        size: body.size,
+        remainingSize: body.size,
+        status: 'open',
+        createdAt: 1,
+        updatedAt: 1,
+      };
+      return { status: 200, body: JSON.stringify({ success: true, result: order }) };
+    });
+
+    await client.createCrossOrder('BTC-USDC', OrderSide.BUY, new Decimal('1.2345'), {
+      price: '50000.7',
+    });
+    await client.createCrossOrder('BTC-USDC', OrderSide.SELL, new Decimal('0.5'));
+
+    expect(bodies[0]).toMatchObject({ side: 'buy', size: '1.234', price: '50000.5' });
+    expect(bodies[0].clientOrderId).toEqual(expect.any(String));
+    expect(bodies[1]).not.toHaveProperty('price');
+  });
+
+  it('should validate cross orders against the market minimum', async () => {
+    await expect(
+      client.createCrossOrder('BTC-USDC', OrderSide.BUY, new Decimal('0.005')),
+    ).rejects.toBeInstanceOf(OrderValidationError);
+  });
+
+  it('should list, cancel and read fills for cross orders', async () => {
+    const order = {
+      id: 'cross-1',
+      market: 'BTC-USDC',
+      side: 'buy',
+      type: 'market',
+      size: '1',
+      remainingSize: '1',
+      status: 'open',
+      createdAt: 1,
+      updatedAt: 1,
+    };
+    transport.respondJson('GET', '/v1/cross/orders', { success: true, result: [order] });
+    transport.respondJson('DELETE', '/v1/cross/orders/cross-1', {
+      success: true,
+      result: { ...order, status: 'cancelled' },
+    });
+    transport.respondJson('GET', '/v1/cross/fills', {
+      success: true,
+      result: {
+        items: [
+          {
+            id: 'f1',
+            orderId: 'cross-1',
+            market: 'BTC-USDC',
+            side: 'buy',
+            price: '50000',
+            size: '0.5',
+            fee: '5',
+            liquidity: 'taker',
+            time: 1700000000000,
+          },
+        ],
+      },
+    });
+
+    await expect(client.getCrossOrders('BTC-USDC')).resolves.toHaveLength(1);
+    await expect(client.cancelCrossOrder('cross-1')).resolves.toMatchObject({
+      status: 'cancelled',
+    });
+    await expect(client.getCrossFills()).resolves.toMatchObject({
+      items: [{ orderId: 'cross-1', size: '0.5', maker: false }],
+    });
+  });
+});
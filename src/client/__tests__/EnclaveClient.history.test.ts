@@ -0,0 +1,223 @@
+import { URL } from 'url';
+import { EnclaveClient } from '../EnclaveClient';
+import { InMemoryTransport } from '../transport/InMemoryTransport';
+import { EndpointClass } from '../ratelimit/RateLimiter';
+import { LedgerEntryType } from '../../types';
+
+describe('EnclaveClient - History', () => {
+  let transport: InMemoryTransport;
+  let client: EnclaveClient;
+
+  beforeEach(() => {
+    transport = new InMemoryTransport();
+    client = new EnclaveClient({
+      auth: { apiKey: 'test-key', apiSecret: 'test-secret' },
+      transport,
+      retryDelay: 1,
+    });
+  });
+
+  it('should return private fills with fee, order ID and maker flag', async () => {
+    transport.respondJson('GET', '/v1/perps/fills', {
+      success: true,
+      result: {
+        items: [
+          {
+            id: 'f1',
+            orderId: 'o1',
+            market: 'BTC-USD.P',
+            side: 'sell',
+            price: '50000',
+            size: '0.1',
+            fee: '1',
+            liquidity: 'maker',
+            time: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+        nextCursor: 'abc',
+      },
+    });
+
+    const page = await client.getFills({
+      market: 'BTC-USD.P',
+      startTime: 1000,
+      endTime: 2000,
+      limit: 50,
+    });
+
+    expect(page.nextCursor).toBe('abc');
+    expect(page.items).toEqual([
+      {
+        id: 'f1',
+        market: 'BTC-USD.P',
+        side: 'sell',
+        price: '50000',
+        size: '0.1',
+        fee: '1',
+        timestamp: Date.parse('2024-01-01T00:00:00.000Z'),
+        orderId: 'o1',
+        maker: true,
+      },
+    ]);
+    const query = new URL(transport.requests[0].url).searchParams;
+    expect(Object.fromEntries(query)).toEqual({
+      market: 'BTC-USD.P',
+      startTime: '1000',
+      endTime: '2000',
+      limit: '50',
+    });
+  });
+
+  it('should pass the cursor and treat a null cursor as the last page', async () => {
+    transport.respondJson('GET', '/v1/ledger', {
+      success: true,
+      result: {
+        items: [
+          {
+            id: 'l1',
+            type: 'funding',
+            asset: 'USD',
+            amount: '-1.5',
+            balance: '998.5',
+            market: 'BTC-USD.P',
+            referenceId: 'fp1',
+            time: 1700000000000,
+          },
+        ],
+        nextCursor: null,
+      },
+    });
+
+    const page = await client.getLedger({ cursor: 'abc' });
+
+    expect(page.nextCursor).toBeUndefined();
+    expect(page.items[0]).toMatchObject({ type: LedgerEntryType.FUNDING, amount: '-1.5' });
+    expect(transport.requests[0].url).toMatch(/\/v1\/ledger\?cursor=abc$/);
+  });
+
+  it('should adapt funding payments, deposits, withdrawals and transfers', async () => {
+    const page = (items: unknown[]): unknown => ({ success: true, result: { items } });
+    transport
+      .respondJson(
+        'GET',
+        '/v1/perps/funding_payments',
+        page([
+          {
+            id: 'fp1',
+            market: 'BTC-USD.P',
+            amount: '2',
+            rate: '0.0001',
+            positionSize: '1',
+            time: 1,
+          },
+        ]),
+      )
+      .respondJson(
+        'GET',
+        '/v1/deposits',
+        page([{ id: 'd1', asset: 'USDC', amount: '100', status: 'confirmed', time: 2 }]),
+      )
+      .respondJson(
+        'GET',
+        '/v1/withdrawals',
+        page([{ id: 'w1', asset: 'USDC', amount: '50', fee: '1', status: 'pending', time: 3 }]),
+      )
+      .respondJson(
+        'GET',
+        '/v1/transfers',
+        page([
+          {
+            id: 't1',
+            asset: 'USDC',
+            amount: '10',
+            from: 'spot',
+            to: 'perps',
+            status: 'done',
+            time: 4,
+          },
+        ]),
+      );
+
+    await expect(client.getFundingPayments()).resolves.toMatchObject({
+      items: [{ id: 'fp1', amount: '2', timestamp: 1 }],
+    });
+    await expect(client.getDeposits()).resolves.toMatchObject({
+      items: [{ id: 'd1', timestamp: 2 }],
+    });
+    await expect(client.getWithdrawals()).resolves.toMatchObject({
+      items: [{ id: 'w1', fee: '1', timestamp: 3 }],
+    });
+    await expect(client.getTransfers()).resolves.toMatchObject({
+      items: [{ id: 't1', from: 'spot', to: 'perps', timestamp: 4 }],
+    });
+    expect(transport.requests.every((r) => !r.url.includes('?'))).toBe(true);
+  });
+
+  it('should iterate over every ledger page', async () => {
+    transport.on('GET', '/v1/ledger', (request) => {
+      const cursor = new URL(request.url).searchParams.get('cursor');
+      const id = cursor ?? 'l1';
+      const entry = { id, type: 'fee', asset: 'USD', amount: '-1', balance: '0', time: 1 };
+      const result = { items: [entry], nextCursor: cursor ? null : 'l2' };
+      return { status: 200, body: JSON.stringify({ success: true, result }) };
+    });
+
+    const ids: string[] = [];
+    for await (const entry of client.iterateLedger({ limit: 1 })) {
+      ids.push(entry.id);
+    }
+
+    expect(ids).toEqual(['l1', 'l2']);
+    expect(transport.requests.map((r) => new URL(r.url).search)).toEqual([
+      '?limit=1',
+      '?limit=1&cursor=l2',
+    ]);
+  });
+
+  it('should walk public trades through the rate limiter and stop on abort', async () => {
+    const limited = new EnclaveClient({
+      transport,
+      rateLimit: { budgets: { [EndpointClass.PUBLIC]: { capacity: 1, refillPerSecond: 0.001 } } },
+    });
+    transport.respondJson('GET', '/v1/perps/trades', {
+      success: true,
+      result: [
+        {
+          id: 't1',
+          market: 'BTC-USD.P',
+          price: '1',
+          size: '1',
+          cost: '1',
+          aggressor_side: 'buy',
+          time: 20,
+        },
+        {
+          id: 't2',
+          market: 'BTC-USD.P',
+          price: '1',
+          size: '1',
+          cost: '1',
+          aggressor_side: 'buy',
+          time: 10,
+        },
+      ],
+    });
+    const controller = new AbortController();
+    const queued = new Promise((resolve) => limited.rateLimiter!.once('queued', resolve));
+
+    const iterator = limited.iterateTrades(
+      { market: 'BTC-USD.P', limit: 2 },
+      { signal: controller.signal },
+    );
+    await expect(iterator.next()).resolves.toMatchObject({ value: { id: 't1' } });
+    await expect(iterator.next()).resolves.toMatchObject({ value: { id: 't2' } });
+    const next = iterator.next();
+    await queued;
+    controller.abort(new Error('cancelled'));
+
+    await expect(next).rejects.toThrow('cancelled');
+    expect(transport.requests).toHaveLength(1);
+    expect(limited.rateLimiter!.getQueueDepth(EndpointClass.PUBLIC)).toBe(0);
+    limited.rateLimiter!.clear();
+  });
+});
@@ -0,0 +1,179 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { Transport, TransportRequest, TransportTimeoutError } from '../transport/Transport';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { MockExchangeError } from '../../testing/MockExchange';
+import { OrderSide, OrderStatus } from '../../types';
+import {
+  NetworkError,
+  OrderRejectedError,
+  OrderStateUnknownError,
+  TimeoutError,
+} from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+type Fault = 'before' | 'after' | 'timeout-after' | undefined;
+
+describe('EnclaveClient - Idempotent order placement', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+  let posts: Array<Record<string, unknown>>;
+  let faults: Fault[];
+  let failLookups: boolean;
+
+  beforeEach(async () => {
+    server = new MockEnclaveServer(auth);
+    const inner = server.transport();
+    posts = [];
+    faults = [];
+    failLookups = false;
+
+    // Injects failures around order POSTs: before the exchange sees the request,
+    // or after it was processed but before the response arrives
+    const transport: Transport = {
+      send: async (request: TransportRequest) => {
+        const { pathname } = new URL(request.url);
+        if (request.method === 'GET' && pathname.startsWith('/v1/perps/orders') && failLookups) {
+          throw new Error('ECONNREFUSED');
+        }
+        if (request.method !== 'POST' || pathname !== '/v1/perps/orders') {
+          return inner.send(request);
+        }
+        posts.push(JSON.parse(request.body ?? '{}') as Record<string, unknown>);
+        const fault = faults.shift();
+        if (fault === 'before') throw new Error('ECONNRESET');
+        const response = await inner.send(request);
+        if (fault === 'after') throw new Error('socket hang up');
+        if (fault === 'timeout-after') throw new TransportTimeoutError(request.timeout);
+        return response;
+      },
+    };
+
+    client = new EnclaveClient({ auth, transport, retryDelay: 1 });
+    await client.getMarkets();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should generate a clientOrderId when none is given', async () => {
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(100),
+    );
+
+    expect(posts).toHaveLength(1);
+    expect(typeof posts[0].clientOrderId).toBe('string');
+    expect(order.clientOrderId).toBe(posts[0].clientOrderId);
+  });
+
+  it('should keep a caller-supplied clientOrderId', async () => {
+    await client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(100), {
+      clientOrderId: 'mine-1',
+    });
+
+    expect(posts[0].clientOrderId).toBe('mine-1');
+  });
+
+  it('should return the existing order when the response was lost', async () => {
+    faults = ['after'];
+
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(100),
+    );
+
+    expect(posts).toHaveLength(1);
+    expect(order.status).toBe(OrderStatus.OPEN);
+    expect(server.exchange.getAllOrders()).toHaveLength(1);
+  });
+
+  it('should find filled orders after a timeout', async () => {
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '100', '5');
+    faults = ['timeout-after'];
+
+    const order = await client.createMarketOrder('BTC-USD.P', OrderSide.SELL, new Decimal(1));
+
+    expect(posts).toHaveLength(1);
+    expect(order.status).toBe(OrderStatus.FILLED);
+    expect(server.exchange.getAllOrders().filter((o) => o.market === 'BTC-USD.P')).toHaveLength(1);
+  });
+
+  it('should resend once the exchange confirms it has no such order', async () => {
+    faults = ['before'];
+
+    const order = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(100),
+    );
+
+    expect(posts).toHaveLength(2);
+    expect(posts[1].clientOrderId).toBe(posts[0].clientOrderId);
+    expect(order.clientOrderId).toBe(posts[0].clientOrderId);
+    expect(server.exchange.getAllOrders()).toHaveLength(1);
+  });
+
+  it('should not resend when the order cannot be looked up', async () => {
+    faults = ['before'];
+    failLookups = true;
+
+    const error = await client
+      .createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(100))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OrderStateUnknownError);
+    expect((error as OrderStateUnknownError).cause).toBeInstanceOf(NetworkError);
+    expect((error as OrderStateUnknownError).clientOrderId).toBe(posts[0].clientOrderId);
+    expect(posts).toHaveLength(1);
+  });
+
+  it('should not read a missing lookup endpoint as a missing order', async () => {
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '100', '5');
+    faults = ['timeout-after'];
+    jest.spyOn(server.exchange, 'getFills').mockImplementation(() => {
+      throw new MockExchangeError(404, 'Unknown endpoint GET /v1/perps/fills');
+    });
+
+    const error = await client
+      .createMarketOrder('BTC-USD.P', OrderSide.SELL, new Decimal(1))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OrderStateUnknownError);
+    expect(posts).toHaveLength(1);
+    expect(server.exchange.getAllOrders()[0].status).toBe(OrderStatus.FILLED);
+  });
+
+  it('should give up after maxRetries resends', async () => {
+    faults = ['before', 'before', 'before', 'before', 'before'];
+
+    const error = await client
+      .createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(100))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(posts).toHaveLength(4);
+    expect(server.exchange.getAllOrders()).toHaveLength(0);
+  });
+
+  it('should not reconcile definitive rejections', async () => {
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '100', '1');
+
+    const error = await client
+      .createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(100), {
+        postOnly: true,
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(OrderRejectedError);
+    expect(error).not.toBeInstanceOf(TimeoutError);
+    expect(posts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { MarginMode, OrderSide, PositionDirection } from '../../types';
+import { EnclaveApiError, OrderValidationError } from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+describe('EnclaveClient - Position management', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+
+  beforeEach(() => {
+    server = new MockEnclaveServer(auth);
+    client = new EnclaveClient({ auth, transport: server.transport() });
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '49900', '10');
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50000', '10');
+    server.exchange.addLiquidity('ETH-USD.P', OrderSide.BUY, '2990', '100');
+    server.exchange.addLiquidity('ETH-USD.P', OrderSide.SELL, '3000', '100');
+  });
+
+  async function open(market: string, side: OrderSide, size: string): Promise<void> {
+    const price = side === OrderSide.BUY ? '60000' : '1';
+    await client.createLimitOrder(market, side, new Decimal(size), new Decimal(price));
+  }
+
+  async function positionSize(market: string): Promise<string | undefined> {
+    const [position] = await client.getPositions(market);
+    return position && `${position.side} ${position.size}`;
+  }
+
+  it('should close a short exactly with a reduce-only buy sized in base units', async () => {
+    await open('BTC-USD.P', OrderSide.SELL, '0.3');
+
+    const order = await client.closePosition('BTC-USD.P');
+
+    expect(order).toMatchObject({ side: OrderSide.BUY, size: '0.3', filledSize: '0.3' });
+    expect(await client.getPositions('BTC-USD.P')).toHaveLength(0);
+    await expect(client.closePosition('BTC-USD.P')).resolves.toBeNull();
+  });
+
+  it('should reduce by a fraction rounded down to the base increment', async () => {
+    await open('BTC-USD.P', OrderSide.BUY, '0.0003');
+
+    const order = await client.reducePosition('BTC-USD.P', 0.5);
+
+    expect(order?.size).toBe('0.0001');
+    expect(await positionSize('BTC-USD.P')).toBe(`${PositionDirection.LONG} 0.0002`);
+    await expect(client.reducePosition('BTC-USD.P', 1.5)).rejects.toThrow(OrderValidationError);
+  });
+
+  it('should flip a position to the same size on the other side', async () => {
+    await open('BTC-USD.P', OrderSide.BUY, '0.2');
+
+    const flip = await client.flipPosition('BTC-USD.P');
+
+    expect(flip?.close).toMatchObject({ side: OrderSide.SELL, size: '0.2' });
+    expect(flip?.open).toMatchObject({ side: OrderSide.SELL, size: '0.2' });
+    expect(await positionSize('BTC-USD.P')).toBe(`${PositionDirection.SHORT} 0.2`);
+  });
+
+  it('should close every open position', async () => {
+    await open('BTC-USD.P', OrderSide.BUY, '0.1');
+    await open('ETH-USD.P', OrderSide.SELL, '2');
+
+    const results = await client.closeAllPositions();
+
+    expect(results.map((r) => r.status === 'fulfilled' && [r.value.market, r.value.side])).toEqual([
+      ['BTC-USD.P', OrderSide.SELL],
+      ['ETH-USD.P', OrderSide.BUY],
+    ]);
+    expect(await client.getPositions()).toHaveLength(0);
+  });
+
+  it('should keep closing positions after one close fails', async () => {
+    await open('BTC-USD.P', OrderSide.BUY, '0.1');
+    await open('ETH-USD.P', OrderSide.SELL, '2');
+    const validate = client.validateOrder.bind(client);
+    jest
+      .spyOn(client, 'validateOrder')
+      .mockImplementation((market, params) =>
+        market === 'BTC-USD.P'
+          ? Promise.reject(new Error('503 Service Unavailable'))
+          : validate(market, params),
+      );
+
+    const [btc, eth] = await client.closeAllPositions();
+
+    expect(btc).toMatchObject({ status: 'rejected', reason: new Error('503 Service Unavailable') });
+    expect(eth).toMatchObject({ status: 'fulfilled', value: { market: 'ETH-USD.P' } });
+    expect(await positionSize('BTC-USD.P')).toBe(`${PositionDirection.LONG} 0.1`);
+    expect(await client.getPositions('ETH-USD.P')).toHaveLength(0);
+  });
+
+  it('should set leverage and margin mode', async () => {
+    await expect(client.setLeverage('BTC-USD.P', 5)).resolves.toEqual({
+      market: 'BTC-USD.P',
+      leverage: 5,
+      marginMode: MarginMode.CROSS,
+    });
+    await expect(client.setLeverage('BTC-USD.P', 100)).rejects.toThrow(OrderValidationError);
+
+    await expect(client.setMarginMode('BTC-USD.P', MarginMode.ISOLATED)).resolves.toMatchObject({
+      marginMode: MarginMode.ISOLATED,
+    });
+    await open('BTC-USD.P', OrderSide.BUY, '0.1');
+    expect((await client.getPositions('BTC-USD.P'))[0].leverage).toBe(5);
+    await expect(client.setMarginMode('BTC-USD.P', MarginMode.CROSS)).rejects.toThrow(
+      EnclaveApiError,
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { Deposit, OrderSide, PriceUpdate } from '../../types';
+import { NotFoundError } from '../../utils/errors';
+import { markPosition } from '../../utils/risk';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+describe('EnclaveClient - Prices and deposits', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+
+  beforeEach(async () => {
+    server = new MockEnclaveServer(auth);
+    await server.start();
+    client = new EnclaveClient({ auth, transport: server.transport(), wsUrl: server.wsUrl });
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '49900', '10');
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50000', '10');
+  });
+
+  afterEach(async () => {
+    client.disconnectWebSocket();
+    await server.stop();
+  });
+
+  it('should fetch mark and index prices', async () => {
+    server.exchange.setIndexPrice('BTC-USD.P', '49940');
+
+    await expect(client.getMarkPrice('BTC-USD.P')).resolves.toBe('49950');
+    await expect(client.getIndexPrice('BTC-USD.P')).resolves.toBe('49940');
+    await expect(client.getPrices('BTC-USD.P')).resolves.toMatchObject({
+      market: 'BTC-USD.P',
+      fundingRate: '0.0003',
+    });
+    await expect(client.getMarkPrice('ETH-USD.P')).rejects.toThrow(NotFoundError);
+  });
+
+  it('should stream mark prices that re-value positions', async () => {
+    await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal('0.1'),
+      new Decimal(50000),
+    );
+    const [position] = await client.getPositions('BTC-USD.P');
+    await client.connectWebSocket();
+    const prices: PriceUpdate[] = [];
+    await client.subscribePrices('BTC-USD.P', (price) => prices.push(price));
+
+    const received = new Promise((resolve) => client.webSocket!.once('message', resolve));
+    server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '49900', '1');
+    await received;
+    const [price] = prices;
+
+    expect(price).toMatchObject({ market: 'BTC-USD.P', markPrice: '49900' });
+    expect(markPosition(position, price.markPrice).unrealizedPnl).toBe('-10');
+  });
+
+  it('should deliver deposit notifications to authenticated clients', async () => {
+    await client.connectWebSocket();
+    const deposits: Deposit[] = [];
+    await client.subscribeDeposits((deposit) => deposits.push(deposit));
+
+    const credited = new Promise((resolve) => client.webSocket!.once('message', resolve));
+    server.exchange.deposit('250');
+    await credited;
+
+    expect(deposits).toMatchObject([{ asset: 'USD', amount: '250', status: 'confirmed' }]);
+  });
+
+  it('should require authentication for deposit notifications', async () => {
+    const anonymous = new EnclaveClient({ transport: server.transport(), wsUrl: server.wsUrl });
+    await anonymous.connectWebSocket();
+
+    expect(() => anonymous.subscribeDeposits(() => undefined)).toThrow(
+      'Authentication required for deposit subscription.',
+    );
+    anonymous.disconnectWebSocket();
+  });
+});
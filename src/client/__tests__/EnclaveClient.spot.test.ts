@@ -0,0 +1,172 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { InMemoryTransport } from '../transport/InMemoryTransport';
+import { DEFAULT_MOCK_MARKETS } from '../../testing/MockExchange';
+import { ApiMarketsResponse, ApiOrder, OrderSide, OrderType } from '../../types';
+import { EnclaveError, OrderValidationError } from '../../utils/errors';
+
+const markets: ApiMarketsResponse = {
+  spot: {
+    tradingPairs: [
+      {
+        market: 'AVAX-USDC',
+        pair: { base: 'AVAX', quote: 'USDC' },
+        baseIncrement: '0.01',
+        quoteIncrement: '0.001',
+        feeDecimal: 0.001,
+      },
+      {
+        market: 'OLD-USDC',
+        pair: { base: 'OLD', quote: 'USDC' },
+        baseIncrement: '1',
+        quoteIncrement: '0.01',
+        feeDecimal: 0.001,
+        disabled: true,
+      },
+    ],
+  },
+  cross: { tradingPairs: [] },
+  perps: { tradingPairs: DEFAULT_MOCK_MARKETS },
+};
+
+describe('EnclaveClient - Spot', () => {
+  let transport: InMemoryTransport;
+  let client: EnclaveClient;
+
+  beforeEach(() => {
+    transport = new InMemoryTransport();
+    transport.respondJson('GET', '/v1/markets', { success: true, result: markets });
+    client = new EnclaveClient({
+      auth: { apiKey: 'test-key', apiSecret: 'test-secret' },
+      transport,
+      retryDelay: 1,
+    });
+  });
+
+  it('should adapt spot markets alongside perps from a single request', async () => {
+    const spot = await client.getSpotMarkets();
+    const perps = await client.getMarkets();
+
+    expect(spot.map((m) => [m.market, m.baseAsset, m.disabled])).toEqual([
+      ['AVAX-USDC', 'AVAX', false],
+      ['OLD-USDC', 'OLD', true],
+    ]);
+    expect(perps.map((m) => m.market)).toEqual(['BTC-USD.P', 'ETH-USD.P']);
+    expect(transport.requests).toHaveLength(1);
+    await expect(client.getSpotMarket('BTC-USD.P')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should round and post spot limit orders to the spot endpoint', async () => {
+    transport.on('POST', '/v1/orders', (request) => {
+      const body = JSON.parse(request.body!) as Record<string, string>;
+      const order: ApiOrder = {
+        id: 'spot-1',
+        clientOrderId: body.clientOrderId,
+        market: body.market,
+        side: 'buy',
+        type: 'limit',
+        price: body.price,
+        size: body.size,
+        remainingSize: body.size,
+        status: 'open',
+        createdAt: 1,
+        updatedAt: 1,
+      };
+      return { status: 200, body: JSON.stringify({ success: true, result: order }) };
+    });
+
+    const order = await client.createSpotLimitOrder(
+      'AVAX-USDC',
+      OrderSide.BUY,
+      new Decimal('10.129'),
+      new Decimal('25.1239'),
+    );
+
+    expect(order).toMatchObject({ id: 'spot-1', size: '10.12', price: '25.123' });
+    expect(order.clientOrderId).toEqual(expect.any(String));
+    expect(order.type).toBe(OrderType.LIMIT);
+  });
+
+  it('should reject orders for disabled markets without sending them', async () => {
+    await expect(
+      client.createSpotMarketOrder('OLD-USDC', OrderSide.SELL, new Decimal(5)),
+    ).rejects.toBeInstanceOf(OrderValidationError);
+    expect(transport.requests.map((r) => r.method)).toEqual(['GET']);
+  });
+
+  it('should fetch spot balances and fills', async () => {
+    transport.respondJson('GET', '/v1/balances', {
+      success: true,
+      result: [{ asset: 'USDC', total: '100', available: '75', reserved: '25' }],
+    });
+    transport.respondJson('GET', '/v1/fills', {
+      success: true,
+      result: {
+        items: [
+          {
+            id: 'f1',
+            orderId: 'spot-1',
+            market: 'AVAX-USDC',
+            side: 'buy',
+            price: '25',
+            size: '1',
+            fee: '0.025',
+            liquidity: 'maker',
+            time: '2024-01-01T00:00:00.000Z',
+          },
+        ],
+      },
+    });
+
+    await expect(client.getSpotBalances()).resolves.toEqual([
+      { asset: 'USDC', total: '100', available: '75', locked: '25' },
+    ]);
+    const {
+      items: [fill],
+    } = await client.getSpotFills({ market: 'AVAX-USDC', limit: 10 });
+    expect(fill).toMatchObject({ orderId: 'spot-1', fee: '0.025', maker: true });
+    expect(fill.timestamp).toBe(Date.parse('2024-01-01T00:00:00.000Z'));
+    expect(transport.requests[transport.requests.length - 1].url).toContain(
+      '/v1/fills?market=AVAX-USDC&limit=10',
+    );
+  });
+
+  describe('getTicker', () => {
+    const ticker = {
+      market: 'AVAX-USDC',
+      bid: '24.9',
+      ask: '25.1',
+      last: '25',
+      high24h: '26',
+      low24h: '24',
+      volume24h: '1000',
+      volumeQuote24h: '25000',
+      change24h: '0.5',
+      changePercent24h: '2.04',
+      time: 1700000000000,
+    };
+
+    beforeEach(() => {
+      transport.respondJson('GET', '/v1/ticker', { success: true, result: [ticker] });
+    });
+
+    it('should return a single spot ticker or all tickers', async () => {
+      await expect(client.getTicker('AVAX-USDC')).resolves.toMatchObject({
+        market: 'AVAX-USDC',
+        last: '25',
+        timestamp: 1700000000000,
+      });
+      await expect(client.getTicker()).resolves.toHaveLength(1);
+    });
+
+    it('should reject perpetual markets with an explanation', async () => {
+      const error = await client.getTicker('BTC-USD.P').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(EnclaveError);
+      expect(error).toMatchObject({ code: 'VALIDATION_ERROR' });
+      expect((error as Error).message).toContain(
+        'Ticker endpoint is not available for perpetual markets',
+      );
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { InMemoryTransport } from '../transport/InMemoryTransport';
+import { TransportTimeoutError } from '../transport/Transport';
+import { DEFAULT_MOCK_MARKETS } from '../../testing/MockExchange';
+import { Environment, OrderSide } from '../../types';
+import { EnclaveApiError, NetworkError, NotFoundError, TimeoutError } from '../../utils/errors';
+
+describe('EnclaveClient - Transport', () => {
+  let transport: InMemoryTransport;
+  let client: EnclaveClient;
+
+  beforeEach(() => {
+    transport = new InMemoryTransport();
+    client = new EnclaveClient({
+      environment: Environment.SANDBOX,
+      auth: {
+        apiKey: 'test-key',
+        apiSecret: 'test-secret',
+      },
+      transport,
+      retryDelay: 1,
+    });
+  });
+
+  it('should send signed requests through the configured transport', async () => {
+    transport.respondJson('GET', '/v1/perps/orders', { success: true, result: [] });
+
+    const orders = await client.getOrders('BTC-USD.P');
+
+    expect(orders).toEqual([]);
+    expect(transport.requests).toHaveLength(1);
+    const [request] = transport.requests;
+    expect(request.method).toBe('GET');
+    expect(request.url).toBe('https://api-sandbox.enclave.market/v1/perps/orders?market=BTC-USD.P');
+    expect(request.headers['ENCLAVE-KEY-ID']).toBe('test-key');
+    expect(request.headers['ENCLAVE-SIGN']).toHaveLength(64);
+    expect(request.body).toBeUndefined();
+  });
+
+  it('should route requests by method', async () => {
+    transport.respondJson('DELETE', '/v1/perps/orders/abc', {
+      success: true,
+      result: { id: 'abc' },
+    });
+
+    await client.cancelOrder('abc');
+
+    expect(transport.requests[0].method).toBe('DELETE');
+  });
+
+  it('should retry after a 429 response', async () => {
+    let calls = 0;
+    transport.on('GET', '/v1/perps/positions', () => {
+      calls++;
+      return calls === 1
+        ? { status: 429, body: '' }
+        : { status: 200, body: JSON.stringify({ success: true, result: [] }) };
+    });
+
+    await expect(client.getPositions()).resolves.toEqual([]);
+    expect(calls).toBe(2);
+  });
+
+  it('should retry after a network error', async () => {
+    let calls = 0;
+    transport.on('GET', '/v1/perps/positions', () => {
+      calls++;
+      if (calls === 1) {
+        throw new Error('socket hang up');
+      }
+      return { status: 200, body: JSON.stringify({ success: true, result: [] }) };
+    });
+
+    await expect(client.getPositions()).resolves.toEqual([]);
+    expect(calls).toBe(2);
+  });
+
+  it('should not retry timeouts', async () => {
+    transport.on('GET', '/v1/perps/positions', () => {
+      throw new TransportTimeoutError(30000);
+    });
+
+    await expect(client.getPositions()).rejects.toThrow('Request timeout after 30000ms');
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  it('should surface unwrapped API errors', async () => {
+    transport.respondJson('GET', '/v1/perps/balance', { success: false, error: 'nope' });
+
+    await expect(client.getBalance()).rejects.toThrow('nope');
+  });
+
+  it('should surface non-2xx responses as EnclaveApiError', async () => {
+    transport.respondJson('GET', '/v1/perps/balance', { error: 'unauthorized' }, 401);
+
+    await expect(client.getBalance()).rejects.toMatchObject({
+      name: 'AuthenticationError',
+      statusCode: 401,
+    });
+    await expect(client.getBalance()).rejects.toBeInstanceOf(EnclaveApiError);
+  });
+
+  it('should raise typed errors from the response body', async () => {
+    transport.respondJson(
+      'POST',
+      '/v1/perps/orders',
+      { error: { code: 'INSUFFICIENT_MARGIN', message: 'not enough margin', details: { x: 1 } } },
+      400,
+    );
+    transport.respondJson('GET', '/v1/markets', {
+      success: true,
+      result: { perps: { tradingPairs: DEFAULT_MOCK_MARKETS } },
+    });
+
+    await expect(client.getMarket('DOGE-USD.P')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(
+      client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(1), new Decimal(50000)),
+    ).rejects.toMatchObject({
+      name: 'InsufficientMarginError',
+      code: 'INSUFFICIENT_MARGIN',
+      details: { x: 1 },
+      retryable: false,
+    });
+  });
+
+  it('should raise TimeoutError and NetworkError', async () => {
+    transport.on('GET', '/v1/perps/positions', () => {
+      throw new TransportTimeoutError(30000);
+    });
+    transport.on('GET', '/v1/perps/balance', () => {
+      throw new Error('ECONNRESET');
+    });
+
+    const timeout = await client.getPositions().catch((e: unknown) => e);
+    expect(timeout).toBeInstanceOf(TimeoutError);
+    expect(timeout).toMatchObject({ code: 'TIMEOUT', retryable: true, timeout: 30000 });
+
+    const network = await client.getBalance().catch((e: unknown) => e);
+    expect(network).toBeInstanceOf(NetworkError);
+    expect(network).toMatchObject({ code: 'NETWORK_ERROR', retryable: true });
+  });
+
+  it('should raise RateLimitError once retries are exhausted', async () => {
+    transport.on('GET', '/v1/perps/positions', () => ({
+      status: 429,
+      body: '',
+      headers: { 'retry-after': '2' },
+    }));
+
+    await expect(client.getPositions()).rejects.toMatchObject({
+      name: 'RateLimitError',
+      retryable: true,
+      retryAfter: 2000,
+    });
+  });
+
+  it('should load without Node-only modules until a Node request is sent', () => {
+    jest.isolateModules(() => {
+      for (const name of ['crypto', 'url', 'http', 'https']) {
+        jest.doMock(name, () => {
+          throw new Error(`${name} is not available`);
+        });
+      }
+      // Browser bundlers resolve `ws` to its stub, which only throws when used
+      jest.doMock('ws', () => (): never => {
+        throw new Error('ws does not work in the browser');
+      });
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const isolated = require('../EnclaveClient') as typeof import('../EnclaveClient');
+
+      expect(
+        () => new isolated.EnclaveClient({ transport: new InMemoryTransport() }),
+      ).not.toThrow();
+    });
+  });
+
+  it('should sign requests with Web Crypto without the crypto module', async () => {
+    await jest.isolateModulesAsync(async () => {
+      jest.doMock('crypto', () => {
+        throw new Error('crypto is not available');
+      });
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const isolated = require('../EnclaveClient') as typeof import('../EnclaveClient');
+      const browserClient = new isolated.EnclaveClient({
+        auth: { apiKey: 'test-key', apiSecret: 'test-secret' },
+        transport,
+      });
+      transport.respondJson('GET', '/v1/perps/orders', { success: true, result: [] });
+
+      await expect(browserClient.getOrders()).resolves.toEqual([]);
+      expect(transport.requests[0].headers['ENCLAVE-SIGN']).toHaveLength(64);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import Decimal from 'decimal.js';
+import { ExecutionAlgorithm, ExecutionStatus } from '../execution/ExecutionAlgorithm';
+import { IcebergExecution } from '../execution/IcebergExecution';
+import { TwapExecution } from '../execution/TwapExecution';
+import { VwapExecution } from '../execution/VwapExecution';
+import { EnclaveClient } from '../EnclaveClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { Order, OrderSide } from '../../types';
+import { OrderValidationError } from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+const market = 'BTC-USD.P';
+
+function childSizes(algorithm: ExecutionAlgorithm): string[] {
+  const sizes: string[] = [];
+  algorithm.on('child', (order: Order) => sizes.push(order.size));
+  return sizes;
+}
+
+function next(algorithm: ExecutionAlgorithm, event: string): Promise<unknown> {
+  return new Promise((resolve) => algorithm.once(event, resolve));
+}
+
+describe('Execution algorithms', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+
+  beforeEach(async () => {
+    server = new MockEnclaveServer(auth);
+    await server.start();
+    client = new EnclaveClient({ auth, transport: server.transport(), wsUrl: server.wsUrl });
+    await client.connectWebSocket();
+    server.exchange.addLiquidity(market, OrderSide.SELL, '50000', '10');
+  });
+
+  afterEach(async () => {
+    client.disconnectWebSocket();
+    await server.stop();
+  });
+
+  it('should reject a parent order below the minimum size', async () => {
+    const twap = new TwapExecution(client, {
+      market,
+      side: OrderSide.BUY,
+      size: new Decimal('0.00001'),
+      duration: 100,
+      slices: 2,
+      limitPrice: new Decimal(50100),
+    });
+
+    await expect(twap.start()).rejects.toThrow(OrderValidationError);
+    expect(twap.status).toBe(ExecutionStatus.PENDING);
+  });
+
+  it('should fail without an error listener when a child order is rejected', async () => {
+    jest
+      .spyOn(client, 'createLimitOrder')
+      .mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    const twap = new TwapExecution(client, {
+      market,
+      side: OrderSide.BUY,
+      size: new Decimal('0.001'),
+      duration: 90,
+      slices: 3,
+      limitPrice: new Decimal(50100),
+    });
+
+    await twap.start();
+
+    expect(twap.listenerCount('error')).toBe(0);
+    await expect(twap.done()).resolves.toMatchObject({ status: ExecutionStatus.FAILED });
+  });
+
+  it('should slice a TWAP into children rounded to the base increment', async () => {
+    const twap = new TwapExecution(client, {
+      market,
+      side: OrderSide.BUY,
+      size: new Decimal('0.001'),
+      duration: 90,
+      slices: 3,
+      limitPrice: new Decimal(50100),
+    });
+    const sizes = childSizes(twap);
+
+    await twap.start();
+    const result = await twap.done();
+
+    expect(sizes).toEqual(['0.0003', '0.0003', '0.0004']);
+    expect(result).toMatchObject({ status: ExecutionStatus.COMPLETED, childOrders: 3 });
+    expect(result.filledSize.toString()).toBe('0.001');
+    expect(result.averagePrice?.toString()).toBe('50000');
+  });
+
+  it('should trade a share of the observed volume with VWAP', async () => {
+    const vwap = new VwapExecution(client, {
+      market,
+      side: OrderSide.BUY,
+      size: new Decimal(2),
+      limitPrice: new Decimal(50100),
+      participationRate: 0.5,
+      interval: 50,
+      duration: 400,
+    });
+    const sizes = childSizes(vwap);
+    await vwap.start();
+    // Let the subscribe message reach the server
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    const child = next(vwap, 'child');
+    server.exchange.addLiquidity(market, OrderSide.BUY, '50000', '1');
+    server.exchange.executeExternal(market, OrderSide.SELL, '50000', '1');
+    await child;
+    expect(sizes[0]).toBe('0.5');
+
+    const result = await vwap.done();
+    expect(result.status).toBe(ExecutionStatus.COMPLETED);
+    expect(result.filledSize.toString()).toBe('2');
+  });
+
+  it('should show one iceberg clip at a time and support pause, resume and cancel', async () => {
+    server.exchange.clearBook(market);
+    const iceberg = new IcebergExecution(client, {
+      market,
+      side: OrderSide.BUY,
+      size: new Decimal(1),
+      price: new Decimal(49900),
+      displaySize: new Decimal('0.4'),
+    });
+    const sizes = childSizes(iceberg);
+    await iceberg.start();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    let child = next(iceberg, 'child');
+    server.exchange.executeExternal(market, OrderSide.SELL, '49900', '0.4');
+    await child;
+    expect(sizes).toEqual(['0.4', '0.4']);
+    expect(await client.getOrders()).toHaveLength(1);
+
+    await iceberg.pause();
+    expect(iceberg.progress).toMatchObject({ status: ExecutionStatus.PAUSED, workingOrders: 0 });
+    expect(await client.getOrders()).toHaveLength(0);
+
+    child = next(iceberg, 'child');
+    iceberg.resume();
+    await child;
+    expect(sizes).toEqual(['0.4', '0.4', '0.4']);
+
+    await iceberg.cancel();
+    const result = await iceberg.done();
+    expect(result).toMatchObject({ status: ExecutionStatus.CANCELLED, workingOrders: 0 });
+    expect(result.filledSize.toString()).toBe('0.4');
+    expect(await client.getOrders()).toHaveLength(0);
+  });
+
+  it('should send a smaller final iceberg clip', async () => {
+    server.exchange.clearBook(market);
+    const iceberg = new IcebergExecution(client, {
+      market,
+      side: OrderSide.BUY,
+      size: new Decimal(1),
+      price: new Decimal(49900),
+      displaySize: new Decimal('0.6'),
+    });
+    const sizes = childSizes(iceberg);
+    await iceberg.start();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    const child = next(iceberg, 'child');
+    server.exchange.executeExternal(market, OrderSide.SELL, '49900', '0.6');
+    await child;
+    server.exchange.executeExternal(market, OrderSide.SELL, '49900', '0.4');
+
+    await expect(iceberg.done()).resolves.toMatchObject({ status: ExecutionStatus.COMPLETED });
+    expect(sizes).toEqual(['0.6', '0.4']);
+  });
+});
@@ -0,0 +1,184 @@
+import Decimal from 'decimal.js';
+import { LocalOrderBook, LocalOrderBookSource } from '../orderbook/LocalOrderBook';
+import { WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+import { EnclaveClient } from '../EnclaveClient';
+import { OrderBook, OrderSide, WebSocketMessage } from '../../types';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+
+function receive(ws: WebSocketClient, message: WebSocketMessage): void {
+  (ws as unknown as { handleMessage(m: WebSocketMessage): void }).handleMessage(message);
+}
+
+function depth(
+  sequence: number,
+  bids: Array<[string, string]>,
+  asks: Array<[string, string]> = [],
+): WebSocketMessage {
+  return {
+    channel: WebSocketChannel.DEPTH,
+    type: 'update',
+    sequence,
+    data: { market: 'BTC-USD.P', time: '2025-01-01T00:00:00.000Z', bids, asks },
+  };
+}
+
+describe('LocalOrderBook', () => {
+  let ws: WebSocketClient;
+  let snapshots: OrderBook[];
+  let source: LocalOrderBookSource & { getOrderBook: jest.Mock };
+  let book: LocalOrderBook;
+
+  beforeEach(() => {
+    ws = new WebSocketClient();
+    snapshots = [
+      {
+        market: 'BTC-USD.P',
+        bids: [
+          ['100', '1'],
+          ['99', '2'],
+        ],
+        asks: [
+          ['101', '1'],
+          ['102', '3'],
+        ],
+        timestamp: 1,
+        sequenceNumber: 10,
+      },
+    ];
+    source = {
+      webSocket: ws,
+      getOrderBook: jest.fn(() =>
+        Promise.resolve(snapshots.length > 1 ? snapshots.shift()! : snapshots[0]),
+      ),
+    };
+    book = new LocalOrderBook(source, 'BTC-USD.P');
+  });
+
+  afterEach(() => {
+    book.stop();
+  });
+
+  it('should require a WebSocket connection', async () => {
+    const detached = new LocalOrderBook({ getOrderBook: source.getOrderBook }, 'BTC-USD.P');
+    await expect(detached.start()).rejects.toThrow('WebSocket not connected');
+  });
+
+  it('should seed from the REST snapshot', async () => {
+    await book.start();
+
+    expect(book.isSynced).toBe(true);
+    expect(book.sequence).toBe(10);
+    expect(book.bestBid()?.price.toString()).toBe('100');
+    expect(book.bestAsk()?.price.toString()).toBe('101');
+    expect(book.spread()?.toString()).toBe('1');
+    expect(book.midPrice()?.toString()).toBe('100.5');
+  });
+
+  it('should apply incremental updates in sequence', async () => {
+    await book.start();
+
+    receive(
+      ws,
+      depth(
+        11,
+        [
+          ['100', '0'],
+          ['99.5', '4'],
+        ],
+        [['101', '2']],
+      ),
+    );
+
+    expect(book.sequence).toBe(11);
+    expect(book.bestBid()?.price.toString()).toBe('99.5');
+    expect(book.depthAt(OrderSide.SELL, '101').toString()).toBe('2');
+    expect(book.depthAt(OrderSide.BUY, '100').toString()).toBe('0');
+  });
+
+  it('should replay updates buffered while the snapshot loads', async () => {
+    let resolveSnapshot!: (book: OrderBook) => void;
+    source.getOrderBook.mockImplementationOnce(
+      () => new Promise<OrderBook>((resolve) => (resolveSnapshot = resolve)),
+    );
+
+    const started = book.start();
+    receive(ws, depth(10, [['50', '1']])); // already in snapshot, dropped
+    receive(ws, depth(11, [['98', '5']]));
+    resolveSnapshot(snapshots[0]);
+    await started;
+
+    expect(book.sequence).toBe(11);
+    expect(book.depthAt(OrderSide.BUY, '98').toString()).toBe('5');
+    expect(book.depthAt(OrderSide.BUY, '50').toString()).toBe('0');
+  });
+
+  it('should resync when a sequence gap is detected', async () => {
+    await book.start();
+    snapshots[0] = {
+      market: 'BTC-USD.P',
+      bids: [['105', '1']],
+      asks: [['106', '1']],
+      timestamp: 2,
+      sequenceNumber: 20,
+    };
+    const gap = jest.fn();
+    book.on('gap', gap);
+    const synced = new Promise((resolve) => book.once('synced', resolve));
+
+    receive(ws, depth(13, [['1', '1']]));
+    await synced;
+
+    expect(gap).toHaveBeenCalledWith({ expected: 11, received: 13 });
+    expect(source.getOrderBook).toHaveBeenCalledTimes(2);
+    expect(book.sequence).toBe(20);
+    expect(book.bestBid()?.price.toString()).toBe('105');
+  });
+
+  it('should resync after a reconnect', async () => {
+    await book.start();
+    const synced = new Promise((resolve) => book.once('synced', resolve));
+
+    ws.emit('connected');
+    await synced;
+
+    expect(source.getOrderBook).toHaveBeenCalledTimes(2);
+  });
+
+  it('should compute cumulative volume and VWAP', async () => {
+    await book.start();
+
+    expect(book.cumulativeVolume(OrderSide.SELL).toString()).toBe('4');
+    expect(book.cumulativeVolume(OrderSide.BUY, '100').toString()).toBe('1');
+    expect(book.cumulativeVolume(OrderSide.BUY, '99').toString()).toBe('3');
+    // 1 @ 101 + 1 @ 102
+    expect(book.vwap(OrderSide.BUY, new Decimal(2))?.toString()).toBe('101.5');
+    expect(book.vwap(OrderSide.SELL, new Decimal(3))?.toFixed(4)).toBe('99.3333');
+    expect(book.vwap(OrderSide.BUY, new Decimal(10))).toBeNull();
+  });
+
+  it('should track the mock server book end-to-end', async () => {
+    const server = new MockEnclaveServer();
+    await server.start();
+    const client = new EnclaveClient({ transport: server.transport(), wsUrl: server.wsUrl });
+    try {
+      server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '49000', '1');
+      await client.connectWebSocket();
+      const live = new LocalOrderBook(client, 'BTC-USD.P');
+      await live.start();
+      expect(live.bestBid()?.price.toString()).toBe('49000');
+      // Let the subscribe message reach the server
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const updated = new Promise((resolve) => live.once('update', resolve));
+      server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '49100', '2');
+      await updated;
+
+      expect(live.bestAsk()?.size.toString()).toBe('2');
+      expect(live.sequence).toBe(2);
+      live.stop();
+    } finally {
+      client.disconnectWebSocket();
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,217 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { OrderTracker, OrderTrackerSource, OrderTransition } from '../orders/OrderTracker';
+import { WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { Order, OrderSide, OrderStatus, OrderType, WebSocketMessage } from '../../types';
+
+function order(overrides: Partial<Order> = {}): Order {
+  return {
+    id: 'o1',
+    market: 'BTC-USD.P',
+    side: OrderSide.BUY,
+    type: OrderType.LIMIT,
+    price: '100',
+    size: '2',
+    remainingSize: '2',
+    filledSize: '0',
+    status: OrderStatus.OPEN,
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
+function receive(ws: WebSocketClient, data: Record<string, unknown>): void {
+  const message: WebSocketMessage = { channel: WebSocketChannel.ORDERS, type: 'update', data };
+  (ws as unknown as { handleMessage(m: WebSocketMessage): void }).handleMessage(message);
+}
+
+describe('OrderTracker', () => {
+  let current: Order;
+  let source: OrderTrackerSource & { getOrder: jest.Mock };
+  let tracker: OrderTracker;
+
+  beforeEach(() => {
+    current = order();
+    source = { getOrder: jest.fn(() => Promise.resolve(current)) };
+    tracker = new OrderTracker(source, { pollInterval: 0 });
+  });
+
+  afterEach(() => {
+    tracker.stop();
+  });
+
+  it('should emit transitions and accumulate partial fills', async () => {
+    const transitions: OrderTransition[] = [];
+    tracker.on('transition', (t: OrderTransition) => transitions.push(t));
+    await tracker.track(current);
+
+    current = order({
+      status: OrderStatus.PARTIALLY_FILLED,
+      filledSize: '1',
+      remainingSize: '1',
+      avgFillPrice: '100',
+      updatedAt: 2,
+    });
+    await tracker.poll();
+    current = order({
+      status: OrderStatus.FILLED,
+      filledSize: '2',
+      remainingSize: '0',
+      avgFillPrice: '99',
+      updatedAt: 3,
+    });
+    await tracker.poll();
+
+    expect(transitions.map((t) => [t.from, t.to])).toEqual([
+      [undefined, OrderStatus.OPEN],
+      [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED],
+      [OrderStatus.PARTIALLY_FILLED, OrderStatus.FILLED],
+    ]);
+    const tracked = tracker.get('o1')!;
+    expect(tracked.filledSize.toString()).toBe('2');
+    expect(tracked.averageFillPrice?.toString()).toBe('99');
+    expect(tracked.fills.map((f) => [f.size.toString(), f.price.toString()])).toEqual([
+      ['1', '100'],
+      ['1', '98'],
+    ]);
+  });
+
+  it('should fall back to the limit price without an average fill price', async () => {
+    await tracker.track(current);
+    current = order({ status: OrderStatus.FILLED, filledSize: '2', remainingSize: '0' });
+    current.updatedAt = 2;
+    await tracker.poll();
+
+    expect(tracker.get('o1')?.averageFillPrice?.toString()).toBe('100');
+  });
+
+  it('should ignore stale and regressing updates', async () => {
+    await tracker.track(
+      order({ status: OrderStatus.PARTIALLY_FILLED, filledSize: '1', remainingSize: '1' }),
+    );
+
+    current = order({ status: OrderStatus.OPEN, updatedAt: 5 });
+    await tracker.poll();
+    current = order({ status: OrderStatus.CANCELLED, filledSize: '1', updatedAt: 0 });
+    await tracker.poll();
+
+    expect(tracker.get('o1')?.order.status).toBe(OrderStatus.PARTIALLY_FILLED);
+  });
+
+  it('should resolve waitForFill when the order fills', async () => {
+    await tracker.track('o1');
+    const filled = tracker.waitForFill('o1');
+
+    current = order({
+      status: OrderStatus.FILLED,
+      filledSize: '2',
+      remainingSize: '0',
+      updatedAt: 2,
+    });
+    await tracker.poll();
+
+    await expect(filled).resolves.toMatchObject({ id: 'o1', status: OrderStatus.FILLED });
+    // Already terminal: resolves immediately
+    await expect(tracker.waitForTerminal('o1')).resolves.toMatchObject({ id: 'o1' });
+  });
+
+  it('should reject waitForFill but resolve waitForTerminal on cancel', async () => {
+    await tracker.track(current);
+    const filled = tracker.waitForFill('o1');
+    const terminal = tracker.waitForTerminal('o1');
+
+    current = order({ status: OrderStatus.CANCELLED, updatedAt: 2 });
+    await tracker.poll();
+
+    await expect(filled).rejects.toMatchObject({ code: 'ORDER_CANCELLED' });
+    await expect(terminal).resolves.toMatchObject({ status: OrderStatus.CANCELLED });
+  });
+
+  it('should reject on timeout', async () => {
+    await tracker.track(current);
+
+    await expect(tracker.waitForFill('o1', { timeout: 10 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+  });
+
+  it('should report poll failures only to error listeners', async () => {
+    await tracker.track(current);
+    source.getOrder.mockRejectedValue(new Error('503 Service Unavailable'));
+
+    await expect(tracker.poll()).resolves.toBeUndefined();
+
+    const errors: unknown[] = [];
+    tracker.on('error', (error) => errors.push(error));
+    await tracker.poll();
+    expect(errors).toEqual([new Error('503 Service Unavailable')]);
+  });
+
+  it('should reject waits for untracked orders', async () => {
+    await expect(tracker.waitForFill('nope')).rejects.toThrow('not tracked');
+  });
+
+  it('should apply stream updates that arrive before track()', async () => {
+    const ws = new WebSocketClient();
+    const streamTracker = new OrderTracker({ ...source, webSocket: ws }, { pollInterval: 0 });
+    streamTracker.start();
+
+    receive(ws, {
+      id: 'o1',
+      market: 'BTC-USD.P',
+      side: 'buy',
+      type: 'limit',
+      price: '100',
+      size: '2',
+      remainingSize: '0',
+      filledSize: '2',
+      avgFillPrice: '100',
+      status: 'filled',
+      createdAt: 1,
+      updatedAt: 2,
+    });
+    await streamTracker.track(current);
+
+    expect(streamTracker.get('o1')?.order.status).toBe(OrderStatus.FILLED);
+    streamTracker.stop();
+  });
+
+  it('should track fills from the mock server stream', async () => {
+    const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+    const server = new MockEnclaveServer(auth);
+    await server.start();
+    const client = new EnclaveClient({ auth, transport: server.transport(), wsUrl: server.wsUrl });
+    const live = new OrderTracker(client, { pollInterval: 0 });
+    try {
+      await client.connectWebSocket();
+      live.start();
+      // Let the subscribe message reach the server
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const placed = await client.createLimitOrder(
+        'BTC-USD.P',
+        OrderSide.BUY,
+        new Decimal(2),
+        new Decimal(50000),
+      );
+      await live.track(placed);
+      const filled = live.waitForFill(placed.id, { timeout: 5000 });
+      const partial = new Promise((resolve) => live.once(OrderStatus.PARTIALLY_FILLED, resolve));
+
+      server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '50000', '0.5');
+      await partial;
+      expect(live.get(placed.id)?.filledSize.toString()).toBe('0.5');
+      server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '50000', '1.5');
+
+      await expect(filled).resolves.toMatchObject({ status: OrderStatus.FILLED });
+      expect(live.get(placed.id)?.averageFillPrice?.toString()).toBe('50000');
+      expect(live.get(placed.id)?.fills).toHaveLength(2);
+    } finally {
+      live.stop();
+      client.disconnectWebSocket();
+      await server.stop();
+    }
+  });
+});
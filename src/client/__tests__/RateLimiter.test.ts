@@ -0,0 +1,205 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import {
+  EndpointClass,
+  RateLimiter,
+  RequestPriority,
+  classifyEndpoint,
+  priorityFor,
+} from '../ratelimit/RateLimiter';
+import { InMemoryTransport } from '../transport/InMemoryTransport';
+import { Transport } from '../transport/Transport';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { OrderSide } from '../../types';
+import { EnclaveErrorCode } from '../../utils/errors';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const tightBudget = { capacity: 1, refillPerSecond: 10 };
+
+  it('should classify endpoints', () => {
+    expect(classifyEndpoint('GET', '/v1/markets')).toBe(EndpointClass.PUBLIC);
+    expect(classifyEndpoint('GET', '/v1/perps/depth?market=BTC-USD.P')).toBe(EndpointClass.PUBLIC);
+    expect(classifyEndpoint('GET', '/v1/perps/candles?market=BTC-USD.P&interval=1m')).toBe(
+      EndpointClass.PUBLIC,
+    );
+    expect(classifyEndpoint('POST', '/v1/perps/orders')).toBe(EndpointClass.ORDERS);
+    expect(classifyEndpoint('DELETE', '/v1/perps/orders/abc')).toBe(EndpointClass.ORDERS);
+    expect(classifyEndpoint('POST', '/v1/perps/stop_order')).toBe(EndpointClass.ORDERS);
+    expect(classifyEndpoint('GET', '/v1/perps/orders')).toBe(EndpointClass.ACCOUNT);
+    expect(classifyEndpoint('GET', '/v1/perps/balance')).toBe(EndpointClass.ACCOUNT);
+    expect(priorityFor('DELETE')).toBe(RequestPriority.HIGH);
+    expect(priorityFor('POST')).toBe(RequestPriority.NORMAL);
+  });
+
+  it('should allow a burst up to capacity and then queue', async () => {
+    const limiter = new RateLimiter({
+      budgets: { [EndpointClass.ORDERS]: { capacity: 2, refillPerSecond: 10 } },
+    });
+    const released: number[] = [];
+
+    await limiter.acquire(EndpointClass.ORDERS);
+    await limiter.acquire(EndpointClass.ORDERS);
+    const third = limiter.acquire(EndpointClass.ORDERS).then(() => released.push(3));
+
+    expect(limiter.getQueueDepth(EndpointClass.ORDERS)).toBe(1);
+    await jest.advanceTimersByTimeAsync(99);
+    expect(released).toEqual([]);
+    await jest.advanceTimersByTimeAsync(1);
+    await third;
+    expect(released).toEqual([3]);
+    expect(limiter.getQueueDepth()).toBe(0);
+  });
+
+  it('should keep independent budgets per endpoint class', async () => {
+    const limiter = new RateLimiter({ budgets: { [EndpointClass.ORDERS]: tightBudget } });
+
+    await limiter.acquire(EndpointClass.ORDERS);
+    const queued = limiter.acquire(EndpointClass.ORDERS);
+    await limiter.acquire(EndpointClass.PUBLIC);
+
+    expect(limiter.getQueueDepth(EndpointClass.ORDERS)).toBe(1);
+    expect(limiter.getQueueDepth(EndpointClass.PUBLIC)).toBe(0);
+    await jest.advanceTimersByTimeAsync(100);
+    await queued;
+  });
+
+  it('should release higher priority waiters first', async () => {
+    const limiter = new RateLimiter({ budgets: { [EndpointClass.ORDERS]: tightBudget } });
+    const order: string[] = [];
+
+    await limiter.acquire(EndpointClass.ORDERS);
+    const placeA = limiter.acquire(EndpointClass.ORDERS).then(() => order.push('placeA'));
+    const placeB = limiter.acquire(EndpointClass.ORDERS).then(() => order.push('placeB'));
+    const cancel = limiter
+      .acquire(EndpointClass.ORDERS, RequestPriority.HIGH)
+      .then(() => order.push('cancel'));
+
+    await jest.advanceTimersByTimeAsync(300);
+    await Promise.all([placeA, placeB, cancel]);
+    expect(order).toEqual(['cancel', 'placeA', 'placeB']);
+  });
+
+  it('should emit queue depth changes', async () => {
+    const limiter = new RateLimiter({ budgets: { [EndpointClass.ORDERS]: tightBudget } });
+    const depths: Array<[string, number]> = [];
+    limiter.on('queued', ({ depth }: { depth: number }) => depths.push(['queued', depth]));
+    limiter.on('dequeued', ({ depth }: { depth: number }) => depths.push(['dequeued', depth]));
+
+    await limiter.acquire(EndpointClass.ORDERS);
+    const a = limiter.acquire(EndpointClass.ORDERS);
+    const b = limiter.acquire(EndpointClass.ORDERS);
+    await jest.advanceTimersByTimeAsync(200);
+    await Promise.all([a, b]);
+
+    expect(depths).toEqual([
+      ['queued', 1],
+      ['queued', 2],
+      ['dequeued', 1],
+      ['dequeued', 0],
+    ]);
+  });
+
+  it('should reject an aborted waiter and remove it from the queue', async () => {
+    const limiter = new RateLimiter({ budgets: { [EndpointClass.ORDERS]: tightBudget } });
+    const controller = new AbortController();
+
+    await limiter.acquire(EndpointClass.ORDERS);
+    const waiting = limiter.acquire(
+      EndpointClass.ORDERS,
+      RequestPriority.NORMAL,
+      controller.signal,
+    );
+    controller.abort(new Error('cancelled by caller'));
+
+    await expect(waiting).rejects.toThrow('cancelled by caller');
+    expect(limiter.getQueueDepth(EndpointClass.ORDERS)).toBe(0);
+  });
+
+  it('should reject when the queue is full', async () => {
+    const limiter = new RateLimiter({
+      budgets: { [EndpointClass.ORDERS]: tightBudget },
+      maxQueueSize: 1,
+    });
+
+    await limiter.acquire(EndpointClass.ORDERS);
+    const queued = limiter.acquire(EndpointClass.ORDERS);
+    await expect(limiter.acquire(EndpointClass.ORDERS)).rejects.toMatchObject({
+      message: 'Rate limit queue for orders is full',
+      code: EnclaveErrorCode.RATE_LIMITED,
+      retryable: true,
+    });
+
+    limiter.clear();
+    await expect(queued).rejects.toThrow('Rate limiter cleared');
+  });
+
+  it('should empty the bucket when throttled', () => {
+    const limiter = new RateLimiter();
+    expect(limiter.getAvailableTokens(EndpointClass.ACCOUNT)).toBe(10);
+    limiter.throttle(EndpointClass.ACCOUNT);
+    expect(limiter.getAvailableTokens(EndpointClass.ACCOUNT)).toBe(0);
+  });
+});
+
+describe('EnclaveClient - Rate limiting', () => {
+  it('should send queued cancels before queued orders', async () => {
+    const server = new MockEnclaveServer();
+    const mockTransport = server.transport();
+    const sent: string[] = [];
+    const transport: Transport = {
+      send: (request) => {
+        sent.push(`${request.method} ${new URL(request.url).pathname}`);
+        return mockTransport.send(request);
+      },
+    };
+    const client = new EnclaveClient({
+      baseUrl: 'http://mock.local',
+      auth: { apiKey: 'mock-api-key', apiSecret: 'mock-api-secret' },
+      transport,
+      rateLimit: { budgets: { [EndpointClass.ORDERS]: { capacity: 1, refillPerSecond: 20 } } },
+    });
+    await client.getMarkets();
+    const resting = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(100),
+    );
+
+    const queued = new Promise((resolve) => client.rateLimiter?.once('queued', resolve));
+    const placed = client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal(1),
+      new Decimal(99),
+    );
+    await queued;
+    const cancelled = client.cancelOrder(resting.id);
+    expect(client.rateLimiter?.getQueueDepth(EndpointClass.ORDERS)).toBe(2);
+    await Promise.all([placed, cancelled]);
+
+    expect(sent.slice(-2)).toEqual([
+      `DELETE /v1/perps/orders/${resting.id}`,
+      'POST /v1/perps/orders',
+    ]);
+  });
+
+  it('should be disabled by default', () => {
+    const client = new EnclaveClient({ transport: new InMemoryTransport() });
+    expect(client.rateLimiter).toBeUndefined();
+  });
+
+  it('should accept a shared limiter instance', () => {
+    const limiter = new RateLimiter();
+    const client = new EnclaveClient({ transport: new InMemoryTransport(), rateLimit: limiter });
+    expect(client.rateLimiter).toBe(limiter);
+  });
+});
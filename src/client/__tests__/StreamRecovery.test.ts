@@ -0,0 +1,196 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../EnclaveClient';
+import { StreamRecoverySource, StreamResync } from '../websocket/StreamRecovery';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { Order, OrderSide, OrderStatus, Position, Trade, WebSocketMessage } from '../../types';
+import { NotFoundError } from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('StreamRecovery', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+  let orders: Array<[Order, string]>;
+  let positions: Array<[Position, string]>;
+
+  beforeEach(async () => {
+    server = new MockEnclaveServer(auth);
+    await server.start();
+    client = new EnclaveClient({
+      auth,
+      transport: server.transport(),
+      wsUrl: server.wsUrl,
+      webSocket: { reconnectDelay: 50 },
+      streamRecovery: true,
+    });
+    orders = [];
+    positions = [];
+    await client.connectWebSocket();
+    await client.subscribeOrders((order, message: WebSocketMessage) =>
+      orders.push([order, message.type]),
+    );
+    await client.subscribePositions((position, message: WebSocketMessage) =>
+      positions.push([position, message.type]),
+    );
+  });
+
+  afterEach(async () => {
+    client.disconnectWebSocket();
+    await server.stop();
+  });
+
+  /**
+   * Drops the connection and runs `during` before the client reconnects
+   */
+  async function outage(during: () => Promise<void>): Promise<StreamResync> {
+    const resynced = new Promise<StreamResync>((resolve) =>
+      client.streamRecovery!.once('resynced', resolve),
+    );
+    const disconnected = new Promise((resolve) => client.webSocket!.once('disconnected', resolve));
+    server.dropConnections();
+    await disconnected;
+    await during();
+    return resynced;
+  }
+
+  it('should replay order and position updates missed during a reconnect', async () => {
+    const resting = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal('0.1'),
+      new Decimal(49000),
+    );
+    const filled = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal('0.2'),
+      new Decimal(49500),
+    );
+    await sleep(20);
+    orders = [];
+
+    const resync = await outage(async () => {
+      await client.cancelOrder(resting.id);
+      server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '49500', '0.2');
+    });
+
+    expect(resync.orders.map((o) => [o.id, o.status])).toEqual(
+      expect.arrayContaining([
+        [resting.id, OrderStatus.CANCELLED],
+        [filled.id, OrderStatus.FILLED],
+      ]),
+    );
+    expect(resync.fills.map((f) => f.orderId)).toEqual([filled.id]);
+    expect(orders.map(([o, type]) => [o.id, o.status, type])).toEqual(
+      expect.arrayContaining([
+        [resting.id, OrderStatus.CANCELLED, 'resync'],
+        [filled.id, OrderStatus.FILLED, 'resync'],
+      ]),
+    );
+    expect(positions.map(([p, type]) => [p.size, type])).toEqual([['0.2', 'resync']]);
+  });
+
+  it('should replay a position closed during the gap as flat', async () => {
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50000', '1');
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '49900', '1');
+    await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal('0.1'),
+      new Decimal(50000),
+    );
+    await sleep(20);
+    positions = [];
+
+    const resync = await outage(async () => {
+      await client.closePosition('BTC-USD.P');
+    });
+
+    expect(resync.positions).toHaveLength(1);
+    expect(positions.map(([p, type]) => [p.market, p.size, type])).toEqual([
+      ['BTC-USD.P', '0', 'resync'],
+    ]);
+    expect(await client.getPositions()).toHaveLength(0);
+  });
+
+  it('should find orders closed during the gap where fills are not served', async () => {
+    const missing = new NotFoundError('Not Found', '/v1/perps/fills', 'GET', 404);
+    jest.spyOn(client as StreamRecoverySource, 'iterateFills').mockReturnValue({
+      [Symbol.asyncIterator]: () => ({
+        next: (): Promise<IteratorResult<Trade>> => Promise.reject(missing),
+      }),
+    });
+    const resting = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal('0.1'),
+      new Decimal(49000),
+    );
+    await sleep(20);
+
+    const resync = await outage(() => {
+      server.exchange.executeExternal('BTC-USD.P', OrderSide.SELL, '49000', '0.1');
+      return Promise.resolve();
+    });
+
+    expect(resync.fills).toEqual([]);
+    expect(resync.orders.map((o) => [o.id, o.status])).toEqual([[resting.id, OrderStatus.FILLED]]);
+  });
+
+  it('should retry a failed recovery after the next reconnect without an error listener', async () => {
+    jest.spyOn(client, 'getOrders').mockRejectedValueOnce(new Error('503 Service Unavailable'));
+    const resting = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal('0.1'),
+      new Decimal(49000),
+    );
+    await sleep(20);
+
+    const disconnected = new Promise((resolve) => client.webSocket!.once('disconnected', resolve));
+    server.dropConnections();
+    await disconnected;
+    await client.cancelOrder(resting.id);
+    await sleep(150);
+    expect(client.streamRecovery!.listenerCount('error')).toBe(0);
+
+    const resync = await outage(() => Promise.resolve());
+    expect(resync.orders.map((o) => [o.id, o.status])).toEqual([
+      [resting.id, OrderStatus.CANCELLED],
+    ]);
+  });
+
+  it('should drop orders the exchange no longer knows', async () => {
+    const resting = await client.createLimitOrder(
+      'BTC-USD.P',
+      OrderSide.BUY,
+      new Decimal('0.1'),
+      new Decimal(49000),
+    );
+    await sleep(20);
+    const lookup = jest
+      .spyOn(client, 'getOrder')
+      .mockRejectedValueOnce(
+        new NotFoundError('Order not found', `/v1/perps/orders/${resting.id}`, 'GET', 404),
+      );
+
+    const first = await outage(async () => {
+      await client.cancelOrder(resting.id);
+    });
+    expect(first.orders).toEqual([]);
+
+    const second = await outage(() => Promise.resolve());
+    expect(second.orders).toEqual([]);
+    expect(lookup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only recover when enabled', () => {
+    expect(
+      new EnclaveClient({ auth, transport: server.transport() }).streamRecovery,
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import {
+  SubscriptionStatus,
+  WebSocketChannel,
+  WebSocketClient,
+} from '../websocket/WebSocketClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { OrderSide } from '../../types';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+function next<T = void>(client: WebSocketClient, event: string): Promise<T> {
+  return new Promise((resolve) => client.once(event, resolve));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('WebSocketClient - Heartbeat and staleness', () => {
+  let client: WebSocketClient;
+
+  afterEach(() => {
+    client.disconnect();
+  });
+
+  it('should drop a connection that stops answering pings', async () => {
+    const server = new WebSocketServer({ port: 0, host: '127.0.0.1', autoPong: false });
+    await new Promise((resolve) => server.once('listening', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      client = new WebSocketClient({
+        url: `ws://127.0.0.1:${port}`,
+        reconnect: false,
+        pingInterval: 20,
+        pongTimeout: 30,
+      });
+      await client.connect();
+
+      await next(client, 'disconnected');
+      expect(client.connected).toBe(false);
+    } finally {
+      server.close();
+    }
+  });
+
+  describe('with the mock server', () => {
+    let server: MockEnclaveServer;
+
+    beforeEach(async () => {
+      server = new MockEnclaveServer(auth);
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('should stay connected while pongs arrive', async () => {
+      client = new WebSocketClient({ url: server.wsUrl, pingInterval: 20, pongTimeout: 30 });
+      const disconnected = jest.fn();
+      client.on('disconnected', disconnected);
+      await client.connect();
+
+      await sleep(120);
+
+      expect(disconnected).not.toHaveBeenCalled();
+    });
+
+    it('should report a silent channel stale, reconnect and report recovery', async () => {
+      client = new WebSocketClient({
+        url: server.wsUrl,
+        reconnectDelay: 10,
+        staleTimeouts: { [WebSocketChannel.ORDERBOOK]: 50 },
+      });
+      await client.connect();
+      await client.subscribe(WebSocketChannel.ORDERBOOK, jest.fn(), 'BTC-USD.P');
+      await client.subscribe(WebSocketChannel.TRADES, jest.fn(), 'BTC-USD.P');
+
+      const stale = await next<SubscriptionStatus>(client, 'stale');
+      expect(stale).toMatchObject({ channel: WebSocketChannel.ORDERBOOK, stale: true });
+
+      await next(client, 'connected');
+      await next(client, 'subscribed');
+      expect(client.getSubscription(WebSocketChannel.ORDERBOOK, 'BTC-USD.P')?.stale).toBe(true);
+
+      const recovered = next<SubscriptionStatus>(client, 'recovered');
+      server.exchange.addLiquidity('BTC-USD.P', OrderSide.BUY, '49900', '1');
+
+      await expect(recovered).resolves.toMatchObject({ stale: false, market: 'BTC-USD.P' });
+      expect(client.getSubscription(WebSocketChannel.TRADES, 'BTC-USD.P')?.stale).toBe(false);
+    });
+  });
+});
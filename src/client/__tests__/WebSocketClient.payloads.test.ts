@@ -0,0 +1,149 @@
+import { WebSocketClient, WebSocketChannel } from '../websocket/WebSocketClient';
+import {
+  Order,
+  OrderBook,
+  OrderSide,
+  OrderStatus,
+  Position,
+  PositionDirection,
+  PriceUpdate,
+  Trade,
+  WebSocketMessage,
+} from '../../types';
+
+/**
+ * Feeds a raw server message into the client as if it came off the socket
+ */
+function receive(client: WebSocketClient, message: WebSocketMessage): void {
+  (client as unknown as { handleMessage(m: WebSocketMessage): void }).handleMessage(message);
+}
+
+describe('WebSocketClient - Typed Payloads', () => {
+  let client: WebSocketClient;
+
+  beforeEach(() => {
+    client = new WebSocketClient();
+  });
+
+  it('should adapt trades to the Trade type', () => {
+    const handler = jest.fn<void, [Trade]>();
+    void client.subscribe(WebSocketChannel.TRADES, handler, 'BTC-USD.P');
+
+    receive(client, {
+      channel: WebSocketChannel.TRADES,
+      type: 'update',
+      data: {
+        market: 'BTC-USD.P',
+        price: '50000',
+        size: '0.01',
+        cost: '500',
+        aggressor_side: 'sell',
+        time: '2025-01-01T00:00:00.000Z',
+        id: 't-1',
+      },
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    const trade = handler.mock.calls[0][0];
+    expect(trade.side).toBe(OrderSide.SELL);
+    expect(trade.timestamp).toBe(Date.parse('2025-01-01T00:00:00.000Z'));
+    expect(trade).not.toHaveProperty('aggressor_side');
+  });
+
+  it('should adapt top of book to the OrderBook type', () => {
+    const handler = jest.fn<void, [OrderBook]>();
+    void client.subscribe(WebSocketChannel.ORDERBOOK, handler, 'BTC-USD.P');
+
+    receive(client, {
+      channel: WebSocketChannel.ORDERBOOK,
+      type: 'update',
+      data: {
+        market: 'BTC-USD.P',
+        time: '2025-01-01T00:00:00.000Z',
+        bids: [['49999', '1']],
+        asks: [['50001', '2']],
+      },
+    });
+
+    const book = handler.mock.calls[0][0];
+    expect(book.bids[0]).toEqual(['49999', '1']);
+    expect(typeof book.timestamp).toBe('number');
+  });
+
+  it('should deliver market-scoped order updates to channel-wide subscribers', () => {
+    const handler = jest.fn<void, [Order]>();
+    void client.subscribe(WebSocketChannel.ORDERS, handler);
+
+    receive(client, {
+      channel: WebSocketChannel.ORDERS,
+      type: 'update',
+      data: {
+        id: 'o-1',
+        market: 'BTC-USD.P',
+        side: 'buy',
+        type: 'limit',
+        price: '50000',
+        size: '0.01',
+        remainingSize: '0.01',
+        status: 'open',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: 1735689600000,
+      },
+    });
+
+    const order = handler.mock.calls[0][0];
+    expect(order.status).toBe(OrderStatus.OPEN);
+    expect(order.createdAt).toBe(1735689600000);
+    expect(order.updatedAt).toBe(1735689600000);
+  });
+
+  it('should adapt positions and prices', () => {
+    const positionHandler = jest.fn<void, [Position]>();
+    const priceHandler = jest.fn<void, [PriceUpdate]>();
+    void client.subscribe(WebSocketChannel.POSITIONS, positionHandler);
+    void client.subscribe(WebSocketChannel.PRICES, priceHandler, 'BTC-USD.P');
+
+    receive(client, {
+      channel: WebSocketChannel.POSITIONS,
+      type: 'update',
+      data: {
+        market: 'BTC-USD.P',
+        side: 'short',
+        size: '1',
+        entryPrice: '50000',
+        markPrice: '49000',
+        liquidationPrice: '55000',
+        unrealizedPnl: '1000',
+        realizedPnl: '0',
+        margin: '5000',
+        leverage: '10',
+        createdAt: 1,
+        updatedAt: 2,
+      },
+    });
+    receive(client, {
+      channel: WebSocketChannel.PRICES,
+      type: 'update',
+      data: {
+        market: 'BTC-USD.P',
+        markPrice: '50000',
+        indexPrice: '49990',
+        time: '2025-01-01T00:00:00.000Z',
+      },
+    });
+
+    expect(positionHandler.mock.calls[0][0].side).toBe(PositionDirection.SHORT);
+    expect(positionHandler.mock.calls[0][0].leverage).toBe(10);
+    expect(priceHandler.mock.calls[0][0].indexPrice).toBe('49990');
+  });
+
+  it('should still emit the raw message event', () => {
+    const onMessage = jest.fn();
+    client.on('message', onMessage);
+
+    const raw = { channel: WebSocketChannel.TRADES, type: 'update', data: { market: 'X' } };
+    receive(client, raw);
+
+    expect(onMessage).toHaveBeenCalledWith(raw);
+  });
+});
@@ -0,0 +1,112 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { HmacAuth } from '../auth/HmacAuth';
+import { SubscriptionState, WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { EnclaveErrorCode, WebSocketError } from '../../utils/errors';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+function once(client: WebSocketClient, event: string): Promise<void> {
+  return new Promise((resolve) => client.once(event, () => resolve()));
+}
+
+describe('WebSocketClient - Subscriptions', () => {
+  let server: MockEnclaveServer;
+  let client: WebSocketClient;
+
+  beforeEach(async () => {
+    server = new MockEnclaveServer(auth);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    client.disconnect();
+    await server.stop();
+  });
+
+  function connectClient(withAuth: boolean): WebSocketClient {
+    client = new WebSocketClient({
+      url: server.wsUrl,
+      auth: withAuth ? new HmacAuth(auth.apiKey, auth.apiSecret) : undefined,
+      reconnectDelay: 10,
+    });
+    client.on('error', () => undefined);
+    return client;
+  }
+
+  it('should resolve once the server acknowledges, including subscriptions made before connect', async () => {
+    connectClient(false);
+    const early = client.subscribe(WebSocketChannel.TRADES, jest.fn(), 'BTC-USD.P');
+    expect(client.getSubscription(WebSocketChannel.TRADES, 'BTC-USD.P')?.state).toBe(
+      SubscriptionState.PENDING,
+    );
+
+    await client.connect();
+    await early;
+    await client.subscribe(WebSocketChannel.PRICES, jest.fn());
+
+    expect(client.getSubscriptions().map((s) => [s.channel, s.state])).toEqual([
+      [WebSocketChannel.TRADES, SubscriptionState.ACTIVE],
+      [WebSocketChannel.PRICES, SubscriptionState.ACTIVE],
+    ]);
+  });
+
+  it('should send private subscriptions after the auth ack, again after a reconnect', async () => {
+    connectClient(true);
+    const errors = jest.fn();
+    client.on('error', errors);
+    await client.connect();
+    await client.subscribe(WebSocketChannel.ORDERS, jest.fn());
+    expect(client.authenticated).toBe(true);
+
+    const reconnected = once(client, 'subscribed');
+    server.dropConnections();
+    await once(client, 'disconnected');
+    expect(client.getSubscription(WebSocketChannel.ORDERS)?.state).toBe(SubscriptionState.PENDING);
+
+    await reconnected;
+    expect(client.getSubscription(WebSocketChannel.ORDERS)?.state).toBe(SubscriptionState.ACTIVE);
+    expect(errors).not.toHaveBeenCalled();
+  });
+
+  it('should reject and mark the subscription failed on a server error', async () => {
+    connectClient(false);
+    await client.connect();
+    const failed = jest.fn();
+    client.on('subscriptionFailed', failed);
+
+    await expect(client.subscribe(WebSocketChannel.POSITIONS, jest.fn())).rejects.toThrow(
+      'Authentication required',
+    );
+
+    const status = client.getSubscription(WebSocketChannel.POSITIONS);
+    expect(status?.state).toBe(SubscriptionState.FAILED);
+    expect(status?.error).toBeInstanceOf(WebSocketError);
+    expect(failed).toHaveBeenCalledWith(status);
+  });
+
+  it('should time out when the server never acknowledges', async () => {
+    const silent = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await new Promise((resolve) => silent.once('listening', resolve));
+    try {
+      const { port } = silent.address() as AddressInfo;
+      client = new WebSocketClient({ url: `ws://127.0.0.1:${port}`, subscribeTimeout: 30 });
+      await client.connect();
+
+      const error = await client.subscribe(WebSocketChannel.TRADES, jest.fn(), 'BTC-USD.P').then(
+        () => undefined,
+        (e: unknown) => e,
+      );
+
+      expect(error).toBeInstanceOf(WebSocketError);
+      expect((error as WebSocketError).code).toBe(EnclaveErrorCode.TIMEOUT);
+      expect(client.getSubscription(WebSocketChannel.TRADES, 'BTC-USD.P')?.state).toBe(
+        SubscriptionState.FAILED,
+      );
+    } finally {
+      client.disconnect();
+      silent.close();
+    }
+  });
+});
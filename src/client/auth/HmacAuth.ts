@@ -1,4 +1,5 @@
-import * as crypto from 'crypto';
+import type * as Crypto from 'crypto';
+import { nodeModule, webCrypto } from '../../utils/runtime';
 
 export interface AuthHeaders {
   'ENCLAVE-KEY-ID': string;
@@ -6,7 +7,21 @@ export interface AuthHeaders {
   'ENCLAVE-SIGN': string;
 }
 
+/**
+ * Node's `crypto` module, loaded on first use so that unauthenticated clients
+ * can be created where it does not exist
+ */
+function nodeCrypto(): typeof Crypto {
+  return nodeModule<typeof Crypto>('crypto');
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
 export class HmacAuth {
+  private webKey?: Promise<Crypto.webcrypto.CryptoKey>;
+
   constructor(
     private readonly apiKey: string,
     private readonly apiSecret: string,
@@ -14,6 +29,7 @@ export class HmacAuth {
 
   /**
    * Generates authentication headers for API requests using HMAC-SHA256.
+   * Requires Node's `crypto` module; use `signRequest()` in other runtimes.
    *
    * @param method - HTTP method (GET, POST, etc.)
    * @param path - Request path including query parameters
@@ -22,14 +38,36 @@ export class HmacAuth {
    */
   public generateAuthHeaders(method: string, path: string, body: string = ''): AuthHeaders {
     const timestamp = Date.now();
-    const payload = `${timestamp}${method.toUpperCase()}${path}${body}`;
-    const signature = crypto.createHmac('sha256', this.apiSecret).update(payload).digest('hex');
+    return this.headers(timestamp, this.sign(this.payload(timestamp, method, path, body)));
+  }
 
-    return {
-      'ENCLAVE-KEY-ID': this.apiKey,
-      'ENCLAVE-TIMESTAMP': timestamp.toString(),
-      'ENCLAVE-SIGN': signature,
-    };
+  /**
+   * Generates the same headers as `generateAuthHeaders()` with Web Crypto where
+   * the runtime has it, so requests can be signed in browsers, Deno and edge
+   * workers. Falls back to Node's `crypto` module.
+   *
+   * @param method - HTTP method (GET, POST, etc.)
+   * @param path - Request path including query parameters
+   * @param body - Request body as string (empty string for GET requests)
+   * @returns Authentication headers required by the API
+   */
+  public async signRequest(method: string, path: string, body: string = ''): Promise<AuthHeaders> {
+    const subtle = webCrypto()?.subtle;
+    if (!subtle) return this.generateAuthHeaders(method, path, body);
+
+    const encoder = new TextEncoder();
+    this.webKey ??= subtle.importKey(
+      'raw',
+      encoder.encode(this.apiSecret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign'],
+    );
+    const key = await this.webKey;
+    const timestamp = Date.now();
+    const payload = this.payload(timestamp, method, path, body);
+    const signature = await subtle.sign('HMAC', key, encoder.encode(payload));
+    return this.headers(timestamp, toHex(signature));
   }
 
   /**
@@ -42,6 +80,7 @@ export class HmacAuth {
    */
   public validateWebhookSignature(signature: string, timestamp: string, body: string): boolean {
     const payload = `${timestamp}${body}`;
+    const crypto = nodeCrypto();
     const expectedSignature = crypto
       .createHmac('sha256', this.apiSecret)
       .update(payload)
@@ -65,7 +104,7 @@ export class HmacAuth {
    * @returns HMAC signature
    */
   public sign(message: string): string {
-    return crypto.createHmac('sha256', this.apiSecret).update(message).digest('hex');
+    return nodeCrypto().createHmac('sha256', this.apiSecret).update(message).digest('hex');
   }
 
   /**
@@ -74,4 +113,16 @@ export class HmacAuth {
   public getApiKey(): string {
     return this.apiKey;
   }
+
+  private payload(timestamp: number, method: string, path: string, body: string): string {
+    return `${timestamp}${method.toUpperCase()}${path}${body}`;
+  }
+
+  private headers(timestamp: number, signature: string): AuthHeaders {
+    return {
+      'ENCLAVE-KEY-ID': this.apiKey,
+      'ENCLAVE-TIMESTAMP': timestamp.toString(),
+      'ENCLAVE-SIGN': signature,
+    };
+  }
 }
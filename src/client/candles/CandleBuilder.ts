@@ -0,0 +1,332 @@
+/**
+ * Live OHLCV bars for one market built from historical candles and the trades stream
+ */
+
+import { EventEmitter } from 'events';
+import { Candle, CandleInterval, CandleQuery, HistoryQuery, Trade } from '../../types';
+import { reportError } from '../../utils/events';
+import { PaginateOptions } from '../../utils/pagination';
+import {
+  applyTradeToCandle,
+  emptyCandle,
+  getCandleOpenTime,
+  openCandle,
+} from '../../utils/candles';
+import { MessageHandler, WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+
+/**
+ * What CandleBuilder needs from the client; EnclaveClient satisfies it
+ */
+export interface CandleBuilderSource {
+  getCandles(market: string, interval: CandleInterval, query?: CandleQuery): Promise<Candle[]>;
+  iterateTrades(
+    query?: Omit<HistoryQuery, 'cursor'>,
+    options?: PaginateOptions,
+  ): AsyncIterable<Trade>;
+  readonly webSocket?: WebSocketClient;
+}
+
+export interface CandleBuilderOptions {
+  /**
+   * Closed bars loaded when the builder starts (default: 100, 0 disables)
+   */
+  history?: number;
+  /**
+   * Closed bars kept in memory (default: 1000)
+   */
+  maxCandles?: number;
+  /**
+   * Close intervals without trades as zero-volume bars at the previous close
+   * (default: true)
+   */
+  fillEmpty?: boolean;
+  /**
+   * Time in ms after a bar ends before it is closed without a newer trade,
+   * giving late stream messages a chance to arrive (default: 250)
+   */
+  closeDelay?: number;
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+/**
+ * OHLCV bars for a single market, kept current from the `tradesPerps` stream.
+ *
+ * On start the builder loads closed bars through `getCandles()` and rebuilds
+ * the bar in progress from public trades since it opened. Stream trades
+ * received meanwhile are buffered and replayed, de-duplicated by trade ID.
+ * A bar closes when a trade for a later interval arrives, or `closeDelay` ms
+ * after it ends, whichever comes first. Trades older than the bar in progress
+ * are dropped. After a WebSocket reconnect the bars are reloaded.
+ *
+ * Events:
+ * - `synced` - history and the bar in progress have been (re)loaded
+ * - `update` (candle) - a trade changed the bar in progress
+ * - `close` (candle) - a bar closed; emitted once per bar, in time order
+ * - `error` (error) - loading failed, it is retried on the next trade; logged with
+ *   `console.error` while nothing listens for it
+ *
+ * @example
+ * ```typescript
+ * await client.connectWebSocket();
+ * const bars = new CandleBuilder(client, 'BTC-USD.P', '1m');
+ * bars.on('close', (candle: Candle) => strategy.onBar(candle));
+ * await bars.start();
+ * console.log(bars.getCandles(20).map((c) => c.close));
+ * ```
+ */
+export class CandleBuilder extends EventEmitter {
+  public readonly market: string;
+  public readonly interval: CandleInterval;
+  private readonly source: CandleBuilderSource;
+  private readonly historySize: number;
+  private readonly maxCandles: number;
+  private readonly fillEmpty: boolean;
+  private readonly closeDelay: number;
+  private readonly debug: boolean;
+  private history: Candle[] = [];
+  private bar?: Candle;
+  private barTradeIds = new Set<string>();
+  private synced = false;
+  private syncing?: Promise<void>;
+  private buffer: Trade[] = [];
+  private generation = 0;
+  private closeTimer?: NodeJS.Timeout;
+  private ws?: WebSocketClient;
+  private readonly handleTrade: MessageHandler<Trade>;
+  private readonly handleReconnect: () => void;
+
+  constructor(
+    source: CandleBuilderSource,
+    market: string,
+    interval: CandleInterval,
+    options: CandleBuilderOptions = {},
+  ) {
+    super();
+    this.source = source;
+    this.market = market;
+    this.interval = interval;
+    this.historySize = options.history ?? 100;
+    this.maxCandles = options.maxCandles ?? 1000;
+    this.fillEmpty = options.fillEmpty ?? true;
+    this.closeDelay = options.closeDelay ?? 250;
+    this.debug = options.debug ?? false;
+    this.handleTrade = (trade): void => this.onTrade(trade);
+    this.handleReconnect = (): void => {
+      void this.resync().catch(() => undefined);
+    };
+  }
+
+  /**
+   * Subscribes to the trades stream and loads history
+   */
+  public async start(): Promise<void> {
+    const ws = this.source.webSocket;
+    if (!ws) {
+      throw new Error('WebSocket not connected. Call connectWebSocket() first.');
+    }
+    if (this.ws) return this.syncing;
+
+    this.ws = ws;
+    void ws.subscribe(WebSocketChannel.TRADES, this.handleTrade, this.market);
+    ws.on('connected', this.handleReconnect);
+    return this.resync();
+  }
+
+  /**
+   * Unsubscribes from the trades stream and stops closing bars
+   */
+  public stop(): void {
+    if (!this.ws) return;
+    this.ws.unsubscribe(WebSocketChannel.TRADES, this.handleTrade, this.market);
+    this.ws.off('connected', this.handleReconnect);
+    this.ws = undefined;
+    this.generation++;
+    this.synced = false;
+    this.syncing = undefined;
+    this.buffer = [];
+    this.clearCloseTimer();
+  }
+
+  /**
+   * Discards local bars and reloads history and the bar in progress
+   */
+  public resync(): Promise<void> {
+    const generation = ++this.generation;
+    this.synced = false;
+    this.buffer = [];
+    this.clearCloseTimer();
+
+    const syncing = this.load(generation).catch((error: unknown) => {
+      if (generation === this.generation) {
+        this.syncing = undefined;
+        reportError(this, error, `[CandleBuilder] ${this.market} loading failed:`);
+      }
+      throw error;
+    });
+    this.syncing = syncing;
+    return syncing;
+  }
+
+  /**
+   * Whether history is loaded and stream trades are being applied
+   */
+  public get isSynced(): boolean {
+    return this.synced;
+  }
+
+  /**
+   * Bar in progress, or undefined before the first trade (or after a bar
+   * without trades when `fillEmpty` is off)
+   */
+  public get current(): Candle | undefined {
+    return this.bar;
+  }
+
+  /**
+   * Closed bars, oldest first; the most recent `limit` when given
+   */
+  public getCandles(limit?: number): Candle[] {
+    return limit === undefined ? [...this.history] : this.history.slice(-limit);
+  }
+
+  private async load(generation: number): Promise<void> {
+    const openTime = getCandleOpenTime(Date.now(), this.interval);
+    const closed =
+      this.historySize > 0
+        ? await this.source.getCandles(this.market, this.interval, {
+            endTime: openTime,
+            limit: this.historySize,
+          })
+        : [];
+    const trades: Trade[] = [];
+    for await (const trade of this.source.iterateTrades({
+      market: this.market,
+      startTime: openTime,
+      limit: 1000,
+    })) {
+      if (generation !== this.generation) return;
+      trades.push(trade);
+    }
+    if (generation !== this.generation) return;
+
+    this.history = closed.filter((candle) => candle.closed).slice(-this.maxCandles);
+    const last = this.history[this.history.length - 1];
+    this.bar =
+      this.fillEmpty && last
+        ? emptyCandle(this.market, this.interval, last.closeTime, last.close)
+        : undefined;
+    this.barTradeIds = new Set();
+
+    // REST trades are newest first; stream trades are replayed after them
+    const buffered = this.buffer;
+    this.buffer = [];
+    for (const trade of [...trades.reverse(), ...buffered]) {
+      this.addTrade(trade);
+    }
+    this.closeElapsed();
+
+    this.synced = true;
+    this.syncing = undefined;
+    if (this.debug) {
+      console.log(
+        `[CandleBuilder] ${this.market} ${this.interval} synced with ${this.history.length} bars`,
+      );
+    }
+    this.emit('synced');
+  }
+
+  private onTrade(trade: Trade): void {
+    if (!this.synced) {
+      if (!this.syncing && this.ws) {
+        // A previous load failed; try again
+        this.resync().catch(() => undefined);
+      }
+      this.buffer.push(trade);
+      return;
+    }
+    if (this.addTrade(trade)) {
+      this.emit('update', this.bar);
+    }
+  }
+
+  /**
+   * Applies a trade, closing earlier bars first
+   *
+   * @returns Whether the trade changed the bar in progress
+   */
+  private addTrade(trade: Trade): boolean {
+    if (this.barTradeIds.has(trade.id)) return false;
+    const openTime = getCandleOpenTime(trade.timestamp, this.interval);
+    const last = this.history[this.history.length - 1];
+    const earliest = this.bar?.openTime ?? last?.closeTime ?? -Infinity;
+    if (openTime < earliest) {
+      if (this.debug) {
+        console.log(`[CandleBuilder] ${this.market} dropped late trade ${trade.id}`);
+      }
+      return false;
+    }
+
+    if (this.bar && openTime > this.bar.openTime) {
+      this.closeUntil(openTime);
+    }
+    if (this.bar) {
+      this.bar = applyTradeToCandle(this.bar, trade);
+    } else {
+      this.bar = openCandle(trade, this.market, this.interval);
+      this.scheduleClose();
+    }
+    this.barTradeIds.add(trade.id);
+    return true;
+  }
+
+  /**
+   * Closes the bar in progress and any empty bars that open before `openTime`
+   */
+  private closeUntil(openTime: number): void {
+    while (this.bar && this.bar.openTime < openTime) {
+      const closed: Candle = { ...this.bar, closed: true };
+      this.history.push(closed);
+      this.bar = this.fillEmpty
+        ? emptyCandle(this.market, this.interval, closed.closeTime, closed.close)
+        : undefined;
+      this.barTradeIds = new Set();
+      this.emit('close', closed);
+    }
+    if (this.history.length > this.maxCandles) {
+      this.history.splice(0, this.history.length - this.maxCandles);
+    }
+    this.scheduleClose();
+  }
+
+  /**
+   * Closes every bar whose interval ended more than `closeDelay` ms ago
+   */
+  private closeElapsed(): void {
+    const openTime = getCandleOpenTime(Date.now() - this.closeDelay, this.interval);
+    if (this.bar && openTime > this.bar.openTime) {
+      this.closeUntil(openTime);
+    } else {
+      this.scheduleClose();
+    }
+  }
+
+  private scheduleClose(): void {
+    this.clearCloseTimer();
+    if (!this.bar || !this.ws) return;
+    const delay = Math.max(0, this.bar.closeTime + this.closeDelay - Date.now());
+    this.closeTimer = setTimeout(() => {
+      this.closeTimer = undefined;
+      this.closeElapsed();
+    }, delay);
+  }
+
+  private clearCloseTimer(): void {
+    if (this.closeTimer) {
+      clearTimeout(this.closeTimer);
+      this.closeTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Base class for execution algorithms that work a parent order through child orders
+ */
+
+import Decimal from 'decimal.js';
+import { EventEmitter } from 'events';
+import { CreateOrderOptions, Market, Order, OrderSide, OrderType } from '../../types';
+import { EnclaveApiError } from '../../utils/errors';
+import { reportError } from '../../utils/events';
+import { roundDown } from '../../utils/rounding';
+import { randomUUID } from '../../utils/uuid';
+import { validateOrder } from '../../utils/validation';
+import {
+  OrderFill,
+  OrderTracker,
+  OrderTrackerSource,
+  OrderTransition,
+  isTerminalStatus,
+} from '../orders/OrderTracker';
+
+/**
+ * What execution algorithms need from the client; EnclaveClient satisfies it
+ */
+export interface ExecutionSource extends OrderTrackerSource {
+  getMarket(market: string): Promise<Market>;
+  createLimitOrder(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    price: Decimal,
+    options?: CreateOrderOptions,
+  ): Promise<Order>;
+  cancelOrder(orderId: string): Promise<Order>;
+}
+
+export interface ExecutionOptions {
+  /**
+   * Interval for polling child orders over REST in ms (default: 5000, 0 disables)
+   */
+  pollInterval?: number;
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+/**
+ * Parent order worked by an algorithm
+ */
+export interface ExecutionParams {
+  market: string;
+  side: OrderSide;
+  /**
+   * Total size in base units
+   */
+  size: Decimal;
+}
+
+export enum ExecutionStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  /**
+   * Filled, or nothing more will be sent (see `remainingSize`)
+   */
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+  /**
+   * A child order could not be placed; working children were cancelled
+   */
+  FAILED = 'failed',
+}
+
+export interface ExecutionProgress {
+  id: string;
+  market: string;
+  side: OrderSide;
+  status: ExecutionStatus;
+  size: Decimal;
+  filledSize: Decimal;
+  remainingSize: Decimal;
+  /**
+   * Volume-weighted average fill price, or null before the first fill
+   */
+  averagePrice: Decimal | null;
+  /**
+   * Child orders sent so far
+   */
+  childOrders: number;
+  /**
+   * Child orders still working on the book
+   */
+  workingOrders: number;
+}
+
+interface Child {
+  size: Decimal;
+  filled: Decimal;
+}
+
+const TERMINAL: ReadonlySet<ExecutionStatus> = new Set([
+  ExecutionStatus.COMPLETED,
+  ExecutionStatus.CANCELLED,
+  ExecutionStatus.FAILED,
+]);
+
+/**
+ * Works a parent order through child limit orders. Subclasses decide when and
+ * how much to send; the base class rounds every child down to the market's
+ * `baseIncrement`, holds back children below `minOrderSize` (the amount is
+ * carried into later children), caps children at `maxOrderSize`, tracks fills
+ * and handles pause, resume and cancel.
+ *
+ * A remainder smaller than the minimum order size cannot be sent and is left
+ * unfilled when the algorithm completes.
+ *
+ * Events:
+ * - `started`, `paused`, `resumed` (ExecutionProgress)
+ * - `child` (Order) - a child order was placed
+ * - `fill` (OrderFill) - a child order filled (partially)
+ * - `progress` (ExecutionProgress) - after every fill
+ * - `completed`, `cancelled` (ExecutionProgress) - the algorithm ended
+ * - `error` (error) - a child order could not be placed and the algorithm failed,
+ *   or polling a child order failed; logged with `console.error` while nothing
+ *   listens for it, `done()` reports the failure either way
+ */
+export abstract class ExecutionAlgorithm extends EventEmitter {
+  public readonly id: string = randomUUID();
+  public readonly market: string;
+  public readonly side: OrderSide;
+  public readonly size: Decimal;
+  protected readonly source: ExecutionSource;
+  protected readonly debug: boolean;
+  protected spec?: Market;
+  private state = ExecutionStatus.PENDING;
+  private readonly tracker: OrderTracker;
+  private readonly children: Map<string, Child> = new Map();
+  private reserved = new Decimal(0);
+  private filled = new Decimal(0);
+  private notional = new Decimal(0);
+  private exhausted = false;
+  private readonly finished: Promise<ExecutionProgress>;
+  private resolveFinished!: (progress: ExecutionProgress) => void;
+
+  constructor(source: ExecutionSource, params: ExecutionParams, options: ExecutionOptions = {}) {
+    super();
+    this.source = source;
+    this.market = params.market;
+    this.side = params.side;
+    this.size = params.size;
+    this.debug = options.debug ?? false;
+    this.tracker = new OrderTracker(source, {
+      pollInterval: options.pollInterval ?? 5000,
+      debug: this.debug,
+    });
+    this.tracker.on('fill', (fill: OrderFill) => this.onFill(fill));
+    this.tracker.on('transition', (transition: OrderTransition) => this.onTransition(transition));
+    this.tracker.on('error', (error: unknown) => this.reportError(error));
+    this.finished = new Promise((resolve) => {
+      this.resolveFinished = resolve;
+    });
+  }
+
+  /**
+   * Loads the market specs, validates the parent order and starts sending children
+   *
+   * @throws OrderValidationError if the parent size or price is invalid for the market
+   */
+  public async start(): Promise<void> {
+    if (this.state !== ExecutionStatus.PENDING) return;
+    const spec = await this.source.getMarket(this.market);
+    // The parent itself may exceed the maximum order size; children are capped instead
+    validateOrder(
+      { ...spec, maxOrderSize: undefined, maxPositionSize: undefined },
+      { side: this.side, type: OrderType.LIMIT, size: this.size, price: this.validationPrice() },
+    );
+    this.spec = spec;
+    await this.prepare();
+    this.state = ExecutionStatus.RUNNING;
+    this.tracker.start();
+    this.log(`started ${this.side} ${this.size.toString()} ${this.market}`);
+    this.emit('started', this.progress);
+    this.run();
+  }
+
+  /**
+   * Stops sending children and cancels the working ones
+   */
+  public async pause(): Promise<void> {
+    if (this.state !== ExecutionStatus.RUNNING) return;
+    this.state = ExecutionStatus.PAUSED;
+    this.halt();
+    await this.cancelWorking();
+    this.emit('paused', this.progress);
+  }
+
+  public resume(): void {
+    if (this.state !== ExecutionStatus.PAUSED) return;
+    this.state = ExecutionStatus.RUNNING;
+    this.emit('resumed', this.progress);
+    this.run();
+    this.checkCompletion();
+  }
+
+  /**
+   * Stops the algorithm and cancels the working children. Fills so far are kept.
+   */
+  public async cancel(): Promise<void> {
+    if (TERMINAL.has(this.state)) return;
+    this.state = ExecutionStatus.CANCELLED;
+    this.halt();
+    await this.cancelWorking();
+    this.finish('cancelled');
+  }
+
+  public get status(): ExecutionStatus {
+    return this.state;
+  }
+
+  public get progress(): ExecutionProgress {
+    return {
+      id: this.id,
+      market: this.market,
+      side: this.side,
+      status: this.state,
+      size: this.size,
+      filledSize: this.filled,
+      remainingSize: this.size.minus(this.filled),
+      averagePrice: this.filled.isZero() ? null : this.notional.div(this.filled),
+      childOrders: this.children.size,
+      workingOrders: [...this.children.keys()].filter((id) => this.isWorking(id)).length,
+    };
+  }
+
+  /**
+   * Resolves with the final progress once the algorithm completes, is
+   * cancelled or fails
+   */
+  public done(): Promise<ExecutionProgress> {
+    return this.finished;
+  }
+
+  /**
+   * Price checked against the market increments when the algorithm starts
+   */
+  protected abstract validationPrice(): Decimal;
+
+  /**
+   * Starts or resumes the schedule; called while running
+   */
+  protected abstract run(): void;
+
+  /**
+   * Stops the schedule; called on pause, cancel, completion and failure
+   */
+  protected abstract halt(): void;
+
+  /**
+   * Async setup before the first child (e.g. stream subscriptions)
+   */
+  protected prepare(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  /**
+   * Called when a child order reaches a terminal status
+   */
+  protected onChildDone(order: Order): void {
+    void order;
+  }
+
+  protected get running(): boolean {
+    return this.state === ExecutionStatus.RUNNING;
+  }
+
+  /**
+   * Size neither filled nor on the book
+   */
+  protected get unallocated(): Decimal {
+    return this.size.minus(this.filled).minus(this.working()).minus(this.reserved);
+  }
+
+  /**
+   * Size filled or on the book
+   */
+  protected get allocated(): Decimal {
+    return this.size.minus(this.unallocated);
+  }
+
+  /**
+   * Marks that no further children will be sent; the algorithm completes once
+   * the working children are done
+   */
+  protected exhaust(): void {
+    this.exhausted = true;
+    this.checkCompletion();
+  }
+
+  /**
+   * Sends a child limit order of up to `size`, rounded down to the base increment
+   *
+   * @returns The child order, or undefined if the size is below the minimum order size
+   */
+  protected async sendChild(
+    size: Decimal,
+    price: Decimal,
+    options: CreateOrderOptions = {},
+  ): Promise<Order | undefined> {
+    const spec = this.spec!;
+    let childSize = Decimal.min(size, this.unallocated);
+    if (spec.maxOrderSize) childSize = Decimal.min(childSize, spec.maxOrderSize);
+    childSize = roundDown(childSize, new Decimal(spec.baseIncrement));
+    if (!this.running || childSize.lt(spec.minOrderSize) || childSize.lte(0)) return undefined;
+
+    this.reserved = this.reserved.plus(childSize);
+    let order: Order;
+    try {
+      order = await this.source.createLimitOrder(this.market, this.side, childSize, price, {
+        clientOrderId: randomUUID(),
+        ...options,
+      });
+    } catch (error) {
+      this.reserved = this.reserved.minus(childSize);
+      await this.fail(error);
+      return undefined;
+    }
+    this.reserved = this.reserved.minus(childSize);
+    this.children.set(order.id, { size: childSize, filled: new Decimal(0) });
+    this.log(`child ${order.id} ${childSize.toString()} @ ${price.toString()}`);
+    this.emit('child', order);
+    await this.tracker.track(order);
+    if (!this.running) {
+      // Paused or cancelled while the order was in flight
+      await this.cancelWorking().catch((error: unknown) => this.reportError(error));
+    }
+    return order;
+  }
+
+  private onFill(fill: OrderFill): void {
+    const child = this.children.get(fill.orderId);
+    if (!child) return;
+    child.filled = child.filled.plus(fill.size);
+    this.filled = this.filled.plus(fill.size);
+    this.notional = this.notional.plus(fill.size.mul(fill.price));
+    this.emit('fill', fill);
+    this.emit('progress', this.progress);
+  }
+
+  private onTransition({ order }: OrderTransition): void {
+    if (!this.children.has(order.id) || !isTerminalStatus(order.status)) return;
+    if (this.running) this.onChildDone(order);
+    this.checkCompletion();
+  }
+
+  private checkCompletion(): void {
+    if (!this.running) return;
+    const minimum = new Decimal(this.spec!.minOrderSize);
+    const filled = this.size.minus(this.filled).lt(minimum);
+    const idle = this.working().isZero() && this.reserved.isZero();
+    if (idle && (filled || this.exhausted)) {
+      this.state = ExecutionStatus.COMPLETED;
+      this.halt();
+      this.finish('completed');
+    }
+  }
+
+  private working(): Decimal {
+    let total = new Decimal(0);
+    for (const [id, child] of this.children) {
+      if (this.isWorking(id)) total = total.plus(child.size.minus(child.filled));
+    }
+    return total;
+  }
+
+  private isWorking(orderId: string): boolean {
+    const tracked = this.tracker.get(orderId);
+    return tracked !== undefined && !isTerminalStatus(tracked.order.status);
+  }
+
+  private async cancelWorking(): Promise<void> {
+    for (const orderId of [...this.children.keys()].filter((id) => this.isWorking(id))) {
+      try {
+        await this.tracker.track(await this.source.cancelOrder(orderId));
+      } catch (error) {
+        // Already filled or cancelled; the stream or next poll reports the final state
+        const rejected = error instanceof EnclaveApiError && (error.statusCode ?? 0) < 500;
+        if (!rejected) throw error;
+      }
+    }
+  }
+
+  /**
+   * Stops the algorithm, cancels the working children and reports `error`
+   */
+  protected async fail(error: unknown): Promise<void> {
+    if (TERMINAL.has(this.state)) return;
+    this.state = ExecutionStatus.FAILED;
+    this.halt();
+    this.log(`failed: ${String(error)}`);
+    await this.cancelWorking().catch(() => undefined);
+    this.finish(undefined);
+    this.reportError(error);
+  }
+
+  private reportError(error: unknown): void {
+    reportError(this, error, `[${this.constructor.name}] ${this.id} failed:`);
+  }
+
+  private finish(event: 'completed' | 'cancelled' | undefined): void {
+    this.tracker.stop();
+    const progress = this.progress;
+    if (event) this.emit(event, progress);
+    this.resolveFinished(progress);
+  }
+
+  private log(message: string): void {
+    if (this.debug) {
+      console.log(`[${this.constructor.name}] ${this.id} ${message}`);
+    }
+  }
+}
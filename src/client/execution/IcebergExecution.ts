@@ -0,0 +1,106 @@
+/**
+ * Iceberg execution: a resting limit order that shows only part of the parent size
+ */
+
+import Decimal from 'decimal.js';
+import { Order, OrderStatus } from '../../types';
+import { EnclaveError, EnclaveErrorCode, OrderValidationError } from '../../utils/errors';
+import {
+  ExecutionAlgorithm,
+  ExecutionOptions,
+  ExecutionParams,
+  ExecutionSource,
+} from './ExecutionAlgorithm';
+
+export interface IcebergParams extends ExecutionParams {
+  /**
+   * Limit price of every clip
+   */
+  price: Decimal;
+  /**
+   * Visible size of each clip; must be at least the minimum order size
+   */
+  displaySize: Decimal;
+  /**
+   * Send clips as post-only so they never take liquidity
+   */
+  postOnly?: boolean;
+}
+
+/**
+ * Rests one clip of `displaySize` at `price` at a time and places the next
+ * clip once the previous one has filled, until the parent size is done. A
+ * clip cancelled or rejected by the exchange (e.g. a post-only clip that
+ * would have crossed) fails the run rather than being sent again.
+ *
+ * @example
+ * ```typescript
+ * const iceberg = new IcebergExecution(client, {
+ *   market: 'BTC-USD.P',
+ *   side: OrderSide.BUY,
+ *   size: new Decimal(10),
+ *   price: new Decimal(49900),
+ *   displaySize: new Decimal('0.5'),
+ *   postOnly: true,
+ * });
+ * iceberg.on('child', (clip: Order) => console.log(`clip ${clip.id} placed`));
+ * await iceberg.start();
+ * ```
+ */
+export class IcebergExecution extends ExecutionAlgorithm {
+  private readonly price: Decimal;
+  private readonly displaySize: Decimal;
+  private readonly postOnly: boolean;
+
+  constructor(source: ExecutionSource, params: IcebergParams, options: ExecutionOptions = {}) {
+    super(source, params, options);
+    this.price = params.price;
+    this.displaySize = params.displaySize;
+    this.postOnly = params.postOnly ?? false;
+  }
+
+  protected validationPrice(): Decimal {
+    return this.price;
+  }
+
+  protected prepare(): Promise<void> {
+    const spec = this.spec!;
+    if (this.displaySize.lt(spec.minOrderSize)) {
+      throw new OrderValidationError(spec.market, [
+        {
+          field: 'displaySize',
+          message: `Display size must be at least ${spec.minOrderSize}`,
+          value: this.displaySize.toString(),
+          limit: spec.minOrderSize,
+        },
+      ]);
+    }
+    return Promise.resolve();
+  }
+
+  protected run(): void {
+    void this.sendClip();
+  }
+
+  protected halt(): void {
+    // Clips are placed in response to fills; there is no schedule to stop
+  }
+
+  protected onChildDone(order: Order): void {
+    if (order.status !== OrderStatus.FILLED) {
+      const error = new EnclaveError(`Iceberg clip ${order.id} ended as ${order.status}`, {
+        code: EnclaveErrorCode.ORDER_CANCELLED,
+        details: { orderId: order.id },
+      });
+      void this.fail(error);
+      return;
+    }
+    void this.sendClip();
+  }
+
+  private async sendClip(): Promise<void> {
+    if (this.progress.workingOrders > 0) return;
+    const clip = await this.sendChild(this.displaySize, this.price, { postOnly: this.postOnly });
+    if (!clip && this.running) this.exhaust();
+  }
+}
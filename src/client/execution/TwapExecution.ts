@@ -0,0 +1,113 @@
+/**
+ * Time-weighted execution: equal slices of a parent order at a fixed interval
+ */
+
+import Decimal from 'decimal.js';
+import { TimeInForce } from '../../types';
+import {
+  ExecutionAlgorithm,
+  ExecutionOptions,
+  ExecutionParams,
+  ExecutionSource,
+} from './ExecutionAlgorithm';
+
+export interface TwapParams extends ExecutionParams {
+  /**
+   * Time in ms over which the slices are sent
+   */
+  duration: number;
+  /**
+   * Number of slices
+   */
+  slices: number;
+  /**
+   * Worst acceptable price for every slice
+   */
+  limitPrice: Decimal;
+}
+
+/**
+ * Sends the parent order as `slices` IOC limit orders spread evenly over
+ * `duration`. Each slice tops the run up to its share of the schedule, so size
+ * that did not fill within the limit price, or was held back for being below
+ * the minimum order size, is carried into the next slice. Time spent paused
+ * does not count towards the duration.
+ *
+ * @example
+ * ```typescript
+ * const twap = new TwapExecution(client, {
+ *   market: 'BTC-USD.P',
+ *   side: OrderSide.BUY,
+ *   size: new Decimal(2),
+ *   duration: 10 * 60 * 1000,
+ *   slices: 20,
+ *   limitPrice: new Decimal(51000),
+ * });
+ * twap.on('progress', (p: ExecutionProgress) => console.log(`${p.filledSize} filled`));
+ * await twap.start();
+ * const result = await twap.done();
+ * ```
+ */
+export class TwapExecution extends ExecutionAlgorithm {
+  private readonly slices: number;
+  private readonly interval: number;
+  private readonly limitPrice: Decimal;
+  private slice = 0;
+  private timer?: NodeJS.Timeout;
+  private nextSliceAt = 0;
+  private untilNextSlice = 0;
+
+  constructor(source: ExecutionSource, params: TwapParams, options: ExecutionOptions = {}) {
+    super(source, params, options);
+    if (!Number.isInteger(params.slices) || params.slices < 1) {
+      throw new Error('slices must be a positive integer');
+    }
+    if (!(params.duration >= 0)) {
+      throw new Error('duration must not be negative');
+    }
+    this.slices = params.slices;
+    this.interval = params.duration / params.slices;
+    this.limitPrice = params.limitPrice;
+  }
+
+  protected validationPrice(): Decimal {
+    return this.limitPrice;
+  }
+
+  protected run(): void {
+    this.schedule(this.untilNextSlice);
+  }
+
+  protected halt(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+      this.untilNextSlice = Math.max(0, this.nextSliceAt - Date.now());
+    } else {
+      // Halted while a slice was being sent
+      this.untilNextSlice = this.interval;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.nextSliceAt = Date.now() + delay;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      void this.sendSlice();
+    }, delay);
+  }
+
+  private async sendSlice(): Promise<void> {
+    this.slice += 1;
+    const target = this.size.mul(this.slice).div(this.slices);
+    await this.sendChild(target.minus(this.allocated), this.limitPrice, {
+      timeInForce: TimeInForce.IOC,
+    });
+    if (!this.running) return;
+    if (this.slice < this.slices) {
+      this.schedule(this.interval);
+    } else {
+      this.exhaust();
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Volume-weighted execution: child orders sized to a share of observed market volume
+ */
+
+import Decimal from 'decimal.js';
+import { TimeInForce, Trade } from '../../types';
+import { MessageHandler, WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+import {
+  ExecutionAlgorithm,
+  ExecutionOptions,
+  ExecutionParams,
+  ExecutionSource,
+  ExecutionStatus,
+} from './ExecutionAlgorithm';
+
+export interface VwapParams extends ExecutionParams {
+  /**
+   * Worst acceptable price for every child order
+   */
+  limitPrice: Decimal;
+  /**
+   * Share of the market volume to trade, between 0 and 1 (exclusive).
+   * Own fills count towards the market volume.
+   */
+  participationRate: number;
+  /**
+   * Time in ms between child orders (default: 5000)
+   */
+  interval?: number;
+  /**
+   * Time in ms after which the unfilled rest is sent at once. Without a
+   * duration the run continues until the parent is filled or cancelled.
+   */
+  duration?: number;
+}
+
+/**
+ * Trades in proportion to the volume printed on the `tradesPerps` stream.
+ * Every `interval` the run is topped up with an IOC limit order to
+ * `participationRate` of the volume traded since it started. Volume printed
+ * while paused is not counted.
+ *
+ * Requires a WebSocket connection.
+ *
+ * @example
+ * ```typescript
+ * await client.connectWebSocket();
+ * const vwap = new VwapExecution(client, {
+ *   market: 'BTC-USD.P',
+ *   side: OrderSide.SELL,
+ *   size: new Decimal(5),
+ *   limitPrice: new Decimal(49500),
+ *   participationRate: 0.1,
+ *   duration: 30 * 60 * 1000,
+ * });
+ * await vwap.start();
+ * ```
+ */
+export class VwapExecution extends ExecutionAlgorithm {
+  private readonly limitPrice: Decimal;
+  private readonly participationRate: number;
+  private readonly interval: number;
+  private remainingDuration?: number;
+  private observedVolume = new Decimal(0);
+  private ws?: WebSocketClient;
+  private timer?: NodeJS.Timeout;
+  private deadline?: NodeJS.Timeout;
+  private runningSince = 0;
+  private sending = false;
+  private readonly handleTrade: MessageHandler<Trade>;
+
+  constructor(source: ExecutionSource, params: VwapParams, options: ExecutionOptions = {}) {
+    super(source, params, options);
+    if (!(params.participationRate > 0 && params.participationRate < 1)) {
+      throw new Error('participationRate must be between 0 and 1');
+    }
+    this.limitPrice = params.limitPrice;
+    this.participationRate = params.participationRate;
+    this.interval = params.interval ?? 5000;
+    this.remainingDuration = params.duration;
+    this.handleTrade = (trade): void => {
+      if (this.running && trade.market === this.market) {
+        this.observedVolume = this.observedVolume.plus(trade.size);
+      }
+    };
+  }
+
+  protected validationPrice(): Decimal {
+    return this.limitPrice;
+  }
+
+  protected prepare(): Promise<void> {
+    const ws = this.source.webSocket;
+    if (!ws) {
+      throw new Error('WebSocket not connected. Call connectWebSocket() first.');
+    }
+    this.ws = ws;
+    void ws.subscribe(WebSocketChannel.TRADES, this.handleTrade, this.market);
+    return Promise.resolve();
+  }
+
+  protected run(): void {
+    this.runningSince = Date.now();
+    this.timer = setInterval(() => void this.topUp(), this.interval);
+    if (this.remainingDuration !== undefined) {
+      this.deadline = setTimeout(() => void this.finishRest(), this.remainingDuration);
+    }
+  }
+
+  protected halt(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    if (this.deadline) {
+      clearTimeout(this.deadline);
+      this.deadline = undefined;
+      this.remainingDuration = Math.max(
+        0,
+        this.remainingDuration! - (Date.now() - this.runningSince),
+      );
+    }
+    if (this.status !== ExecutionStatus.PAUSED && this.ws) {
+      this.ws.unsubscribe(WebSocketChannel.TRADES, this.handleTrade, this.market);
+      this.ws = undefined;
+    }
+  }
+
+  private async topUp(): Promise<void> {
+    if (this.sending) return;
+    this.sending = true;
+    try {
+      const target = Decimal.min(this.size, this.observedVolume.mul(this.participationRate));
+      await this.sendChild(target.minus(this.allocated), this.limitPrice, {
+        timeInForce: TimeInForce.IOC,
+      });
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  private async finishRest(): Promise<void> {
+    this.deadline = undefined;
+    this.remainingDuration = 0;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.sendChild(this.size, this.limitPrice, { timeInForce: TimeInForce.IOC });
+    if (this.running) this.exhaust();
+  }
+}
@@ -0,0 +1,367 @@
+/**
+ * Full-depth order book maintained locally from a REST snapshot and the depth stream
+ */
+
+import Decimal from 'decimal.js';
+import { EventEmitter } from 'events';
+import { DepthUpdate, OrderBook, OrderSide, WebSocketMessage } from '../../types';
+import { reportError } from '../../utils/events';
+import { MessageHandler, WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+
+/**
+ * What LocalOrderBook needs from the client; EnclaveClient satisfies it
+ */
+export interface LocalOrderBookSource {
+  getOrderBook(market: string, depth?: number): Promise<OrderBook>;
+  readonly webSocket?: WebSocketClient;
+}
+
+export interface LocalOrderBookOptions {
+  /**
+   * Number of levels requested for the REST snapshot (default: 1000)
+   */
+  snapshotDepth?: number;
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+export interface PriceLevel {
+  price: Decimal;
+  size: Decimal;
+}
+
+type BookSide = 'bids' | 'asks';
+
+/**
+ * Order book for a single market kept in sync with the `depthPerps` stream.
+ *
+ * The book is seeded from `/v1/perps/depth`. Stream updates received while the
+ * snapshot is loading are buffered and replayed on top of it. Each update must
+ * carry the next per-market `sequence`; a gap, or a WebSocket reconnect,
+ * triggers an automatic resync.
+ *
+ * Events:
+ * - `synced` - the book has been (re)seeded and is consistent
+ * - `update` (book) - a depth update was applied
+ * - `gap` ({ expected, received }) - a sequence gap was detected, resync follows
+ * - `error` (error) - the snapshot request failed, resync is retried on the next update;
+ *   logged with `console.error` while nothing listens for it
+ *
+ * @example
+ * ```typescript
+ * await client.connectWebSocket();
+ * const book = new LocalOrderBook(client, 'BTC-USD.P');
+ * await book.start();
+ * console.log(book.bestBid()?.price.toString());
+ * console.log(book.vwap(OrderSide.BUY, new Decimal(2))?.toString());
+ * ```
+ */
+export class LocalOrderBook extends EventEmitter {
+  public readonly market: string;
+  private readonly source: LocalOrderBookSource;
+  private readonly snapshotDepth: number;
+  private readonly debug: boolean;
+  private bids: Map<string, Decimal> = new Map();
+  private asks: Map<string, Decimal> = new Map();
+  private sortedBids?: PriceLevel[];
+  private sortedAsks?: PriceLevel[];
+  private lastSequence?: number;
+  private lastTimestamp = 0;
+  private synced = false;
+  private syncing?: Promise<void>;
+  private buffer: Array<{ update: DepthUpdate; sequence?: number }> = [];
+  private generation = 0;
+  private ws?: WebSocketClient;
+  private readonly handleUpdate: MessageHandler<DepthUpdate>;
+  private readonly handleReconnect: () => void;
+
+  constructor(source: LocalOrderBookSource, market: string, options: LocalOrderBookOptions = {}) {
+    super();
+    this.source = source;
+    this.market = market;
+    this.snapshotDepth = options.snapshotDepth ?? 1000;
+    this.debug = options.debug ?? false;
+    this.handleUpdate = (update, message): void => this.onUpdate(update, message);
+    this.handleReconnect = (): void => {
+      void this.resync().catch(() => undefined);
+    };
+  }
+
+  /**
+   * Subscribes to the depth stream and loads the initial snapshot
+   */
+  public async start(): Promise<void> {
+    const ws = this.source.webSocket;
+    if (!ws) {
+      throw new Error('WebSocket not connected. Call connectWebSocket() first.');
+    }
+    if (this.ws) return this.syncing;
+
+    this.ws = ws;
+    void ws.subscribe(WebSocketChannel.DEPTH, this.handleUpdate, this.market);
+    ws.on('connected', this.handleReconnect);
+    return this.resync();
+  }
+
+  /**
+   * Unsubscribes from the depth stream
+   */
+  public stop(): void {
+    if (!this.ws) return;
+    this.ws.unsubscribe(WebSocketChannel.DEPTH, this.handleUpdate, this.market);
+    this.ws.off('connected', this.handleReconnect);
+    this.ws = undefined;
+    this.generation++;
+    this.synced = false;
+    this.syncing = undefined;
+    this.buffer = [];
+  }
+
+  /**
+   * Discards local state and reloads the REST snapshot
+   */
+  public resync(): Promise<void> {
+    const generation = ++this.generation;
+    this.synced = false;
+    this.lastSequence = undefined;
+    this.buffer = [];
+
+    const syncing = this.source
+      .getOrderBook(this.market, this.snapshotDepth)
+      .then((snapshot) => {
+        if (generation !== this.generation) return;
+        this.applySnapshot(snapshot);
+      })
+      .catch((error: unknown) => {
+        if (generation === this.generation) {
+          this.syncing = undefined;
+          reportError(this, error, `[LocalOrderBook] ${this.market} snapshot failed:`);
+        }
+        throw error;
+      });
+    this.syncing = syncing;
+    return syncing;
+  }
+
+  /**
+   * Whether the book is seeded and has not detected a gap since
+   */
+  public get isSynced(): boolean {
+    return this.synced;
+  }
+
+  /**
+   * Sequence number of the last applied update
+   */
+  public get sequence(): number | undefined {
+    return this.lastSequence;
+  }
+
+  /**
+   * Time of the last snapshot or update (epoch ms)
+   */
+  public get timestamp(): number {
+    return this.lastTimestamp;
+  }
+
+  /**
+   * Bid levels sorted best (highest) first
+   */
+  public getBids(limit?: number): PriceLevel[] {
+    return this.levels('bids').slice(0, limit);
+  }
+
+  /**
+   * Ask levels sorted best (lowest) first
+   */
+  public getAsks(limit?: number): PriceLevel[] {
+    return this.levels('asks').slice(0, limit);
+  }
+
+  public bestBid(): PriceLevel | null {
+    return this.levels('bids')[0] ?? null;
+  }
+
+  public bestAsk(): PriceLevel | null {
+    return this.levels('asks')[0] ?? null;
+  }
+
+  public midPrice(): Decimal | null {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid && ask ? bid.price.plus(ask.price).div(2) : null;
+  }
+
+  public spread(): Decimal | null {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid && ask ? ask.price.minus(bid.price) : null;
+  }
+
+  /**
+   * Size resting at an exact price on the given book side (BUY = bids)
+   */
+  public depthAt(side: OrderSide, price: Decimal.Value): Decimal {
+    const levels = side === OrderSide.BUY ? this.bids : this.asks;
+    return levels.get(new Decimal(price).toString()) ?? new Decimal(0);
+  }
+
+  /**
+   * Total size on the given book side (BUY = bids) at prices equal to or
+   * better than `price`, or across the whole side when omitted
+   */
+  public cumulativeVolume(side: OrderSide, price?: Decimal.Value): Decimal {
+    const bookSide: BookSide = side === OrderSide.BUY ? 'bids' : 'asks';
+    const limit = price === undefined ? undefined : new Decimal(price);
+    let total = new Decimal(0);
+    for (const level of this.levels(bookSide)) {
+      if (limit && (bookSide === 'bids' ? level.price.lt(limit) : level.price.gt(limit))) break;
+      total = total.plus(level.size);
+    }
+    return total;
+  }
+
+  /**
+   * Volume-weighted average price to fill a taker order of `size`.
+   * A BUY walks the asks, a SELL walks the bids.
+   *
+   * @returns The VWAP, or null if the book is too thin to fill the full size
+   */
+  public vwap(side: OrderSide, size: Decimal.Value): Decimal | null {
+    const target = new Decimal(size);
+    if (target.lte(0)) return null;
+    let remaining = target;
+    let cost = new Decimal(0);
+    for (const level of this.levels(side === OrderSide.BUY ? 'asks' : 'bids')) {
+      const take = Decimal.min(remaining, level.size);
+      cost = cost.plus(take.mul(level.price));
+      remaining = remaining.minus(take);
+      if (remaining.isZero()) return cost.div(target);
+    }
+    return null;
+  }
+
+  /**
+   * Current book as a plain OrderBook
+   */
+  public toOrderBook(depth?: number): OrderBook {
+    const format = (level: PriceLevel): [string, string] => [
+      level.price.toString(),
+      level.size.toString(),
+    ];
+    return {
+      market: this.market,
+      bids: this.getBids(depth).map(format),
+      asks: this.getAsks(depth).map(format),
+      timestamp: this.lastTimestamp,
+      sequenceNumber: this.lastSequence,
+    };
+  }
+
+  private onUpdate(update: DepthUpdate, message: WebSocketMessage): void {
+    const sequence = message.sequence;
+
+    if (!this.synced) {
+      if (!this.syncing) {
+        // A previous snapshot request failed; try again
+        this.resync().catch(() => undefined);
+      }
+      this.buffer.push({ update, sequence });
+      return;
+    }
+
+    if (sequence !== undefined && this.lastSequence !== undefined) {
+      if (sequence <= this.lastSequence) return;
+      if (sequence !== this.lastSequence + 1) {
+        this.handleGap(this.lastSequence + 1, sequence);
+        this.buffer.push({ update, sequence });
+        return;
+      }
+    }
+
+    this.applyUpdate(update, sequence);
+    this.emit('update', this);
+  }
+
+  private applySnapshot(snapshot: OrderBook): void {
+    this.bids = new Map();
+    this.asks = new Map();
+    for (const [price, size] of snapshot.bids) this.setLevel('bids', price, size);
+    for (const [price, size] of snapshot.asks) this.setLevel('asks', price, size);
+    this.invalidate();
+    this.lastSequence = snapshot.sequenceNumber;
+    this.lastTimestamp = snapshot.timestamp;
+
+    const buffered = this.buffer;
+    this.buffer = [];
+    for (const { update, sequence } of buffered) {
+      if (sequence !== undefined && this.lastSequence !== undefined) {
+        if (sequence <= this.lastSequence) continue;
+        if (sequence !== this.lastSequence + 1) {
+          this.handleGap(this.lastSequence + 1, sequence);
+          return;
+        }
+      }
+      this.applyUpdate(update, sequence);
+    }
+
+    this.synced = true;
+    this.syncing = undefined;
+    if (this.debug) {
+      console.log(
+        `[LocalOrderBook] ${this.market} synced at sequence ${String(this.lastSequence)}`,
+      );
+    }
+    this.emit('synced');
+  }
+
+  private applyUpdate(update: DepthUpdate, sequence?: number): void {
+    for (const [price, size] of update.bids) this.setLevel('bids', price, size);
+    for (const [price, size] of update.asks) this.setLevel('asks', price, size);
+    this.invalidate();
+    if (sequence !== undefined) this.lastSequence = sequence;
+    this.lastTimestamp = update.timestamp;
+  }
+
+  private handleGap(expected: number, received: number): void {
+    if (this.debug) {
+      console.log(`[LocalOrderBook] ${this.market} gap: expected ${expected}, got ${received}`);
+    }
+    this.emit('gap', { expected, received });
+    this.resync().catch(() => undefined);
+  }
+
+  private setLevel(side: BookSide, price: string, size: string): void {
+    const levels = side === 'bids' ? this.bids : this.asks;
+    const key = new Decimal(price).toString();
+    const amount = new Decimal(size);
+    if (amount.isZero()) {
+      levels.delete(key);
+    } else {
+      levels.set(key, amount);
+    }
+  }
+
+  private invalidate(): void {
+    this.sortedBids = undefined;
+    this.sortedAsks = undefined;
+  }
+
+  private levels(side: BookSide): PriceLevel[] {
+    if (side === 'bids') {
+      this.sortedBids ??= this.sort(this.bids, (a, b) => b.price.comparedTo(a.price));
+      return this.sortedBids;
+    }
+    this.sortedAsks ??= this.sort(this.asks, (a, b) => a.price.comparedTo(b.price));
+    return this.sortedAsks;
+  }
+
+  private sort(
+    levels: Map<string, Decimal>,
+    compare: (a: PriceLevel, b: PriceLevel) => number,
+  ): PriceLevel[] {
+    return [...levels].map(([price, size]) => ({ price: new Decimal(price), size })).sort(compare);
+  }
+}
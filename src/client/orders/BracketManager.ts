@@ -0,0 +1,664 @@
+/**
+ * Bracket orders: an entry order protected by one-cancels-other stop-loss and take-profit legs
+ */
+
+import Decimal from 'decimal.js';
+import { EventEmitter } from 'events';
+import {
+  CreateOrderOptions,
+  CreateStopOrderOptions,
+  Order,
+  OrderSide,
+  OrderStatus,
+  Position,
+  PositionDirection,
+  StopOrder,
+  StopOrderType,
+} from '../../types';
+import {
+  EnclaveApiError,
+  NotFoundError,
+  OrderValidationError,
+  ValidationIssue,
+} from '../../utils/errors';
+import { reportError } from '../../utils/events';
+import { randomUUID } from '../../utils/uuid';
+import { MessageHandler, WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+import { BracketStore, InMemoryBracketStore, cloneBracket } from './BracketStore';
+import {
+  OrderFill,
+  OrderTracker,
+  OrderTrackerSource,
+  OrderTransition,
+  TrackedOrder,
+  isTerminalStatus,
+} from './OrderTracker';
+
+/**
+ * What BracketManager needs from the client; EnclaveClient satisfies it
+ */
+export interface BracketManagerSource extends OrderTrackerSource {
+  createLimitOrder(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    price: Decimal,
+    options?: CreateOrderOptions,
+  ): Promise<Order>;
+  createMarketOrder(
+    market: string,
+    side: OrderSide,
+    size: Decimal,
+    options?: CreateOrderOptions,
+  ): Promise<Order>;
+  cancelOrder(orderId: string): Promise<Order>;
+  getOrderByClientId(clientOrderId: string): Promise<Order>;
+  createStopOrder(
+    market: string,
+    positionDirection: PositionDirection,
+    type: StopOrderType,
+    triggerPrice: Decimal,
+    options?: CreateStopOrderOptions,
+  ): Promise<StopOrder>;
+  cancelStopOrder(stopOrderId: string): Promise<StopOrder>;
+  getStopOrders(market?: string): Promise<StopOrder[]>;
+}
+
+export interface BracketManagerOptions {
+  /**
+   * Persistence for bracket state (default: in memory only)
+   */
+  store?: BracketStore;
+  /**
+   * Interval for polling entry orders and legs over REST in ms (default: 5000, 0 disables)
+   */
+  pollInterval?: number;
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+export interface BracketOrderParams {
+  market: string;
+  side: OrderSide;
+  /**
+   * Entry size, with the same meaning as in createLimitOrder() or createMarketOrder()
+   */
+  size: Decimal;
+  /**
+   * Limit price of the entry; a market order is sent when omitted
+   */
+  price?: Decimal;
+  stopLoss?: Decimal;
+  takeProfit?: Decimal;
+  /**
+   * Idempotency key for the entry order; a UUID is generated when omitted
+   */
+  clientOrderId?: string;
+}
+
+export enum BracketStatus {
+  /**
+   * The entry order is being placed
+   */
+  PENDING = 'pending',
+  /**
+   * The entry order is working and nothing has filled
+   */
+  OPEN = 'open',
+  /**
+   * Some or all of the entry has filled and the legs protect the filled size
+   */
+  ACTIVE = 'active',
+  /**
+   * A leg triggered or the position was closed; the remaining orders were cancelled
+   */
+  CLOSED = 'closed',
+  /**
+   * The entry was cancelled or rejected before filling, or cancel() was called
+   */
+  CANCELLED = 'cancelled',
+}
+
+export interface BracketLeg {
+  type: StopOrderType;
+  triggerPrice: string;
+  size: string;
+  clientOrderId: string;
+  /**
+   * Set once the exchange has confirmed the stop order
+   */
+  stopOrderId?: string;
+}
+
+/**
+ * Bracket state; plain JSON so a BracketStore can persist it as is
+ */
+export interface Bracket {
+  id: string;
+  market: string;
+  side: OrderSide;
+  size: string;
+  price?: string;
+  stopLoss?: string;
+  takeProfit?: string;
+  status: BracketStatus;
+  entryClientOrderId: string;
+  entryOrderId?: string;
+  /**
+   * Last known status of the entry order
+   */
+  entryStatus?: OrderStatus;
+  /**
+   * Entry size filled so far, and protected by the legs
+   */
+  filledSize: string;
+  legs: BracketLeg[];
+  /**
+   * Legs being replaced after a further fill, cancelled once their successors are placed
+   */
+  staleLegs: BracketLeg[];
+  /**
+   * The leg that triggered, when the bracket closed through one
+   */
+  closedBy?: StopOrderType;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DONE_STATUSES: ReadonlySet<BracketStatus> = new Set([
+  BracketStatus.CLOSED,
+  BracketStatus.CANCELLED,
+]);
+
+/**
+ * Places entry orders and protects each fill with stop-loss and take-profit
+ * stop orders that cancel each other.
+ *
+ * The entry is followed by an OrderTracker. Every fill (re)places the legs,
+ * sized to the total filled quantity, before the previous legs are cancelled,
+ * so the position is never unprotected. Position updates from the
+ * `positionsPerps` stream, reconnects and periodic polls check the legs: when
+ * one has left the exchange's pending stop orders it has triggered, so the
+ * sibling and any unfilled entry are cancelled. A position closed by other
+ * means also closes its brackets.
+ *
+ * State is written to the BracketStore before each request that changes it
+ * and every leg carries a clientOrderId, so `start()` in a new process
+ * resumes saved brackets without sending duplicate orders.
+ *
+ * Events:
+ * - `update` (Bracket) - the bracket state changed
+ * - `protected` (Bracket) - legs now cover the filled size
+ * - `closed` (Bracket) - a leg triggered (see `closedBy`) or the position closed
+ * - `cancelled` (Bracket) - the bracket ended without a fill, or cancel() was called
+ * - `error` (error, Bracket) - a background step failed; it is retried on the next check.
+ *   Logged with `console.error` while nothing listens for it
+ *
+ * @example
+ * ```typescript
+ * await client.connectWebSocket();
+ * const brackets = new BracketManager(client, { store: new FileBracketStore('./brackets.json') });
+ * await brackets.start();
+ *
+ * const bracket = await brackets.place({
+ *   market: 'BTC-USD.P',
+ *   side: OrderSide.BUY,
+ *   size: new Decimal('0.1'),
+ *   price: new Decimal(50000),
+ *   stopLoss: new Decimal(48000),
+ *   takeProfit: new Decimal(55000),
+ * });
+ * brackets.on('closed', (b: Bracket) => console.log(`${b.id} closed by ${b.closedBy}`));
+ * ```
+ */
+export class BracketManager extends EventEmitter {
+  private readonly source: BracketManagerSource;
+  private readonly store: BracketStore;
+  private readonly pollInterval: number;
+  private readonly debug: boolean;
+  private readonly tracker: OrderTracker;
+  private readonly brackets: Map<string, Bracket> = new Map();
+  private readonly queues: Map<string, Promise<void>> = new Map();
+  private pollTimer?: NodeJS.Timeout;
+  private started = false;
+  private ws?: WebSocketClient;
+  private readonly handlePosition: MessageHandler<Position>;
+  private readonly handleReconnect: () => void;
+
+  constructor(source: BracketManagerSource, options: BracketManagerOptions = {}) {
+    super();
+    this.source = source;
+    this.store = options.store ?? new InMemoryBracketStore();
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.debug = options.debug ?? false;
+    this.tracker = new OrderTracker(source, {
+      pollInterval: this.pollInterval,
+      debug: this.debug,
+    });
+    this.tracker.on('fill', (fill: OrderFill, tracked: TrackedOrder) =>
+      this.onEntryFill(fill, tracked),
+    );
+    this.tracker.on('transition', (transition: OrderTransition) =>
+      this.onEntryTransition(transition),
+    );
+    this.tracker.on('error', (error: unknown) => this.reportError(error));
+    this.handlePosition = (position): void => this.onPosition(position);
+    this.handleReconnect = (): void => this.checkAll();
+  }
+
+  /**
+   * Subscribes to the streams, starts polling and resumes brackets saved by a
+   * previous run
+   */
+  public async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+    this.tracker.start();
+    const ws = this.source.webSocket;
+    if (ws) {
+      this.ws = ws;
+      void ws.subscribe(WebSocketChannel.POSITIONS, this.handlePosition);
+      ws.on('connected', this.handleReconnect);
+    }
+    if (this.pollInterval > 0) {
+      this.pollTimer = setInterval(() => this.checkAll(), this.pollInterval);
+    }
+
+    for (const bracket of await this.store.load()) {
+      if (DONE_STATUSES.has(bracket.status)) continue;
+      this.brackets.set(bracket.id, bracket);
+      await this.run(bracket.id, () => this.recover(bracket.id)).catch((error: unknown) =>
+        this.reportError(error, bracket.id),
+      );
+    }
+  }
+
+  /**
+   * Stops polling and unsubscribes. Exchange orders are left in place and
+   * saved brackets are resumed by the next start().
+   */
+  public stop(): void {
+    if (!this.started) return;
+    this.started = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    if (this.ws) {
+      this.ws.unsubscribe(WebSocketChannel.POSITIONS, this.handlePosition);
+      this.ws.off('connected', this.handleReconnect);
+      this.ws = undefined;
+    }
+    this.tracker.stop();
+  }
+
+  /**
+   * Places the entry order of a new bracket. The legs follow once it fills.
+   *
+   * @throws OrderValidationError if neither leg is given or a trigger is on the
+   * wrong side of the entry price
+   */
+  public async place(params: BracketOrderParams): Promise<Bracket> {
+    this.validate(params);
+    const now = Date.now();
+    const bracket: Bracket = {
+      id: randomUUID(),
+      market: params.market,
+      side: params.side,
+      size: params.size.toString(),
+      price: params.price?.toString(),
+      stopLoss: params.stopLoss?.toString(),
+      takeProfit: params.takeProfit?.toString(),
+      status: BracketStatus.PENDING,
+      entryClientOrderId: params.clientOrderId ?? randomUUID(),
+      filledSize: '0',
+      legs: [],
+      staleLegs: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.brackets.set(bracket.id, bracket);
+    // Written before the entry is sent so a crash leaves a record of it
+    await this.persist(bracket);
+    await this.run(bracket.id, () => this.placeEntry(bracket.id));
+    return this.get(bracket.id)!;
+  }
+
+  /**
+   * Cancels the entry (if still working) and both legs. An open position is
+   * left unprotected.
+   */
+  public cancel(bracketId: string): Promise<void> {
+    return this.run(bracketId, async () => {
+      const bracket = this.brackets.get(bracketId);
+      if (!bracket || DONE_STATUSES.has(bracket.status)) return;
+      await this.cancelEntry(bracket);
+      await this.cancelLegs([...bracket.legs, ...bracket.staleLegs]);
+      await this.finish(bracket, BracketStatus.CANCELLED);
+    });
+  }
+
+  /**
+   * Current state of a bracket
+   */
+  public get(bracketId: string): Bracket | undefined {
+    const bracket = this.brackets.get(bracketId);
+    return bracket && cloneBracket(bracket);
+  }
+
+  /**
+   * Brackets that are not closed or cancelled
+   */
+  public getActive(): Bracket[] {
+    return [...this.brackets.values()]
+      .filter((bracket) => !DONE_STATUSES.has(bracket.status))
+      .map(cloneBracket);
+  }
+
+  /**
+   * Checks the legs of every active bracket against the exchange
+   */
+  public checkAll(): void {
+    for (const bracket of this.brackets.values()) {
+      if (bracket.status === BracketStatus.ACTIVE) {
+        this.schedule(bracket.id, () => this.checkLegs(bracket.id));
+      }
+    }
+  }
+
+  private validate(params: BracketOrderParams): void {
+    const issues: ValidationIssue[] = [];
+    if (!params.stopLoss && !params.takeProfit) {
+      issues.push({
+        field: 'triggerPrice',
+        message: 'A bracket needs a stop-loss or a take-profit',
+        value: '',
+      });
+    }
+    if (params.price) {
+      const long = params.side === OrderSide.BUY;
+      const { stopLoss, takeProfit, price } = params;
+      if (stopLoss && (long ? stopLoss.gte(price) : stopLoss.lte(price))) {
+        issues.push({
+          field: 'triggerPrice',
+          message: `Stop-loss must be ${long ? 'below' : 'above'} the entry price ${price.toString()}`,
+          value: stopLoss.toString(),
+          limit: price.toString(),
+        });
+      }
+      if (takeProfit && (long ? takeProfit.lte(price) : takeProfit.gte(price))) {
+        issues.push({
+          field: 'triggerPrice',
+          message: `Take-profit must be ${long ? 'above' : 'below'} the entry price ${price.toString()}`,
+          value: takeProfit.toString(),
+          limit: price.toString(),
+        });
+      }
+    }
+    if (issues.length > 0) {
+      throw new OrderValidationError(params.market, issues);
+    }
+  }
+
+  private async placeEntry(bracketId: string): Promise<void> {
+    const bracket = this.brackets.get(bracketId)!;
+    const { market, side, entryClientOrderId: clientOrderId } = bracket;
+    let order: Order;
+    try {
+      order = bracket.price
+        ? await this.source.createLimitOrder(
+            market,
+            side,
+            new Decimal(bracket.size),
+            new Decimal(bracket.price),
+            { clientOrderId },
+          )
+        : await this.source.createMarketOrder(market, side, new Decimal(bracket.size), {
+            clientOrderId,
+          });
+    } catch (error) {
+      // The entry was definitely not placed; anything else stays pending for recovery
+      if (isRejection(error)) {
+        await this.finish(bracket, BracketStatus.CANCELLED);
+      }
+      throw error;
+    }
+    await this.attachEntry(bracket, order);
+  }
+
+  private async attachEntry(bracket: Bracket, order: Order): Promise<void> {
+    bracket.entryOrderId = order.id;
+    bracket.entryStatus = order.status;
+    if (bracket.status === BracketStatus.PENDING) {
+      bracket.status = BracketStatus.OPEN;
+    }
+    await this.persist(bracket);
+    await this.tracker.track(order);
+  }
+
+  private onEntryFill(fill: OrderFill, tracked: TrackedOrder): void {
+    const bracket = this.findByEntry(fill.orderId);
+    if (!bracket) return;
+    this.schedule(bracket.id, () => this.protect(bracket.id, tracked.filledSize));
+  }
+
+  private onEntryTransition({ order }: OrderTransition): void {
+    const bracket = this.findByEntry(order.id);
+    if (!bracket || !isTerminalStatus(order.status)) return;
+    this.tracker.untrack(order.id);
+    this.schedule(bracket.id, async () => {
+      if (DONE_STATUSES.has(bracket.status)) return;
+      bracket.entryStatus = order.status;
+      if (order.status !== OrderStatus.FILLED && bracket.status === BracketStatus.OPEN) {
+        await this.finish(bracket, BracketStatus.CANCELLED);
+      } else {
+        await this.persist(bracket);
+      }
+    });
+  }
+
+  private onPosition(position: Position): void {
+    for (const bracket of this.brackets.values()) {
+      if (bracket.market === position.market && bracket.status === BracketStatus.ACTIVE) {
+        this.schedule(bracket.id, () => this.checkLegs(bracket.id, position));
+      }
+    }
+  }
+
+  /**
+   * Places legs covering `filled`, then cancels the legs they replace
+   */
+  private async protect(bracketId: string, filled: Decimal): Promise<void> {
+    const bracket = this.brackets.get(bracketId);
+    if (!bracket || DONE_STATUSES.has(bracket.status)) return;
+    if (filled.lte(bracket.filledSize)) return;
+
+    bracket.filledSize = filled.toString();
+    bracket.status = BracketStatus.ACTIVE;
+    bracket.staleLegs.push(...bracket.legs);
+    bracket.legs = [
+      [StopOrderType.STOP_LOSS, bracket.stopLoss],
+      [StopOrderType.TAKE_PROFIT, bracket.takeProfit],
+    ]
+      .filter((entry): entry is [StopOrderType, string] => entry[1] !== undefined)
+      .map(([type, triggerPrice]) => ({
+        type,
+        triggerPrice,
+        size: bracket.filledSize,
+        clientOrderId: randomUUID(),
+      }));
+    await this.persist(bracket);
+    await this.placeLegs(bracket);
+  }
+
+  private async placeLegs(bracket: Bracket): Promise<void> {
+    const direction =
+      bracket.side === OrderSide.BUY ? PositionDirection.LONG : PositionDirection.SHORT;
+    for (const leg of bracket.legs) {
+      if (leg.stopOrderId) continue;
+      const stopOrder = await this.source.createStopOrder(
+        bracket.market,
+        direction,
+        leg.type,
+        new Decimal(leg.triggerPrice),
+        { clientOrderId: leg.clientOrderId, size: leg.size, reduceOnly: true },
+      );
+      leg.stopOrderId = stopOrder.id;
+      await this.persist(bracket);
+    }
+    await this.cancelLegs(bracket.staleLegs);
+    bracket.staleLegs = [];
+    await this.persist(bracket);
+    if (this.debug) {
+      console.log(`[BracketManager] ${bracket.id} protects ${bracket.filledSize}`);
+    }
+    this.emit('protected', cloneBracket(bracket));
+  }
+
+  /**
+   * Closes the bracket when a leg has left the pending stop orders or the
+   * position is flat
+   */
+  private async checkLegs(bracketId: string, position?: Position): Promise<void> {
+    const bracket = this.brackets.get(bracketId);
+    if (!bracket || bracket.status !== BracketStatus.ACTIVE) return;
+    if (bracket.staleLegs.length > 0 || bracket.legs.some((leg) => !leg.stopOrderId)) {
+      // A previous attempt to place or replace legs failed part-way
+      await this.placeLegs(bracket);
+    }
+
+    const pending = new Set((await this.source.getStopOrders(bracket.market)).map((s) => s.id));
+    const triggered = bracket.legs.filter((leg) => !pending.has(leg.stopOrderId!));
+    const flat = position !== undefined && new Decimal(position.size).isZero();
+    if (triggered.length === 0 && !flat) return;
+
+    bracket.closedBy = triggered.length === 1 ? triggered[0].type : undefined;
+    await this.cancelEntry(bracket);
+    await this.cancelLegs(bracket.legs.filter((leg) => !triggered.includes(leg)));
+    await this.finish(bracket, BracketStatus.CLOSED);
+  }
+
+  /**
+   * Resumes a bracket loaded from the store
+   */
+  private async recover(bracketId: string): Promise<void> {
+    const bracket = this.brackets.get(bracketId)!;
+    if (!bracket.entryOrderId) {
+      let order: Order | undefined;
+      try {
+        order = await this.source.getOrderByClientId(bracket.entryClientOrderId);
+      } catch (error) {
+        if (!(error instanceof NotFoundError)) throw error;
+      }
+      if (!order) {
+        return this.placeEntry(bracket.id);
+      }
+      await this.attachEntry(bracket, order);
+    } else {
+      await this.tracker.track(bracket.entryOrderId);
+    }
+
+    // Legs sent before the crash but never confirmed are matched to pending stop orders
+    const unconfirmed = [...bracket.legs, ...bracket.staleLegs].filter((leg) => !leg.stopOrderId);
+    if (unconfirmed.length > 0) {
+      const pending = await this.source.getStopOrders(bracket.market);
+      for (const leg of unconfirmed) {
+        const match = pending.find(
+          (stopOrder) =>
+            stopOrder.clientOrderId === leg.clientOrderId ||
+            (stopOrder.clientOrderId === undefined &&
+              stopOrder.type === leg.type &&
+              new Decimal(stopOrder.triggerPrice).eq(leg.triggerPrice)),
+        );
+        if (match) {
+          leg.stopOrderId = match.id;
+          pending.splice(pending.indexOf(match), 1);
+        }
+      }
+      bracket.staleLegs = bracket.staleLegs.filter((leg) => leg.stopOrderId);
+      await this.persist(bracket);
+    }
+    await this.checkLegs(bracket.id);
+  }
+
+  private async cancelEntry(bracket: Bracket): Promise<void> {
+    if (!bracket.entryOrderId) return;
+    if (bracket.entryStatus && isTerminalStatus(bracket.entryStatus)) return;
+    this.tracker.untrack(bracket.entryOrderId);
+    await ignoreRejection(this.source.cancelOrder(bracket.entryOrderId));
+  }
+
+  private async cancelLegs(legs: BracketLeg[]): Promise<void> {
+    for (const leg of legs) {
+      if (leg.stopOrderId) {
+        // A leg that already triggered or was cancelled is rejected; either way it is gone
+        await ignoreRejection(this.source.cancelStopOrder(leg.stopOrderId));
+      }
+    }
+  }
+
+  private async finish(bracket: Bracket, status: BracketStatus): Promise<void> {
+    bracket.status = status;
+    bracket.updatedAt = Date.now();
+    await this.store.delete(bracket.id);
+    this.brackets.delete(bracket.id);
+    const snapshot = cloneBracket(bracket);
+    if (this.debug) {
+      console.log(`[BracketManager] ${bracket.id} ${status}`);
+    }
+    this.emit('update', snapshot);
+    this.emit(status, snapshot);
+  }
+
+  private async persist(bracket: Bracket): Promise<void> {
+    bracket.updatedAt = Date.now();
+    await this.store.save(bracket);
+    this.emit('update', cloneBracket(bracket));
+  }
+
+  private findByEntry(orderId: string): Bracket | undefined {
+    return [...this.brackets.values()].find((bracket) => bracket.entryOrderId === orderId);
+  }
+
+  /**
+   * Runs tasks for one bracket one at a time, in order
+   */
+  private run(bracketId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.queues.get(bracketId) ?? Promise.resolve();
+    const next = previous.then(task);
+    const settled = next.catch(() => undefined);
+    this.queues.set(bracketId, settled);
+    void settled.then(() => {
+      if (this.queues.get(bracketId) === settled) this.queues.delete(bracketId);
+    });
+    return next;
+  }
+
+  private schedule(bracketId: string, task: () => Promise<void>): void {
+    this.run(bracketId, task).catch((error: unknown) => this.reportError(error, bracketId));
+  }
+
+  private reportError(error: unknown, bracketId?: string): void {
+    const bracket = bracketId ? this.get(bracketId) : undefined;
+    reportError(this, error, `[BracketManager] ${bracketId ?? 'tracker'} failed:`, bracket);
+  }
+}
+
+/**
+ * Whether the exchange definitely refused a request (4xx or failed validation)
+ */
+function isRejection(error: unknown): boolean {
+  if (error instanceof OrderValidationError) return true;
+  const status = error instanceof EnclaveApiError ? (error.statusCode ?? 0) : 0;
+  return status >= 400 && status < 500;
+}
+
+async function ignoreRejection(request: Promise<unknown>): Promise<void> {
+  try {
+    await request;
+  } catch (error) {
+    if (!isRejection(error)) throw error;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Persistence for bracket order state, so a restarted process can resume protecting positions
+ */
+
+import { promises as fs } from 'fs';
+import { Bracket } from './BracketManager';
+
+/**
+ * Where BracketManager keeps its state. `save` is called before every
+ * exchange request that changes a bracket, so after a crash the stored state
+ * names every order that may have been sent.
+ */
+export interface BracketStore {
+  load(): Promise<Bracket[]>;
+  save(bracket: Bracket): Promise<void>;
+  delete(bracketId: string): Promise<void>;
+}
+
+/**
+ * Keeps brackets in memory only; state is lost when the process exits
+ */
+export class InMemoryBracketStore implements BracketStore {
+  private readonly brackets: Map<string, Bracket> = new Map();
+
+  public load(): Promise<Bracket[]> {
+    return Promise.resolve([...this.brackets.values()].map(cloneBracket));
+  }
+
+  public save(bracket: Bracket): Promise<void> {
+    this.brackets.set(bracket.id, cloneBracket(bracket));
+    return Promise.resolve();
+  }
+
+  public delete(bracketId: string): Promise<void> {
+    this.brackets.delete(bracketId);
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Keeps brackets in a JSON file. Each write goes to a temporary file that is
+ * renamed over the previous one, so a crash mid-write never leaves a torn file.
+ *
+ * @example
+ * ```typescript
+ * const brackets = new BracketManager(client, {
+ *   store: new FileBracketStore('./brackets.json'),
+ * });
+ * await brackets.start(); // resumes brackets saved by a previous run
+ * ```
+ */
+export class FileBracketStore implements BracketStore {
+  private readonly path: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  public async load(): Promise<Bracket[]> {
+    return Object.values(await this.read());
+  }
+
+  public save(bracket: Bracket): Promise<void> {
+    return this.update((brackets) => {
+      brackets[bracket.id] = bracket;
+    });
+  }
+
+  public delete(bracketId: string): Promise<void> {
+    return this.update((brackets) => {
+      delete brackets[bracketId];
+    });
+  }
+
+  private update(change: (brackets: Record<string, Bracket>) => void): Promise<void> {
+    // Serialize read-modify-write cycles so concurrent saves do not drop each other
+    const next = this.writing.then(async () => {
+      const brackets = await this.read();
+      change(brackets);
+      const temporary = `${this.path}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(brackets, null, 2));
+      await fs.rename(temporary, this.path);
+    });
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read(): Promise<Record<string, Bracket>> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, 'utf8')) as Record<string, Bracket>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+}
+
+export function cloneBracket(bracket: Bracket): Bracket {
+  return {
+    ...bracket,
+    legs: bracket.legs.map((leg) => ({ ...leg })),
+    staleLegs: bracket.staleLegs.map((leg) => ({ ...leg })),
+  };
+}
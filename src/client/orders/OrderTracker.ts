@@ -0,0 +1,410 @@
+/**
+ * Order lifecycle tracking from the orders stream with REST fallback polling
+ */
+
+import Decimal from 'decimal.js';
+import { EventEmitter } from 'events';
+import { Order, OrderStatus } from '../../types';
+import { EnclaveError, EnclaveErrorCode, NotFoundError } from '../../utils/errors';
+import { reportError } from '../../utils/events';
+import { MessageHandler, WebSocketChannel, WebSocketClient } from '../websocket/WebSocketClient';
+
+/**
+ * What OrderTracker needs from the client; EnclaveClient satisfies it
+ */
+export interface OrderTrackerSource {
+  getOrder(orderId: string): Promise<Order>;
+  readonly webSocket?: WebSocketClient;
+}
+
+export interface OrderTrackerOptions {
+  /**
+   * Interval for polling non-terminal orders over REST in ms (default: 5000, 0 disables)
+   */
+  pollInterval?: number;
+  /**
+   * Start tracking orders that first appear on the stream (default: false)
+   */
+  autoTrack?: boolean;
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+export interface WaitOptions {
+  /**
+   * Reject after this many ms (default: no timeout)
+   */
+  timeout?: number;
+}
+
+export interface OrderFill {
+  orderId: string;
+  size: Decimal;
+  price: Decimal;
+  timestamp: number;
+}
+
+export interface TrackedOrder {
+  order: Order;
+  filledSize: Decimal;
+  /**
+   * Volume-weighted average fill price, or null before the first fill
+   */
+  averageFillPrice: Decimal | null;
+  fills: OrderFill[];
+}
+
+export interface OrderTransition {
+  orderId: string;
+  from?: OrderStatus;
+  to: OrderStatus;
+  order: Order;
+}
+
+const TERMINAL_STATUSES: ReadonlySet<OrderStatus> = new Set([
+  OrderStatus.FILLED,
+  OrderStatus.CANCELLED,
+  OrderStatus.REJECTED,
+]);
+
+const STATUS_RANK: Record<OrderStatus, number> = {
+  [OrderStatus.PENDING]: 0,
+  [OrderStatus.OPEN]: 1,
+  [OrderStatus.PARTIALLY_FILLED]: 2,
+  [OrderStatus.FILLED]: 3,
+  [OrderStatus.CANCELLED]: 3,
+  [OrderStatus.REJECTED]: 3,
+};
+
+/**
+ * Stream updates kept for orders not (yet) tracked, so an update racing the
+ * placement response is not lost
+ */
+const MAX_UNTRACKED_UPDATES = 1000;
+
+/**
+ * Whether an order can no longer change
+ */
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return TERMINAL_STATUSES.has(status);
+}
+
+interface Waiter {
+  resolve: (order: Order) => void;
+  reject: (error: Error) => void;
+  filledOnly: boolean;
+  timer?: NodeJS.Timeout;
+}
+
+interface TrackedState extends TrackedOrder {
+  notional: Decimal;
+  waiters: Waiter[];
+}
+
+/**
+ * Tracks orders through their status state machine.
+ *
+ * Updates arrive from the `ordersPerps` stream when the WebSocket is connected and
+ * from periodic `getOrder()` polls otherwise (and after reconnects). Stale updates
+ * are dropped: an update never moves an order out of a terminal status, backwards
+ * in time or to a smaller filled size.
+ *
+ * Events:
+ * - `transition` (OrderTransition) - the status changed
+ * - `fill` (OrderFill, TrackedOrder) - the filled size increased
+ * - `open`, `partiallyFilled`, `filled`, `cancelled`, `rejected` (Order) - per-status events
+ * - `error` (error) - a poll failed; logged with `console.error` while nothing listens for it
+ *
+ * @example
+ * ```typescript
+ * const tracker = new OrderTracker(client);
+ * tracker.start();
+ * const order = await client.createLimitOrder('BTC-USD.P', OrderSide.BUY, size, price);
+ * await tracker.track(order);
+ * const filled = await tracker.waitForFill(order.id, { timeout: 60000 });
+ * console.log(tracker.get(order.id)?.averageFillPrice?.toString());
+ * ```
+ */
+export class OrderTracker extends EventEmitter {
+  private readonly source: OrderTrackerSource;
+  private readonly pollInterval: number;
+  private readonly autoTrack: boolean;
+  private readonly debug: boolean;
+  private readonly orders: Map<string, TrackedState> = new Map();
+  private readonly untracked: Map<string, Order> = new Map();
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  private ws?: WebSocketClient;
+  private readonly handleUpdate: MessageHandler<Order>;
+  private readonly handleReconnect: () => void;
+
+  constructor(source: OrderTrackerSource, options: OrderTrackerOptions = {}) {
+    super();
+    this.source = source;
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.autoTrack = options.autoTrack ?? false;
+    this.debug = options.debug ?? false;
+    this.handleUpdate = (order): void => {
+      if (this.orders.has(order.id) || this.autoTrack) {
+        this.apply(order);
+      } else {
+        this.remember(order);
+      }
+    };
+    this.handleReconnect = (): void => {
+      void this.poll();
+    };
+  }
+
+  /**
+   * Subscribes to the orders stream (if connected) and starts REST polling
+   */
+  public start(): void {
+    const ws = this.source.webSocket;
+    if (ws && !this.ws) {
+      this.ws = ws;
+      void ws.subscribe(WebSocketChannel.ORDERS, this.handleUpdate);
+      ws.on('connected', this.handleReconnect);
+    }
+    if (this.pollInterval > 0 && !this.pollTimer) {
+      this.pollTimer = setInterval(() => void this.poll(), this.pollInterval);
+    }
+  }
+
+  /**
+   * Stops polling and unsubscribes. Pending waits are rejected.
+   */
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    if (this.ws) {
+      this.ws.unsubscribe(WebSocketChannel.ORDERS, this.handleUpdate);
+      this.ws.off('connected', this.handleReconnect);
+      this.ws = undefined;
+    }
+    for (const state of this.orders.values()) {
+      this.settle(state, () => new Error('Order tracker stopped'));
+    }
+  }
+
+  /**
+   * Starts tracking an order. Pass the Order returned at placement, or an ID to fetch it.
+   */
+  public async track(order: Order | string): Promise<TrackedOrder> {
+    const initial = typeof order === 'string' ? await this.source.getOrder(order) : order;
+    this.apply(initial);
+    const early = this.untracked.get(initial.id);
+    if (early) {
+      this.untracked.delete(initial.id);
+      this.apply(early);
+    }
+    return this.get(initial.id)!;
+  }
+
+  /**
+   * Stops tracking an order; pending waits for it are rejected
+   */
+  public untrack(orderId: string): void {
+    const state = this.orders.get(orderId);
+    if (!state) return;
+    this.settle(state, () => new Error(`Order ${orderId} is no longer tracked`));
+    this.orders.delete(orderId);
+  }
+
+  /**
+   * Current state of a tracked order
+   */
+  public get(orderId: string): TrackedOrder | undefined {
+    const state = this.orders.get(orderId);
+    if (!state) return undefined;
+    const { order, filledSize, averageFillPrice, fills } = state;
+    return { order, filledSize, averageFillPrice, fills: [...fills] };
+  }
+
+  /**
+   * All tracked orders that have not reached a terminal status
+   */
+  public getActive(): TrackedOrder[] {
+    return [...this.orders.keys()]
+      .map((id) => this.get(id)!)
+      .filter((tracked) => !isTerminalStatus(tracked.order.status));
+  }
+
+  /**
+   * Resolves when the order is fully filled.
+   * Rejects if it is cancelled or rejected first, or on timeout.
+   */
+  public waitForFill(orderId: string, options: WaitOptions = {}): Promise<Order> {
+    return this.wait(orderId, true, options);
+  }
+
+  /**
+   * Resolves when the order reaches any terminal status (filled, cancelled, rejected)
+   */
+  public waitForTerminal(orderId: string, options: WaitOptions = {}): Promise<Order> {
+    return this.wait(orderId, false, options);
+  }
+
+  /**
+   * Refreshes every non-terminal order over REST
+   */
+  public async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const tracked of this.getActive()) {
+        try {
+          this.apply(await this.source.getOrder(tracked.order.id));
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) {
+            reportError(this, error, `[OrderTracker] Poll of ${tracked.order.id} failed:`);
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private wait(orderId: string, filledOnly: boolean, options: WaitOptions): Promise<Order> {
+    const state = this.orders.get(orderId);
+    if (!state) {
+      return Promise.reject(new Error(`Order ${orderId} is not tracked`));
+    }
+
+    return new Promise<Order>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, filledOnly };
+      if (options.timeout !== undefined) {
+        waiter.timer = setTimeout(() => {
+          state.waiters = state.waiters.filter((w) => w !== waiter);
+          reject(
+            new EnclaveError(
+              `Timed out after ${options.timeout}ms waiting for order ${orderId} to ` +
+                (filledOnly ? 'fill' : 'complete'),
+              { code: EnclaveErrorCode.TIMEOUT },
+            ),
+          );
+        }, options.timeout);
+      }
+      state.waiters.push(waiter);
+      this.notify(state);
+    });
+  }
+
+  private apply(order: Order): void {
+    const state = this.orders.get(order.id);
+    if (!state) {
+      const created: TrackedState = {
+        order,
+        filledSize: new Decimal(0),
+        averageFillPrice: null,
+        fills: [],
+        notional: new Decimal(0),
+        waiters: [],
+      };
+      this.orders.set(order.id, created);
+      this.recordFill(created, order);
+      this.emitTransition(undefined, order);
+      return;
+    }
+
+    const current = state.order;
+    if (isTerminalStatus(current.status) || order.updatedAt < current.updatedAt) return;
+    if (STATUS_RANK[order.status] < STATUS_RANK[current.status]) return;
+    if (filledSizeOf(order).lt(state.filledSize)) return;
+
+    state.order = order;
+    this.recordFill(state, order);
+    if (order.status !== current.status) {
+      this.emitTransition(current.status, order);
+    }
+    this.notify(state);
+  }
+
+  private remember(order: Order): void {
+    const previous = this.untracked.get(order.id);
+    if (previous && order.updatedAt < previous.updatedAt) return;
+    this.untracked.delete(order.id);
+    this.untracked.set(order.id, order);
+    if (this.untracked.size > MAX_UNTRACKED_UPDATES) {
+      this.untracked.delete(this.untracked.keys().next().value as string);
+    }
+  }
+
+  private recordFill(state: TrackedState, order: Order): void {
+    const filled = filledSizeOf(order);
+    const delta = filled.minus(state.filledSize);
+    if (delta.lte(0)) return;
+
+    // Derive the price of this fill from the change in average price, falling back
+    // to the limit price when the exchange does not report an average
+    let price: Decimal;
+    if (order.avgFillPrice) {
+      price = new Decimal(order.avgFillPrice).mul(filled).minus(state.notional).div(delta);
+      state.notional = new Decimal(order.avgFillPrice).mul(filled);
+    } else {
+      price = new Decimal(order.price ?? 0);
+      state.notional = state.notional.plus(price.mul(delta));
+    }
+    state.filledSize = filled;
+    state.averageFillPrice = state.notional.div(filled);
+
+    const fill: OrderFill = { orderId: order.id, size: delta, price, timestamp: order.updatedAt };
+    state.fills.push(fill);
+    if (this.debug) {
+      console.log(`[OrderTracker] ${order.id} filled ${delta.toString()} @ ${price.toString()}`);
+    }
+    this.emit('fill', fill, this.get(order.id));
+  }
+
+  private emitTransition(from: OrderStatus | undefined, order: Order): void {
+    const transition: OrderTransition = { orderId: order.id, from, to: order.status, order };
+    if (this.debug) {
+      console.log(`[OrderTracker] ${order.id}: ${from ?? 'untracked'} -> ${order.status}`);
+    }
+    this.emit('transition', transition);
+    this.emit(order.status, order);
+  }
+
+  private notify(state: TrackedState): void {
+    const { order } = state;
+    if (!isTerminalStatus(order.status)) return;
+    this.settle(state, (waiter) =>
+      order.status === OrderStatus.FILLED || !waiter.filledOnly
+        ? undefined
+        : new EnclaveError(`Order ${order.id} was ${order.status} before filling`, {
+            code:
+              order.status === OrderStatus.CANCELLED
+                ? EnclaveErrorCode.ORDER_CANCELLED
+                : EnclaveErrorCode.ORDER_REJECTED,
+            details: { order },
+          }),
+    );
+  }
+
+  /**
+   * Resolves every waiter with the current order, or rejects it with the returned error
+   */
+  private settle(state: TrackedState, errorFor: (waiter: Waiter) => Error | undefined): void {
+    const waiters = state.waiters;
+    state.waiters = [];
+    for (const waiter of waiters) {
+      if (waiter.timer) clearTimeout(waiter.timer);
+      const error = errorFor(waiter);
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve(state.order);
+      }
+    }
+  }
+}
+
+function filledSizeOf(order: Order): Decimal {
+  if (order.filledSize !== undefined) return new Decimal(order.filledSize);
+  return new Decimal(order.size).minus(order.remainingSize);
+}
@@ -0,0 +1,291 @@
+/**
+ * Client-side token-bucket rate limiting for REST requests
+ */
+
+import { EventEmitter } from 'events';
+import { abortError } from '../../utils/abort';
+import { EnclaveError, EnclaveErrorCode } from '../../utils/errors';
+
+/**
+ * Endpoint classes with independent budgets
+ */
+export enum EndpointClass {
+  /** Public market data (markets, depth, trades, candles, funding rates) */
+  PUBLIC = 'public',
+  /** Order and stop order placement and cancellation */
+  ORDERS = 'orders',
+  /** Authenticated account reads (balance, positions, open orders) */
+  ACCOUNT = 'account',
+}
+
+/**
+ * Queue priority; higher values are dequeued first
+ */
+export enum RequestPriority {
+  LOW = 0,
+  NORMAL = 1,
+  /** Used for cancels so they overtake queued new orders */
+  HIGH = 2,
+}
+
+export interface RateLimitBudget {
+  /**
+   * Maximum burst size (bucket capacity)
+   */
+  capacity: number;
+  /**
+   * Tokens added per second
+   */
+  refillPerSecond: number;
+}
+
+export interface RateLimiterConfig {
+  budgets?: Partial<Record<EndpointClass, RateLimitBudget>>;
+  /**
+   * Maximum number of requests waiting per class before acquire() rejects
+   */
+  maxQueueSize?: number;
+}
+
+export interface QueueEvent {
+  endpointClass: EndpointClass;
+  depth: number;
+}
+
+export const DEFAULT_RATE_LIMIT_BUDGETS: Record<EndpointClass, RateLimitBudget> = {
+  [EndpointClass.PUBLIC]: { capacity: 20, refillPerSecond: 10 },
+  [EndpointClass.ORDERS]: { capacity: 10, refillPerSecond: 5 },
+  [EndpointClass.ACCOUNT]: { capacity: 10, refillPerSecond: 5 },
+};
+
+interface Waiter {
+  priority: RequestPriority;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  cleanup?: () => void;
+}
+
+interface Bucket {
+  budget: RateLimitBudget;
+  tokens: number;
+  updatedAt: number;
+  queue: Waiter[];
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Classifies a REST request into an endpoint class
+ */
+export function classifyEndpoint(method: string, path: string): EndpointClass {
+  const pathname = path.split('?')[0];
+  const upper = method.toUpperCase();
+  if (
+    upper === 'GET' &&
+    (pathname === '/v1/markets' ||
+      pathname === '/v1/ticker' ||
+      pathname.endsWith('/depth') ||
+      pathname.endsWith('/trades') ||
+      pathname.endsWith('/funding_rates') ||
+      pathname.endsWith('/candles') ||
+      pathname.endsWith('/prices'))
+  ) {
+    return EndpointClass.PUBLIC;
+  }
+  if (upper !== 'GET' && /\/(orders|stop_order)(\/|$)/.test(pathname)) {
+    return EndpointClass.ORDERS;
+  }
+  return EndpointClass.ACCOUNT;
+}
+
+/**
+ * Default priority for a REST request: cancels first, everything else normal
+ */
+export function priorityFor(method: string): RequestPriority {
+  return method.toUpperCase() === 'DELETE' ? RequestPriority.HIGH : RequestPriority.NORMAL;
+}
+
+/**
+ * Token-bucket rate limiter with one bucket and one priority queue per endpoint class.
+ *
+ * Events:
+ * - `queued` (QueueEvent) - a request had to wait for a token
+ * - `dequeued` (QueueEvent) - a waiting request was released or aborted
+ *
+ * @example
+ * ```typescript
+ * const limiter = client.rateLimiter;
+ * limiter?.on('queued', ({ endpointClass, depth }) => console.log(endpointClass, depth));
+ * ```
+ */
+export class RateLimiter extends EventEmitter {
+  private readonly buckets: Map<EndpointClass, Bucket> = new Map();
+  private readonly maxQueueSize: number;
+
+  constructor(config: RateLimiterConfig = {}) {
+    super();
+    this.maxQueueSize = config.maxQueueSize ?? 1000;
+    for (const endpointClass of Object.values(EndpointClass)) {
+      const budget = config.budgets?.[endpointClass] ?? DEFAULT_RATE_LIMIT_BUDGETS[endpointClass];
+      this.buckets.set(endpointClass, {
+        budget,
+        tokens: budget.capacity,
+        updatedAt: Date.now(),
+        queue: [],
+      });
+    }
+  }
+
+  /**
+   * Waits until a token is available for the endpoint class.
+   *
+   * @param endpointClass - Budget to draw from
+   * @param priority - Queue priority (higher first, FIFO within a priority)
+   * @param signal - Aborts the wait and rejects with the abort reason
+   * @throws EnclaveError with code RATE_LIMITED when the class's queue is full
+   */
+  public acquire(
+    endpointClass: EndpointClass,
+    priority: RequestPriority = RequestPriority.NORMAL,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const bucket = this.getBucket(endpointClass);
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal));
+    }
+
+    this.refill(bucket);
+    if (bucket.queue.length === 0 && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return Promise.resolve();
+    }
+
+    if (bucket.queue.length >= this.maxQueueSize) {
+      return Promise.reject(
+        new EnclaveError(`Rate limit queue for ${endpointClass} is full`, {
+          code: EnclaveErrorCode.RATE_LIMITED,
+          retryable: true,
+          details: { endpointClass, maxQueueSize: this.maxQueueSize },
+        }),
+      );
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { priority, resolve, reject };
+      if (signal) {
+        const onAbort = (): void => {
+          const index = bucket.queue.indexOf(waiter);
+          if (index !== -1) {
+            bucket.queue.splice(index, 1);
+            this.emit('dequeued', { endpointClass, depth: bucket.queue.length });
+          }
+          reject(abortError(signal));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        waiter.cleanup = (): void => signal.removeEventListener('abort', onAbort);
+      }
+
+      // Insert after every waiter with the same or higher priority
+      const index = bucket.queue.findIndex((w) => w.priority < priority);
+      if (index === -1) {
+        bucket.queue.push(waiter);
+      } else {
+        bucket.queue.splice(index, 0, waiter);
+      }
+      this.emit('queued', { endpointClass, depth: bucket.queue.length });
+      this.schedule(endpointClass, bucket);
+    });
+  }
+
+  /**
+   * Empties the bucket after the server responded with 429
+   */
+  public throttle(endpointClass: EndpointClass): void {
+    const bucket = this.getBucket(endpointClass);
+    this.refill(bucket);
+    bucket.tokens = 0;
+  }
+
+  /**
+   * Number of requests waiting, for one class or in total
+   */
+  public getQueueDepth(endpointClass?: EndpointClass): number {
+    if (endpointClass) {
+      return this.getBucket(endpointClass).queue.length;
+    }
+    let total = 0;
+    for (const bucket of this.buckets.values()) {
+      total += bucket.queue.length;
+    }
+    return total;
+  }
+
+  /**
+   * Tokens currently available for a class
+   */
+  public getAvailableTokens(endpointClass: EndpointClass): number {
+    const bucket = this.getBucket(endpointClass);
+    this.refill(bucket);
+    return bucket.tokens;
+  }
+
+  /**
+   * Rejects every queued request and stops all timers
+   */
+  public clear(): void {
+    for (const [endpointClass, bucket] of this.buckets) {
+      if (bucket.timer) {
+        clearTimeout(bucket.timer);
+        bucket.timer = undefined;
+      }
+      const waiters = bucket.queue.splice(0);
+      for (const waiter of waiters) {
+        waiter.cleanup?.();
+        waiter.reject(new Error('Rate limiter cleared'));
+      }
+      if (waiters.length > 0) {
+        this.emit('dequeued', { endpointClass, depth: 0 });
+      }
+    }
+  }
+
+  private getBucket(endpointClass: EndpointClass): Bucket {
+    const bucket = this.buckets.get(endpointClass);
+    if (!bucket) {
+      throw new Error(`Unknown endpoint class ${String(endpointClass)}`);
+    }
+    return bucket;
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    const elapsed = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(
+      bucket.budget.capacity,
+      bucket.tokens + elapsed * bucket.budget.refillPerSecond,
+    );
+    bucket.updatedAt = now;
+  }
+
+  private schedule(endpointClass: EndpointClass, bucket: Bucket): void {
+    if (bucket.timer) return;
+    const wait = Math.max(0, ((1 - bucket.tokens) / bucket.budget.refillPerSecond) * 1000);
+    bucket.timer = setTimeout(() => {
+      bucket.timer = undefined;
+      this.drain(endpointClass, bucket);
+    }, Math.ceil(wait));
+  }
+
+  private drain(endpointClass: EndpointClass, bucket: Bucket): void {
+    this.refill(bucket);
+    while (bucket.queue.length > 0 && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      const waiter = bucket.queue.shift()!;
+      waiter.cleanup?.();
+      this.emit('dequeued', { endpointClass, depth: bucket.queue.length });
+      waiter.resolve();
+    }
+    if (bucket.queue.length > 0) {
+      this.schedule(endpointClass, bucket);
+    }
+  }
+}
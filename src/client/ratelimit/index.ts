@@ -0,0 +1,11 @@
+export {
+  RateLimiter,
+  EndpointClass,
+  RequestPriority,
+  DEFAULT_RATE_LIMIT_BUDGETS,
+  classifyEndpoint,
+  priorityFor,
+  type RateLimitBudget,
+  type RateLimiterConfig,
+  type QueueEvent,
+} from './RateLimiter';
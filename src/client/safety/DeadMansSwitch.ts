@@ -0,0 +1,322 @@
+/**
+ * Cancels resting orders when the bot stops responding, loses its connection or is terminated
+ */
+
+import { EventEmitter } from 'events';
+import { BatchOptions, Order } from '../../types';
+import { EnclaveError, EnclaveErrorCode, NotFoundError } from '../../utils/errors';
+import { reportError } from '../../utils/events';
+import { WebSocketClient } from '../websocket/WebSocketClient';
+
+/**
+ * What DeadMansSwitch needs from the client; EnclaveClient satisfies it
+ */
+export interface DeadMansSwitchSource {
+  cancelAllOrders(market?: string): Promise<Order[]>;
+  getOrders(market?: string): Promise<Order[]>;
+  cancelOrders(orderIds: string[], options?: BatchOptions): Promise<PromiseSettledResult<Order>[]>;
+  cancelAllAfter(timeout: number): Promise<void>;
+}
+
+export interface DeadMansSwitchOptions {
+  /**
+   * Cancel when `heartbeat()` has not been called for this many ms (default: 0, disabled)
+   */
+  heartbeatTimeout?: number;
+  /**
+   * Cancel when the WebSocket has been disconnected for this many ms without
+   * reconnecting (default: 10000, Infinity disables). Deliberate disconnects
+   * through `disconnectWebSocket()` do not count.
+   */
+  disconnectGrace?: number;
+  /**
+   * Process signals that cancel before the process exits (default: SIGINT and SIGTERM)
+   */
+  signals?: NodeJS.Signals[];
+  /**
+   * Longest time in ms to spend cancelling after a signal before the process
+   * is allowed to exit (default: 5000)
+   */
+  signalTimeout?: number;
+  /**
+   * Also ask the exchange to cancel all orders this many ms after the last
+   * refresh, so orders are cancelled even if the process dies (default: 0,
+   * disabled). The timer is refreshed every third of the timeout; it is
+   * skipped where the exchange does not support it.
+   */
+  serverTimeout?: number;
+  /**
+   * Only cancel orders in these markets (default: all markets)
+   */
+  markets?: string[];
+  /**
+   * Only cancel open orders whose clientOrderId starts with this prefix
+   * (default: all orders). Not applied by the server-side timer.
+   */
+  clientOrderIdPrefix?: string;
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+export type DeadMansSwitchTrigger = 'heartbeat' | 'disconnect' | 'signal' | 'manual';
+
+const DEFAULT_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+/**
+ * Cancels open orders when the bot can no longer manage them: heartbeats
+ * stop, the WebSocket stays disconnected past a grace window, or the process
+ * receives a termination signal. Optionally keeps a server-side cancel-after
+ * timer running as well, which also covers hard crashes.
+ *
+ * Enable it with the `deadMansSwitch` client option, or construct one and
+ * `attach()` the WebSocket yourself. After a signal, the switch cancels and
+ * then re-raises the signal unless the application has its own handler for it.
+ *
+ * Events:
+ * - `triggered` (trigger) - cancellation started
+ * - `cancelled` (orders, trigger) - orders cancelled
+ * - `error` (error) - cancelling or refreshing the server-side timer failed; logged
+ *   with `console.error` while nothing listens for it
+ *
+ * @example
+ * ```typescript
+ * const client = new EnclaveClient({
+ *   auth,
+ *   deadMansSwitch: { heartbeatTimeout: 30000, clientOrderIdPrefix: 'mm-' },
+ * });
+ * setInterval(() => client.deadMansSwitch?.heartbeat(), 10000);
+ * ```
+ */
+export class DeadMansSwitch extends EventEmitter {
+  private readonly source: DeadMansSwitchSource;
+  private readonly heartbeatTimeout: number;
+  private readonly disconnectGrace: number;
+  private readonly signals: NodeJS.Signals[];
+  private readonly signalTimeout: number;
+  private readonly serverTimeout: number;
+  private readonly markets?: string[];
+  private readonly prefix?: string;
+  private readonly debug: boolean;
+  private running = false;
+  private serverSupported = true;
+  private ws?: WebSocketClient;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private disconnectTimer?: NodeJS.Timeout;
+  private serverTimer?: NodeJS.Timeout;
+  private cancelling?: Promise<Order[]>;
+  private readonly handleConnected: () => void;
+  private readonly handleDisconnected: () => void;
+  private readonly handleSignal: (signal: NodeJS.Signals) => void;
+
+  constructor(source: DeadMansSwitchSource, options: DeadMansSwitchOptions = {}) {
+    super();
+    this.source = source;
+    this.heartbeatTimeout = options.heartbeatTimeout ?? 0;
+    this.disconnectGrace = options.disconnectGrace ?? 10000;
+    this.signals = options.signals ?? DEFAULT_SIGNALS;
+    this.signalTimeout = options.signalTimeout ?? 5000;
+    this.serverTimeout = options.serverTimeout ?? 0;
+    this.markets = options.markets;
+    this.prefix = options.clientOrderIdPrefix;
+    this.debug = options.debug ?? false;
+    this.handleConnected = (): void => {
+      clearTimeout(this.disconnectTimer);
+      this.disconnectTimer = undefined;
+    };
+    this.handleDisconnected = (): void => {
+      if (this.disconnectTimer !== undefined || !Number.isFinite(this.disconnectGrace)) return;
+      this.disconnectTimer = unref(
+        setTimeout(() => {
+          this.disconnectTimer = undefined;
+          this.fire('disconnect');
+        }, this.disconnectGrace),
+      );
+    };
+    this.handleSignal = (signal): void => {
+      // Keep the default behaviour of the signal unless the application handles it too
+      const handled = process.listenerCount(signal) > 1;
+      this.removeSignalHandlers();
+      let timer: NodeJS.Timeout | undefined;
+      // Request retries could otherwise hold up the exit for minutes
+      const deadline = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(
+              new EnclaveError(`Cancelling on ${signal} took over ${this.signalTimeout}ms`, {
+                code: EnclaveErrorCode.TIMEOUT,
+              }),
+            ),
+          this.signalTimeout,
+        );
+      });
+      void Promise.race([this.trigger('signal'), deadline])
+        .catch((error: unknown) => this.reportError(error))
+        .finally(() => {
+          clearTimeout(timer);
+          if (!handled) process.kill(process.pid, signal);
+        });
+    };
+  }
+
+  /**
+   * Arms the heartbeat timer, signal handlers and server-side timer
+   */
+  public start(): void {
+    if (this.running) return;
+    this.running = true;
+    for (const signal of this.signals) {
+      process.on(signal, this.handleSignal);
+    }
+    this.heartbeat();
+    if (this.serverTimeout > 0) {
+      void this.refreshServerTimer();
+      this.serverTimer = unref(
+        setInterval(() => void this.refreshServerTimer(), Math.max(1, this.serverTimeout / 3)),
+      );
+    }
+  }
+
+  /**
+   * Disarms every trigger and clears the server-side timer
+   */
+  public stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.removeSignalHandlers();
+    this.detach();
+    clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = undefined;
+    if (this.serverTimer) {
+      clearInterval(this.serverTimer);
+      this.serverTimer = undefined;
+      if (this.serverSupported) {
+        this.source.cancelAllAfter(0).catch((error: unknown) => this.reportError(error));
+      }
+    }
+  }
+
+  /**
+   * Signals that the bot is alive; restarts the heartbeat timeout
+   */
+  public heartbeat(): void {
+    if (!this.running || this.heartbeatTimeout <= 0) return;
+    clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = unref(
+      setTimeout(() => {
+        this.heartbeatTimer = undefined;
+        this.fire('heartbeat');
+      }, this.heartbeatTimeout),
+    );
+  }
+
+  /**
+   * Watches a WebSocket for disconnects longer than the grace window
+   */
+  public attach(ws: WebSocketClient): void {
+    if (this.ws === ws) return;
+    this.detach();
+    this.ws = ws;
+    ws.on('connected', this.handleConnected);
+    ws.on('disconnected', this.handleDisconnected);
+  }
+
+  /**
+   * Stops watching the WebSocket, e.g. before a deliberate disconnect
+   */
+  public detach(): void {
+    if (!this.ws) return;
+    this.ws.off('connected', this.handleConnected);
+    this.ws.off('disconnected', this.handleDisconnected);
+    this.ws = undefined;
+    clearTimeout(this.disconnectTimer);
+    this.disconnectTimer = undefined;
+  }
+
+  /**
+   * Cancels the covered orders now. Concurrent triggers share one cancellation.
+   *
+   * @returns The cancelled orders
+   */
+  public trigger(reason: DeadMansSwitchTrigger = 'manual'): Promise<Order[]> {
+    if (this.cancelling) return this.cancelling;
+    this.log(`triggered by ${reason}`);
+    this.emit('triggered', reason);
+    this.cancelling = this.cancel()
+      .then((orders) => {
+        this.log(`cancelled ${orders.length} orders`);
+        this.emit('cancelled', orders, reason);
+        return orders;
+      })
+      .finally(() => {
+        this.cancelling = undefined;
+      });
+    return this.cancelling;
+  }
+
+  private fire(reason: DeadMansSwitchTrigger): void {
+    this.trigger(reason).catch((error: unknown) => this.reportError(error));
+  }
+
+  private async cancel(): Promise<Order[]> {
+    const markets: Array<string | undefined> = this.markets ?? [undefined];
+    if (this.prefix === undefined) {
+      const cancelled = await Promise.all(markets.map((m) => this.source.cancelAllOrders(m)));
+      return cancelled.flat();
+    }
+
+    const open = (await Promise.all(markets.map((m) => this.source.getOrders(m)))).flat();
+    const tagged = open.filter((o) => o.clientOrderId?.startsWith(this.prefix!));
+    const results = await this.source.cancelOrders(tagged.map((o) => o.id));
+    const orders: Order[] = [];
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        orders.push(result.value);
+      } else {
+        this.reportError(result.reason);
+      }
+    }
+    return orders;
+  }
+
+  private async refreshServerTimer(): Promise<void> {
+    if (!this.serverSupported) return;
+    try {
+      await this.source.cancelAllAfter(this.serverTimeout);
+    } catch (error) {
+      if (error instanceof NotFoundError && error.statusCode === 404) {
+        this.log('server-side cancel-after unavailable');
+        this.serverSupported = false;
+        clearInterval(this.serverTimer);
+        this.serverTimer = undefined;
+        return;
+      }
+      this.reportError(error);
+    }
+  }
+
+  private reportError(error: unknown): void {
+    reportError(this, error, '[DeadMansSwitch] Cancelling failed:');
+  }
+
+  private removeSignalHandlers(): void {
+    for (const signal of this.signals) {
+      process.off(signal, this.handleSignal);
+    }
+  }
+
+  private log(message: string): void {
+    if (this.debug) {
+      console.log(`[DeadMansSwitch] ${message}`);
+    }
+  }
+}
+
+/**
+ * Keeps a timer from holding the process open
+ */
+function unref<T extends NodeJS.Timeout>(timer: T): T {
+  timer.unref?.();
+  return timer;
+}
@@ -0,0 +1,57 @@
+import { Transport, TransportRequest, TransportResponse, TransportTimeoutError } from './Transport';
+
+export interface FetchTransportOptions {
+  /**
+   * Fetch implementation to use (defaults to the global `fetch`)
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Transport built on the WHATWG `fetch` API.
+ *
+ * Works in browsers, Deno, Bun, edge workers and Node 18+. EnclaveClient signs
+ * REST requests with Web Crypto in those runtimes; its WebSocket client needs Node.
+ */
+export class FetchTransport implements Transport {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchImpl = options.fetch ?? globalThis.fetch;
+    if (!fetchImpl) {
+      throw new Error('No fetch implementation available. Pass one via options.fetch.');
+    }
+    this.fetchImpl = fetchImpl;
+  }
+
+  public async send(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeout);
+
+    try {
+      const res = await this.fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+      const body = await res.text();
+      const headers: Record<string, string> = {};
+      res.headers.forEach((value, name) => {
+        headers[name] = value;
+      });
+      return { status: res.status, body, headers };
+    } catch (error) {
+      if (timedOut) {
+        throw new TransportTimeoutError(request.timeout);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
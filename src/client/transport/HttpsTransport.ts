@@ -0,0 +1,74 @@
+import type * as http from 'http';
+import type * as https from 'https';
+import { nodeModule } from '../../utils/runtime';
+import { Transport, TransportRequest, TransportResponse, TransportTimeoutError } from './Transport';
+
+export interface HttpsTransportOptions {
+  /**
+   * Agent passed to every request, e.g. `new https.Agent({ keepAlive: true })`
+   */
+  agent?: http.Agent;
+}
+
+/**
+ * Transport built on Node's `https` module (default for EnclaveClient).
+ *
+ * Plain `http:` URLs (e.g. a local MockEnclaveServer) use the `http` module.
+ * Both are loaded on the first request, so importing the library does not
+ * require them outside Node.
+ */
+export class HttpsTransport implements Transport {
+  private readonly agent?: http.Agent;
+
+  constructor(options: HttpsTransportOptions = {}) {
+    this.agent = options.agent;
+  }
+
+  public send(request: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(request.url);
+      const client =
+        url.protocol === 'http:'
+          ? nodeModule<typeof http>('http')
+          : nodeModule<typeof https>('https');
+      const options: https.RequestOptions = {
+        method: request.method,
+        headers: request.headers,
+        timeout: request.timeout,
+      };
+      if (this.agent) {
+        options.agent = this.agent;
+      }
+
+      const req = client.request(url, options, (res) => {
+        let data = '';
+
+        res.on('data', (chunk) => {
+          data += chunk;
+        });
+
+        res.on('end', () => {
+          const headers: Record<string, string> = {};
+          for (const [name, value] of Object.entries(res.headers)) {
+            if (value !== undefined) {
+              headers[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+          }
+          resolve({ status: res.statusCode ?? 0, body: data, headers });
+        });
+      });
+
+      req.on('error', reject);
+
+      req.on('timeout', () => {
+        req.destroy();
+        reject(new TransportTimeoutError(request.timeout));
+      });
+
+      if (request.body) {
+        req.write(request.body);
+      }
+      req.end();
+    });
+  }
+}
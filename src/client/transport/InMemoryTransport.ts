@@ -0,0 +1,71 @@
+import { Transport, TransportRequest, TransportResponse } from './Transport';
+
+export type InMemoryHandler = (
+  request: TransportRequest,
+) => TransportResponse | Promise<TransportResponse>;
+
+interface Route {
+  method: string;
+  path: string;
+  handler: InMemoryHandler;
+}
+
+/**
+ * Transport that never touches the network, intended for tests.
+ *
+ * Requests are matched against registered routes by method and path (query
+ * string ignored, most recently registered route wins) and every request is
+ * recorded for later assertions.
+ *
+ * @example
+ * ```typescript
+ * const transport = new InMemoryTransport();
+ * transport.respondJson('GET', '/v1/markets', { success: true, result: marketsFixture });
+ * const client = new EnclaveClient({ transport });
+ * ```
+ */
+export class InMemoryTransport implements Transport {
+  public readonly requests: TransportRequest[] = [];
+  private routes: Route[] = [];
+
+  /**
+   * Registers a handler for a method and path
+   */
+  public on(method: string, path: string, handler: InMemoryHandler): this {
+    this.routes.unshift({ method: method.toUpperCase(), path, handler });
+    return this;
+  }
+
+  /**
+   * Registers a fixed JSON response for a method and path
+   */
+  public respondJson(method: string, path: string, body: unknown, status = 200): this {
+    return this.on(method, path, () => ({ status, body: JSON.stringify(body) }));
+  }
+
+  /**
+   * Removes all routes and recorded requests
+   */
+  public reset(): void {
+    this.routes = [];
+    this.requests.length = 0;
+  }
+
+  public async send(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    const { pathname } = new URL(request.url);
+    const route = this.routes.find(
+      (r) => r.method === request.method.toUpperCase() && r.path === pathname,
+    );
+    if (!route) {
+      return {
+        status: 404,
+        body: JSON.stringify({
+          success: false,
+          error: `No route for ${request.method} ${pathname}`,
+        }),
+      };
+    }
+    return route.handler(request);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Transport abstraction used by EnclaveClient to move request/response bytes.
+ *
+ * Signing, retries and response unwrapping all happen in the client; a transport
+ * only performs a single HTTP exchange and reports the raw status and body.
+ */
+
+export interface TransportRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  timeout: number;
+}
+
+export interface TransportResponse {
+  status: number;
+  body: string;
+  headers?: Record<string, string>;
+}
+
+export interface Transport {
+  /**
+   * Performs a single HTTP request.
+   *
+   * Implementations should resolve for every response that has a status code
+   * (including 4xx/5xx), reject with {@link TransportTimeoutError} when the
+   * request exceeds its timeout and reject with any other error for network
+   * failures.
+   */
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Raised by a transport when a request exceeds its configured timeout
+ */
+export class TransportTimeoutError extends Error {
+  public readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timeout after ${timeout}ms`);
+    this.name = 'TransportTimeoutError';
+    this.timeout = timeout;
+  }
+}
@@ -0,0 +1,9 @@
+export {
+  TransportTimeoutError,
+  type Transport,
+  type TransportRequest,
+  type TransportResponse,
+} from './Transport';
+export { HttpsTransport, type HttpsTransportOptions } from './HttpsTransport';
+export { FetchTransport, type FetchTransportOptions } from './FetchTransport';
+export { InMemoryTransport, type InMemoryHandler } from './InMemoryTransport';
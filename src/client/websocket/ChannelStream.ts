@@ -0,0 +1,299 @@
+/**
+ * Pull-based (async iterator) and push-based (observable) views of a channel subscription
+ */
+
+import { abortError } from '../../utils/abort';
+import { StreamOverflowError } from '../../utils/errors';
+
+/**
+ * What a ChannelStream does when items arrive faster than they are consumed
+ * and its buffer is full
+ */
+export enum OverflowPolicy {
+  /**
+   * Discard the oldest buffered item
+   */
+  DROP_OLDEST = 'dropOldest',
+  /**
+   * Replace the newest buffered item, so the consumer skips to the latest value
+   */
+  CONFLATE = 'conflate',
+  /**
+   * End the stream with a StreamOverflowError once the buffer is drained
+   */
+  ERROR = 'error',
+}
+
+export interface StreamOptions {
+  /**
+   * Maximum buffered items (default: 1000)
+   */
+  bufferSize?: number;
+  /**
+   * What to do when the buffer is full (default: DROP_OLDEST)
+   */
+  overflow?: OverflowPolicy;
+  /**
+   * Ends the stream; the pending or next `next()` rejects with the abort reason
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Receiver for the items of a stream source
+ */
+export interface StreamSink<T> {
+  next(value: T): void;
+  error(error: unknown): void;
+  complete(): void;
+}
+
+/**
+ * Starts delivering items to a sink and returns the function that stops it
+ */
+export type StreamSource<T> = (sink: StreamSink<T>) => () => void;
+
+/**
+ * Handle returned by `ChannelObservable.subscribe()`
+ */
+export interface StreamSubscription {
+  unsubscribe(): void;
+  readonly closed: boolean;
+}
+
+interface Waiter<T> {
+  resolve: (result: IteratorResult<T, undefined>) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Channel subscription consumed with `for await`. Items are buffered from
+ * creation until read, up to `bufferSize`; leaving the loop (or `return()`)
+ * unsubscribes. A subscription the server rejects ends the loop with its error.
+ *
+ * @example
+ * ```typescript
+ * const trades = client.streamTrades('BTC-USD.P', { overflow: OverflowPolicy.DROP_OLDEST });
+ * for await (const trade of trades) {
+ *   if (await strategy.onTrade(trade)) break; // unsubscribes
+ * }
+ * ```
+ */
+export class ChannelStream<T> implements AsyncIterableIterator<T> {
+  private readonly buffer: T[] = [];
+  private readonly bufferSize: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly signal?: AbortSignal;
+  private readonly handleAbort: () => void;
+  private teardown?: () => void;
+  private waiter?: Waiter<T>;
+  private failure?: { error: unknown };
+  private ended = false;
+  private droppedCount = 0;
+
+  constructor(source: StreamSource<T>, options: StreamOptions = {}) {
+    this.bufferSize = options.bufferSize ?? 1000;
+    this.overflow = options.overflow ?? OverflowPolicy.DROP_OLDEST;
+    if (!Number.isInteger(this.bufferSize) || this.bufferSize < 1) {
+      throw new RangeError('bufferSize must be a positive integer');
+    }
+
+    this.signal = options.signal;
+    this.handleAbort = (): void => {
+      this.buffer.length = 0;
+      this.fail(abortError(this.signal!));
+    };
+    if (this.signal?.aborted) {
+      this.ended = true;
+      this.failure = { error: abortError(this.signal) };
+      return;
+    }
+    this.signal?.addEventListener('abort', this.handleAbort, { once: true });
+
+    const teardown = source({
+      next: (value) => this.push(value),
+      error: (error) => this.fail(error),
+      complete: () => this.end(),
+    });
+    if (this.ended) {
+      teardown();
+    } else {
+      this.teardown = teardown;
+    }
+  }
+
+  /**
+   * Items discarded or replaced by the overflow policy so far
+   */
+  public get dropped(): number {
+    return this.droppedCount;
+  }
+
+  public next(): Promise<IteratorResult<T, undefined>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ done: false, value: this.buffer.shift()! });
+    }
+    if (this.failure) {
+      const { error } = this.failure;
+      this.failure = undefined;
+      return Promise.reject(error);
+    }
+    if (this.ended) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  /**
+   * Unsubscribes and discards buffered items; called when a `for await` loop exits early
+   */
+  public return(): Promise<IteratorResult<T, undefined>> {
+    this.buffer.length = 0;
+    this.failure = undefined;
+    this.end();
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
+  public [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  private push(value: T): void {
+    if (this.ended) return;
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve({ done: false, value });
+      return;
+    }
+    if (this.buffer.length < this.bufferSize) {
+      this.buffer.push(value);
+      return;
+    }
+
+    switch (this.overflow) {
+      case OverflowPolicy.DROP_OLDEST:
+        this.buffer.shift();
+        this.buffer.push(value);
+        this.droppedCount++;
+        return;
+      case OverflowPolicy.CONFLATE:
+        this.buffer[this.buffer.length - 1] = value;
+        this.droppedCount++;
+        return;
+      case OverflowPolicy.ERROR:
+        this.fail(
+          new StreamOverflowError(`Stream buffer of ${this.bufferSize} items overflowed`, {
+            details: { bufferSize: this.bufferSize },
+          }),
+        );
+    }
+  }
+
+  /**
+   * Ends the stream with an error, delivered after any buffered items
+   */
+  private fail(error: unknown): void {
+    if (this.ended) return;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(error);
+    } else {
+      this.failure = { error };
+    }
+    this.end();
+  }
+
+  private end(): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve({ done: true, value: undefined });
+    }
+    if (this.ended) return;
+    this.ended = true;
+    this.signal?.removeEventListener('abort', this.handleAbort);
+    const teardown = this.teardown;
+    this.teardown = undefined;
+    teardown?.();
+  }
+}
+
+/**
+ * Channel subscription as a minimal observable. Every `subscribe()` attaches
+ * its own handler; `unsubscribe()` detaches it. It implements the interop
+ * protocol, so RxJS `from()` accepts it.
+ *
+ * @example
+ * ```typescript
+ * import { from, map } from 'rxjs';
+ *
+ * const mid$ = from(client.webSocket!.observe(WebSocketChannel.ORDERBOOK, 'BTC-USD.P')).pipe(
+ *   map((book) => (Number(book.bids[0][0]) + Number(book.asks[0][0])) / 2),
+ * );
+ * const subscription = mid$.subscribe(console.log);
+ * ```
+ */
+export class ChannelObservable<T> {
+  private readonly source: StreamSource<T>;
+
+  constructor(source: StreamSource<T>) {
+    this.source = source;
+  }
+
+  public subscribe(observer: Partial<StreamSink<T>> | ((value: T) => void)): StreamSubscription {
+    const sink = typeof observer === 'function' ? { next: observer } : observer;
+    let closed = false;
+    let teardown: (() => void) | undefined;
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      teardown?.();
+    };
+
+    const stop = this.source({
+      next: (value) => {
+        if (!closed) sink.next?.(value);
+      },
+      error: (error) => {
+        if (closed) return;
+        close();
+        sink.error?.(error);
+      },
+      complete: () => {
+        if (closed) return;
+        close();
+        sink.complete?.();
+      },
+    });
+    if (closed) {
+      stop();
+    } else {
+      teardown = stop;
+    }
+
+    return {
+      unsubscribe: close,
+      get closed(): boolean {
+        return closed;
+      },
+    };
+  }
+
+  /**
+   * Observable interop (`Symbol.observable` where a polyfill defines it)
+   */
+  public ['@@observable'](): this {
+    return this;
+  }
+}
+
+const observableSymbol = (Symbol as { observable?: symbol }).observable;
+if (observableSymbol) {
+  Object.defineProperty(ChannelObservable.prototype, observableSymbol, {
+    value: ChannelObservable.prototype['@@observable'],
+  });
+}
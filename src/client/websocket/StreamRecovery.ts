@@ -0,0 +1,355 @@
+/**
+ * Replays private stream updates missed while the WebSocket was reconnecting
+ */
+
+import Decimal from 'decimal.js';
+import { EventEmitter } from 'events';
+import { HistoryQuery, Order, Position, Trade } from '../../types';
+import { ApiOrder, ApiPosition } from '../../types/api-responses';
+import { adaptOrder, adaptPosition } from '../../utils/adapters';
+import { NotFoundError } from '../../utils/errors';
+import { reportError } from '../../utils/events';
+import { PaginateOptions } from '../../utils/pagination';
+import { isTerminalStatus } from '../orders/OrderTracker';
+import {
+  SubscriptionState,
+  WebSocketChannel,
+  WebSocketClient,
+  WebSocketMessage,
+} from './WebSocketClient';
+
+/**
+ * What StreamRecovery needs from the client; EnclaveClient satisfies it
+ */
+export interface StreamRecoverySource {
+  getOrders(market?: string): Promise<Order[]>;
+  getOrder(orderId: string): Promise<Order>;
+  getPositions(market?: string): Promise<Position[]>;
+  iterateFills(
+    query?: Omit<HistoryQuery, 'cursor'>,
+    options?: PaginateOptions,
+  ): AsyncIterable<Trade>;
+}
+
+export interface StreamRecoveryOptions {
+  /**
+   * Also treat changes from this many ms before the disconnect as missed, to
+   * cover updates in flight when the connection dropped (default: 5000)
+   */
+  lookback?: number;
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+/**
+ * Outcome of one recovery, emitted with `resynced`
+ */
+export interface StreamResync {
+  /**
+   * When the connection dropped (ms since epoch)
+   */
+  from: number;
+  /**
+   * When the state was fetched (ms since epoch)
+   */
+  to: number;
+  /**
+   * Order updates replayed to `ordersPerps` handlers
+   */
+  orders: Order[];
+  /**
+   * Position updates replayed to `positionsPerps` handlers; closed positions have size 0
+   */
+  positions: Position[];
+  /**
+   * Fills since the disconnect
+   */
+  fills: Trade[];
+}
+
+/**
+ * Orders that can no longer change are only kept to tell stale REST state from
+ * newer stream updates; the oldest are forgotten beyond this many
+ */
+const MAX_CLOSED_ORDERS = 1000;
+
+const RECOVERED_CHANNELS: WebSocketChannel[] = [
+  WebSocketChannel.ORDERS,
+  WebSocketChannel.POSITIONS,
+];
+
+/**
+ * Keeps the last order and position states seen on the private streams and,
+ * once a reconnect has resubscribed them, reconciles against REST: open
+ * orders, positions and fills since the disconnect. Anything that changed
+ * during the gap is replayed to the channel handlers as a `resync` message,
+ * so OrderTracker, BracketManager and `subscribeOrders()` handlers see it like
+ * a live update.
+ *
+ * A failed recovery emits `error` and is retried, over the whole gap, after
+ * the next reconnect. Where the exchange does not serve fills, orders that
+ * closed during the gap are still found from the recorded state.
+ *
+ * Enable it with the `streamRecovery` client option, or construct one and
+ * `attach()` the WebSocket yourself.
+ *
+ * Events:
+ * - `resynced` (StreamResync) - state is consistent again after a reconnect
+ * - `error` (error) - fetching the state failed; logged with `console.error`
+ *   while nothing listens for it
+ *
+ * @example
+ * ```typescript
+ * const client = new EnclaveClient({ auth, streamRecovery: true });
+ * await client.connectWebSocket();
+ * await client.subscribeOrders(onOrder);
+ * client.streamRecovery?.on('resynced', ({ orders }) => {
+ *   console.log(`Replayed ${orders.length} order updates missed while disconnected`);
+ * });
+ * ```
+ */
+export class StreamRecovery extends EventEmitter {
+  private readonly source: StreamRecoverySource;
+  private readonly lookback: number;
+  private readonly debug: boolean;
+  private readonly orders: Map<string, Order> = new Map();
+  private readonly closedOrders: Set<string> = new Set();
+  private readonly positions: Map<string, Position> = new Map();
+  private ws?: WebSocketClient;
+  private disconnectedAt?: number;
+  private disconnects = 0;
+  private recovering = false;
+  private fillsSupported = true;
+  private readonly handleMessage: (message: WebSocketMessage) => void;
+  private readonly handleDisconnected: () => void;
+  private readonly handleSubscribed: () => void;
+
+  constructor(source: StreamRecoverySource, options: StreamRecoveryOptions = {}) {
+    super();
+    this.source = source;
+    this.lookback = options.lookback ?? 5000;
+    this.debug = options.debug ?? false;
+    this.handleMessage = (message): void => {
+      const channel = message.channel as WebSocketChannel;
+      try {
+        if (channel === WebSocketChannel.ORDERS) {
+          this.record(adaptOrder(message.data as ApiOrder));
+        } else if (channel === WebSocketChannel.POSITIONS) {
+          const position = adaptPosition(message.data as ApiPosition);
+          this.positions.set(position.market, position);
+        }
+      } catch {
+        // The WebSocket client reports payloads it cannot adapt
+      }
+    };
+    this.handleDisconnected = (): void => {
+      this.disconnectedAt ??= Date.now();
+      this.disconnects++;
+    };
+    this.handleSubscribed = (): void => {
+      this.maybeRecover();
+    };
+  }
+
+  /**
+   * Starts recording private stream updates and recovering after reconnects
+   */
+  public attach(ws: WebSocketClient): void {
+    if (this.ws === ws) return;
+    this.detach();
+    this.ws = ws;
+    ws.on('message', this.handleMessage);
+    ws.on('disconnected', this.handleDisconnected);
+    ws.on('subscribed', this.handleSubscribed);
+  }
+
+  /**
+   * Stops watching the WebSocket and forgets the recorded state
+   */
+  public detach(): void {
+    if (!this.ws) return;
+    this.ws.off('message', this.handleMessage);
+    this.ws.off('disconnected', this.handleDisconnected);
+    this.ws.off('subscribed', this.handleSubscribed);
+    this.ws = undefined;
+    this.disconnectedAt = undefined;
+    this.orders.clear();
+    this.closedOrders.clear();
+    this.positions.clear();
+  }
+
+  /**
+   * Recovers once every private subscription is active again after a disconnect
+   */
+  private maybeRecover(): void {
+    const ws = this.ws;
+    if (!ws || this.recovering || this.disconnectedAt === undefined) return;
+
+    const subscriptions = ws
+      .getSubscriptions()
+      .filter((s) => RECOVERED_CHANNELS.includes(s.channel));
+    if (subscriptions.length === 0) {
+      // Nothing private was streaming, so nothing was missed
+      this.disconnectedAt = undefined;
+      return;
+    }
+    if (subscriptions.some((s) => s.state !== SubscriptionState.ACTIVE)) return;
+
+    const from = this.disconnectedAt;
+    const disconnects = this.disconnects;
+    const channels = new Set(subscriptions.map((s) => s.channel));
+    this.recovering = true;
+    this.reconcile(ws, from, channels)
+      .then((resync) => {
+        // A disconnect during recovery leaves its own gap to recover
+        if (this.disconnects === disconnects) {
+          this.disconnectedAt = undefined;
+        }
+        this.log(
+          `resynced ${resync.orders.length} orders and ${resync.positions.length} positions`,
+        );
+        this.emit('resynced', resync);
+      })
+      .catch((error: unknown) => reportError(this, error, '[StreamRecovery] Recovery failed:'))
+      .finally(() => {
+        this.recovering = false;
+        if (this.disconnects !== disconnects) this.maybeRecover();
+      });
+  }
+
+  private async reconcile(
+    ws: WebSocketClient,
+    from: number,
+    channels: Set<WebSocketChannel>,
+  ): Promise<StreamResync> {
+    const since = from - this.lookback;
+    const to = Date.now();
+    const fills = await this.fillsSince(since);
+
+    const orders = channels.has(WebSocketChannel.ORDERS)
+      ? await this.missedOrders(since, fills)
+      : [];
+    const positions = channels.has(WebSocketChannel.POSITIONS)
+      ? await this.missedPositions(since, to)
+      : [];
+
+    // The recorded state may have moved on while fetching; replay only what is still newer
+    const replayed: Order[] = [];
+    for (const order of orders.sort((a, b) => a.updatedAt - b.updatedAt)) {
+      const known = this.orders.get(order.id);
+      if (known && known.updatedAt > order.updatedAt) continue;
+      this.record(order);
+      ws.dispatch(WebSocketChannel.ORDERS, order);
+      replayed.push(order);
+    }
+    for (const position of positions) {
+      this.positions.set(position.market, position);
+      ws.dispatch(WebSocketChannel.POSITIONS, position);
+    }
+
+    return { from, to, orders: replayed, positions, fills };
+  }
+
+  private async fillsSince(since: number): Promise<Trade[]> {
+    const fills: Trade[] = [];
+    if (!this.fillsSupported) return fills;
+    try {
+      for await (const fill of this.source.iterateFills({ startTime: since })) {
+        fills.push(fill);
+      }
+    } catch (error) {
+      if (!(error instanceof NotFoundError && error.statusCode === 404)) throw error;
+      this.log('fills endpoint unavailable');
+      this.fillsSupported = false;
+      return [];
+    }
+    return fills;
+  }
+
+  /**
+   * Open orders that changed, plus orders that left the book or filled during the gap
+   */
+  private async missedOrders(since: number, fills: Trade[]): Promise<Order[]> {
+    const open = await this.source.getOrders();
+    const openIds = new Set(open.map((o) => o.id));
+
+    const closedIds = new Set<string>();
+    for (const known of this.orders.values()) {
+      if (!isTerminalStatus(known.status) && !openIds.has(known.id)) closedIds.add(known.id);
+    }
+    for (const fill of fills) {
+      if (!openIds.has(fill.orderId)) closedIds.add(fill.orderId);
+    }
+    const closed: Order[] = [];
+    const ids = [...closedIds];
+    const lookups = await Promise.allSettled(ids.map((id) => this.source.getOrder(id)));
+    lookups.forEach((lookup, index) => {
+      if (lookup.status === 'fulfilled') {
+        closed.push(lookup.value);
+      } else if (lookup.reason instanceof NotFoundError) {
+        // Purged by the exchange; stop looking for it after every reconnect
+        this.forget(ids[index]);
+      } else {
+        throw lookup.reason;
+      }
+    });
+
+    return [...open, ...closed].filter((order) => {
+      const known = this.orders.get(order.id);
+      if (!known) return order.updatedAt >= since;
+      return (
+        order.updatedAt !== known.updatedAt ||
+        order.status !== known.status ||
+        order.remainingSize !== known.remainingSize ||
+        order.price !== known.price
+      );
+    });
+  }
+
+  /**
+   * Positions that changed during the gap; recorded positions that are gone are replayed flat
+   */
+  private async missedPositions(since: number, now: number): Promise<Position[]> {
+    const current = await this.source.getPositions();
+    const markets = new Set(current.map((p) => p.market));
+
+    const changed = current.filter((position) => {
+      const known = this.positions.get(position.market);
+      if (!known) return position.updatedAt >= since;
+      return (
+        position.side !== known.side ||
+        position.size !== known.size ||
+        position.entryPrice !== known.entryPrice
+      );
+    });
+    for (const known of this.positions.values()) {
+      if (!markets.has(known.market) && !new Decimal(known.size).isZero()) {
+        changed.push({ ...known, size: '0', unrealizedPnl: '0', updatedAt: now });
+      }
+    }
+    return changed;
+  }
+
+  private record(order: Order): void {
+    this.orders.set(order.id, order);
+    if (!isTerminalStatus(order.status)) return;
+    this.closedOrders.delete(order.id);
+    this.closedOrders.add(order.id);
+    if (this.closedOrders.size > MAX_CLOSED_ORDERS) {
+      this.forget(this.closedOrders.values().next().value as string);
+    }
+  }
+
+  private forget(orderId: string): void {
+    this.orders.delete(orderId);
+    this.closedOrders.delete(orderId);
+  }
+
+  private log(message: string): void {
+    if (this.debug) {
+      console.log(`[StreamRecovery] ${message}`);
+    }
+  }
+}
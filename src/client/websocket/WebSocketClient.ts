@@ -5,15 +5,71 @@
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
 import { HmacAuth } from '../auth/HmacAuth';
-import { Environment, WS_URLS } from '../../types';
+import {
+  Deposit,
+  DepthUpdate,
+  Environment,
+  Order,
+  OrderBook,
+  Position,
+  PriceUpdate,
+  Trade,
+  WS_URLS,
+} from '../../types';
+import {
+  ApiDeposit,
+  ApiDepthUpdate,
+  ApiOrder,
+  ApiPosition,
+  ApiPriceUpdate,
+  ApiTopOfBook,
+  ApiTrade,
+} from '../../types/api-responses';
+import {
+  adaptDeposit,
+  adaptDepthUpdate,
+  adaptOrder,
+  adaptOrderBook,
+  adaptPosition,
+  adaptPriceUpdate,
+  adaptTrade,
+} from '../../utils/adapters';
+import { EnclaveErrorCode, WebSocketError } from '../../utils/errors';
+import { ChannelObservable, ChannelStream, StreamOptions, StreamSource } from './ChannelStream';
 
 export interface WebSocketConfig {
   auth?: HmacAuth;
   environment?: Environment;
+  /**
+   * Overrides the WebSocket URL derived from the environment
+   */
+  url?: string;
   debug?: boolean;
   reconnect?: boolean;
   reconnectDelay?: number;
   maxReconnectAttempts?: number;
+  /**
+   * Time to wait for the server to acknowledge a subscription in ms (default: 10000)
+   */
+  subscribeTimeout?: number;
+  /**
+   * Interval between protocol pings in ms (default: 30000)
+   */
+  pingInterval?: number;
+  /**
+   * Reconnect when a ping is not answered within this many ms (default: 10000, 0 disables)
+   */
+  pongTimeout?: number;
+  /**
+   * Report a subscription `stale` when its channel sends no update for this many
+   * ms, e.g. `{ [WebSocketChannel.ORDERBOOK]: 5000 }` (default: no limits)
+   */
+  staleTimeouts?: Partial<Record<WebSocketChannel, number>>;
+  /**
+   * Force a reconnect when a subscription goes stale (default: true). A
+   * subscription still silent after the reconnect does not force another one.
+   */
+  reconnectOnStale?: boolean;
 }
 
 export interface WebSocketMessage {
@@ -24,7 +80,11 @@ export interface WebSocketMessage {
   timestamp?: number;
 }
 
-export type MessageHandler = (data: unknown) => void;
+/**
+ * Channel handler. The second argument is the raw message envelope, which carries
+ * the server `sequence` and `timestamp`.
+ */
+export type MessageHandler<T = unknown> = (data: T, message: WebSocketMessage) => void;
 
 export interface Subscription {
   channel: string;
@@ -39,21 +99,127 @@ export enum WebSocketChannel {
   PRICES = 'prices',
   TRADES = 'tradesPerps',
   ORDERBOOK = 'topOfBooksPerps',
+  DEPTH = 'depthPerps',
   ORDERS = 'ordersPerps',
   POSITIONS = 'positionsPerps',
   DEPOSITS = 'deposits',
 }
 
+/**
+ * Channels that require an authenticated connection
+ */
+const PRIVATE_CHANNELS: ReadonlySet<WebSocketChannel> = new Set([
+  WebSocketChannel.ORDERS,
+  WebSocketChannel.POSITIONS,
+  WebSocketChannel.DEPOSITS,
+]);
+
+/**
+ * Lifecycle of a subscription. Active subscriptions return to pending while
+ * the connection is down and are subscribed again on reconnect.
+ */
+export enum SubscriptionState {
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  FAILED = 'failed',
+}
+
+export interface SubscriptionStatus {
+  channel: WebSocketChannel;
+  market?: string;
+  state: SubscriptionState;
+  /**
+   * Why the last attempt failed, for failed subscriptions
+   */
+  error?: Error;
+  /**
+   * Whether the channel went silent past its `staleTimeouts` limit and has not updated since
+   */
+  stale: boolean;
+  /**
+   * When the last update arrived (ms since epoch)
+   */
+  lastMessageAt?: number;
+}
+
+interface SubscriptionEntry extends SubscriptionStatus {
+  handlers: Set<MessageHandler>;
+  waiters: Array<{ resolve: () => void; reject: (error: Error) => void }>;
+  /**
+   * Acknowledgement timeout, set while a subscribe request is outstanding
+   */
+  timer?: NodeJS.Timeout;
+  /**
+   * Staleness watchdog, restarted by every update while active
+   */
+  staleTimer?: NodeJS.Timeout;
+}
+
+type AuthStatus = 'none' | 'pending' | 'authenticated' | 'failed';
+
+/**
+ * Raw payload sent by the server on each channel
+ */
+export interface RawChannelPayloadMap {
+  [WebSocketChannel.PRICES]: ApiPriceUpdate;
+  [WebSocketChannel.TRADES]: ApiTrade;
+  [WebSocketChannel.ORDERBOOK]: ApiTopOfBook;
+  [WebSocketChannel.DEPTH]: ApiDepthUpdate;
+  [WebSocketChannel.ORDERS]: ApiOrder;
+  [WebSocketChannel.POSITIONS]: ApiPosition;
+  [WebSocketChannel.DEPOSITS]: ApiDeposit;
+}
+
+/**
+ * Adapted payload delivered to handlers of each channel
+ */
+export interface ChannelPayloadMap {
+  [WebSocketChannel.PRICES]: PriceUpdate;
+  [WebSocketChannel.TRADES]: Trade;
+  [WebSocketChannel.ORDERBOOK]: OrderBook;
+  [WebSocketChannel.DEPTH]: DepthUpdate;
+  [WebSocketChannel.ORDERS]: Order;
+  [WebSocketChannel.POSITIONS]: Position;
+  [WebSocketChannel.DEPOSITS]: Deposit;
+}
+
+const CHANNEL_ADAPTERS: {
+  [C in WebSocketChannel]: (raw: RawChannelPayloadMap[C]) => ChannelPayloadMap[C];
+} = {
+  [WebSocketChannel.PRICES]: adaptPriceUpdate,
+  [WebSocketChannel.TRADES]: adaptTrade,
+  [WebSocketChannel.ORDERBOOK]: adaptOrderBook,
+  [WebSocketChannel.DEPTH]: adaptDepthUpdate,
+  [WebSocketChannel.ORDERS]: adaptOrder,
+  [WebSocketChannel.POSITIONS]: adaptPosition,
+  [WebSocketChannel.DEPOSITS]: adaptDeposit,
+};
+
 /**
  * WebSocket client for real-time data streaming
+ *
+ * Events:
+ * - `connected` / `disconnected` ({ code, reason }) - connection opened or closed
+ * - `authenticated` - the server accepted the auth request
+ * - `subscribed` / `unsubscribed` (message) - the server acknowledged a request
+ * - `subscriptionFailed` (status) - a subscription was rejected or timed out
+ * - `stale` / `recovered` (status) - a subscription went silent past its limit, or updated again
+ * - `message` (message) - every channel message
+ * - `error` (error) - server error messages and handler errors
  */
 export class WebSocketClient extends EventEmitter {
   private ws?: WebSocket;
   private config: WebSocketConfig;
-  private subscriptions: Map<string, Set<MessageHandler>> = new Map();
+  private subscriptions: Map<string, SubscriptionEntry> = new Map();
+  /**
+   * Completes open streams and observables when the connection closes for good
+   */
+  private readonly streamEnds: Set<() => void> = new Set();
   private isConnected = false;
+  private authStatus: AuthStatus = 'none';
   private reconnectAttempts = 0;
   private heartbeatInterval?: NodeJS.Timeout;
+  private pongTimeout?: NodeJS.Timeout;
   private sequenceNumber = 0;
   private reconnectTimeout?: NodeJS.Timeout;
 
@@ -63,10 +229,16 @@ export class WebSocketClient extends EventEmitter {
     this.config = {
       auth: config.auth,
       environment: config.environment ?? Environment.PROD_PERMISSIONLESS,
+      url: config.url,
       debug: config.debug ?? false,
       reconnect: config.reconnect ?? true,
       reconnectDelay: config.reconnectDelay ?? 5000,
       maxReconnectAttempts: config.maxReconnectAttempts ?? 10,
+      subscribeTimeout: config.subscribeTimeout ?? 10000,
+      pingInterval: config.pingInterval ?? 30000,
+      pongTimeout: config.pongTimeout ?? 10000,
+      staleTimeouts: config.staleTimeouts ?? {},
+      reconnectOnStale: config.reconnectOnStale ?? true,
     };
   }
 
@@ -76,7 +248,7 @@ export class WebSocketClient extends EventEmitter {
   public async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       const environment = this.config.environment ?? Environment.PROD_PERMISSIONLESS;
-      const wsUrl = WS_URLS[environment];
+      const wsUrl = this.config.url ?? WS_URLS[environment];
 
       if (!wsUrl) {
         reject(new Error(`Invalid environment: ${environment}`));
@@ -98,8 +270,9 @@ export class WebSocketClient extends EventEmitter {
         this.emit('connected');
         this.startHeartbeat();
 
-        // Authenticate if credentials provided
+        // Authenticate if credentials provided; private channels wait for the ack
         if (this.config.auth) {
+          this.authStatus = 'pending';
           this.authenticate();
         }
 
@@ -152,10 +325,19 @@ export class WebSocketClient extends EventEmitter {
           this.config.reconnect &&
           this.reconnectAttempts < (this.config.maxReconnectAttempts ?? 10)
         ) {
+          this.suspendSubscriptions();
           this.scheduleReconnect();
+        } else {
+          this.suspendSubscriptions(new WebSocketError('WebSocket disconnected'));
+          this.endStreams();
         }
       });
 
+      this.ws.on('pong', () => {
+        clearTimeout(this.pongTimeout);
+        this.pongTimeout = undefined;
+      });
+
       this.ws.on('ping', () => {
         if (this.config.debug) {
           console.log('[WS] Received ping');
@@ -179,53 +361,142 @@ export class WebSocketClient extends EventEmitter {
       this.ws = undefined;
     }
     this.isConnected = false;
+    this.suspendSubscriptions(new WebSocketError('WebSocket disconnected'));
+    this.endStreams();
     this.emit('disconnected', { code: 1000, reason: 'Client disconnect' });
   }
 
   /**
-   * Subscribe to a channel
+   * Subscribe to a channel. Handlers receive the adapted payload type of the channel.
+   *
+   * Subscriptions made before `connect()` are sent once connected, and private
+   * channels are sent once the server has acknowledged authentication.
+   * Subscribing again to a failed channel retries it.
+   *
+   * @returns Promise that resolves when the server acknowledges the subscription,
+   * and rejects on a server error, the `subscribeTimeout` or a disconnect without
+   * reconnecting. It may be ignored; `getSubscription()` reports the same outcome.
    */
-  public subscribe(channel: WebSocketChannel, handler: MessageHandler, market?: string): void {
+  public subscribe<C extends WebSocketChannel>(
+    channel: C,
+    handler: MessageHandler<ChannelPayloadMap[C]>,
+    market?: string,
+  ): Promise<void> {
     const key = this.getSubscriptionKey(channel, market);
-
-    if (!this.subscriptions.has(key)) {
-      this.subscriptions.set(key, new Set());
+    let entry = this.subscriptions.get(key);
+    const isNew = !entry;
+
+    if (!entry) {
+      entry = {
+        channel,
+        market,
+        state: SubscriptionState.PENDING,
+        stale: false,
+        handlers: new Set(),
+        waiters: [],
+      };
+      this.subscriptions.set(key, entry);
     }
 
-    this.subscriptions.get(key)!.add(handler);
+    entry.handlers.add(handler as MessageHandler);
+    const acknowledged = this.whenActive(entry);
 
     // Send subscription message if connected
-    if (this.isConnected) {
-      this.sendSubscribe(channel, market);
+    if (this.isConnected && (isNew || entry.state === SubscriptionState.FAILED)) {
+      this.requestSubscribe(entry);
     }
+
+    return acknowledged;
   }
 
   /**
    * Unsubscribe from a channel
    */
-  public unsubscribe(channel: WebSocketChannel, handler?: MessageHandler, market?: string): void {
+  public unsubscribe<C extends WebSocketChannel>(
+    channel: C,
+    handler?: MessageHandler<ChannelPayloadMap[C]>,
+    market?: string,
+  ): void {
     const key = this.getSubscriptionKey(channel, market);
+    const entry = this.subscriptions.get(key);
+    if (!entry) return;
 
-    if (!handler) {
-      // Unsubscribe all handlers for this channel
-      this.subscriptions.delete(key);
-    } else {
+    if (handler) {
       // Unsubscribe specific handler
-      const handlers = this.subscriptions.get(key);
-      if (handlers) {
-        handlers.delete(handler);
-        if (handlers.size === 0) {
-          this.subscriptions.delete(key);
-        }
-      }
+      entry.handlers.delete(handler as MessageHandler);
+      if (entry.handlers.size > 0) return;
     }
 
-    // Send unsubscribe message if connected and no more handlers
-    if (this.isConnected && !this.subscriptions.has(key)) {
+    // Unsubscribe all handlers for this channel
+    this.subscriptions.delete(key);
+    clearTimeout(entry.timer);
+    clearTimeout(entry.staleTimer);
+    this.settle(entry, new WebSocketError(`Unsubscribed from ${key} before it was acknowledged`));
+
+    // Send unsubscribe message if connected
+    if (this.isConnected) {
       this.sendUnsubscribe(channel, market);
     }
   }
 
+  /**
+   * Subscribe to a channel as an async iterable with bounded buffering. Breaking
+   * out of `for await` unsubscribes; the stream ends when the client disconnects.
+   */
+  public stream<C extends WebSocketChannel>(
+    channel: C,
+    market?: string,
+    options: StreamOptions = {},
+  ): ChannelStream<ChannelPayloadMap[C]> {
+    return new ChannelStream(this.channelSource(channel, market), options);
+  }
+
+  /**
+   * Subscribe to a channel as an observable; each observer gets its own handler
+   */
+  public observe<C extends WebSocketChannel>(
+    channel: C,
+    market?: string,
+  ): ChannelObservable<ChannelPayloadMap[C]> {
+    return new ChannelObservable(this.channelSource(channel, market));
+  }
+
+  /**
+   * Delivers an already adapted payload to the channel's handlers as if it had
+   * arrived on the socket, in a message of type `resync`. Used to replay updates
+   * missed while disconnected; it does not count as stream activity.
+   */
+  public dispatch<C extends WebSocketChannel>(channel: C, payload: ChannelPayloadMap[C]): void {
+    const market = (payload as { market?: string }).market;
+    const message: WebSocketMessage = {
+      channel,
+      type: 'resync',
+      data: payload,
+      timestamp: Date.now(),
+    };
+    for (const entry of this.routeEntries(channel, market)) {
+      this.invokeHandlers(entry, payload, message);
+    }
+  }
+
+  /**
+   * State of the subscription to a channel, or undefined if not subscribed
+   */
+  public getSubscription(
+    channel: WebSocketChannel,
+    market?: string,
+  ): SubscriptionStatus | undefined {
+    const entry = this.subscriptions.get(this.getSubscriptionKey(channel, market));
+    return entry && this.statusOf(entry);
+  }
+
+  /**
+   * State of every subscription
+   */
+  public getSubscriptions(): SubscriptionStatus[] {
+    return [...this.subscriptions.values()].map((entry) => this.statusOf(entry));
+  }
+
   /**
    * Send a message to the server
    */
@@ -297,7 +568,27 @@ export class WebSocketClient extends EventEmitter {
     }
 
     // Handle different message types
+    if (message.channel === 'auth') {
+      this.handleAuthMessage(message);
+      return;
+    }
+
     if (message.type === 'subscribed') {
+      const data = message.data as { channel?: string; market?: string } | undefined;
+      const entry = this.subscriptions.get(
+        this.getSubscriptionKey(
+          (data?.channel ?? message.channel) as WebSocketChannel,
+          data?.market,
+        ),
+      );
+      if (entry) {
+        clearTimeout(entry.timer);
+        entry.timer = undefined;
+        entry.state = SubscriptionState.ACTIVE;
+        entry.error = undefined;
+        this.settle(entry);
+        this.watchStaleness(entry);
+      }
       this.emit('subscribed', message);
       return;
     }
@@ -308,29 +599,40 @@ export class WebSocketClient extends EventEmitter {
     }
 
     if (message.type === 'error') {
-      const errorMessage = (message.data as { message?: string })?.message ?? 'Unknown error';
-      this.emit('error', new Error(errorMessage));
+      const data = message.data as { message?: string; code?: string; market?: string } | undefined;
+      const error = new WebSocketError(data?.message ?? 'Unknown error', { code: data?.code });
+      const entry = this.subscriptions.get(
+        this.getSubscriptionKey(message.channel as WebSocketChannel, data?.market),
+      );
+      if (entry?.state === SubscriptionState.PENDING) {
+        this.failSubscription(entry, error);
+      }
+      this.emit('error', error);
       return;
     }
 
     // Route message to channel handlers
-    const key = this.getSubscriptionKey(
-      message.channel as WebSocketChannel,
-      (message.data as { market?: string })?.market,
-    );
-    const handlers = this.subscriptions.get(key);
+    const channel = message.channel as WebSocketChannel;
+    const market = (message.data as { market?: string })?.market;
+
+    let payload: unknown;
+    let adapted = false;
 
-    if (handlers) {
-      handlers.forEach((handler) => {
+    for (const entry of this.routeEntries(channel, market)) {
+      this.markFresh(entry);
+      if (!adapted) {
         try {
-          handler(message.data);
+          payload = this.adaptPayload(channel, message.data);
         } catch (error) {
           if (this.config.debug) {
-            console.error('[WS] Handler error:', error);
+            console.error('[WS] Failed to adapt payload:', error);
           }
           this.emit('error', error);
+          break;
         }
-      });
+        adapted = true;
+      }
+      this.invokeHandlers(entry, payload, message);
     }
 
     // Update sequence number
@@ -342,6 +644,43 @@ export class WebSocketClient extends EventEmitter {
     this.emit('message', message);
   }
 
+  /**
+   * Subscriptions that receive a message on a channel. Market-scoped payloads on
+   * channels subscribed without a market (e.g. ordersPerps) go to the channel-wide key.
+   */
+  private routeEntries(channel: WebSocketChannel, market?: string): SubscriptionEntry[] {
+    const keys = [this.getSubscriptionKey(channel, market)];
+    if (market) {
+      keys.push(this.getSubscriptionKey(channel));
+    }
+    return keys.flatMap((key) => this.subscriptions.get(key) ?? []);
+  }
+
+  private invokeHandlers(
+    entry: SubscriptionEntry,
+    payload: unknown,
+    message: WebSocketMessage,
+  ): void {
+    entry.handlers.forEach((handler) => {
+      try {
+        handler(payload, message);
+      } catch (error) {
+        if (this.config.debug) {
+          console.error('[WS] Handler error:', error);
+        }
+        this.emit('error', error);
+      }
+    });
+  }
+
+  /**
+   * Convert a raw channel payload to the type delivered to handlers
+   */
+  private adaptPayload(channel: WebSocketChannel, data: unknown): unknown {
+    const adapter = CHANNEL_ADAPTERS[channel] as ((raw: unknown) => unknown) | undefined;
+    return adapter ? adapter(data) : data;
+  }
+
   /**
    * Get subscription key for channel and market
    */
@@ -353,25 +692,224 @@ export class WebSocketClient extends EventEmitter {
    * Resubscribe to all channels after reconnection
    */
   private resubscribeAll(): void {
-    for (const [key] of this.subscriptions) {
-      const [channel, market] = key.split(':');
-      this.sendSubscribe(channel as WebSocketChannel, market);
+    for (const entry of this.subscriptions.values()) {
+      this.requestSubscribe(entry);
     }
   }
 
   /**
-   * Start heartbeat to keep connection alive
+   * Handle the server's answer to the auth request and release private subscriptions
+   */
+  private handleAuthMessage(message: WebSocketMessage): void {
+    const deferred = [...this.subscriptions.values()].filter(
+      (entry) => PRIVATE_CHANNELS.has(entry.channel) && entry.timer !== undefined,
+    );
+
+    if (message.type === 'authenticated') {
+      this.authStatus = 'authenticated';
+      this.emit('authenticated');
+      for (const entry of deferred) {
+        this.sendSubscribe(entry.channel, entry.market);
+      }
+      return;
+    }
+
+    if (message.type === 'error') {
+      const data = message.data as { message?: string; code?: string } | undefined;
+      const error = new WebSocketError(data?.message ?? 'Authentication failed', {
+        code: data?.code ?? EnclaveErrorCode.UNAUTHORIZED,
+      });
+      this.authStatus = 'failed';
+      for (const entry of deferred) {
+        this.failSubscription(entry, error);
+      }
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Send a subscribe request and start waiting for its acknowledgement. Private
+   * channels are held back until authentication is acknowledged.
+   */
+  private requestSubscribe(entry: SubscriptionEntry): void {
+    const timeout = this.config.subscribeTimeout ?? 10000;
+    entry.state = SubscriptionState.PENDING;
+    clearTimeout(entry.timer);
+    entry.timer = setTimeout(() => {
+      this.failSubscription(
+        entry,
+        new WebSocketError(
+          `Subscription to ${this.getSubscriptionKey(entry.channel, entry.market)} was not acknowledged within ${timeout}ms`,
+          { code: EnclaveErrorCode.TIMEOUT, retryable: true },
+        ),
+      );
+    }, timeout);
+
+    if (PRIVATE_CHANNELS.has(entry.channel) && this.authStatus === 'pending') return;
+    this.sendSubscribe(entry.channel, entry.market);
+  }
+
+  private failSubscription(entry: SubscriptionEntry, error: Error): void {
+    clearTimeout(entry.timer);
+    entry.timer = undefined;
+    entry.state = SubscriptionState.FAILED;
+    entry.error = error;
+    this.settle(entry, error);
+    this.emit('subscriptionFailed', this.statusOf(entry));
+  }
+
+  /**
+   * Returns every subscription to pending after the connection drops, rejecting
+   * waiting callers when no reconnect will follow
+   */
+  private suspendSubscriptions(error?: Error): void {
+    this.authStatus = 'none';
+    for (const entry of this.subscriptions.values()) {
+      clearTimeout(entry.timer);
+      entry.timer = undefined;
+      clearTimeout(entry.staleTimer);
+      entry.staleTimer = undefined;
+      if (entry.state === SubscriptionState.ACTIVE) {
+        entry.state = SubscriptionState.PENDING;
+      }
+      if (error) {
+        this.settle(entry, error);
+      }
+    }
+  }
+
+  /**
+   * Source that subscribes a handler per sink and unsubscribes it on teardown
+   */
+  private channelSource<C extends WebSocketChannel>(
+    channel: C,
+    market?: string,
+  ): StreamSource<ChannelPayloadMap[C]> {
+    return (sink) => {
+      const handler: MessageHandler<ChannelPayloadMap[C]> = (data) => sink.next(data);
+      const end = (): void => sink.complete();
+      this.streamEnds.add(end);
+      this.subscribe(channel, handler, market).catch((error: unknown) => sink.error(error));
+      return (): void => {
+        this.streamEnds.delete(end);
+        this.unsubscribe(channel, handler, market);
+      };
+    };
+  }
+
+  private endStreams(): void {
+    for (const end of [...this.streamEnds]) {
+      end();
+    }
+  }
+
+  /**
+   * Restart the staleness watchdog of an active subscription, if its channel has a limit
+   */
+  private watchStaleness(entry: SubscriptionEntry): void {
+    const limit = this.config.staleTimeouts?.[entry.channel];
+    if (!limit || entry.state !== SubscriptionState.ACTIVE) return;
+    clearTimeout(entry.staleTimer);
+    entry.staleTimer = setTimeout(() => {
+      entry.staleTimer = undefined;
+      if (entry.stale) return;
+      entry.stale = true;
+      const key = this.getSubscriptionKey(entry.channel, entry.market);
+      if (this.config.debug) {
+        console.log(`[WS] ${key} stale: no update for ${limit}ms`);
+      }
+      this.emit('stale', this.statusOf(entry));
+      if (this.config.reconnectOnStale) {
+        this.forceReconnect(`${key} stale`);
+      }
+    }, limit);
+  }
+
+  /**
+   * Record an update on a subscription and report recovery from staleness
+   */
+  private markFresh(entry: SubscriptionEntry): void {
+    entry.lastMessageAt = Date.now();
+    this.watchStaleness(entry);
+    if (entry.stale) {
+      entry.stale = false;
+      this.emit('recovered', this.statusOf(entry));
+    }
+  }
+
+  /**
+   * Drop a connection that looks alive but is not delivering; the close
+   * handler reconnects if reconnection is enabled
+   */
+  private forceReconnect(reason: string): void {
+    if (!this.ws) return;
+    if (this.config.debug) {
+      console.log(`[WS] Forcing reconnect: ${reason}`);
+    }
+    this.ws.terminate();
+  }
+
+  /**
+   * Promise for the next acknowledgement of a subscription
+   */
+  private whenActive(entry: SubscriptionEntry): Promise<void> {
+    if (entry.state === SubscriptionState.ACTIVE) {
+      return Promise.resolve();
+    }
+    const promise = new Promise<void>((resolve, reject) => {
+      entry.waiters.push({ resolve, reject });
+    });
+    // Callers may ignore the promise and read the state instead
+    promise.catch(() => undefined);
+    return promise;
+  }
+
+  /**
+   * Resolve, or reject with `error`, everyone waiting on a subscription
+   */
+  private settle(entry: SubscriptionEntry, error?: Error): void {
+    const waiters = entry.waiters;
+    entry.waiters = [];
+    for (const waiter of waiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve();
+      }
+    }
+  }
+
+  private statusOf(entry: SubscriptionEntry): SubscriptionStatus {
+    return {
+      channel: entry.channel,
+      market: entry.market,
+      state: entry.state,
+      error: entry.error,
+      stale: entry.stale,
+      lastMessageAt: entry.lastMessageAt,
+    };
+  }
+
+  /**
+   * Start heartbeat to keep connection alive and detect half-open connections
    */
   private startHeartbeat(): void {
     this.stopHeartbeat();
+    const pongTimeout = this.config.pongTimeout ?? 10000;
     this.heartbeatInterval = setInterval(() => {
       if (this.ws && this.ws.readyState === WebSocket.OPEN) {
         this.ws.ping();
         if (this.config.debug) {
           console.log('[WS] Sent ping');
         }
+        if (pongTimeout > 0 && !this.pongTimeout) {
+          this.pongTimeout = setTimeout(() => {
+            this.pongTimeout = undefined;
+            this.forceReconnect(`no pong within ${pongTimeout}ms`);
+          }, pongTimeout);
+        }
       }
-    }, 30000); // Ping every 30 seconds
+    }, this.config.pingInterval ?? 30000);
   }
 
   /**
@@ -382,6 +920,8 @@ export class WebSocketClient extends EventEmitter {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = undefined;
     }
+    clearTimeout(this.pongTimeout);
+    this.pongTimeout = undefined;
   }
 
   /**
@@ -412,6 +952,13 @@ export class WebSocketClient extends EventEmitter {
     return this.isConnected;
   }
 
+  /**
+   * Whether the server has acknowledged authentication on the current connection
+   */
+  public get authenticated(): boolean {
+    return this.authStatus === 'authenticated';
+  }
+
   /**
    * Get current sequence number
    */
@@ -3,9 +3,105 @@ export { HmacAuth } from './client/auth/HmacAuth';
 export {
   WebSocketClient,
   WebSocketChannel,
+  SubscriptionState,
+  type SubscriptionStatus,
   type WebSocketConfig,
   type MessageHandler,
+  type ChannelPayloadMap,
+  type RawChannelPayloadMap,
 } from './client/websocket/WebSocketClient';
+export {
+  StreamRecovery,
+  type StreamRecoveryOptions,
+  type StreamRecoverySource,
+  type StreamResync,
+} from './client/websocket/StreamRecovery';
+export {
+  ChannelStream,
+  ChannelObservable,
+  OverflowPolicy,
+  type StreamOptions,
+  type StreamSink,
+  type StreamSource,
+  type StreamSubscription,
+} from './client/websocket/ChannelStream';
+export {
+  LocalOrderBook,
+  type LocalOrderBookOptions,
+  type LocalOrderBookSource,
+  type PriceLevel,
+} from './client/orderbook/LocalOrderBook';
+export {
+  OrderTracker,
+  isTerminalStatus,
+  type OrderTrackerOptions,
+  type OrderTrackerSource,
+  type OrderFill,
+  type OrderTransition,
+  type TrackedOrder,
+  type WaitOptions,
+} from './client/orders/OrderTracker';
+export {
+  BracketManager,
+  BracketStatus,
+  type Bracket,
+  type BracketLeg,
+  type BracketManagerOptions,
+  type BracketManagerSource,
+  type BracketOrderParams,
+} from './client/orders/BracketManager';
+export {
+  FileBracketStore,
+  InMemoryBracketStore,
+  type BracketStore,
+} from './client/orders/BracketStore';
+export {
+  ExecutionAlgorithm,
+  ExecutionStatus,
+  type ExecutionOptions,
+  type ExecutionParams,
+  type ExecutionProgress,
+  type ExecutionSource,
+} from './client/execution/ExecutionAlgorithm';
+export { TwapExecution, type TwapParams } from './client/execution/TwapExecution';
+export { VwapExecution, type VwapParams } from './client/execution/VwapExecution';
+export { IcebergExecution, type IcebergParams } from './client/execution/IcebergExecution';
+export {
+  DeadMansSwitch,
+  type DeadMansSwitchOptions,
+  type DeadMansSwitchSource,
+  type DeadMansSwitchTrigger,
+} from './client/safety/DeadMansSwitch';
+export {
+  CandleBuilder,
+  type CandleBuilderOptions,
+  type CandleBuilderSource,
+} from './client/candles/CandleBuilder';
+export * from './client/transport';
+export * from './client/ratelimit';
 export * from './types';
 export * from './utils/rounding';
-export { EnclaveApiError } from './utils/errors';
+export {
+  EnclaveError,
+  EnclaveApiError,
+  EnclaveErrorCode,
+  RateLimitError,
+  AuthenticationError,
+  InsufficientMarginError,
+  OrderRejectedError,
+  NotFoundError,
+  NetworkError,
+  TimeoutError,
+  WebSocketError,
+  StreamOverflowError,
+  OrderValidationError,
+  OrderStateUnknownError,
+  createApiError,
+  parseErrorBody,
+  type EnclaveErrorOptions,
+  type ValidationIssue,
+} from './utils/errors';
+export * from './utils/validation';
+export * from './utils/risk';
+export * from './utils/pagination';
+export * from './utils/candles';
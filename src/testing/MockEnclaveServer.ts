@@ -0,0 +1,528 @@
+/**
+ * In-process mock of the Enclave Markets REST and WebSocket API for offline testing
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import WebSocket, { WebSocketServer } from 'ws';
+import { HmacAuth } from '../client/auth/HmacAuth';
+import { Transport, TransportRequest, TransportResponse } from '../client/transport/Transport';
+import { WebSocketChannel } from '../client/websocket/WebSocketClient';
+import { ApiBatchItem, ApiPerpsMarket } from '../types/api-responses';
+import {
+  AmendOrderRequest,
+  MockExchange,
+  MockExchangeError,
+  PlaceOrderRequest,
+  PlaceStopOrderRequest,
+} from './MockExchange';
+
+export interface MockEnclaveServerConfig {
+  /**
+   * API key accepted by the server
+   */
+  apiKey?: string;
+  /**
+   * API secret used to verify `ENCLAVE-SIGN` headers and WebSocket auth
+   */
+  apiSecret?: string;
+  /**
+   * Perps markets served by `/v1/markets` (defaults to BTC-USD.P and ETH-USD.P)
+   */
+  markets?: ApiPerpsMarket[];
+  /**
+   * Initial wallet balance of the user account
+   */
+  walletBalance?: string;
+  /**
+   * Maximum accepted difference between request timestamps and the server clock
+   */
+  maxClockSkew?: number;
+  /**
+   * Port to listen on when started (0 picks a free port)
+   */
+  port?: number;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+interface ClientState {
+  authenticated: boolean;
+  subscriptions: Set<string>;
+}
+
+const PRIVATE_CHANNELS: string[] = [
+  WebSocketChannel.ORDERS,
+  WebSocketChannel.POSITIONS,
+  WebSocketChannel.DEPOSITS,
+];
+
+/**
+ * Mock Enclave exchange for end-to-end tests without network access.
+ *
+ * Serves the REST paths used by EnclaveClient, verifies HMAC signatures produced
+ * by HmacAuth, matches orders against an in-memory book and pushes
+ * `ordersPerps`, `positionsPerps`, `tradesPerps`, `topOfBooksPerps` and
+ * `depthPerps` updates
+ * over the `/ws` WebSocket endpoint.
+ *
+ * REST calls can be served either in-process through {@link transport} or over
+ * a local HTTP listener started with {@link start}; WebSocket clients always
+ * connect to the listener.
+ *
+ * @example
+ * ```typescript
+ * const server = new MockEnclaveServer({ apiKey: 'key', apiSecret: 'secret' });
+ * await server.start();
+ * server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50000', '1');
+ *
+ * const client = new EnclaveClient({
+ *   auth: { apiKey: 'key', apiSecret: 'secret' },
+ *   transport: server.transport(),
+ *   wsUrl: server.wsUrl,
+ * });
+ * ```
+ */
+export class MockEnclaveServer {
+  public readonly exchange: MockExchange;
+  private readonly apiKey: string;
+  private readonly auth: HmacAuth;
+  private readonly maxClockSkew: number;
+  private readonly port: number;
+  private httpServer?: http.Server;
+  private wsServer?: WebSocketServer;
+  private readonly clients: Map<WebSocket, ClientState> = new Map();
+  private sequence = 0;
+
+  constructor(config: MockEnclaveServerConfig = {}) {
+    this.apiKey = config.apiKey ?? 'mock-api-key';
+    this.auth = new HmacAuth(this.apiKey, config.apiSecret ?? 'mock-api-secret');
+    this.maxClockSkew = config.maxClockSkew ?? 30000;
+    this.port = config.port ?? 0;
+    this.exchange = new MockExchange(config.markets, config.walletBalance);
+
+    this.exchange.on('order', (order) => this.publish(WebSocketChannel.ORDERS, order));
+    this.exchange.on('position', (position) => this.publish(WebSocketChannel.POSITIONS, position));
+    this.exchange.on('trade', (trade: { market: string }) =>
+      this.publish(WebSocketChannel.TRADES, trade, trade.market),
+    );
+    this.exchange.on('book', (book: { market: string }) =>
+      this.publish(WebSocketChannel.ORDERBOOK, book, book.market),
+    );
+    this.exchange.on('depth', (depth: { market: string }, sequence: number) =>
+      this.publish(WebSocketChannel.DEPTH, depth, depth.market, sequence),
+    );
+    this.exchange.on('price', (price: { market: string }) =>
+      this.publish(WebSocketChannel.PRICES, price, price.market),
+    );
+    this.exchange.on('deposit', (deposit) => this.publish(WebSocketChannel.DEPOSITS, deposit));
+  }
+
+  /**
+   * Starts the local HTTP and WebSocket listener on 127.0.0.1
+   */
+  public async start(): Promise<void> {
+    if (this.httpServer) return;
+
+    const server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => {
+        data += chunk;
+      });
+      req.on('end', () => {
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (typeof value === 'string') headers[name] = value;
+        }
+        const response = this.handle(req.method ?? 'GET', req.url ?? '/', headers, data);
+        res.writeHead(response.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+
+    this.wsServer = new WebSocketServer({ server, path: '/ws' });
+    this.wsServer.on('connection', (socket) => this.handleConnection(socket));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+    this.httpServer = server;
+  }
+
+  /**
+   * Closes all WebSocket connections and stops the listener
+   */
+  public async stop(): Promise<void> {
+    for (const socket of this.clients.keys()) {
+      socket.terminate();
+    }
+    this.clients.clear();
+    this.wsServer?.close();
+    this.wsServer = undefined;
+    const server = this.httpServer;
+    this.httpServer = undefined;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Drops every WebSocket connection without a close handshake
+   */
+  public dropConnections(): void {
+    for (const socket of this.clients.keys()) {
+      socket.terminate();
+    }
+  }
+
+  /**
+   * Base REST URL of the running listener
+   */
+  public get url(): string {
+    return `http://127.0.0.1:${this.listeningPort()}`;
+  }
+
+  /**
+   * WebSocket URL of the running listener
+   */
+  public get wsUrl(): string {
+    return `ws://127.0.0.1:${this.listeningPort()}/ws`;
+  }
+
+  /**
+   * Returns a Transport that serves requests in-process without sockets
+   */
+  public transport(): Transport {
+    return {
+      send: (request: TransportRequest): Promise<TransportResponse> => {
+        const url = new URL(request.url);
+        const headers: Record<string, string> = {};
+        for (const [name, value] of Object.entries(request.headers)) {
+          headers[name.toLowerCase()] = value;
+        }
+        const response = this.handle(
+          request.method,
+          url.pathname + url.search,
+          headers,
+          request.body ?? '',
+        );
+        return Promise.resolve({ status: response.status, body: JSON.stringify(response.body) });
+      },
+    };
+  }
+
+  /**
+   * Handles a single REST request. Header names must be lower-case.
+   */
+  public handle(
+    method: string,
+    pathWithQuery: string,
+    headers: Record<string, string>,
+    body: string,
+  ): MockResponse {
+    const upperMethod = method.toUpperCase();
+    const url = new URL(pathWithQuery, 'http://localhost');
+    const path = url.pathname;
+    const query = url.searchParams;
+
+    try {
+      const signed = headers['enclave-sign'] !== undefined;
+      if (signed || !this.isPublic(upperMethod, path)) {
+        this.verifySignature(upperMethod, pathWithQuery, headers, body);
+      }
+
+      const payload = body ? (JSON.parse(body) as Record<string, unknown>) : {};
+      const result = this.route(upperMethod, path, query, payload);
+      return { status: 200, body: { success: true, result } };
+    } catch (error) {
+      if (error instanceof MockExchangeError) {
+        return { status: error.status, body: { success: false, error: error.message } };
+      }
+      if (error instanceof SyntaxError) {
+        return { status: 400, body: { success: false, error: 'Invalid JSON body' } };
+      }
+      return { status: 500, body: { success: false, error: String(error) } };
+    }
+  }
+
+  private route(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    payload: Record<string, unknown>,
+  ): unknown {
+    const market = query.get('market') ?? undefined;
+    const clientOrderMatch = /^\/v1\/perps\/orders\/client:([^/]+)$/.exec(path);
+    const orderMatch = /^\/v1\/perps\/orders\/([^/]+)$/.exec(path);
+    const stopMatch = /^\/v1\/perps\/stop_order\/([^/]+)$/.exec(path);
+
+    if (method === 'GET' && path === '/v1/markets') {
+      return {
+        spot: { tradingPairs: [] },
+        cross: { tradingPairs: [] },
+        perps: { tradingPairs: this.exchange.getApiMarkets() },
+      };
+    }
+    if (method === 'GET' && path === '/v1/perps/depth') {
+      return this.exchange.getDepth(market ?? '', Number(query.get('depth') ?? 20));
+    }
+    if (method === 'GET' && path === '/v1/perps/trades') {
+      const startTime = query.get('startTime');
+      const endTime = query.get('endTime');
+      return this.exchange.getTrades(market, Number(query.get('limit') ?? 100), {
+        startTime: startTime === null ? undefined : Number(startTime),
+        endTime: endTime === null ? undefined : Number(endTime),
+      });
+    }
+    if (method === 'GET' && path === '/v1/perps/fills') {
+      const startTime = query.get('startTime');
+      const endTime = query.get('endTime');
+      return this.exchange.getFills(market, Number(query.get('limit') ?? 100), {
+        startTime: startTime === null ? undefined : Number(startTime),
+        endTime: endTime === null ? undefined : Number(endTime),
+      });
+    }
+    if (method === 'GET' && path === '/v1/perps/funding_rates') {
+      const info = this.exchange.getMarketInfo(market);
+      return {
+        market: info.market,
+        rate: info.dailyInterestRate,
+        intervalEnds: new Date(Math.ceil(Date.now() / 3600000) * 3600000).toISOString(),
+        premiums: [],
+      };
+    }
+    if (method === 'GET' && path === '/v1/perps/prices') {
+      return this.exchange.getPrices(market ?? '');
+    }
+    if (method === 'POST' && path === '/v1/perps/orders/cancel_all_after') {
+      return this.exchange.cancelAllAfter(Number(payload.timeout));
+    }
+    if (path === '/v1/perps/orders/batch') {
+      if (method === 'POST') {
+        const orders = (payload.orders ?? []) as PlaceOrderRequest[];
+        return orders.map((order) => this.settle(() => this.exchange.placeOrder(order)));
+      }
+      if (method === 'DELETE') {
+        const orderIds = (payload.orderIds ?? []) as string[];
+        return orderIds.map((id) => this.settle(() => this.exchange.cancelOrder(id)));
+      }
+    }
+    if (path === '/v1/perps/orders') {
+      if (method === 'POST') return this.exchange.placeOrder(payload as PlaceOrderRequest);
+      if (method === 'GET') return this.exchange.getOpenOrders(market);
+      if (method === 'DELETE') return this.exchange.cancelAllOrders(market);
+    }
+    if (clientOrderMatch) {
+      const clientOrderId = decodeURIComponent(clientOrderMatch[1]);
+      if (method === 'GET') return this.exchange.getOrderByClientId(clientOrderId);
+      if (method === 'DELETE') return this.exchange.cancelOrderByClientId(clientOrderId);
+    }
+    if (orderMatch) {
+      if (method === 'GET') return this.exchange.getOrder(orderMatch[1]);
+      if (method === 'DELETE') return this.exchange.cancelOrder(orderMatch[1]);
+      if (method === 'PATCH') {
+        return this.exchange.amendOrder(orderMatch[1], payload as AmendOrderRequest);
+      }
+    }
+    if (method === 'GET' && path === '/v1/perps/positions') {
+      return this.exchange.getPositions(market);
+    }
+    if (path === '/v1/perps/stop_order') {
+      if (method === 'POST') return this.exchange.placeStopOrder(payload as PlaceStopOrderRequest);
+      if (method === 'GET') return this.exchange.getStopOrders(market);
+    }
+    if (stopMatch && method === 'DELETE') {
+      return this.exchange.cancelStopOrder(stopMatch[1]);
+    }
+    if (method === 'POST' && path === '/v1/perps/leverage') {
+      return this.exchange.setLeverage(String(payload.market), payload.leverage as string);
+    }
+    if (method === 'POST' && path === '/v1/perps/margin_mode') {
+      return this.exchange.setMarginMode(String(payload.market), payload.marginMode as string);
+    }
+    if (method === 'GET' && path === '/v1/perps/balance') {
+      return this.exchange.getBalance();
+    }
+
+    throw new MockExchangeError(404, `Unknown endpoint ${method} ${path}`);
+  }
+
+  /**
+   * Runs one item of a batch request, reporting exchange errors per item
+   */
+  private settle<T>(fn: () => T): ApiBatchItem<T> {
+    try {
+      return { success: true, result: fn() };
+    } catch (error) {
+      if (!(error instanceof MockExchangeError)) throw error;
+      return {
+        success: false,
+        error: error.message,
+        ...(error.status === 404 && { code: 'NOT_FOUND' }),
+      };
+    }
+  }
+
+  private isPublic(method: string, path: string): boolean {
+    return (
+      method === 'GET' &&
+      [
+        '/v1/markets',
+        '/v1/perps/depth',
+        '/v1/perps/trades',
+        '/v1/perps/funding_rates',
+        '/v1/perps/prices',
+      ].includes(path)
+    );
+  }
+
+  private verifySignature(
+    method: string,
+    pathWithQuery: string,
+    headers: Record<string, string>,
+    body: string,
+  ): void {
+    const keyId = headers['enclave-key-id'];
+    const timestamp = headers['enclave-timestamp'];
+    const signature = headers['enclave-sign'];
+
+    if (!keyId || !timestamp || !signature) {
+      throw new MockExchangeError(401, 'Missing authentication headers');
+    }
+    if (keyId !== this.apiKey) {
+      throw new MockExchangeError(401, 'Invalid API key');
+    }
+    if (Math.abs(Date.now() - Number(timestamp)) > this.maxClockSkew) {
+      throw new MockExchangeError(401, 'Request timestamp outside allowed window');
+    }
+    const expected = this.auth.sign(`${timestamp}${method}${pathWithQuery}${body}`);
+    if (expected !== signature) {
+      throw new MockExchangeError(401, 'Invalid signature');
+    }
+  }
+
+  private handleConnection(socket: WebSocket): void {
+    const state: ClientState = { authenticated: false, subscriptions: new Set() };
+    this.clients.set(socket, state);
+
+    socket.on('message', (raw: WebSocket.RawData) => {
+      let message: Record<string, unknown>;
+      try {
+        const text = Array.isArray(raw)
+          ? Buffer.concat(raw).toString('utf8')
+          : Buffer.isBuffer(raw)
+            ? raw.toString('utf8')
+            : Buffer.from(raw).toString('utf8');
+        message = JSON.parse(text) as Record<string, unknown>;
+      } catch {
+        this.sendTo(socket, { channel: '', type: 'error', data: { message: 'Invalid JSON' } });
+        return;
+      }
+      this.handleSocketMessage(socket, state, message);
+    });
+
+    socket.on('close', () => {
+      this.clients.delete(socket);
+    });
+  }
+
+  private handleSocketMessage(
+    socket: WebSocket,
+    state: ClientState,
+    message: Record<string, unknown>,
+  ): void {
+    const channel = typeof message.channel === 'string' ? message.channel : '';
+    const market = typeof message.market === 'string' ? message.market : undefined;
+
+    switch (message.op) {
+      case 'auth': {
+        const timestamp = Number(message.timestamp);
+        const expected = this.auth.sign(`${timestamp}WS_AUTH`);
+        if (
+          message.apiKey !== this.apiKey ||
+          message.signature !== expected ||
+          Math.abs(Date.now() - timestamp) > this.maxClockSkew
+        ) {
+          this.sendTo(socket, {
+            channel: 'auth',
+            type: 'error',
+            data: { message: 'Authentication failed' },
+          });
+          return;
+        }
+        state.authenticated = true;
+        this.sendTo(socket, { channel: 'auth', type: 'authenticated', data: {} });
+        return;
+      }
+      case 'subscribe': {
+        if (!Object.values(WebSocketChannel).includes(channel as WebSocketChannel)) {
+          this.sendTo(socket, {
+            channel,
+            type: 'error',
+            data: { message: `Unknown channel ${channel}`, market },
+          });
+          return;
+        }
+        if (PRIVATE_CHANNELS.includes(channel) && !state.authenticated) {
+          this.sendTo(socket, {
+            channel,
+            type: 'error',
+            data: { message: 'Authentication required', market },
+          });
+          return;
+        }
+        state.subscriptions.add(this.subscriptionKey(channel, market));
+        this.sendTo(socket, { channel, type: 'subscribed', data: { channel, market } });
+        return;
+      }
+      case 'unsubscribe': {
+        state.subscriptions.delete(this.subscriptionKey(channel, market));
+        this.sendTo(socket, { channel, type: 'unsubscribed', data: { channel, market } });
+        return;
+      }
+      default:
+        this.sendTo(socket, {
+          channel,
+          type: 'error',
+          data: { message: `Unknown op ${String(message.op)}` },
+        });
+    }
+  }
+
+  private publish(
+    channel: WebSocketChannel,
+    data: unknown,
+    market?: string,
+    sequence?: number,
+  ): void {
+    const key = this.subscriptionKey(channel, market);
+    for (const [socket, state] of this.clients) {
+      if (state.subscriptions.has(key)) {
+        const message: Record<string, unknown> = { channel, type: 'update', data };
+        if (sequence !== undefined) message.sequence = sequence;
+        this.sendTo(socket, message);
+      }
+    }
+  }
+
+  private sendTo(socket: WebSocket, message: Record<string, unknown>): void {
+    if (socket.readyState !== WebSocket.OPEN) return;
+    socket.send(JSON.stringify({ sequence: ++this.sequence, timestamp: Date.now(), ...message }));
+  }
+
+  private subscriptionKey(channel: string, market?: string): string {
+    return market ? `${channel}:${market}` : channel;
+  }
+
+  private listeningPort(): number {
+    if (!this.httpServer) {
+      throw new Error('MockEnclaveServer is not started. Call start() first.');
+    }
+    return (this.httpServer.address() as AddressInfo).port;
+  }
+}
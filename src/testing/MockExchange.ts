@@ -0,0 +1,1083 @@
+/**
+ * In-memory exchange state and matching engine backing MockEnclaveServer
+ */
+
+import Decimal from 'decimal.js';
+import { EventEmitter } from 'events';
+import {
+  MarginMode,
+  Order,
+  OrderSide,
+  OrderStatus,
+  OrderType,
+  Position,
+  PositionDirection,
+  StopOrder,
+  StopOrderStatus,
+  StopOrderType,
+  TimeInForce,
+  ApiBalance,
+} from '../types';
+import {
+  ApiDeposit,
+  ApiFill,
+  ApiLeverageSettings,
+  ApiOrderBook,
+  ApiPerpsMarket,
+  ApiPriceUpdate,
+  ApiTrade,
+} from '../types/api-responses';
+
+/**
+ * Error raised by the mock exchange, rendered as `{ success: false, error }`
+ */
+export class MockExchangeError extends Error {
+  public readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'MockExchangeError';
+    this.status = status;
+  }
+}
+
+export type BookOwner = 'user' | 'liquidity';
+
+interface BookEntry {
+  orderId: string;
+  owner: BookOwner;
+  side: OrderSide;
+  price: Decimal;
+  remaining: Decimal;
+}
+
+interface Book {
+  bids: BookEntry[];
+  asks: BookEntry[];
+}
+
+interface PositionState {
+  size: Decimal; // signed: positive = long, negative = short
+  entryPrice: Decimal;
+  realizedPnl: Decimal;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PlaceOrderRequest {
+  market?: string;
+  side?: string;
+  type?: string;
+  size?: string;
+  quoteSize?: string;
+  price?: string;
+  clientOrderId?: string;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  timeInForce?: string;
+}
+
+export interface AmendOrderRequest {
+  price?: string;
+  size?: string;
+}
+
+export interface PlaceStopOrderRequest {
+  market?: string;
+  positionDirection?: string;
+  type?: string;
+  triggerPrice?: string;
+  clientOrderId?: string;
+  size?: string;
+  reduceOnly?: boolean;
+}
+
+export const DEFAULT_MOCK_MARKETS: ApiPerpsMarket[] = [
+  {
+    market: 'BTC-USD.P',
+    underlyingMarket: 'BTC-USD',
+    displayName: 'BTC-USD Perp',
+    pair: { base: 'BTC', quote: 'USD' },
+    baseIncrement: '0.0001',
+    quoteIncrement: '0.1',
+    dailyInterestRate: '0.0003',
+    fundingIntervalDivisions: 24,
+    interestDampingRange: '0.0005',
+    fundingRateCap: '0.02',
+    marginInfo: [
+      {
+        positionBracketUsd: '1000000',
+        maxLeverage: '50',
+        maintenanceMarginRate: '0.01',
+        maintenanceAmount: '0',
+      },
+      {
+        positionBracketUsd: '5000000',
+        maxLeverage: '20',
+        maintenanceMarginRate: '0.025',
+        maintenanceAmount: '15000',
+      },
+    ],
+    defaultLeverage: '10',
+    maxPositionBaseSize: '100',
+    makerFee: '0.0002',
+    takerFee: '0.0005',
+    impactPriceQuoteSize: '10000',
+    tags: [],
+  },
+  {
+    market: 'ETH-USD.P',
+    underlyingMarket: 'ETH-USD',
+    displayName: 'ETH-USD Perp',
+    pair: { base: 'ETH', quote: 'USD' },
+    baseIncrement: '0.001',
+    quoteIncrement: '0.01',
+    dailyInterestRate: '0.0003',
+    fundingIntervalDivisions: 24,
+    interestDampingRange: '0.0005',
+    fundingRateCap: '0.02',
+    marginInfo: [
+      {
+        positionBracketUsd: '500000',
+        maxLeverage: '25',
+        maintenanceMarginRate: '0.02',
+        maintenanceAmount: '0',
+      },
+    ],
+    defaultLeverage: '10',
+    maxPositionBaseSize: '1000',
+    makerFee: '0.0002',
+    takerFee: '0.0005',
+    impactPriceQuoteSize: '10000',
+    tags: [],
+  },
+];
+
+/**
+ * Price-time priority matching engine holding the state of a single account.
+ *
+ * Orders placed through the API belong to the `user` account; resting orders
+ * added with {@link MockExchange.addLiquidity} belong to an anonymous `liquidity`
+ * account and provide something to trade against.
+ *
+ * Emits `order` (Order), `position` (Position), `trade` (ApiTrade), `book`
+ * (ApiOrderBook top of book), `depth` (ApiDepthUpdate, sequence), `price`
+ * (ApiPriceUpdate) and `deposit` (ApiDeposit) events.
+ */
+export class MockExchange extends EventEmitter {
+  public readonly markets: ApiPerpsMarket[];
+  private readonly books: Map<string, Book> = new Map();
+  private readonly orders: Map<string, Order> = new Map();
+  private readonly stopOrders: Map<string, StopOrder> = new Map();
+  private readonly positions: Map<string, PositionState> = new Map();
+  private readonly trades: ApiTrade[] = [];
+  private readonly fills: ApiFill[] = [];
+  private readonly lastPrices: Map<string, Decimal> = new Map();
+  private readonly indexPrices: Map<string, Decimal> = new Map();
+  private readonly leverage: Map<string, number> = new Map();
+  private readonly marginModes: Map<string, MarginMode> = new Map();
+  private readonly depthSequences: Map<string, number> = new Map();
+  private readonly publishedDepth: Map<
+    string,
+    { bids: Map<string, string>; asks: Map<string, string> }
+  > = new Map();
+  private walletBalance: Decimal;
+  private cancelAllTimer?: NodeJS.Timeout;
+  private nextId = 1;
+
+  constructor(markets: ApiPerpsMarket[] = DEFAULT_MOCK_MARKETS, walletBalance = '10000') {
+    super();
+    this.markets = markets;
+    this.walletBalance = new Decimal(walletBalance);
+    for (const market of markets) {
+      this.books.set(market.market, { bids: [], asks: [] });
+    }
+  }
+
+  /**
+   * Adds a resting order owned by the liquidity account
+   */
+  public addLiquidity(
+    market: string,
+    side: OrderSide,
+    price: Decimal.Value,
+    size: Decimal.Value,
+  ): void {
+    const book = this.getBook(market);
+    this.insert(book, {
+      orderId: this.generateId('liquidity'),
+      owner: 'liquidity',
+      side,
+      price: new Decimal(price),
+      remaining: new Decimal(size),
+    });
+    this.emitBook(market);
+  }
+
+  /**
+   * Sends a taker order from the liquidity account, filling resting user orders
+   */
+  public executeExternal(
+    market: string,
+    side: OrderSide,
+    price: Decimal.Value,
+    size: Decimal.Value,
+  ): void {
+    const book = this.getBook(market);
+    this.match(market, book, side, new Decimal(price), new Decimal(size), null, 'liquidity');
+    this.emitBook(market);
+  }
+
+  /**
+   * Removes all liquidity and user orders from a market's book
+   */
+  public clearBook(market: string): void {
+    const book = this.getBook(market);
+    book.bids = [];
+    book.asks = [];
+    this.emitBook(market);
+  }
+
+  public setWalletBalance(balance: Decimal.Value): void {
+    this.walletBalance = new Decimal(balance);
+  }
+
+  /**
+   * Sets the index price of a market and publishes a price update
+   */
+  public setIndexPrice(market: string, price: Decimal.Value): void {
+    this.getMarketInfo(market);
+    this.indexPrices.set(market, new Decimal(price));
+    this.emit('price', this.getPrices(market));
+  }
+
+  /**
+   * Credits a confirmed deposit to the wallet and publishes it
+   */
+  public deposit(amount: Decimal.Value, asset = 'USD'): ApiDeposit {
+    const credited = new Decimal(amount);
+    this.walletBalance = this.walletBalance.plus(credited);
+    const deposit: ApiDeposit = {
+      id: this.generateId('deposit'),
+      asset,
+      amount: credited.toString(),
+      status: 'confirmed',
+      time: new Date().toISOString(),
+    };
+    this.emit('deposit', deposit);
+    return deposit;
+  }
+
+  public getApiMarkets(): ApiPerpsMarket[] {
+    return this.markets;
+  }
+
+  public placeOrder(request: PlaceOrderRequest): Order {
+    const marketInfo = this.getMarketInfo(request.market);
+    const market = marketInfo.market;
+    const side = this.parseSide(request.side);
+    const type = request.type === OrderType.MARKET ? OrderType.MARKET : OrderType.LIMIT;
+    const baseIncrement = new Decimal(marketInfo.baseIncrement);
+    const quoteIncrement = new Decimal(marketInfo.quoteIncrement);
+
+    if (request.clientOrderId) {
+      for (const existing of this.orders.values()) {
+        if (existing.clientOrderId === request.clientOrderId) {
+          throw new MockExchangeError(400, `Duplicate clientOrderId ${request.clientOrderId}`);
+        }
+      }
+    }
+
+    let size: Decimal | null = null;
+    let quoteSize: Decimal | null = null;
+    if (type === OrderType.MARKET && side === OrderSide.BUY && request.quoteSize) {
+      quoteSize = this.parsePositive(request.quoteSize, 'quoteSize');
+    } else {
+      size = this.parsePositive(request.size, 'size');
+      this.assertIncrement(size, baseIncrement, 'size');
+      if (size.greaterThan(marketInfo.maxPositionBaseSize)) {
+        throw new MockExchangeError(
+          400,
+          `Size exceeds max order size ${marketInfo.maxPositionBaseSize}`,
+        );
+      }
+    }
+
+    let price: Decimal | null = null;
+    if (type === OrderType.LIMIT) {
+      price = this.parsePositive(request.price, 'price');
+      this.assertIncrement(price, quoteIncrement, 'price');
+    }
+
+    if (request.reduceOnly && size) {
+      const position = this.positions.get(market);
+      const reducible =
+        position &&
+        (side === OrderSide.SELL ? position.size.isPositive() : position.size.isNegative())
+          ? position.size.abs()
+          : new Decimal(0);
+      if (reducible.isZero()) {
+        throw new MockExchangeError(400, 'Reduce-only order would increase position');
+      }
+      size = Decimal.min(size, reducible);
+    }
+
+    const book = this.getBook(market);
+    if (request.postOnly && price && this.wouldCross(book, side, price)) {
+      throw new MockExchangeError(400, 'Post-only order would cross the book');
+    }
+
+    const now = Date.now();
+    const order: Order = {
+      id: this.generateId('order'),
+      clientOrderId: request.clientOrderId,
+      market,
+      side,
+      type,
+      price: price?.toString(),
+      size: (size ?? new Decimal(0)).toString(),
+      remainingSize: (size ?? new Decimal(0)).toString(),
+      status: OrderStatus.OPEN,
+      timeInForce: request.timeInForce === TimeInForce.IOC ? TimeInForce.IOC : TimeInForce.GTC,
+      postOnly: request.postOnly ?? false,
+      reduceOnly: request.reduceOnly ?? false,
+      createdAt: now,
+      updatedAt: now,
+      filledSize: '0',
+      avgFillPrice: undefined,
+      fee: '0',
+    };
+    this.orders.set(order.id, order);
+
+    if (quoteSize) {
+      this.matchQuote(market, book, quoteSize, baseIncrement, order);
+    } else if (size) {
+      const limit = price ?? (side === OrderSide.BUY ? new Decimal(Infinity) : new Decimal(0));
+      const remaining = this.match(market, book, side, limit, size, order, 'user');
+      if (
+        remaining.greaterThan(0) &&
+        type === OrderType.LIMIT &&
+        order.timeInForce !== TimeInForce.IOC
+      ) {
+        this.insert(book, { orderId: order.id, owner: 'user', side, price: limit, remaining });
+      }
+    }
+
+    const unfilled =
+      order.status === OrderStatus.OPEN || order.status === OrderStatus.PARTIALLY_FILLED;
+    if (unfilled && !this.findEntry(book, order.id)) {
+      // IOC remainder or market order that ran out of liquidity
+      order.status = OrderStatus.CANCELLED;
+      order.updatedAt = Date.now();
+    }
+
+    this.emit('order', { ...order });
+    this.emitBook(market);
+    return { ...order };
+  }
+
+  public getOrder(orderId: string): Order {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new MockExchangeError(404, `Order ${orderId} not found`);
+    }
+    return { ...order };
+  }
+
+  public getOrderByClientId(clientOrderId: string): Order {
+    const order = [...this.orders.values()].find((o) => o.clientOrderId === clientOrderId);
+    if (!order) {
+      throw new MockExchangeError(404, `Order with clientOrderId ${clientOrderId} not found`);
+    }
+    return { ...order };
+  }
+
+  public getOpenOrders(market?: string): Order[] {
+    return [...this.orders.values()]
+      .filter(
+        (o) =>
+          (o.status === OrderStatus.OPEN || o.status === OrderStatus.PARTIALLY_FILLED) &&
+          (!market || o.market === market),
+      )
+      .map((o) => ({ ...o }));
+  }
+
+  public getAllOrders(): Order[] {
+    return [...this.orders.values()].map((o) => ({ ...o }));
+  }
+
+  public cancelOrder(orderId: string): Order {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new MockExchangeError(404, `Order ${orderId} not found`);
+    }
+    if (order.status !== OrderStatus.OPEN && order.status !== OrderStatus.PARTIALLY_FILLED) {
+      throw new MockExchangeError(400, `Order ${orderId} is not open`);
+    }
+    const book = this.getBook(order.market);
+    book.bids = book.bids.filter((e) => e.orderId !== orderId);
+    book.asks = book.asks.filter((e) => e.orderId !== orderId);
+    order.status = OrderStatus.CANCELLED;
+    order.updatedAt = Date.now();
+    this.emit('order', { ...order });
+    this.emitBook(order.market);
+    return { ...order };
+  }
+
+  public cancelOrderByClientId(clientOrderId: string): Order {
+    return this.cancelOrder(this.getOrderByClientId(clientOrderId).id);
+  }
+
+  /**
+   * Changes the price and/or unfilled size of a resting limit order. The order
+   * loses its time priority; an amendment that would cross the book is rejected.
+   */
+  public amendOrder(orderId: string, changes: AmendOrderRequest): Order {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new MockExchangeError(404, `Order ${orderId} not found`);
+    }
+    const book = this.getBook(order.market);
+    const entry = this.findEntry(book, orderId);
+    if (!entry) {
+      throw new MockExchangeError(400, `Order ${orderId} is not open`);
+    }
+    const info = this.getMarketInfo(order.market);
+    const price =
+      changes.price === undefined ? entry.price : this.parsePositive(changes.price, 'price');
+    const remaining =
+      changes.size === undefined ? entry.remaining : this.parsePositive(changes.size, 'size');
+    this.assertIncrement(price, new Decimal(info.quoteIncrement), 'price');
+    this.assertIncrement(remaining, new Decimal(info.baseIncrement), 'size');
+
+    if (this.wouldCross(book, order.side, price)) {
+      throw new MockExchangeError(400, 'Amended order would cross the book');
+    }
+    book.bids = book.bids.filter((e) => e.orderId !== orderId);
+    book.asks = book.asks.filter((e) => e.orderId !== orderId);
+    this.insert(book, { ...entry, price, remaining });
+    order.price = price.toString();
+    order.size = new Decimal(order.filledSize ?? 0).plus(remaining).toString();
+    order.remainingSize = remaining.toString();
+    order.updatedAt = Date.now();
+    this.emit('order', { ...order });
+    this.emitBook(order.market);
+    return { ...order };
+  }
+
+  public cancelAllOrders(market?: string): Order[] {
+    return this.getOpenOrders(market).map((o) => this.cancelOrder(o.id));
+  }
+
+  /**
+   * Cancels all open orders `timeout` ms from now unless called again; 0 clears the timer
+   */
+  public cancelAllAfter(timeout: number): { cancelAt: number | null } {
+    if (!Number.isFinite(timeout) || timeout < 0) {
+      throw new MockExchangeError(400, `Invalid timeout ${String(timeout)}`);
+    }
+    clearTimeout(this.cancelAllTimer);
+    this.cancelAllTimer = undefined;
+    if (timeout === 0) return { cancelAt: null };
+    this.cancelAllTimer = setTimeout(() => {
+      this.cancelAllTimer = undefined;
+      this.cancelAllOrders();
+    }, timeout);
+    this.cancelAllTimer.unref();
+    return { cancelAt: Date.now() + timeout };
+  }
+
+  public getPositions(market?: string): Position[] {
+    const result: Position[] = [];
+    for (const [name, state] of this.positions) {
+      if (state.size.isZero() || (market && name !== market)) continue;
+      result.push(this.toPosition(name, state));
+    }
+    return result;
+  }
+
+  public getLeverageSettings(market: string): ApiLeverageSettings {
+    const info = this.getMarketInfo(market);
+    return {
+      market: info.market,
+      leverage: String(this.leverageOf(info.market)),
+      marginMode: this.marginModes.get(info.market) ?? MarginMode.CROSS,
+    };
+  }
+
+  public setLeverage(market: string, leverage: string | undefined): ApiLeverageSettings {
+    const info = this.getMarketInfo(market);
+    const value = this.parsePositive(leverage, 'leverage');
+    const maxLeverage = Math.max(...info.marginInfo.map((b) => Number(b.maxLeverage)));
+    if (value.gt(maxLeverage)) {
+      throw new MockExchangeError(400, `Leverage exceeds the maximum ${maxLeverage}`);
+    }
+    this.leverage.set(info.market, value.toNumber());
+    const state = this.positions.get(info.market);
+    if (state && !state.size.isZero()) {
+      this.emit('position', this.toPosition(info.market, state));
+    }
+    return this.getLeverageSettings(info.market);
+  }
+
+  public setMarginMode(market: string, marginMode: string | undefined): ApiLeverageSettings {
+    const info = this.getMarketInfo(market);
+    if (marginMode !== MarginMode.CROSS && marginMode !== MarginMode.ISOLATED) {
+      throw new MockExchangeError(400, `Invalid marginMode ${String(marginMode)}`);
+    }
+    if (this.getPositions(info.market).length > 0 || this.getOpenOrders(info.market).length > 0) {
+      throw new MockExchangeError(400, 'Margin mode cannot change with an open position or orders');
+    }
+    this.marginModes.set(info.market, marginMode);
+    return this.getLeverageSettings(info.market);
+  }
+
+  public placeStopOrder(request: PlaceStopOrderRequest): StopOrder {
+    const marketInfo = this.getMarketInfo(request.market);
+    const direction =
+      request.positionDirection === PositionDirection.SHORT
+        ? PositionDirection.SHORT
+        : request.positionDirection === PositionDirection.LONG
+          ? PositionDirection.LONG
+          : null;
+    if (!direction) {
+      throw new MockExchangeError(
+        400,
+        `Invalid positionDirection ${String(request.positionDirection)}`,
+      );
+    }
+    if (request.type !== StopOrderType.STOP_LOSS && request.type !== StopOrderType.TAKE_PROFIT) {
+      throw new MockExchangeError(400, `Invalid stop order type ${String(request.type)}`);
+    }
+    const triggerPrice = this.parsePositive(request.triggerPrice, 'triggerPrice');
+    this.assertIncrement(triggerPrice, new Decimal(marketInfo.quoteIncrement), 'triggerPrice');
+
+    const now = Date.now();
+    const stopOrder: StopOrder & { size?: string } = {
+      id: this.generateId('stop'),
+      market: marketInfo.market,
+      positionDirection: direction,
+      type: request.type,
+      triggerPrice: triggerPrice.toString(),
+      status: StopOrderStatus.PENDING,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (request.clientOrderId) {
+      stopOrder.clientOrderId = request.clientOrderId;
+    }
+    if (request.size) {
+      stopOrder.size = request.size;
+    }
+    this.stopOrders.set(stopOrder.id, stopOrder);
+    return { ...stopOrder };
+  }
+
+  public getStopOrders(market?: string): StopOrder[] {
+    return [...this.stopOrders.values()]
+      .filter((s) => s.status === StopOrderStatus.PENDING && (!market || s.market === market))
+      .map((s) => ({ ...s }));
+  }
+
+  public cancelStopOrder(stopOrderId: string): StopOrder {
+    const stopOrder = this.stopOrders.get(stopOrderId);
+    if (!stopOrder) {
+      throw new MockExchangeError(404, `Stop order ${stopOrderId} not found`);
+    }
+    if (stopOrder.status !== StopOrderStatus.PENDING) {
+      throw new MockExchangeError(400, `Stop order ${stopOrderId} is not pending`);
+    }
+    stopOrder.status = StopOrderStatus.CANCELLED;
+    stopOrder.updatedAt = Date.now();
+    return { ...stopOrder };
+  }
+
+  public getDepth(market: string, depth = 20): ApiOrderBook {
+    const book = this.getBook(this.getMarketInfo(market).market);
+    return {
+      market,
+      time: new Date().toISOString(),
+      bids: this.aggregate(book.bids, depth),
+      asks: this.aggregate(book.asks, depth),
+      sequence: this.depthSequences.get(market) ?? 0,
+    };
+  }
+
+  public getTrades(
+    market?: string,
+    limit = 100,
+    range: { startTime?: number; endTime?: number } = {},
+  ): ApiTrade[] {
+    const { startTime = -Infinity, endTime = Infinity } = range;
+    return this.trades
+      .filter((t) => !market || t.market === market)
+      .filter((t) => Date.parse(t.time) >= startTime && Date.parse(t.time) < endTime)
+      .slice(-limit)
+      .reverse();
+  }
+
+  /**
+   * The user's fills, newest first, as one page without a cursor
+   */
+  public getFills(
+    market?: string,
+    limit = 100,
+    range: { startTime?: number; endTime?: number } = {},
+  ): { items: ApiFill[] } {
+    const { startTime = -Infinity, endTime = Infinity } = range;
+    const items = this.fills
+      .filter((f) => !market || f.market === market)
+      .filter(
+        (f) => Date.parse(String(f.time)) >= startTime && Date.parse(String(f.time)) < endTime,
+      )
+      .slice(-limit)
+      .reverse();
+    return { items };
+  }
+
+  public getBalance(): ApiBalance {
+    let unrealizedPnl = new Decimal(0);
+    let initialMargin = new Decimal(0);
+    let maintenanceMargin = new Decimal(0);
+    let positionValue = new Decimal(0);
+    for (const [name, state] of this.positions) {
+      if (state.size.isZero()) continue;
+      const info = this.getMarketInfo(name);
+      const mark = this.markPrice(name) ?? state.entryPrice;
+      const notional = state.size.abs().mul(mark);
+      unrealizedPnl = unrealizedPnl.plus(mark.minus(state.entryPrice).mul(state.size));
+      initialMargin = initialMargin.plus(notional.div(this.leverageOf(name)));
+      maintenanceMargin = maintenanceMargin.plus(
+        notional.mul(info.marginInfo[0]?.maintenanceMarginRate ?? '0'),
+      );
+      positionValue = positionValue.plus(notional);
+    }
+    let orderMargin = new Decimal(0);
+    for (const order of this.getOpenOrders()) {
+      if (!order.price) continue;
+      orderMargin = orderMargin.plus(
+        new Decimal(order.remainingSize).mul(order.price).div(this.leverageOf(order.market)),
+      );
+    }
+    const marginBalance = this.walletBalance.plus(unrealizedPnl);
+    return {
+      walletBalance: this.walletBalance.toString(),
+      availableMargin: Decimal.max(
+        0,
+        marginBalance.minus(initialMargin).minus(orderMargin),
+      ).toString(),
+      unrealizedPnl: unrealizedPnl.toString(),
+      marginBalance: marginBalance.toString(),
+      initialMargin: initialMargin.toString(),
+      maintenanceMargin: maintenanceMargin.toString(),
+      totalPositionValue: positionValue.toString(),
+      totalOrderMargin: orderMargin.toString(),
+    };
+  }
+
+  /**
+   * Mark and index price of a market; the index defaults to the mark price
+   */
+  public getPrices(market: string): ApiPriceUpdate {
+    const info = this.getMarketInfo(market);
+    const index = this.indexPrices.get(info.market);
+    const mark = this.markPrice(info.market) ?? index;
+    if (!mark) {
+      throw new MockExchangeError(404, `No price for ${info.market}`);
+    }
+    return {
+      market: info.market,
+      markPrice: mark.toString(),
+      indexPrice: (index ?? mark).toString(),
+      fundingRate: info.dailyInterestRate,
+      time: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Returns the last traded price, falling back to the book mid price
+   */
+  public markPrice(market: string): Decimal | null {
+    const last = this.lastPrices.get(market);
+    if (last) return last;
+    const book = this.getBook(market);
+    const bid = book.bids[0]?.price;
+    const ask = book.asks[0]?.price;
+    if (bid && ask) return bid.plus(ask).div(2);
+    return bid ?? ask ?? null;
+  }
+
+  public getMarketInfo(market?: string): ApiPerpsMarket {
+    const found = this.markets.find((m) => m.market === market);
+    if (!found) {
+      throw new MockExchangeError(404, `Market ${String(market)} not found`);
+    }
+    return found;
+  }
+
+  private leverageOf(market: string): number {
+    return this.leverage.get(market) ?? Number(this.getMarketInfo(market).defaultLeverage);
+  }
+
+  private getBook(market: string): Book {
+    const book = this.books.get(market);
+    if (!book) {
+      throw new MockExchangeError(404, `Market ${market} not found`);
+    }
+    return book;
+  }
+
+  /**
+   * Matches an incoming order against the opposite side of the book.
+   * Returns the unfilled size.
+   */
+  private match(
+    market: string,
+    book: Book,
+    side: OrderSide,
+    limit: Decimal,
+    size: Decimal,
+    takerOrder: Order | null,
+    takerOwner: BookOwner,
+  ): Decimal {
+    const levels = side === OrderSide.BUY ? book.asks : book.bids;
+    let remaining = size;
+    while (remaining.greaterThan(0) && levels.length > 0) {
+      const best = levels[0];
+      const crosses = side === OrderSide.BUY ? best.price.lte(limit) : best.price.gte(limit);
+      if (!crosses) break;
+      const fillSize = Decimal.min(remaining, best.remaining);
+      this.fill(market, side, best, fillSize, takerOrder, takerOwner);
+      remaining = remaining.minus(fillSize);
+      if (best.remaining.isZero()) levels.shift();
+    }
+    return remaining;
+  }
+
+  /**
+   * Matches a market buy expressed in quote currency
+   */
+  private matchQuote(
+    market: string,
+    book: Book,
+    quoteSize: Decimal,
+    baseIncrement: Decimal,
+    order: Order,
+  ): void {
+    let quoteLeft = quoteSize;
+    let totalSize = new Decimal(0);
+    while (quoteLeft.greaterThan(0) && book.asks.length > 0) {
+      const best = book.asks[0];
+      const affordable = quoteLeft.div(best.price).div(baseIncrement).floor().mul(baseIncrement);
+      const fillSize = Decimal.min(affordable, best.remaining);
+      if (fillSize.isZero()) break;
+      order.size = totalSize.plus(fillSize).toString();
+      this.fill(market, OrderSide.BUY, best, fillSize, order, 'user');
+      totalSize = totalSize.plus(fillSize);
+      quoteLeft = quoteLeft.minus(fillSize.mul(best.price));
+      if (best.remaining.isZero()) book.asks.shift();
+    }
+    order.size = totalSize.toString();
+    order.remainingSize = '0';
+  }
+
+  private fill(
+    market: string,
+    takerSide: OrderSide,
+    maker: BookEntry,
+    fillSize: Decimal,
+    takerOrder: Order | null,
+    takerOwner: BookOwner,
+  ): void {
+    const price = maker.price;
+    maker.remaining = maker.remaining.minus(fillSize);
+
+    const trade: ApiTrade = {
+      market,
+      price: price.toString(),
+      size: fillSize.toString(),
+      cost: price.mul(fillSize).toString(),
+      aggressor_side: takerSide,
+      time: new Date().toISOString(),
+      id: this.generateId('trade'),
+    };
+    this.trades.push(trade);
+    this.lastPrices.set(market, price);
+
+    const info = this.getMarketInfo(market);
+    if (takerOwner === 'user' && takerOrder) {
+      this.applyFill(takerOrder, fillSize, price, new Decimal(info.takerFee), 'taker');
+    }
+    if (maker.owner === 'user') {
+      const makerOrder = this.orders.get(maker.orderId);
+      if (makerOrder) {
+        this.applyFill(makerOrder, fillSize, price, new Decimal(info.makerFee), 'maker');
+        this.emit('order', { ...makerOrder });
+      }
+    }
+
+    this.emit('trade', trade);
+    this.emit('price', this.getPrices(market));
+    this.checkStopOrders(market, price);
+  }
+
+  private applyFill(
+    order: Order,
+    fillSize: Decimal,
+    price: Decimal,
+    feeRate: Decimal,
+    liquidity: ApiFill['liquidity'],
+  ): void {
+    const previousFilled = new Decimal(order.filledSize ?? 0);
+    const filled = previousFilled.plus(fillSize);
+    const previousAvg = new Decimal(order.avgFillPrice ?? 0);
+    const fee = fillSize.mul(price).mul(feeRate);
+
+    order.avgFillPrice = previousAvg
+      .mul(previousFilled)
+      .plus(price.mul(fillSize))
+      .div(filled)
+      .toString();
+    order.filledSize = filled.toString();
+    order.remainingSize = Decimal.max(0, new Decimal(order.size).minus(filled)).toString();
+    order.fee = new Decimal(order.fee ?? 0).plus(fee).toString();
+    order.status =
+      order.type === OrderType.MARKET || new Decimal(order.remainingSize).isZero()
+        ? OrderStatus.FILLED
+        : OrderStatus.PARTIALLY_FILLED;
+    order.updatedAt = Date.now();
+    this.fills.push({
+      id: this.generateId('fill'),
+      orderId: order.id,
+      market: order.market,
+      side: order.side === OrderSide.BUY ? 'buy' : 'sell',
+      price: price.toString(),
+      size: fillSize.toString(),
+      fee: fee.toString(),
+      liquidity,
+      time: new Date(order.updatedAt).toISOString(),
+    });
+
+    this.walletBalance = this.walletBalance.minus(fee);
+    this.updatePosition(
+      order.market,
+      order.side === OrderSide.BUY ? fillSize : fillSize.neg(),
+      price,
+    );
+  }
+
+  private updatePosition(market: string, delta: Decimal, price: Decimal): void {
+    const now = Date.now();
+    const state = this.positions.get(market) ?? {
+      size: new Decimal(0),
+      entryPrice: new Decimal(0),
+      realizedPnl: new Decimal(0),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (state.size.isZero() || state.size.isPositive() === delta.isPositive()) {
+      // Opening or increasing
+      const newSize = state.size.plus(delta);
+      state.entryPrice = state.entryPrice
+        .mul(state.size.abs())
+        .plus(price.mul(delta.abs()))
+        .div(newSize.abs());
+      if (state.size.isZero()) state.createdAt = now;
+      state.size = newSize;
+    } else {
+      // Reducing, closing or flipping
+      const closing = Decimal.min(state.size.abs(), delta.abs());
+      const direction = state.size.isPositive() ? 1 : -1;
+      const pnl = price.minus(state.entryPrice).mul(closing).mul(direction);
+      state.realizedPnl = state.realizedPnl.plus(pnl);
+      this.walletBalance = this.walletBalance.plus(pnl);
+      const newSize = state.size.plus(delta);
+      if (newSize.isZero()) {
+        state.entryPrice = new Decimal(0);
+      } else if (newSize.isPositive() !== state.size.isPositive()) {
+        state.entryPrice = price;
+        state.createdAt = now;
+      }
+      state.size = newSize;
+    }
+    state.updatedAt = now;
+    this.positions.set(market, state);
+    this.emit('position', this.toPosition(market, state));
+  }
+
+  private checkStopOrders(market: string, price: Decimal): void {
+    for (const stopOrder of this.stopOrders.values()) {
+      if (stopOrder.market !== market || stopOrder.status !== StopOrderStatus.PENDING) continue;
+      const trigger = new Decimal(stopOrder.triggerPrice);
+      const long = stopOrder.positionDirection === PositionDirection.LONG;
+      const stopLoss = stopOrder.type === StopOrderType.STOP_LOSS;
+      const triggered = long === stopLoss ? price.lte(trigger) : price.gte(trigger);
+      if (!triggered) continue;
+
+      stopOrder.status = StopOrderStatus.TRIGGERED;
+      stopOrder.updatedAt = Date.now();
+      this.emit('stopOrder', { ...stopOrder });
+
+      const position = this.positions.get(market);
+      const matchesDirection =
+        position && (long ? position.size.isPositive() : position.size.isNegative());
+      if (!position || !matchesDirection) continue;
+      const requested = (stopOrder as StopOrder & { size?: string }).size;
+      const size = requested
+        ? Decimal.min(new Decimal(requested), position.size.abs())
+        : position.size.abs();
+      // Defer so the triggering fill finishes updating state first
+      setImmediate(() => {
+        try {
+          this.placeOrder({
+            market,
+            side: long ? OrderSide.SELL : OrderSide.BUY,
+            type: OrderType.MARKET,
+            size: size.toString(),
+            reduceOnly: true,
+          });
+        } catch (error) {
+          this.emit('error', error);
+        }
+      });
+    }
+  }
+
+  private toPosition(market: string, state: PositionState): Position {
+    const info = this.getMarketInfo(market);
+    const mark = this.markPrice(market) ?? state.entryPrice;
+    const leverage = this.leverageOf(market);
+    const notional = state.size.abs().mul(mark);
+    const long = state.size.isPositive();
+    const mmr = new Decimal(info.marginInfo[0]?.maintenanceMarginRate ?? '0');
+    const liquidationPrice = long
+      ? state.entryPrice.mul(new Decimal(1).minus(new Decimal(1).div(leverage)).plus(mmr))
+      : state.entryPrice.mul(new Decimal(1).plus(new Decimal(1).div(leverage)).minus(mmr));
+    return {
+      market,
+      side: long ? PositionDirection.LONG : PositionDirection.SHORT,
+      size: state.size.abs().toString(),
+      entryPrice: state.entryPrice.toString(),
+      markPrice: mark.toString(),
+      liquidationPrice: state.size.isZero() ? '0' : liquidationPrice.toString(),
+      unrealizedPnl: mark.minus(state.entryPrice).mul(state.size).toString(),
+      realizedPnl: state.realizedPnl.toString(),
+      margin: notional.div(leverage).toString(),
+      leverage,
+      createdAt: state.createdAt,
+      updatedAt: state.updatedAt,
+    };
+  }
+
+  private insert(book: Book, entry: BookEntry): void {
+    const levels = entry.side === OrderSide.BUY ? book.bids : book.asks;
+    const index = levels.findIndex((e) =>
+      entry.side === OrderSide.BUY
+        ? e.price.lessThan(entry.price)
+        : e.price.greaterThan(entry.price),
+    );
+    if (index === -1) {
+      levels.push(entry);
+    } else {
+      levels.splice(index, 0, entry);
+    }
+  }
+
+  private findEntry(book: Book, orderId: string): BookEntry | undefined {
+    return (
+      book.bids.find((e) => e.orderId === orderId) ?? book.asks.find((e) => e.orderId === orderId)
+    );
+  }
+
+  private wouldCross(book: Book, side: OrderSide, price: Decimal): boolean {
+    const best = side === OrderSide.BUY ? book.asks[0] : book.bids[0];
+    if (!best) return false;
+    return side === OrderSide.BUY ? best.price.lte(price) : best.price.gte(price);
+  }
+
+  private aggregate(entries: BookEntry[], depth: number): Array<[string, string]> {
+    const levels: Array<[string, string]> = [];
+    for (const entry of entries) {
+      const last = levels[levels.length - 1];
+      if (last && new Decimal(last[0]).equals(entry.price)) {
+        last[1] = new Decimal(last[1]).plus(entry.remaining).toString();
+      } else {
+        if (levels.length === depth) break;
+        levels.push([entry.price.toString(), entry.remaining.toString()]);
+      }
+    }
+    return levels;
+  }
+
+  /**
+   * Emits the top of book and, if any level changed since the last call, an
+   * incremental `depth` update with the next per-market sequence number
+   */
+  private emitBook(market: string): void {
+    this.emit('book', this.getDepth(market, 1));
+
+    const book = this.getBook(market);
+    const previous = this.publishedDepth.get(market) ?? {
+      bids: new Map<string, string>(),
+      asks: new Map<string, string>(),
+    };
+    const current = {
+      bids: new Map(this.aggregate(book.bids, Infinity)),
+      asks: new Map(this.aggregate(book.asks, Infinity)),
+    };
+    const bids = this.diffLevels(previous.bids, current.bids);
+    const asks = this.diffLevels(previous.asks, current.asks);
+    this.publishedDepth.set(market, current);
+    if (bids.length === 0 && asks.length === 0) return;
+
+    const sequence = (this.depthSequences.get(market) ?? 0) + 1;
+    this.depthSequences.set(market, sequence);
+    this.emit('depth', { market, time: new Date().toISOString(), bids, asks }, sequence);
+  }
+
+  private diffLevels(
+    previous: Map<string, string>,
+    current: Map<string, string>,
+  ): Array<[string, string]> {
+    const changes: Array<[string, string]> = [];
+    for (const [price, size] of current) {
+      if (previous.get(price) !== size) changes.push([price, size]);
+    }
+    for (const price of previous.keys()) {
+      if (!current.has(price)) changes.push([price, '0']);
+    }
+    return changes;
+  }
+
+  private parseSide(side?: string): OrderSide {
+    if (side === OrderSide.BUY || side === OrderSide.SELL) return side;
+    throw new MockExchangeError(400, `Invalid side ${String(side)}`);
+  }
+
+  private parsePositive(value: string | undefined, field: string): Decimal {
+    let parsed: Decimal;
+    try {
+      parsed = new Decimal(value ?? '');
+    } catch {
+      throw new MockExchangeError(400, `Invalid ${field} ${String(value)}`);
+    }
+    if (!parsed.isFinite() || parsed.lte(0)) {
+      throw new MockExchangeError(400, `Invalid ${field} ${String(value)}`);
+    }
+    return parsed;
+  }
+
+  private assertIncrement(value: Decimal, increment: Decimal, field: string): void {
+    if (!value.mod(increment).isZero()) {
+      throw new MockExchangeError(
+        400,
+        `${field} ${value.toString()} is not a multiple of ${increment.toString()}`,
+      );
+    }
+  }
+
+  private generateId(prefix: string): string {
+    return `mock-${prefix}-${this.nextId++}`;
+  }
+}
@@ -0,0 +1,146 @@
+import Decimal from 'decimal.js';
+import { EnclaveClient } from '../../client/EnclaveClient';
+import { FetchTransport } from '../../client/transport/FetchTransport';
+import { Order, OrderSide, OrderStatus, PositionDirection } from '../../types';
+import { MockEnclaveServer } from '../MockEnclaveServer';
+
+const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+
+describe('MockEnclaveServer', () => {
+  let server: MockEnclaveServer;
+  let client: EnclaveClient;
+
+  beforeEach(() => {
+    server = new MockEnclaveServer(auth);
+    client = new EnclaveClient({ auth, transport: server.transport(), maxRetries: 0 });
+  });
+
+  afterEach(async () => {
+    client.disconnectWebSocket();
+    await server.stop();
+  });
+
+  describe('REST', () => {
+    it('should serve markets through the client adapters', async () => {
+      const markets = await client.getMarkets();
+
+      expect(markets.map((m) => m.market)).toEqual(['BTC-USD.P', 'ETH-USD.P']);
+      expect(markets[0].baseIncrement).toBe('0.0001');
+    });
+
+    it('should reject requests with an invalid signature', async () => {
+      const badClient = new EnclaveClient({
+        auth: { apiKey: 'mock-key', apiSecret: 'wrong' },
+        transport: server.transport(),
+        maxRetries: 0,
+      });
+
+      await expect(badClient.getBalance()).rejects.toMatchObject({ statusCode: 401 });
+    });
+
+    it('should reject private requests without authentication', async () => {
+      const publicClient = new EnclaveClient({ transport: server.transport(), maxRetries: 0 });
+
+      await expect(publicClient.getPositions()).rejects.toThrow('Missing authentication headers');
+      await expect(publicClient.getOrderBook('BTC-USD.P')).resolves.toBeDefined();
+    });
+
+    it('should rest limit orders in the book', async () => {
+      const order = await client.createLimitOrder(
+        'BTC-USD.P',
+        OrderSide.BUY,
+        new Decimal('0.01'),
+        new Decimal('49000'),
+      );
+
+      expect(order.status).toBe(OrderStatus.OPEN);
+      const book = await client.getOrderBook('BTC-USD.P');
+      expect(book.bids).toEqual([['49000', '0.01']]);
+      expect(await client.getOrders()).toHaveLength(1);
+
+      await client.cancelOrder(order.id);
+      expect(await client.getOrders()).toHaveLength(0);
+    });
+
+    it('should match crossing orders and open a position', async () => {
+      server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50000', '0.005');
+      server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '50100', '0.01');
+
+      const order = await client.createLimitOrder(
+        'BTC-USD.P',
+        OrderSide.BUY,
+        new Decimal('0.01'),
+        new Decimal('50100'),
+      );
+
+      expect(order.status).toBe(OrderStatus.FILLED);
+      expect(order.filledSize).toBe('0.01');
+      expect(order.avgFillPrice).toBe('50050');
+
+      const [position] = await client.getPositions();
+      expect(position.side).toBe(PositionDirection.LONG);
+      expect(position.size).toBe('0.01');
+
+      const trades = await client.getTrades('BTC-USD.P');
+      expect(trades).toHaveLength(2);
+    });
+
+    it('should fill resting user orders from external flow', async () => {
+      const order = await client.createLimitOrder(
+        'BTC-USD.P',
+        OrderSide.SELL,
+        new Decimal('0.02'),
+        new Decimal('51000'),
+      );
+
+      server.exchange.executeExternal('BTC-USD.P', OrderSide.BUY, '51000', '0.01');
+
+      const updated = await client.getOrder(order.id);
+      expect(updated.status).toBe(OrderStatus.PARTIALLY_FILLED);
+      expect(updated.remainingSize).toBe('0.01');
+      const [position] = await client.getPositions('BTC-USD.P');
+      expect(position.side).toBe(PositionDirection.SHORT);
+    });
+
+    it('should serve the same API over a local HTTP listener', async () => {
+      await server.start();
+      const httpClient = new EnclaveClient({
+        auth,
+        baseUrl: server.url,
+        transport: new FetchTransport(),
+        maxRetries: 0,
+      });
+
+      const balance = await httpClient.getBalance();
+      expect(balance.walletBalance).toBe('10000');
+    });
+  });
+
+  describe('WebSocket', () => {
+    it('should push order updates to authenticated subscribers', async () => {
+      await server.start();
+      client = new EnclaveClient({
+        auth,
+        transport: server.transport(),
+        wsUrl: server.wsUrl,
+        maxRetries: 0,
+      });
+      await client.connectWebSocket();
+
+      let onOrder: (order: Order) => void = () => undefined;
+      const received = new Promise<Order>((resolve) => (onOrder = resolve));
+      await client.subscribeOrders((data) => onOrder(data));
+
+      await client.createLimitOrder(
+        'BTC-USD.P',
+        OrderSide.BUY,
+        new Decimal('0.01'),
+        new Decimal('49000'),
+      );
+
+      const update = await received;
+      expect(update.market).toBe('BTC-USD.P');
+      expect(update.status).toBe(OrderStatus.OPEN);
+    });
+  });
+});
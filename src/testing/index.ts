@@ -0,0 +1,10 @@
+export { MockEnclaveServer, type MockEnclaveServerConfig } from './MockEnclaveServer';
+export {
+  MockExchange,
+  MockExchangeError,
+  DEFAULT_MOCK_MARKETS,
+  type AmendOrderRequest,
+  type BookOwner,
+  type PlaceOrderRequest,
+  type PlaceStopOrderRequest,
+} from './MockExchange';
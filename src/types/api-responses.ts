@@ -9,7 +9,7 @@ export interface ApiMarketsResponse {
     tradingPairs: ApiSpotMarket[];
   };
   cross: {
-    tradingPairs: unknown[];
+    tradingPairs: ApiCrossMarket[];
   };
   perps: {
     tradingPairs: ApiPerpsMarket[];
@@ -56,6 +56,118 @@ export interface ApiSpotMarket {
   disabled?: boolean;
 }
 
+export interface ApiCrossMarket {
+  market: string;
+  pair: {
+    base: string;
+    quote: string;
+  };
+  baseIncrement: string;
+  quoteIncrement: string;
+  minOrderSize?: string;
+  feeDecimal?: number;
+  disabled?: boolean;
+}
+
+// Spot ticker API Response (/v1/ticker)
+export interface ApiTicker {
+  market: string;
+  bid: string;
+  ask: string;
+  last: string;
+  high24h: string;
+  low24h: string;
+  volume24h: string;
+  volumeQuote24h: string;
+  change24h: string;
+  changePercent24h: string;
+  time: number | string;
+}
+
+// Spot balance API Response (/v1/balances)
+export interface ApiSpotBalance {
+  asset: string;
+  total: string;
+  available: string;
+  reserved: string;
+}
+
+// Account fill API Response (/v1/fills)
+export interface ApiFill {
+  id: string;
+  orderId: string;
+  market: string;
+  side: 'buy' | 'sell';
+  price: string;
+  size: string;
+  fee: string;
+  liquidity: 'maker' | 'taker';
+  time: number | string;
+}
+
+// Paginated history response (fills, funding payments, transfers, ledger)
+export interface ApiPage<T> {
+  items: T[];
+  nextCursor?: string | null;
+}
+
+// Funding payment API Response (/v1/perps/funding_payments)
+export interface ApiFundingPayment {
+  id: string;
+  market: string;
+  amount: string;
+  rate: string;
+  positionSize: string;
+  time: number | string;
+}
+
+// Withdrawal API Response (/v1/withdrawals)
+export interface ApiWithdrawal {
+  id: string;
+  asset: string;
+  amount: string;
+  fee?: string;
+  status: string;
+  address?: string;
+  txHash?: string;
+  time: number | string;
+}
+
+// Internal transfer API Response (/v1/transfers)
+export interface ApiTransfer {
+  id: string;
+  asset: string;
+  amount: string;
+  from: string;
+  to: string;
+  status: string;
+  time: number | string;
+}
+
+// Ledger entry API Response (/v1/ledger)
+export interface ApiLedgerEntry {
+  id: string;
+  type: string;
+  asset: string;
+  amount: string;
+  balance: string;
+  market?: string;
+  referenceId?: string;
+  time: number | string;
+}
+
+// Candle API Response (/v1/perps/candles)
+export interface ApiCandle {
+  time: number | string;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+  quoteVolume: string;
+  trades: number;
+}
+
 // Trade API Response
 export interface ApiTrade {
   market: string;
@@ -73,4 +185,87 @@ export interface ApiOrderBook {
   time: string;
   asks: Array<[string, string]>;
   bids: Array<[string, string]>;
+  sequence?: number;
+}
+
+// Order API Response (REST and ordersPerps stream)
+export interface ApiOrder {
+  id: string;
+  clientOrderId?: string;
+  market: string;
+  side: 'buy' | 'sell';
+  type: 'limit' | 'market';
+  price?: string;
+  size: string;
+  remainingSize: string;
+  status: string;
+  timeInForce?: string;
+  postOnly?: boolean;
+  reduceOnly?: boolean;
+  createdAt: number | string;
+  updatedAt: number | string;
+  filledSize?: string;
+  avgFillPrice?: string;
+  fee?: string;
+}
+
+// Position API Response (REST and positionsPerps stream)
+export interface ApiPosition {
+  market: string;
+  side: 'long' | 'short';
+  size: string;
+  entryPrice: string;
+  markPrice: string;
+  liquidationPrice: string;
+  unrealizedPnl: string;
+  realizedPnl: string;
+  margin: string;
+  leverage: number | string;
+  createdAt: number | string;
+  updatedAt: number | string;
+}
+
+export interface ApiLeverageSettings {
+  market: string;
+  leverage: number | string;
+  marginMode: 'cross' | 'isolated';
+}
+
+// Per-item result of the batch order endpoints
+export interface ApiBatchItem<T> {
+  success: boolean;
+  result?: T;
+  error?: string;
+  code?: string;
+}
+
+// Top of book stream payload (topOfBooksPerps)
+export type ApiTopOfBook = ApiOrderBook;
+
+// Incremental depth stream payload (depthPerps)
+// Each level carries the new absolute size at that price; size "0" removes the level.
+export interface ApiDepthUpdate {
+  market: string;
+  time: string;
+  asks: Array<[string, string]>;
+  bids: Array<[string, string]>;
+}
+
+// Price stream payload (prices)
+export interface ApiPriceUpdate {
+  market: string;
+  markPrice: string;
+  indexPrice: string;
+  fundingRate?: string;
+  time: string;
+}
+
+// Deposit stream payload (deposits)
+export interface ApiDeposit {
+  id: string;
+  asset: string;
+  amount: string;
+  status: string;
+  txHash?: string;
+  time: string;
 }
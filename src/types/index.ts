@@ -1,3 +1,10 @@
+import type Decimal from 'decimal.js';
+import type { Transport } from '../client/transport/Transport';
+import type { RateLimiter, RateLimiterConfig } from '../client/ratelimit/RateLimiter';
+import type { DeadMansSwitchOptions } from '../client/safety/DeadMansSwitch';
+import type { StreamRecoveryOptions } from '../client/websocket/StreamRecovery';
+import type { WebSocketConfig } from '../client/websocket/WebSocketClient';
+
 export enum Environment {
   PROD = 'PROD',
   PROD_PERMISSIONLESS = 'PROD_PERMISSIONLESS',
@@ -48,6 +55,56 @@ export interface Market {
   nextFundingTime?: number;
   openInterest?: string;
   volume24h?: string;
+  /**
+   * Tiered margin table, ordered by ascending position notional
+   */
+  marginBrackets?: MarginBracket[];
+  defaultLeverage?: number;
+}
+
+export interface MarginBracket {
+  /**
+   * Upper bound of the position notional (USD) covered by this bracket
+   */
+  positionBracketUsd: string;
+  maxLeverage: number;
+  maintenanceMarginRate: string;
+  /**
+   * Deducted from notional × maintenanceMarginRate so margin is continuous across brackets
+   */
+  maintenanceAmount: string;
+}
+
+export interface SpotMarket {
+  market: string;
+  baseAsset: string;
+  quoteAsset: string;
+  baseIncrement: string;
+  quoteIncrement: string;
+  minOrderSize: string;
+  feeDecimal: number;
+  /**
+   * Disabled markets accept no new orders
+   */
+  disabled: boolean;
+}
+
+/**
+ * Cross (dark pool) market. Orders rest unseen and match at the cross price
+ * instead of against a public book.
+ */
+export interface CrossMarket {
+  market: string;
+  baseAsset: string;
+  quoteAsset: string;
+  baseIncrement: string;
+  quoteIncrement: string;
+  minOrderSize: string;
+  feeDecimal?: number;
+  /**
+   * Disabled markets accept no new orders
+   */
+  disabled: boolean;
 }
 
 export interface Order {
@@ -62,6 +119,7 @@ export interface Order {
   status: OrderStatus;
   timeInForce?: TimeInForce;
   postOnly?: boolean;
+  reduceOnly?: boolean;
   createdAt: number;
   updatedAt: number;
   filledSize?: string;
@@ -93,8 +151,34 @@ export interface Position {
   updatedAt: number;
 }
 
+export enum MarginMode {
+  CROSS = 'cross',
+  ISOLATED = 'isolated',
+}
+
+export interface LeverageSettings {
+  market: string;
+  leverage: number;
+  marginMode: MarginMode;
+}
+
+/**
+ * Orders sent by `flipPosition()`
+ */
+export interface PositionFlip {
+  /**
+   * Reduce-only order closing the previous position
+   */
+  close: Order;
+  /**
+   * Order opening the same size on the opposite side
+   */
+  open: Order;
+}
+
 export interface StopOrder {
   id: string;
+  clientOrderId?: string;
   market: string;
   positionDirection: PositionDirection;
   type: StopOrderType;
@@ -127,6 +211,16 @@ export interface Balance {
   totalOrderMargin?: string;
 }
 
+export interface SpotBalance {
+  asset: string;
+  available: string;
+  /**
+   * Reserved by open orders
+   */
+  locked: string;
+  total: string;
+}
+
 export interface FundingRate {
   market: string;
   rate: string;
@@ -157,6 +251,13 @@ export interface OrderBook {
   sequenceNumber?: number;
 }
 
+export interface DepthUpdate {
+  market: string;
+  bids: Array<[string, string]>;
+  asks: Array<[string, string]>;
+  timestamp: number;
+}
+
 export interface Ticker {
   market: string;
   bid: string;
@@ -175,13 +276,250 @@ export interface Ticker {
   timestamp: number;
 }
 
+export interface PriceUpdate {
+  market: string;
+  markPrice: string;
+  indexPrice: string;
+  fundingRate?: string;
+  timestamp: number;
+}
+
+export interface Deposit {
+  id: string;
+  asset: string;
+  amount: string;
+  status: string;
+  txHash?: string;
+  timestamp: number;
+}
+
+export interface FundingPayment {
+  id: string;
+  market: string;
+  /**
+   * Signed amount: positive when received, negative when paid
+   */
+  amount: string;
+  rate: string;
+  positionSize: string;
+  timestamp: number;
+}
+
+export interface Withdrawal {
+  id: string;
+  asset: string;
+  amount: string;
+  fee?: string;
+  status: string;
+  address?: string;
+  txHash?: string;
+  timestamp: number;
+}
+
+export interface Transfer {
+  id: string;
+  asset: string;
+  amount: string;
+  /**
+   * Source account (e.g. "spot", "perps")
+   */
+  from: string;
+  /**
+   * Destination account
+   */
+  to: string;
+  status: string;
+  timestamp: number;
+}
+
+export enum LedgerEntryType {
+  TRADE = 'trade',
+  FEE = 'fee',
+  FUNDING = 'funding',
+  REALIZED_PNL = 'realizedPnl',
+  DEPOSIT = 'deposit',
+  WITHDRAWAL = 'withdrawal',
+  TRANSFER = 'transfer',
+  LIQUIDATION = 'liquidation',
+}
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  asset: string;
+  /**
+   * Signed balance change
+   */
+  amount: string;
+  /**
+   * Balance after the entry
+   */
+  balance: string;
+  market?: string;
+  /**
+   * ID of the fill, funding payment, deposit, etc. behind the entry
+   */
+  referenceId?: string;
+  timestamp: number;
+}
+
+/**
+ * Filters and cursor for history endpoints
+ */
+export interface HistoryQuery {
+  market?: string;
+  /**
+   * Inclusive start, epoch milliseconds
+   */
+  startTime?: number;
+  /**
+   * Exclusive end, epoch milliseconds
+   */
+  endTime?: number;
+  /**
+   * Maximum items per page
+   */
+  limit?: number;
+  /**
+   * `nextCursor` of the previous page
+   */
+  cursor?: string;
+}
+
+/**
+ * One page of a history endpoint; `nextCursor` is absent on the last page
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+/**
+ * Candle width, from one second to one day. Bars are aligned to UTC epoch
+ * multiples of the interval.
+ */
+export type CandleInterval =
+  | '1s'
+  | '5s'
+  | '15s'
+  | '30s'
+  | '1m'
+  | '5m'
+  | '15m'
+  | '30m'
+  | '1h'
+  | '4h'
+  | '1d';
+
+/**
+ * OHLCV bar
+ */
+export interface Candle {
+  market: string;
+  interval: CandleInterval;
+  /**
+   * Inclusive start, epoch milliseconds
+   */
+  openTime: number;
+  /**
+   * Exclusive end, epoch milliseconds
+   */
+  closeTime: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  /**
+   * Traded size in base units
+   */
+  volume: string;
+  /**
+   * Traded notional in quote units
+   */
+  quoteVolume: string;
+  /**
+   * Number of trades; 0 for a bar carried forward without trades
+   */
+  trades: number;
+  /**
+   * Whether the interval has ended
+   */
+  closed: boolean;
+}
+
+/**
+ * Range of candles to fetch
+ */
+export interface CandleQuery {
+  /**
+   * Inclusive start, epoch milliseconds (default: `limit` bars before `endTime`)
+   */
+  startTime?: number;
+  /**
+   * Exclusive end, epoch milliseconds (default: now)
+   */
+  endTime?: number;
+  /**
+   * Maximum number of candles, most recent kept (default: 100)
+   */
+  limit?: number;
+}
+
 export interface CreateOrderOptions {
+  /**
+   * Idempotency key for the order; a UUID is generated when omitted
+   */
   clientOrderId?: string;
   postOnly?: boolean;
   reduceOnly?: boolean;
   timeInForce?: TimeInForce;
 }
 
+export type CreateSpotOrderOptions = Omit<CreateOrderOptions, 'reduceOnly'>;
+
+export interface CreateCrossOrderOptions {
+  /**
+   * Idempotency key for the order; a UUID is generated when omitted
+   */
+  clientOrderId?: string;
+  /**
+   * Worst acceptable cross price; the order does not match beyond it
+   */
+  price?: string;
+}
+
+/**
+ * One limit order in a `createOrders()` batch
+ */
+export interface LimitOrderParams extends CreateOrderOptions {
+  market: string;
+  side: OrderSide;
+  size: Decimal;
+  price: Decimal;
+}
+
+/**
+ * New values for a resting limit order
+ */
+export interface AmendOrderParams {
+  /**
+   * Market of the order, used to validate the new values
+   */
+  market: string;
+  price?: Decimal;
+  /**
+   * New unfilled size
+   */
+  size?: Decimal;
+}
+
+export interface BatchOptions {
+  /**
+   * Requests in flight at once when the exchange has no batch endpoint (default: 5)
+   */
+  concurrency?: number;
+}
+
 export interface CreateStopOrderOptions {
   clientOrderId?: string;
   size?: string;
@@ -246,6 +584,56 @@ export interface ClientConfig {
   debug?: boolean;
   maxRetries?: number;
   retryDelay?: number;
+  /**
+   * HTTP transport used for REST requests (defaults to HttpsTransport)
+   */
+  transport?: Transport;
+  /**
+   * Overrides the REST base URL derived from the environment
+   */
+  baseUrl?: string;
+  /**
+   * Overrides the WebSocket URL derived from the environment
+   */
+  wsUrl?: string;
+  /**
+   * Client-side rate limiting: `true` for default budgets, a config for custom
+   * budgets, or a shared RateLimiter instance. Disabled when omitted.
+   */
+  rateLimit?: boolean | RateLimiterConfig | RateLimiter;
+  /**
+   * Cancel open orders when heartbeats stop, the WebSocket stays disconnected
+   * or the process is terminated: `true` for defaults, or options. Disabled
+   * when omitted. Available as `client.deadMansSwitch`.
+   */
+  deadMansSwitch?: boolean | DeadMansSwitchOptions;
+  /**
+   * Replay order and position updates missed during WebSocket reconnects:
+   * `true` for defaults, or options. Requires `auth`; disabled when omitted.
+   * Available as `client.streamRecovery`.
+   */
+  streamRecovery?: boolean | StreamRecoveryOptions;
+  /**
+   * Reconnect, heartbeat and staleness settings for `connectWebSocket()`
+   */
+  webSocket?: Omit<WebSocketConfig, 'auth' | 'environment' | 'url' | 'debug'>;
+  /**
+   * Pre-trade validation of orders against market specs
+   */
+  validation?: ValidationConfig;
+}
+
+export interface ValidationConfig {
+  /**
+   * Throw OrderValidationError for sizes and prices off the market increments
+   * instead of rounding them down (default: false)
+   */
+  strict?: boolean;
+  /**
+   * Fetch the current position before each non-reduce-only order to enforce the
+   * maximum position size (default: false)
+   */
+  checkPositionSize?: boolean;
 }
 
 export const API_URLS: Record<Environment, string> = {
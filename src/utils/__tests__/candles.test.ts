@@ -0,0 +1,75 @@
+import { aggregateTrades, applyTradeToCandle, emptyCandle, getCandleOpenTime } from '../candles';
+
+const MINUTE = 60000;
+
+describe('getCandleOpenTime', () => {
+  it('should align to UTC multiples of the interval', () => {
+    const time = Date.parse('2024-01-01T12:34:56.789Z');
+
+    expect(getCandleOpenTime(time, '1s')).toBe(Date.parse('2024-01-01T12:34:56.000Z'));
+    expect(getCandleOpenTime(time, '15m')).toBe(Date.parse('2024-01-01T12:30:00.000Z'));
+    expect(getCandleOpenTime(time, '4h')).toBe(Date.parse('2024-01-01T12:00:00.000Z'));
+    expect(getCandleOpenTime(time, '1d')).toBe(Date.parse('2024-01-01T00:00:00.000Z'));
+  });
+});
+
+describe('aggregateTrades', () => {
+  const trades = [
+    { price: '101', size: '2', timestamp: MINUTE + 5 },
+    { price: '100', size: '1', timestamp: 10 },
+    { price: '99', size: '1', timestamp: 20 },
+    { price: '103', size: '0.5', timestamp: 3 * MINUTE },
+  ];
+
+  it('should build OHLCV bars in time order', () => {
+    const [first, second] = aggregateTrades(trades, 'BTC-USD.P', '1m', { now: 10 * MINUTE });
+
+    expect(first).toEqual({
+      market: 'BTC-USD.P',
+      interval: '1m',
+      openTime: 0,
+      closeTime: MINUTE,
+      open: '100',
+      high: '100',
+      low: '99',
+      close: '99',
+      volume: '2',
+      quoteVolume: '199',
+      trades: 2,
+      closed: true,
+    });
+    expect(second).toMatchObject({ open: '101', close: '101', volume: '2', trades: 1 });
+  });
+
+  it('should carry the close through intervals without trades', () => {
+    const candles = aggregateTrades(trades, 'BTC-USD.P', '1m', {
+      endTime: 5 * MINUTE,
+      now: 3 * MINUTE + 1,
+    });
+
+    expect(candles.map((c) => [c.openTime / MINUTE, c.close, c.trades, c.closed])).toEqual([
+      [0, '99', 2, true],
+      [1, '101', 1, true],
+      [2, '101', 0, true],
+      [3, '103', 1, false],
+      [4, '103', 0, false],
+    ]);
+  });
+
+  it('should skip empty intervals when fillEmpty is off', () => {
+    const candles = aggregateTrades(trades, 'BTC-USD.P', '1m', { fillEmpty: false });
+
+    expect(candles.map((c) => c.openTime / MINUTE)).toEqual([0, 1, 3]);
+  });
+});
+
+describe('applyTradeToCandle', () => {
+  it('should reopen a zero-volume bar at the trade price', () => {
+    const empty = emptyCandle('BTC-USD.P', '1m', 0, '100');
+
+    const candle = applyTradeToCandle(empty, { price: '105', size: '1', timestamp: 1 });
+
+    expect(candle).toMatchObject({ open: '105', high: '105', low: '105', close: '105' });
+    expect(candle.trades).toBe(1);
+  });
+});
@@ -1,4 +1,14 @@
-import { EnclaveApiError } from '../errors';
+import {
+  AuthenticationError,
+  EnclaveApiError,
+  EnclaveError,
+  InsufficientMarginError,
+  NotFoundError,
+  OrderRejectedError,
+  RateLimitError,
+  createApiError,
+  parseErrorBody,
+} from '../errors';
 
 describe('EnclaveApiError', () => {
   it('should create error with full context', () => {
@@ -58,3 +68,72 @@ describe('EnclaveApiError', () => {
     expect(error.stack).toContain('EnclaveApiError');
   });
 });
+
+describe('parseErrorBody', () => {
+  it('should read nested ApiError objects', () => {
+    expect(parseErrorBody('{"error":{"code":"X","message":"m","details":{"a":1}}}')).toEqual({
+      code: 'X',
+      message: 'm',
+      details: { a: 1 },
+    });
+  });
+
+  it('should read string errors and plain text', () => {
+    expect(parseErrorBody('{"success":false,"error":"bad"}')).toEqual({ message: 'bad' });
+    expect(parseErrorBody('Bad Gateway')).toEqual({ message: 'Bad Gateway' });
+    expect(parseErrorBody(undefined)).toEqual({});
+  });
+});
+
+describe('createApiError', () => {
+  it('should map status codes to subclasses', () => {
+    expect(createApiError('/v1/perps/balance', 'GET', 429)).toBeInstanceOf(RateLimitError);
+    expect(createApiError('/v1/perps/balance', 'GET', 401)).toBeInstanceOf(AuthenticationError);
+    expect(createApiError('/v1/perps/orders/x', 'DELETE', 404)).toBeInstanceOf(NotFoundError);
+    expect(
+      createApiError('/v1/perps/orders', 'POST', 400, '{"error":"size too small"}'),
+    ).toBeInstanceOf(OrderRejectedError);
+  });
+
+  it('should prefer the body code over the status', () => {
+    const error = createApiError(
+      '/v1/perps/orders',
+      'POST',
+      400,
+      '{"error":{"code":"INSUFFICIENT_MARGIN","message":"margin"}}',
+    );
+
+    expect(error).toBeInstanceOf(InsufficientMarginError);
+    expect(error).toBeInstanceOf(EnclaveApiError);
+    expect(error).toBeInstanceOf(EnclaveError);
+    expect(error.code).toBe('INSUFFICIENT_MARGIN');
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should detect insufficient margin from the message', () => {
+    const error = createApiError(
+      '/v1/perps/orders',
+      'POST',
+      400,
+      '{"error":"Insufficient balance"}',
+    );
+
+    expect(error).toBeInstanceOf(InsufficientMarginError);
+    expect(error.code).toBe('INSUFFICIENT_MARGIN');
+  });
+
+  it('should mark server errors retryable', () => {
+    const error = createApiError('/v1/perps/orders', 'POST', 503, 'Service Unavailable');
+
+    expect(error.constructor).toBe(EnclaveApiError);
+    expect(error.code).toBe('SERVER_ERROR');
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should fall back to UNKNOWN for unclassified errors', () => {
+    const error = createApiError('/v1/perps/balance', 'GET', 400, '{"message":"odd"}');
+
+    expect(error.code).toBe('UNKNOWN');
+    expect(error.message).toContain('odd');
+  });
+});
@@ -0,0 +1,26 @@
+import { EventEmitter } from 'events';
+import { reportError } from '../events';
+
+describe('reportError', () => {
+  const error = new Error('503 Service Unavailable');
+
+  it('should emit the error and extra arguments to listeners', () => {
+    const emitter = new EventEmitter();
+    const listener = jest.fn();
+    emitter.on('error', listener);
+
+    reportError(emitter, error, '[Test] failed:', 'context');
+
+    expect(listener).toHaveBeenCalledWith(error, 'context');
+  });
+
+  it('should log instead of throwing when nothing listens', () => {
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      expect(() => reportError(new EventEmitter(), error, '[Test] failed:')).not.toThrow();
+      expect(logged).toHaveBeenCalledWith('[Test] failed:', error);
+    } finally {
+      logged.mockRestore();
+    }
+  });
+});
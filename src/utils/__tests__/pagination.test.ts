@@ -0,0 +1,94 @@
+import { paginate, paginateByTime } from '../pagination';
+import { Page } from '../../types';
+
+async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('paginate', () => {
+  const pages: Record<string, Page<number>> = {
+    first: { items: [1, 2], nextCursor: 'b' },
+    b: { items: [3, 4], nextCursor: 'c' },
+    c: { items: [5] },
+  };
+  const fetchPage = jest.fn((cursor?: string) => Promise.resolve(pages[cursor ?? 'first']));
+
+  beforeEach(() => {
+    fetchPage.mockClear();
+  });
+
+  it('should follow cursors until the last page', async () => {
+    await expect(collect(paginate(fetchPage))).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor)).toEqual([undefined, 'b', 'c']);
+  });
+
+  it('should fetch pages lazily and stop at maxItems', async () => {
+    await expect(collect(paginate(fetchPage, { maxItems: 2 }))).resolves.toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop when the server repeats a cursor', async () => {
+    const repeating = jest.fn(() => Promise.resolve({ items: [1], nextCursor: 'same' }));
+
+    await expect(collect(paginate(repeating))).resolves.toEqual([1, 1]);
+  });
+
+  it('should reject with the abort reason once aborted', async () => {
+    const controller = new AbortController();
+    const iterator = paginate(fetchPage, { signal: controller.signal });
+
+    await expect(iterator.next()).resolves.toEqual({ value: 1, done: false });
+    controller.abort(new Error('stop'));
+    await expect(iterator.next()).rejects.toThrow('stop');
+  });
+});
+
+describe('paginateByTime', () => {
+  const trades = [
+    { id: 'a', timestamp: 50 },
+    { id: 'b', timestamp: 40 },
+    { id: 'c', timestamp: 40 },
+    { id: 'd', timestamp: 30 },
+    { id: 'e', timestamp: 30 },
+    { id: 'f', timestamp: 20 },
+  ];
+  type Item = (typeof trades)[number];
+  const fetchRange = (limit: number): jest.Mock<Promise<Item[]>, [number?]> =>
+    jest.fn((endTime?: number) =>
+      Promise.resolve(
+        trades.filter((t) => endTime === undefined || t.timestamp < endTime).slice(0, limit),
+      ),
+    );
+
+  it('should walk back through time without losing or repeating items', async () => {
+    const fetch = fetchRange(3);
+
+    const ids = (await collect(paginateByTime(fetch, 3))).map((t) => t.id);
+
+    expect(ids).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(fetch.mock.calls.map(([endTime]) => endTime)).toEqual([undefined, 41, 31, 21]);
+  });
+
+  it('should start from the given end time', async () => {
+    const ids = (await collect(paginateByTime(fetchRange(10), 10, 40))).map((t) => t.id);
+
+    expect(ids).toEqual(['d', 'e', 'f']);
+  });
+
+  it('should throw when a page cannot make progress', async () => {
+    const stuck = jest.fn(() =>
+      Promise.resolve([
+        { id: 'x', timestamp: 1 },
+        { id: 'y', timestamp: 1 },
+      ]),
+    );
+
+    await expect(collect(paginateByTime(stuck, 2))).rejects.toThrow(
+      'More than 2 items share timestamp 1',
+    );
+  });
+});
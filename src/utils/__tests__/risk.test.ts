@@ -0,0 +1,166 @@
+import Decimal from 'decimal.js';
+import {
+  applyOrderToPosition,
+  calculateInitialMargin,
+  calculateMaintenanceMargin,
+  calculateRisk,
+  calculateUnrealizedPnl,
+  getEffectiveMaxLeverage,
+  getMarginBracket,
+  markPosition,
+} from '../risk';
+import { adaptPerpsMarket } from '../adapters';
+import { OrderValidationError } from '../errors';
+import { DEFAULT_MOCK_MARKETS } from '../../testing/MockExchange';
+import { Market, OrderSide, Position, PositionDirection } from '../../types';
+
+describe('risk', () => {
+  // Brackets: <= 1M notional at 50x / 1% MMR, <= 5M at 20x / 2.5% MMR - 15000
+  const market: Market = adaptPerpsMarket(DEFAULT_MOCK_MARKETS[0]);
+
+  it('should keep every margin bracket on the adapted market', () => {
+    expect(market.marginBrackets).toEqual([
+      {
+        positionBracketUsd: '1000000',
+        maxLeverage: 50,
+        maintenanceMarginRate: '0.01',
+        maintenanceAmount: '0',
+      },
+      {
+        positionBracketUsd: '5000000',
+        maxLeverage: 20,
+        maintenanceMarginRate: '0.025',
+        maintenanceAmount: '15000',
+      },
+    ]);
+    expect(market.defaultLeverage).toBe(10);
+  });
+
+  it('should pick the bracket by notional', () => {
+    expect(getMarginBracket(market, 1000000).maxLeverage).toBe(50);
+    expect(getEffectiveMaxLeverage(market, 1000001)).toBe(20);
+    // Beyond the table the last bracket applies
+    expect(getEffectiveMaxLeverage(market, 9000000)).toBe(20);
+  });
+
+  it('should compute tiered maintenance margin continuously', () => {
+    expect(calculateMaintenanceMargin(market, 50000).toString()).toBe('500');
+    expect(calculateMaintenanceMargin(market, 1000000).toString()).toBe('10000');
+    expect(calculateMaintenanceMargin(market, 2000000).toString()).toBe('35000');
+  });
+
+  it('should compute initial margin and reject excessive leverage', () => {
+    expect(calculateInitialMargin(market, 50000, 10).toString()).toBe('5000');
+    expect(calculateInitialMargin(market, 2000000).toString()).toBe('100000');
+    expect(() => calculateInitialMargin(market, 2000000, 50)).toThrow(OrderValidationError);
+  });
+
+  it('should estimate liquidation prices for longs and shorts', () => {
+    const long = calculateRisk(market, {
+      direction: PositionDirection.LONG,
+      size: 1,
+      entryPrice: 50000,
+      leverage: 10,
+    });
+    const short = calculateRisk(market, {
+      direction: PositionDirection.SHORT,
+      size: 1,
+      entryPrice: 50000,
+      leverage: 10,
+    });
+
+    expect(long.initialMargin.toString()).toBe('5000');
+    expect(long.maintenanceMargin.toString()).toBe('500');
+    expect(long.liquidationPrice?.toDecimalPlaces(2).toString()).toBe('45454.55');
+    expect(short.liquidationPrice?.toDecimalPlaces(2).toString()).toBe('54455.45');
+  });
+
+  it('should re-evaluate the bracket at the liquidation notional', () => {
+    // 1.05M notional starts in the second bracket but liquidates in the first
+    const risk = calculateRisk(market, {
+      direction: PositionDirection.LONG,
+      size: 21,
+      entryPrice: 50000,
+      leverage: 2,
+    });
+
+    expect(risk.effectiveMaxLeverage).toBe(20);
+    expect(risk.liquidationPrice?.toDecimalPlaces(2).toString()).toBe('25252.53');
+  });
+
+  it('should report no liquidation price for fully collateralised longs', () => {
+    const risk = calculateRisk(market, {
+      direction: PositionDirection.LONG,
+      size: 1,
+      entryPrice: 50000,
+      leverage: 1,
+    });
+
+    expect(risk.liquidationPrice).toBeNull();
+  });
+
+  describe('applyOrderToPosition', () => {
+    const position = { side: PositionDirection.LONG, size: '2', entryPrice: '100' };
+
+    it('should average the entry when increasing', () => {
+      const result = applyOrderToPosition(position, OrderSide.BUY, 2, 110);
+
+      expect(result?.direction).toBe(PositionDirection.LONG);
+      expect(result?.size.toString()).toBe('4');
+      expect(result?.entryPrice.toString()).toBe('105');
+    });
+
+    it('should keep the entry when reducing', () => {
+      const result = applyOrderToPosition(position, OrderSide.SELL, 1, 120);
+
+      expect(result?.size.toString()).toBe('1');
+      expect(result?.entryPrice.toString()).toBe('100');
+    });
+
+    it('should open at the order price when flipping', () => {
+      const result = applyOrderToPosition(position, OrderSide.SELL, 5, 90);
+
+      expect(result?.direction).toBe(PositionDirection.SHORT);
+      expect(result?.size.toString()).toBe('3');
+      expect(result?.entryPrice.toString()).toBe('90');
+    });
+
+    it('should return null when closing and handle no position', () => {
+      expect(applyOrderToPosition(position, OrderSide.SELL, new Decimal(2), 90)).toBeNull();
+      expect(applyOrderToPosition(undefined, OrderSide.SELL, 1, 90)?.direction).toBe(
+        PositionDirection.SHORT,
+      );
+    });
+  });
+
+  describe('unrealized PnL', () => {
+    const position: Position = {
+      market: 'BTC-USD.P',
+      side: PositionDirection.SHORT,
+      size: '0.5',
+      entryPrice: '50000',
+      markPrice: '50000',
+      liquidationPrice: '54500',
+      unrealizedPnl: '0',
+      realizedPnl: '0',
+      margin: '2500',
+      leverage: 10,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    it('should value longs and shorts at the mark price', () => {
+      expect(calculateUnrealizedPnl(position, '49000').toString()).toBe('500');
+      expect(
+        calculateUnrealizedPnl({ ...position, side: PositionDirection.LONG }, 49000).toString(),
+      ).toBe('-500');
+    });
+
+    it('should re-mark a position without mutating it', () => {
+      const marked = markPosition(position, new Decimal('51000'));
+
+      expect(marked).toMatchObject({ markPrice: '51000', unrealizedPnl: '-500', size: '0.5' });
+      expect(position.unrealizedPnl).toBe('0');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import Decimal from 'decimal.js';
+import { validateOrder } from '../validation';
+import { OrderValidationError } from '../errors';
+import { EnclaveClient } from '../../client/EnclaveClient';
+import { MockEnclaveServer } from '../../testing/MockEnclaveServer';
+import { Market, OrderSide, OrderType } from '../../types';
+
+const market: Market = {
+  market: 'BTC-USD.P',
+  baseAsset: 'BTC',
+  quoteAsset: 'USD',
+  baseIncrement: '0.0001',
+  quoteIncrement: '0.1',
+  minOrderSize: '0.0001',
+  maxOrderSize: '100',
+  maxLeverage: 20,
+  initialMargin: '0.05',
+  maintenanceMargin: '0.025',
+  maxPositionSize: '100',
+  makerFee: '0.0002',
+  takerFee: '0.0005',
+};
+
+function issuesOf(fn: () => unknown): string[] {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(OrderValidationError);
+    return (error as OrderValidationError).issues.map((i) => i.message);
+  }
+  throw new Error('Expected validation to fail');
+}
+
+describe('validateOrder', () => {
+  const limit = { side: OrderSide.BUY, type: OrderType.LIMIT };
+
+  it('should round to the market increments', () => {
+    const result = validateOrder(market, { ...limit, size: '0.12345', price: '50000.06' });
+
+    expect(result.size?.toString()).toBe('0.1234');
+    expect(result.price?.toString()).toBe('50000');
+  });
+
+  it('should reject sizes that round to zero', () => {
+    expect(issuesOf(() => validateOrder(market, { ...limit, size: '0.00001', price: 1 }))).toEqual([
+      'size 0.00001 rounds to zero at increment 0.0001',
+    ]);
+  });
+
+  it('should reject sizes above the maximum', () => {
+    expect(issuesOf(() => validateOrder(market, { ...limit, size: 101, price: 1 }))).toEqual([
+      'size 101 exceeds the maximum 100',
+    ]);
+  });
+
+  it('should reject off-increment values in strict mode', () => {
+    const error = (): unknown =>
+      validateOrder(market, { ...limit, size: '0.12345', price: '50000.05' }, { strict: true });
+
+    expect(issuesOf(error)).toEqual([
+      'size 0.12345 is not a multiple of 0.0001',
+      'price 50000.05 is not a multiple of 0.1',
+    ]);
+    expect(() =>
+      validateOrder(market, { ...limit, size: '0.1234', price: '50000.1' }, { strict: true }),
+    ).not.toThrow();
+  });
+
+  it('should reject missing, negative and non-numeric values', () => {
+    expect(issuesOf(() => validateOrder(market, { ...limit, size: -1 }))).toEqual([
+      'price is required for limit orders',
+      'size must be positive',
+    ]);
+    expect(issuesOf(() => validateOrder(market, { ...limit, size: 'abc', price: 1 }))).toEqual([
+      'size is not a number',
+    ]);
+  });
+
+  it('should enforce the max position size for orders increasing exposure', () => {
+    expect(
+      issuesOf(() => validateOrder(market, { ...limit, size: 10, price: 1, positionSize: 95 })),
+    ).toEqual(['resulting position 105 exceeds the maximum 100']);
+    expect(() =>
+      validateOrder(market, {
+        side: OrderSide.SELL,
+        type: OrderType.LIMIT,
+        size: 10,
+        price: 1,
+        positionSize: 95,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      validateOrder(market, { ...limit, size: 10, price: 1, positionSize: 95, reduceOnly: true }),
+    ).not.toThrow();
+  });
+
+  it('should check leverage against the market maximum', () => {
+    expect(issuesOf(() => validateOrder(market, { leverage: 25 }))).toEqual([
+      'leverage 25 must be between 0 and 20',
+    ]);
+    expect(() => validateOrder(market, { leverage: 20 })).not.toThrow();
+  });
+});
+
+describe('EnclaveClient - Order validation', () => {
+  const auth = { apiKey: 'mock-key', apiSecret: 'mock-secret' };
+  let server: MockEnclaveServer;
+
+  beforeEach(() => {
+    server = new MockEnclaveServer(auth);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should not send orders that fail validation', async () => {
+    const client = new EnclaveClient({ auth, transport: server.transport() });
+
+    await expect(
+      client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal('0.00001'), new Decimal(1)),
+    ).rejects.toBeInstanceOf(OrderValidationError);
+    expect(server.exchange.getAllOrders()).toHaveLength(0);
+  });
+
+  it('should throw instead of rounding in strict mode', async () => {
+    const client = new EnclaveClient({
+      auth,
+      transport: server.transport(),
+      validation: { strict: true },
+    });
+
+    await expect(
+      client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal('0.00015'), new Decimal(1)),
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR', market: 'BTC-USD.P' });
+  });
+
+  it('should check the current position when configured', async () => {
+    const client = new EnclaveClient({
+      auth,
+      transport: server.transport(),
+      validation: { checkPositionSize: true },
+    });
+    server.exchange.addLiquidity('BTC-USD.P', OrderSide.SELL, '100', '100');
+    await client.createMarketOrder('BTC-USD.P', OrderSide.BUY, new Decimal(9500));
+
+    await expect(
+      client.createLimitOrder('BTC-USD.P', OrderSide.BUY, new Decimal(10), new Decimal(90)),
+    ).rejects.toThrow('resulting position 105 exceeds the maximum 100');
+  });
+});
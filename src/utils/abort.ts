@@ -0,0 +1,17 @@
+/**
+ * Error to reject with when an AbortSignal fires: its reason if that is an
+ * Error, otherwise a generic one
+ */
+export function abortError(signal: AbortSignal): Error {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error ? reason : new Error('Aborted');
+}
+
+/**
+ * Throws the abort error if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
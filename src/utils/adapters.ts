@@ -2,8 +2,65 @@
  * Adapter functions to convert API responses to clean types
  */
 
-import { Market, Trade, OrderBook, OrderSide } from '../types';
-import { ApiPerpsMarket, ApiTrade, ApiOrderBook, ApiMarketsResponse } from '../types/api-responses';
+import {
+  Candle,
+  CandleInterval,
+  CrossMarket,
+  Deposit,
+  DepthUpdate,
+  FundingPayment,
+  LedgerEntry,
+  LedgerEntryType,
+  LeverageSettings,
+  MarginMode,
+  Market,
+  Order,
+  OrderBook,
+  OrderSide,
+  Page,
+  OrderStatus,
+  OrderType,
+  Position,
+  PositionDirection,
+  PriceUpdate,
+  SpotBalance,
+  SpotMarket,
+  Ticker,
+  TimeInForce,
+  Trade,
+  Transfer,
+  Withdrawal,
+} from '../types';
+import {
+  ApiCandle,
+  ApiCrossMarket,
+  ApiDeposit,
+  ApiDepthUpdate,
+  ApiFill,
+  ApiFundingPayment,
+  ApiLedgerEntry,
+  ApiLeverageSettings,
+  ApiMarketsResponse,
+  ApiOrder,
+  ApiOrderBook,
+  ApiPage,
+  ApiPerpsMarket,
+  ApiPosition,
+  ApiPriceUpdate,
+  ApiSpotBalance,
+  ApiSpotMarket,
+  ApiTicker,
+  ApiTrade,
+  ApiTransfer,
+  ApiWithdrawal,
+} from '../types/api-responses';
+
+/**
+ * Normalizes an epoch-millisecond number or ISO date string to epoch milliseconds
+ */
+function toTimestamp(value: number | string): number {
+  return typeof value === 'number' ? value : new Date(value).getTime();
+}
 
 /**
  * Converts API perps market to clean Market type
@@ -34,17 +91,49 @@ export function adaptPerpsMarket(apiMarket: ApiPerpsMarket): Market {
     nextFundingTime: undefined,
     openInterest: undefined,
     volume24h: undefined,
+    marginBrackets: apiMarket.marginInfo
+      .map((bracket) => ({
+        positionBracketUsd: bracket.positionBracketUsd,
+        maxLeverage: Number(bracket.maxLeverage),
+        maintenanceMarginRate: bracket.maintenanceMarginRate,
+        maintenanceAmount: bracket.maintenanceAmount,
+      }))
+      .sort((a, b) => Number(a.positionBracketUsd) - Number(b.positionBracketUsd)),
+    defaultLeverage: Number(apiMarket.defaultLeverage),
   };
 }
 
 /**
- * Converts API markets response to array of Market types
+ * Converts API markets response to array of perps Market types
  */
 export function adaptMarketsResponse(apiResponse: ApiMarketsResponse): Market[] {
-  // For now, only return perps markets
   return apiResponse.perps.tradingPairs.map(adaptPerpsMarket);
 }
 
+/**
+ * Converts API spot market to clean SpotMarket type
+ */
+export function adaptSpotMarket(apiMarket: ApiSpotMarket): SpotMarket {
+  return {
+    market: apiMarket.market,
+    baseAsset: apiMarket.pair.base,
+    quoteAsset: apiMarket.pair.quote,
+    baseIncrement: apiMarket.baseIncrement,
+    quoteIncrement: apiMarket.quoteIncrement,
+    minOrderSize: apiMarket.baseIncrement, // Use base increment as minimum
+    feeDecimal: apiMarket.feeDecimal,
+    disabled: apiMarket.disabled ?? false,
+  };
+}
+
+/**
+ * Converts API markets response to array of SpotMarket types
+ */
+export function adaptSpotMarketsResponse(apiResponse: ApiMarketsResponse): SpotMarket[] {
+  // Tolerate responses that omit the spot section
+  return (apiResponse.spot?.tradingPairs ?? []).map(adaptSpotMarket);
+}
+
 /**
  * Converts API trade to clean Trade type
  */
@@ -62,6 +151,78 @@ export function adaptTrade(apiTrade: ApiTrade): Trade {
   };
 }
 
+/**
+ * Converts API cross market to clean CrossMarket type
+ */
+export function adaptCrossMarket(apiMarket: ApiCrossMarket): CrossMarket {
+  return {
+    market: apiMarket.market,
+    baseAsset: apiMarket.pair.base,
+    quoteAsset: apiMarket.pair.quote,
+    baseIncrement: apiMarket.baseIncrement,
+    quoteIncrement: apiMarket.quoteIncrement,
+    minOrderSize: apiMarket.minOrderSize ?? apiMarket.baseIncrement,
+    feeDecimal: apiMarket.feeDecimal,
+    disabled: apiMarket.disabled ?? false,
+  };
+}
+
+/**
+ * Converts API markets response to array of CrossMarket types
+ */
+export function adaptCrossMarketsResponse(apiResponse: ApiMarketsResponse): CrossMarket[] {
+  // Tolerate responses that omit the cross section
+  return (apiResponse.cross?.tradingPairs ?? []).map(adaptCrossMarket);
+}
+
+/**
+ * Converts API account fill to clean Trade type
+ */
+export function adaptFill(apiFill: ApiFill): Trade {
+  return {
+    id: apiFill.id,
+    market: apiFill.market,
+    side: apiFill.side as OrderSide,
+    price: apiFill.price,
+    size: apiFill.size,
+    fee: apiFill.fee,
+    timestamp: toTimestamp(apiFill.time),
+    orderId: apiFill.orderId,
+    maker: apiFill.liquidity === 'maker',
+  };
+}
+
+/**
+ * Converts API ticker to clean Ticker type
+ */
+export function adaptTicker(apiTicker: ApiTicker): Ticker {
+  return {
+    market: apiTicker.market,
+    bid: apiTicker.bid,
+    ask: apiTicker.ask,
+    last: apiTicker.last,
+    high24h: apiTicker.high24h,
+    low24h: apiTicker.low24h,
+    volume24h: apiTicker.volume24h,
+    volumeQuote24h: apiTicker.volumeQuote24h,
+    change24h: apiTicker.change24h,
+    changePercent24h: apiTicker.changePercent24h,
+    timestamp: toTimestamp(apiTicker.time),
+  };
+}
+
+/**
+ * Converts API spot balance to clean SpotBalance type
+ */
+export function adaptSpotBalance(apiBalance: ApiSpotBalance): SpotBalance {
+  return {
+    asset: apiBalance.asset,
+    available: apiBalance.available,
+    locked: apiBalance.reserved,
+    total: apiBalance.total,
+  };
+}
+
 /**
  * Converts API order book to clean OrderBook type
  */
@@ -71,5 +232,200 @@ export function adaptOrderBook(apiOrderBook: ApiOrderBook): OrderBook {
     bids: apiOrderBook.bids,
     asks: apiOrderBook.asks,
     timestamp: new Date(apiOrderBook.time).getTime(),
+    sequenceNumber: apiOrderBook.sequence,
+  };
+}
+
+/**
+ * Converts API depth update to clean DepthUpdate type
+ */
+export function adaptDepthUpdate(apiDepth: ApiDepthUpdate): DepthUpdate {
+  return {
+    market: apiDepth.market,
+    bids: apiDepth.bids,
+    asks: apiDepth.asks,
+    timestamp: toTimestamp(apiDepth.time),
+  };
+}
+
+/**
+ * Converts API order to clean Order type
+ */
+export function adaptOrder(apiOrder: ApiOrder): Order {
+  return {
+    id: apiOrder.id,
+    clientOrderId: apiOrder.clientOrderId,
+    market: apiOrder.market,
+    side: apiOrder.side as OrderSide,
+    type: apiOrder.type as OrderType,
+    price: apiOrder.price,
+    size: apiOrder.size,
+    remainingSize: apiOrder.remainingSize,
+    status: apiOrder.status as OrderStatus,
+    timeInForce: apiOrder.timeInForce as TimeInForce | undefined,
+    postOnly: apiOrder.postOnly,
+    reduceOnly: apiOrder.reduceOnly,
+    createdAt: toTimestamp(apiOrder.createdAt),
+    updatedAt: toTimestamp(apiOrder.updatedAt),
+    filledSize: apiOrder.filledSize,
+    avgFillPrice: apiOrder.avgFillPrice,
+    fee: apiOrder.fee,
+  };
+}
+
+/**
+ * Converts API position to clean Position type
+ */
+export function adaptPosition(apiPosition: ApiPosition): Position {
+  return {
+    market: apiPosition.market,
+    side: apiPosition.side as PositionDirection,
+    size: apiPosition.size,
+    entryPrice: apiPosition.entryPrice,
+    markPrice: apiPosition.markPrice,
+    liquidationPrice: apiPosition.liquidationPrice,
+    unrealizedPnl: apiPosition.unrealizedPnl,
+    realizedPnl: apiPosition.realizedPnl,
+    margin: apiPosition.margin,
+    leverage: Number(apiPosition.leverage),
+    createdAt: toTimestamp(apiPosition.createdAt),
+    updatedAt: toTimestamp(apiPosition.updatedAt),
+  };
+}
+
+/**
+ * Converts API leverage settings to clean LeverageSettings type
+ */
+export function adaptLeverageSettings(apiSettings: ApiLeverageSettings): LeverageSettings {
+  return {
+    market: apiSettings.market,
+    leverage: Number(apiSettings.leverage),
+    marginMode: apiSettings.marginMode as MarginMode,
+  };
+}
+
+/**
+ * Converts API price update to clean PriceUpdate type
+ */
+export function adaptPriceUpdate(apiPrice: ApiPriceUpdate): PriceUpdate {
+  return {
+    market: apiPrice.market,
+    markPrice: apiPrice.markPrice,
+    indexPrice: apiPrice.indexPrice,
+    fundingRate: apiPrice.fundingRate,
+    timestamp: toTimestamp(apiPrice.time),
+  };
+}
+
+/**
+ * Converts API deposit to clean Deposit type
+ */
+export function adaptDeposit(apiDeposit: ApiDeposit): Deposit {
+  return {
+    id: apiDeposit.id,
+    asset: apiDeposit.asset,
+    amount: apiDeposit.amount,
+    status: apiDeposit.status,
+    txHash: apiDeposit.txHash,
+    timestamp: toTimestamp(apiDeposit.time),
+  };
+}
+
+/**
+ * Converts API history page to clean Page type, adapting each item
+ */
+export function adaptPage<A, T>(apiPage: ApiPage<A>, adapt: (item: A) => T): Page<T> {
+  return {
+    items: apiPage.items.map((item) => adapt(item)),
+    nextCursor: apiPage.nextCursor ?? undefined,
+  };
+}
+
+/**
+ * Converts API funding payment to clean FundingPayment type
+ */
+export function adaptFundingPayment(apiPayment: ApiFundingPayment): FundingPayment {
+  return {
+    id: apiPayment.id,
+    market: apiPayment.market,
+    amount: apiPayment.amount,
+    rate: apiPayment.rate,
+    positionSize: apiPayment.positionSize,
+    timestamp: toTimestamp(apiPayment.time),
+  };
+}
+
+/**
+ * Converts API withdrawal to clean Withdrawal type
+ */
+export function adaptWithdrawal(apiWithdrawal: ApiWithdrawal): Withdrawal {
+  return {
+    id: apiWithdrawal.id,
+    asset: apiWithdrawal.asset,
+    amount: apiWithdrawal.amount,
+    fee: apiWithdrawal.fee,
+    status: apiWithdrawal.status,
+    address: apiWithdrawal.address,
+    txHash: apiWithdrawal.txHash,
+    timestamp: toTimestamp(apiWithdrawal.time),
+  };
+}
+
+/**
+ * Converts API transfer to clean Transfer type
+ */
+export function adaptTransfer(apiTransfer: ApiTransfer): Transfer {
+  return {
+    id: apiTransfer.id,
+    asset: apiTransfer.asset,
+    amount: apiTransfer.amount,
+    from: apiTransfer.from,
+    to: apiTransfer.to,
+    status: apiTransfer.status,
+    timestamp: toTimestamp(apiTransfer.time),
+  };
+}
+
+/**
+ * Converts API ledger entry to clean LedgerEntry type
+ */
+export function adaptLedgerEntry(apiEntry: ApiLedgerEntry): LedgerEntry {
+  return {
+    id: apiEntry.id,
+    type: apiEntry.type as LedgerEntryType,
+    asset: apiEntry.asset,
+    amount: apiEntry.amount,
+    balance: apiEntry.balance,
+    market: apiEntry.market,
+    referenceId: apiEntry.referenceId,
+    timestamp: toTimestamp(apiEntry.time),
+  };
+}
+
+/**
+ * Converts API candle to clean Candle type; the API candle carries neither its
+ * market nor its interval
+ */
+export function adaptCandle(
+  apiCandle: ApiCandle,
+  market: string,
+  interval: CandleInterval,
+  intervalMs: number,
+  now = Date.now(),
+): Candle {
+  const openTime = toTimestamp(apiCandle.time);
+  return {
+    market,
+    interval,
+    openTime,
+    closeTime: openTime + intervalMs,
+    open: apiCandle.open,
+    high: apiCandle.high,
+    low: apiCandle.low,
+    close: apiCandle.close,
+    volume: apiCandle.volume,
+    quoteVolume: apiCandle.quoteVolume,
+    trades: apiCandle.trades,
+    closed: openTime + intervalMs <= now,
   };
 }
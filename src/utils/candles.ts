@@ -0,0 +1,157 @@
+import Decimal from 'decimal.js';
+import { Candle, CandleInterval, Trade } from '../types';
+
+/**
+ * Length of each candle interval in milliseconds
+ */
+export const CANDLE_INTERVAL_MS: Readonly<Record<CandleInterval, number>> = {
+  '1s': 1000,
+  '5s': 5000,
+  '15s': 15000,
+  '30s': 30000,
+  '1m': 60000,
+  '5m': 300000,
+  '15m': 900000,
+  '30m': 1800000,
+  '1h': 3600000,
+  '4h': 14400000,
+  '1d': 86400000,
+};
+
+/**
+ * The parts of a trade that move a candle
+ */
+export type CandleTrade = Pick<Trade, 'price' | 'size' | 'timestamp'>;
+
+export interface AggregateTradesOptions {
+  /**
+   * Emit zero-volume bars carrying the previous close for intervals without
+   * trades (default: true)
+   */
+  fillEmpty?: boolean;
+  /**
+   * Exclusive end of the range; empty bars are filled up to it when
+   * `fillEmpty` is set (default: the bar of the newest trade)
+   */
+  endTime?: number;
+  /**
+   * Bars ending at or before this time are marked closed (default: now)
+   */
+  now?: number;
+}
+
+/**
+ * Start of the bar containing `timestamp`, in epoch milliseconds
+ */
+export function getCandleOpenTime(timestamp: number, interval: CandleInterval): number {
+  const ms = CANDLE_INTERVAL_MS[interval];
+  return Math.floor(timestamp / ms) * ms;
+}
+
+/**
+ * Bar opened by a trade
+ */
+export function openCandle(trade: CandleTrade, market: string, interval: CandleInterval): Candle {
+  const price = new Decimal(trade.price).toString();
+  const openTime = getCandleOpenTime(trade.timestamp, interval);
+  return {
+    ...emptyCandle(market, interval, openTime, price),
+    volume: new Decimal(trade.size).toString(),
+    quoteVolume: new Decimal(trade.price).mul(trade.size).toString(),
+    trades: 1,
+  };
+}
+
+/**
+ * Zero-volume bar whose prices all equal `price`, usually the previous close
+ */
+export function emptyCandle(
+  market: string,
+  interval: CandleInterval,
+  openTime: number,
+  price: string,
+): Candle {
+  return {
+    market,
+    interval,
+    openTime,
+    closeTime: openTime + CANDLE_INTERVAL_MS[interval],
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: '0',
+    quoteVolume: '0',
+    trades: 0,
+    closed: false,
+  };
+}
+
+/**
+ * Returns the bar with a trade added. Trades must be applied in time order
+ * and fall inside the bar; a zero-volume bar is reopened at the trade price.
+ */
+export function applyTradeToCandle(candle: Candle, trade: CandleTrade): Candle {
+  const price = new Decimal(trade.price);
+  if (candle.trades === 0) {
+    return { ...openCandle(trade, candle.market, candle.interval), closed: candle.closed };
+  }
+  return {
+    ...candle,
+    high: Decimal.max(candle.high, price).toString(),
+    low: Decimal.min(candle.low, price).toString(),
+    close: price.toString(),
+    volume: new Decimal(candle.volume).plus(trade.size).toString(),
+    quoteVolume: new Decimal(candle.quoteVolume).plus(price.mul(trade.size)).toString(),
+    trades: candle.trades + 1,
+  };
+}
+
+/**
+ * Aggregates trades into OHLCV bars, oldest first. Trades may be passed in any
+ * order. Intervals before the first trade produce no bar, since there is no
+ * price to carry forward.
+ *
+ * @example
+ * ```typescript
+ * const trades = await client.getTrades({ market: 'BTC-USD.P', startTime, limit: 1000 });
+ * const bars = aggregateTrades(trades, 'BTC-USD.P', '1m');
+ * ```
+ */
+export function aggregateTrades(
+  trades: readonly CandleTrade[],
+  market: string,
+  interval: CandleInterval,
+  options: AggregateTradesOptions = {},
+): Candle[] {
+  const { fillEmpty = true, endTime, now = Date.now() } = options;
+  const ms = CANDLE_INTERVAL_MS[interval];
+  const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+  const candles: Candle[] = [];
+  let current: Candle | undefined;
+
+  const fillUntil = (openTime: number): void => {
+    if (!current || !fillEmpty) return;
+    for (let time = current.openTime + ms; time < openTime; time += ms) {
+      current = emptyCandle(market, interval, time, current.close);
+      candles.push(current);
+    }
+  };
+
+  for (const trade of sorted) {
+    const openTime = getCandleOpenTime(trade.timestamp, interval);
+    if (current && openTime === current.openTime) {
+      current = applyTradeToCandle(current, trade);
+      candles[candles.length - 1] = current;
+      continue;
+    }
+    fillUntil(openTime);
+    current = openCandle(trade, market, interval);
+    candles.push(current);
+  }
+  if (endTime !== undefined) {
+    fillUntil(endTime);
+  }
+
+  return candles.map((candle) => ({ ...candle, closed: candle.closeTime <= now }));
+}
@@ -1,7 +1,75 @@
+import type { ApiError } from '../types';
+
+/**
+ * Machine-readable codes used when the API response does not carry its own
+ */
+export enum EnclaveErrorCode {
+  RATE_LIMITED = 'RATE_LIMITED',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  INSUFFICIENT_MARGIN = 'INSUFFICIENT_MARGIN',
+  ORDER_REJECTED = 'ORDER_REJECTED',
+  ORDER_CANCELLED = 'ORDER_CANCELLED',
+  ORDER_STATE_UNKNOWN = 'ORDER_STATE_UNKNOWN',
+  NOT_FOUND = 'NOT_FOUND',
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  SERVER_ERROR = 'SERVER_ERROR',
+  WEBSOCKET_ERROR = 'WEBSOCKET_ERROR',
+  STREAM_OVERFLOW = 'STREAM_OVERFLOW',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface EnclaveErrorOptions {
+  /**
+   * Error code from the response body, or an EnclaveErrorCode
+   */
+  code?: string;
+  /**
+   * Extra structured information from the response body
+   */
+  details?: Record<string, unknown>;
+  /**
+   * Whether sending the same request again may succeed
+   */
+  retryable?: boolean;
+  /**
+   * Underlying error, if any
+   */
+  cause?: unknown;
+}
+
+function withDefaults(
+  options: EnclaveErrorOptions,
+  code: EnclaveErrorCode,
+  retryable = false,
+): EnclaveErrorOptions {
+  return { ...options, code: options.code ?? code, retryable: options.retryable ?? retryable };
+}
+
+/**
+ * Base class for every error raised by the library with a machine-readable code
+ */
+export class EnclaveError extends Error {
+  public readonly code: string;
+  public readonly details?: Record<string, unknown>;
+  public readonly retryable: boolean;
+  public readonly cause?: unknown;
+
+  constructor(message: string, options: EnclaveErrorOptions = {}) {
+    super(message);
+    this.name = 'EnclaveError';
+    this.code = options.code ?? EnclaveErrorCode.UNKNOWN;
+    this.details = options.details;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
 /**
  * Enhanced error class for Enclave API errors with additional context
  */
-export class EnclaveApiError extends Error {
+export class EnclaveApiError extends EnclaveError {
   public readonly statusCode?: number;
   public readonly endpoint: string;
   public readonly method: string;
@@ -13,6 +81,7 @@ export class EnclaveApiError extends Error {
     method: string,
     statusCode?: number,
     responseBody?: string,
+    options: EnclaveErrorOptions = {},
   ) {
     const enhancedMessage =
       `Enclave API Error: ${message}\n` +
@@ -22,7 +91,7 @@ export class EnclaveApiError extends Error {
         ? `  Response: ${responseBody.substring(0, 200)}${responseBody.length > 200 ? '...' : ''}`
         : '');
 
-    super(enhancedMessage);
+    super(enhancedMessage, options);
     this.name = 'EnclaveApiError';
     this.statusCode = statusCode;
     this.endpoint = endpoint;
@@ -31,7 +100,360 @@ export class EnclaveApiError extends Error {
 
     // Maintains proper stack trace in V8
     if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, EnclaveApiError);
+      Error.captureStackTrace(this, new.target);
     }
   }
 }
+
+/**
+ * The request was throttled (HTTP 429)
+ */
+export class RateLimitError extends EnclaveApiError {
+  /**
+   * Server-suggested wait before retrying, from the Retry-After header (ms)
+   */
+  public readonly retryAfter?: number;
+
+  constructor(
+    message: string,
+    endpoint: string,
+    method: string,
+    statusCode?: number,
+    responseBody?: string,
+    options: EnclaveErrorOptions & { retryAfter?: number } = {},
+  ) {
+    super(
+      message,
+      endpoint,
+      method,
+      statusCode,
+      responseBody,
+      withDefaults(options, EnclaveErrorCode.RATE_LIMITED, true),
+    );
+    this.name = 'RateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Missing, invalid or expired credentials or signature (HTTP 401/403)
+ */
+export class AuthenticationError extends EnclaveApiError {
+  constructor(
+    message: string,
+    endpoint: string,
+    method: string,
+    statusCode?: number,
+    responseBody?: string,
+    options: EnclaveErrorOptions = {},
+  ) {
+    super(
+      message,
+      endpoint,
+      method,
+      statusCode,
+      responseBody,
+      withDefaults(options, EnclaveErrorCode.UNAUTHORIZED),
+    );
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * The account does not have enough margin or balance for the order
+ */
+export class InsufficientMarginError extends EnclaveApiError {
+  constructor(
+    message: string,
+    endpoint: string,
+    method: string,
+    statusCode?: number,
+    responseBody?: string,
+    options: EnclaveErrorOptions = {},
+  ) {
+    super(
+      message,
+      endpoint,
+      method,
+      statusCode,
+      responseBody,
+      withDefaults(options, EnclaveErrorCode.INSUFFICIENT_MARGIN),
+    );
+    this.name = 'InsufficientMarginError';
+  }
+}
+
+/**
+ * The exchange refused an order (invalid size, price, post-only cross, ...)
+ */
+export class OrderRejectedError extends EnclaveApiError {
+  constructor(
+    message: string,
+    endpoint: string,
+    method: string,
+    statusCode?: number,
+    responseBody?: string,
+    options: EnclaveErrorOptions = {},
+  ) {
+    super(
+      message,
+      endpoint,
+      method,
+      statusCode,
+      responseBody,
+      withDefaults(options, EnclaveErrorCode.ORDER_REJECTED),
+    );
+    this.name = 'OrderRejectedError';
+  }
+}
+
+/**
+ * The requested market, order or resource does not exist
+ */
+export class NotFoundError extends EnclaveApiError {
+  constructor(
+    message: string,
+    endpoint: string,
+    method: string,
+    statusCode?: number,
+    responseBody?: string,
+    options: EnclaveErrorOptions = {},
+  ) {
+    super(
+      message,
+      endpoint,
+      method,
+      statusCode,
+      responseBody,
+      withDefaults(options, EnclaveErrorCode.NOT_FOUND),
+    );
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The request never produced an HTTP response (DNS, connection reset, ...)
+ */
+export class NetworkError extends EnclaveApiError {
+  constructor(
+    message: string,
+    endpoint: string,
+    method: string,
+    options: EnclaveErrorOptions = {},
+  ) {
+    super(
+      message,
+      endpoint,
+      method,
+      undefined,
+      undefined,
+      withDefaults(options, EnclaveErrorCode.NETWORK_ERROR, true),
+    );
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * No response arrived within the configured timeout. The request may still have
+ * been processed by the exchange, so order placement should be reconciled before
+ * it is retried.
+ */
+export class TimeoutError extends EnclaveApiError {
+  public readonly timeout: number;
+
+  constructor(
+    endpoint: string,
+    method: string,
+    timeout: number,
+    options: EnclaveErrorOptions = {},
+  ) {
+    super(
+      `Request timeout after ${timeout}ms`,
+      endpoint,
+      method,
+      undefined,
+      undefined,
+      withDefaults(options, EnclaveErrorCode.TIMEOUT, true),
+    );
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Error message received on the WebSocket connection
+ */
+export class WebSocketError extends EnclaveError {
+  constructor(message: string, options: EnclaveErrorOptions = {}) {
+    super(message, withDefaults(options, EnclaveErrorCode.WEBSOCKET_ERROR));
+    this.name = 'WebSocketError';
+  }
+}
+
+/**
+ * A stream consumer fell behind and the buffer filled under the `error` overflow policy
+ */
+export class StreamOverflowError extends EnclaveError {
+  constructor(message: string, options: EnclaveErrorOptions = {}) {
+    super(message, withDefaults(options, EnclaveErrorCode.STREAM_OVERFLOW));
+    this.name = 'StreamOverflowError';
+  }
+}
+
+/**
+ * An order request failed without a definitive answer and the exchange could not
+ * confirm whether the order was placed, so it was not resent. Check open orders
+ * and fills for `clientOrderId` before placing it again.
+ */
+export class OrderStateUnknownError extends EnclaveError {
+  public readonly clientOrderId: string;
+
+  constructor(clientOrderId: string, options: EnclaveErrorOptions = {}) {
+    super(
+      `Could not confirm whether order ${clientOrderId} was placed`,
+      withDefaults(
+        { ...options, details: { clientOrderId, ...options.details } },
+        EnclaveErrorCode.ORDER_STATE_UNKNOWN,
+      ),
+    );
+    this.name = 'OrderStateUnknownError';
+    this.clientOrderId = clientOrderId;
+  }
+}
+
+export interface ValidationIssue {
+  /**
+   * Order field that failed validation (size, price, quoteSize, triggerPrice, leverage)
+   */
+  field: string;
+  message: string;
+  value: string;
+  /**
+   * The market limit that was violated, if any
+   */
+  limit?: string;
+}
+
+/**
+ * An order failed pre-trade validation and was not sent
+ */
+export class OrderValidationError extends EnclaveError {
+  public readonly market: string;
+  public readonly issues: ValidationIssue[];
+
+  constructor(market: string, issues: ValidationIssue[]) {
+    super(`Invalid order for ${market}: ${issues.map((i) => i.message).join('; ')}`, {
+      code: EnclaveErrorCode.VALIDATION_ERROR,
+      details: { market, issues },
+    });
+    this.name = 'OrderValidationError';
+    this.market = market;
+    this.issues = issues;
+  }
+}
+
+const INSUFFICIENT_MARGIN_CODES = [
+  'INSUFFICIENT_MARGIN',
+  'INSUFFICIENT_BALANCE',
+  'INSUFFICIENT_FUNDS',
+];
+const NOT_FOUND_CODES = ['NOT_FOUND', 'INVALID_MARKET', 'MARKET_NOT_FOUND', 'ORDER_NOT_FOUND'];
+const AUTH_CODES = ['UNAUTHORIZED', 'FORBIDDEN', 'INVALID_SIGNATURE', 'INVALID_API_KEY'];
+
+/**
+ * Extracts `code`, `message` and `details` from an error response body.
+ * Accepts `{ error: ApiError }`, `{ error: string }`, a bare `ApiError` and plain text.
+ */
+export function parseErrorBody(body?: string): Partial<ApiError> {
+  if (!body) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return { message: body };
+  }
+  if (!parsed || typeof parsed !== 'object') return {};
+
+  const record = parsed as Record<string, unknown>;
+  const error = record.error;
+  if (error && typeof error === 'object') {
+    return pickApiError(error as Record<string, unknown>);
+  }
+  const result = pickApiError(record);
+  if (typeof error === 'string') {
+    result.message = error;
+  }
+  return result;
+}
+
+function pickApiError(record: Record<string, unknown>): Partial<ApiError> {
+  const result: Partial<ApiError> = {};
+  if (typeof record.code === 'string') result.code = record.code;
+  if (typeof record.message === 'string') result.message = record.message;
+  if (record.details && typeof record.details === 'object') {
+    result.details = record.details as Record<string, unknown>;
+  }
+  return result;
+}
+
+/**
+ * Builds the most specific EnclaveApiError subclass for a failed response
+ *
+ * @param endpoint - Request path
+ * @param method - HTTP method
+ * @param statusCode - HTTP status, if a response was received
+ * @param responseBody - Raw response body
+ * @param fallbackMessage - Message used when the body has none
+ * @param headers - Response headers (lowercase names), used for Retry-After
+ */
+export function createApiError(
+  endpoint: string,
+  method: string,
+  statusCode?: number,
+  responseBody?: string,
+  fallbackMessage = 'Request failed',
+  headers: Record<string, string> = {},
+): EnclaveApiError {
+  const { code, message = fallbackMessage, details } = parseErrorBody(responseBody);
+  const normalized = code?.toUpperCase();
+  const options: EnclaveErrorOptions = { details };
+  if (code) options.code = code;
+  const args = [message, endpoint, method, statusCode, responseBody] as const;
+
+  if (statusCode === 429 || normalized?.startsWith('RATE_LIMIT')) {
+    const retryAfterSeconds = Number(headers['retry-after']);
+    return new RateLimitError(...args, {
+      ...options,
+      retryAfter: Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : undefined,
+    });
+  }
+  if (
+    statusCode === 401 ||
+    statusCode === 403 ||
+    (normalized !== undefined && AUTH_CODES.includes(normalized))
+  ) {
+    return new AuthenticationError(...args, options);
+  }
+  if (
+    (normalized !== undefined && INSUFFICIENT_MARGIN_CODES.includes(normalized)) ||
+    /insufficient (margin|balance|funds)/i.test(message)
+  ) {
+    return new InsufficientMarginError(...args, options);
+  }
+  if (statusCode === 404 || (normalized !== undefined && NOT_FOUND_CODES.includes(normalized))) {
+    return new NotFoundError(...args, options);
+  }
+  if (statusCode !== undefined && statusCode >= 500) {
+    return new EnclaveApiError(
+      ...args,
+      withDefaults(options, EnclaveErrorCode.SERVER_ERROR, statusCode !== 501),
+    );
+  }
+  if (
+    normalized === 'ORDER_REJECTED' ||
+    (method === 'POST' && /\/(orders|stop_order)$/.test(endpoint.split('?')[0]))
+  ) {
+    return new OrderRejectedError(...args, options);
+  }
+  return new EnclaveApiError(...args, options);
+}
@@ -0,0 +1,28 @@
+/**
+ * Error reporting for components that work in the background
+ */
+
+import type { EventEmitter } from 'events';
+
+/**
+ * Emits `error` on `emitter` when something listens for it, otherwise logs it
+ * with `console.error`. Background work runs from timers, promise callbacks and
+ * stream handlers, where an unhandled `error` event would crash the process.
+ *
+ * @param emitter - Component reporting the error
+ * @param error - The error
+ * @param log - Log prefix, e.g. `[OrderTracker] Poll of order-1 failed:`
+ * @param args - Extra arguments emitted after the error
+ */
+export function reportError(
+  emitter: EventEmitter,
+  error: unknown,
+  log: string,
+  ...args: unknown[]
+): void {
+  if (emitter.listenerCount('error') > 0) {
+    emitter.emit('error', error, ...args);
+  } else {
+    console.error(log, error);
+  }
+}
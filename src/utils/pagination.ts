@@ -0,0 +1,112 @@
+import { Page } from '../types';
+import { throwIfAborted } from './abort';
+import { EnclaveError } from './errors';
+
+export interface PaginateOptions {
+  /**
+   * Stops the iteration; a page request waiting on the rate limiter rejects
+   * with the abort reason
+   */
+  signal?: AbortSignal;
+  /**
+   * Stops after this many items
+   */
+  maxItems?: number;
+}
+
+/**
+ * Fetches the page after `cursor` (the first page when undefined)
+ */
+export type PageFetcher<T> = (cursor: string | undefined, signal?: AbortSignal) => Promise<Page<T>>;
+
+/**
+ * Fetches up to `limit` items, newest first, strictly before `endTime` (all when undefined)
+ */
+export type TimeRangeFetcher<T> = (
+  endTime: number | undefined,
+  signal?: AbortSignal,
+) => Promise<T[]>;
+
+/**
+ * Walks a cursor-paginated endpoint, yielding items until the last page.
+ *
+ * Pages are fetched lazily as the consumer iterates, so breaking out of a
+ * `for await` loop stops further requests.
+ *
+ * @example
+ * ```typescript
+ * for await (const entry of paginate((cursor) => client.getLedger({ cursor }))) {
+ *   console.log(entry.type, entry.amount);
+ * }
+ * ```
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  const { signal, maxItems = Infinity } = options;
+  let cursor: string | undefined;
+  let count = 0;
+
+  do {
+    throwIfAborted(signal);
+    const page = await fetchPage(cursor, signal);
+    for (const item of page.items) {
+      if (count >= maxItems) return;
+      throwIfAborted(signal);
+      yield item;
+      count++;
+    }
+    // A server repeating the cursor would otherwise loop forever
+    if (page.nextCursor === cursor) return;
+    cursor = page.nextCursor;
+  } while (cursor && count < maxItems);
+}
+
+/**
+ * Walks an endpoint that only supports time ranges, moving `endTime` back to
+ * the oldest item of each page. Items sharing the boundary timestamp are
+ * de-duplicated by ID.
+ *
+ * @param fetchRange - Fetches one page before the given end time
+ * @param limit - Page size passed to the fetcher; a shorter page is the last one
+ * @param endTime - Exclusive end of the range (default: now)
+ * @throws EnclaveError if more than `limit` items share one timestamp
+ */
+export async function* paginateByTime<T extends { id: string; timestamp: number }>(
+  fetchRange: TimeRangeFetcher<T>,
+  limit: number,
+  endTime?: number,
+  options: PaginateOptions = {},
+): AsyncGenerator<T, void, undefined> {
+  const { signal, maxItems = Infinity } = options;
+  let end = endTime;
+  let boundary = new Set<string>();
+  let count = 0;
+
+  for (;;) {
+    throwIfAborted(signal);
+    const items = await fetchRange(end, signal);
+    const fresh = items.filter((item) => !boundary.has(item.id));
+    for (const item of fresh) {
+      if (count >= maxItems) return;
+      throwIfAborted(signal);
+      yield item;
+      count++;
+    }
+    if (items.length < limit || count >= maxItems) return;
+
+    const oldest = Math.min(...items.map((item) => item.timestamp));
+    // A full page within one already re-requested millisecond cannot move further back
+    const stuck = end === oldest + 1 && items.every((item) => item.timestamp === oldest);
+    if (fresh.length === 0 || stuck) {
+      throw new EnclaveError(
+        `More than ${limit} items share timestamp ${oldest}; use a larger page size`,
+      );
+    }
+    const atOldest = items.filter((item) => item.timestamp === oldest).map((item) => item.id);
+    // Re-request the oldest millisecond so items split across pages are not lost
+    boundary = end === oldest + 1 ? new Set([...boundary, ...atOldest]) : new Set(atOldest);
+    end = oldest + 1;
+  }
+}
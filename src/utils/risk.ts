@@ -0,0 +1,252 @@
+import Decimal from 'decimal.js';
+import { MarginBracket, Market, OrderSide, Position, PositionDirection } from '../types';
+import { OrderValidationError } from './errors';
+
+export interface RiskInput {
+  direction: PositionDirection;
+  /**
+   * Position size in base units
+   */
+  size: Decimal.Value;
+  entryPrice: Decimal.Value;
+  /**
+   * Leverage used for the initial margin (default: effective max leverage)
+   */
+  leverage?: Decimal.Value;
+  /**
+   * Collateral backing the position beyond its initial margin (default: 0)
+   */
+  additionalMargin?: Decimal.Value;
+}
+
+export interface RiskEstimate {
+  notional: Decimal;
+  bracket: MarginBracket;
+  /**
+   * Highest leverage allowed at this notional
+   */
+  effectiveMaxLeverage: number;
+  leverage: Decimal;
+  initialMargin: Decimal;
+  maintenanceMargin: Decimal;
+  /**
+   * Estimated liquidation price, or null if the position cannot be liquidated
+   */
+  liquidationPrice: Decimal | null;
+}
+
+/**
+ * Margin brackets of a market, falling back to a single bracket built from the
+ * flat Market fields when the table is not available
+ */
+export function getMarginBrackets(market: Market): MarginBracket[] {
+  if (market.marginBrackets && market.marginBrackets.length > 0) {
+    return market.marginBrackets;
+  }
+  return [
+    {
+      positionBracketUsd: 'Infinity',
+      maxLeverage: market.maxLeverage,
+      maintenanceMarginRate: market.maintenanceMargin,
+      maintenanceAmount: '0',
+    },
+  ];
+}
+
+/**
+ * Bracket covering a position notional; notionals beyond the table use the last bracket
+ */
+export function getMarginBracket(market: Market, notional: Decimal.Value): MarginBracket {
+  const brackets = getMarginBrackets(market);
+  const value = new Decimal(notional).abs();
+  return (
+    brackets.find((bracket) => value.lte(bracket.positionBracketUsd)) ??
+    brackets[brackets.length - 1]
+  );
+}
+
+/**
+ * Highest leverage allowed for a position of the given notional
+ */
+export function getEffectiveMaxLeverage(market: Market, notional: Decimal.Value): number {
+  return getMarginBracket(market, notional).maxLeverage;
+}
+
+/**
+ * Maintenance margin for a position notional: notional × rate − maintenanceAmount
+ */
+export function calculateMaintenanceMargin(market: Market, notional: Decimal.Value): Decimal {
+  const value = new Decimal(notional).abs();
+  const bracket = getMarginBracket(market, value);
+  return Decimal.max(0, value.mul(bracket.maintenanceMarginRate).minus(bracket.maintenanceAmount));
+}
+
+/**
+ * Initial margin for a position notional at the given leverage
+ *
+ * @throws OrderValidationError if the leverage exceeds the bracket's maximum
+ */
+export function calculateInitialMargin(
+  market: Market,
+  notional: Decimal.Value,
+  leverage?: Decimal.Value,
+): Decimal {
+  const value = new Decimal(notional).abs();
+  const maxLeverage = getEffectiveMaxLeverage(market, value);
+  const used = new Decimal(leverage ?? maxLeverage);
+  if (used.lte(0) || used.gt(maxLeverage)) {
+    throw new OrderValidationError(market.market, [
+      {
+        field: 'leverage',
+        message: `leverage ${used.toString()} must be between 0 and ${maxLeverage} for notional ${value.toString()}`,
+        value: used.toString(),
+        limit: String(maxLeverage),
+      },
+    ]);
+  }
+  return value.div(used);
+}
+
+/**
+ * Estimates margin requirements and liquidation price of a position.
+ *
+ * The liquidation price solves `collateral + PnL(P) = maintenanceMargin(P)`, re-evaluating
+ * the bracket at the liquidation notional. Funding and fees are ignored.
+ *
+ * @example
+ * ```typescript
+ * const market = await client.getMarket('BTC-USD.P');
+ * const risk = calculateRisk(market, {
+ *   direction: PositionDirection.LONG,
+ *   size: '0.5',
+ *   entryPrice: '50000',
+ *   leverage: 10,
+ * });
+ * console.log(risk.initialMargin.toString(), risk.liquidationPrice?.toString());
+ * ```
+ */
+export function calculateRisk(market: Market, input: RiskInput): RiskEstimate {
+  const size = new Decimal(input.size).abs();
+  const entryPrice = new Decimal(input.entryPrice);
+  const notional = size.mul(entryPrice);
+  const bracket = getMarginBracket(market, notional);
+  const leverage = new Decimal(input.leverage ?? bracket.maxLeverage);
+  const initialMargin = calculateInitialMargin(market, notional, leverage);
+  const collateral = initialMargin.plus(input.additionalMargin ?? 0);
+
+  return {
+    notional,
+    bracket,
+    effectiveMaxLeverage: bracket.maxLeverage,
+    leverage,
+    initialMargin,
+    maintenanceMargin: calculateMaintenanceMargin(market, notional),
+    liquidationPrice: estimateLiquidationPrice(
+      market,
+      input.direction,
+      size,
+      entryPrice,
+      collateral,
+    ),
+  };
+}
+
+/**
+ * Position that would result from applying an order to an existing position.
+ * Returns null if the order exactly closes the position.
+ */
+export function applyOrderToPosition(
+  position: Pick<Position, 'side' | 'size' | 'entryPrice'> | undefined,
+  side: OrderSide,
+  size: Decimal.Value,
+  price: Decimal.Value,
+): { direction: PositionDirection; size: Decimal; entryPrice: Decimal } | null {
+  const orderSize = new Decimal(size);
+  const orderPrice = new Decimal(price);
+  const signedOrder = side === OrderSide.BUY ? orderSize : orderSize.neg();
+  const current = position
+    ? new Decimal(position.size).mul(position.side === PositionDirection.SHORT ? -1 : 1)
+    : new Decimal(0);
+  const resulting = current.plus(signedOrder);
+  if (resulting.isZero()) return null;
+
+  let entryPrice: Decimal;
+  if (current.isZero() || current.isNeg() !== resulting.isNeg()) {
+    // New position or flipped through zero: the remainder opens at the order price
+    entryPrice = orderPrice;
+  } else if (current.isNeg() === signedOrder.isNeg()) {
+    // Increasing: volume-weighted entry
+    entryPrice = current
+      .abs()
+      .mul(position!.entryPrice)
+      .plus(orderSize.mul(orderPrice))
+      .div(resulting.abs());
+  } else {
+    // Reducing keeps the original entry
+    entryPrice = new Decimal(position!.entryPrice);
+  }
+
+  return {
+    direction: resulting.isNeg() ? PositionDirection.SHORT : PositionDirection.LONG,
+    size: resulting.abs(),
+    entryPrice,
+  };
+}
+
+/**
+ * Unrealized PnL of a position valued at the given mark price
+ */
+export function calculateUnrealizedPnl(
+  position: Pick<Position, 'side' | 'size' | 'entryPrice'>,
+  markPrice: Decimal.Value,
+): Decimal {
+  const pnl = new Decimal(markPrice).minus(position.entryPrice).mul(position.size);
+  return position.side === PositionDirection.SHORT ? pnl.neg() : pnl;
+}
+
+/**
+ * Copy of a position re-valued at a new mark price, e.g. from a `prices`
+ * stream update, with its unrealized PnL recalculated
+ */
+export function markPosition(position: Position, markPrice: Decimal.Value): Position {
+  return {
+    ...position,
+    markPrice: new Decimal(markPrice).toString(),
+    unrealizedPnl: calculateUnrealizedPnl(position, markPrice).toString(),
+  };
+}
+
+function estimateLiquidationPrice(
+  market: Market,
+  direction: PositionDirection,
+  size: Decimal,
+  entryPrice: Decimal,
+  collateral: Decimal,
+): Decimal | null {
+  if (size.isZero()) return null;
+  const long = direction === PositionDirection.LONG;
+  let bracket = getMarginBracket(market, size.mul(entryPrice));
+  let price: Decimal | null = null;
+
+  // The bracket depends on the notional at the liquidation price, so iterate until stable
+  for (let i = 0; i <= getMarginBrackets(market).length; i++) {
+    const rate = new Decimal(bracket.maintenanceMarginRate);
+    const amount = new Decimal(bracket.maintenanceAmount);
+    price = long
+      ? size
+          .mul(entryPrice)
+          .minus(collateral)
+          .minus(amount)
+          .div(size.mul(new Decimal(1).minus(rate)))
+      : size
+          .mul(entryPrice)
+          .plus(collateral)
+          .plus(amount)
+          .div(size.mul(new Decimal(1).plus(rate)));
+    if (price.lte(0)) return null;
+    const next = getMarginBracket(market, size.mul(price));
+    if (next.positionBracketUsd === bracket.positionBracketUsd) break;
+    bracket = next;
+  }
+  return price;
+}
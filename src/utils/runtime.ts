@@ -0,0 +1,22 @@
+/**
+ * Access to platform APIs that differ between Node, browsers, Deno and edge workers
+ */
+
+import type { webcrypto } from 'crypto';
+
+/**
+ * Loads a Node built-in module on first use, so that importing the library
+ * does not require it where it does not exist
+ */
+export function nodeModule<T>(name: string): T {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require(name) as T;
+}
+
+/**
+ * The global Web Crypto API where the runtime has one: browsers, Deno, edge
+ * workers and Node 19+ (Node 18 only behind a flag)
+ */
+export function webCrypto(): Partial<webcrypto.Crypto> | undefined {
+  return (globalThis as { crypto?: Partial<webcrypto.Crypto> }).crypto;
+}
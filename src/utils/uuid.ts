@@ -0,0 +1,18 @@
+/**
+ * UUID generation that works without Node's `crypto` module
+ */
+
+import type * as Crypto from 'crypto';
+import { nodeModule, webCrypto } from './runtime';
+
+/**
+ * Random v4 UUID from Web Crypto, falling back to the `crypto` module on Node 18,
+ * which only exposes Web Crypto globally behind a flag
+ */
+export function randomUUID(): string {
+  const crypto = webCrypto();
+  if (crypto?.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return nodeModule<typeof Crypto>('crypto').randomUUID();
+}
@@ -0,0 +1,209 @@
+import Decimal from 'decimal.js';
+import { Market, OrderSide, OrderType } from '../types';
+import { OrderValidationError, ValidationIssue } from './errors';
+import { roundDown } from './rounding';
+
+/**
+ * Market specs checked by validateOrder. Limits that are absent (e.g. on spot
+ * markets) are not enforced.
+ */
+export type OrderValidationMarket = Pick<
+  Market,
+  'market' | 'baseIncrement' | 'quoteIncrement' | 'minOrderSize'
+> &
+  Partial<Pick<Market, 'maxOrderSize' | 'maxPositionSize' | 'maxLeverage'>>;
+
+export interface OrderValidationParams {
+  side?: OrderSide;
+  /**
+   * Order type; omit for stop orders, where size and price are optional
+   */
+  type?: OrderType;
+  /**
+   * Base size (limit orders and market sells)
+   */
+  size?: Decimal.Value;
+  /**
+   * Quote size (market buys)
+   */
+  quoteSize?: Decimal.Value;
+  price?: Decimal.Value;
+  triggerPrice?: Decimal.Value;
+  reduceOnly?: boolean;
+  leverage?: Decimal.Value;
+  /**
+   * Current signed position size (positive long, negative short). Enables the
+   * max position size check for orders that increase exposure.
+   */
+  positionSize?: Decimal.Value;
+}
+
+export interface ValidateOrderOptions {
+  /**
+   * Reject values that are not on the market increments instead of rounding them down
+   */
+  strict?: boolean;
+}
+
+/**
+ * Order values after rounding to the market increments
+ */
+export interface ValidatedOrder {
+  size?: Decimal;
+  quoteSize?: Decimal;
+  price?: Decimal;
+  triggerPrice?: Decimal;
+}
+
+/**
+ * Validates an order against market specs before it is sent.
+ *
+ * Values are rounded down to the market increments (or rejected in strict mode),
+ * then checked against the minimum and maximum order size, the maximum position
+ * size and the maximum leverage.
+ *
+ * @param market - Market metadata from getMarket() or getSpotMarket()
+ * @param params - Order values to check
+ * @param options - Validation options
+ * @returns The rounded values
+ * @throws OrderValidationError listing every violated rule
+ *
+ * @example
+ * ```typescript
+ * const market = await client.getMarket('BTC-USD.P');
+ * const { size, price } = validateOrder(market, {
+ *   side: OrderSide.BUY,
+ *   type: OrderType.LIMIT,
+ *   size: '0.00123',
+ *   price: '50000.05',
+ * });
+ * ```
+ */
+export function validateOrder(
+  market: OrderValidationMarket,
+  params: OrderValidationParams,
+  options: ValidateOrderOptions = {},
+): ValidatedOrder {
+  const strict = options.strict ?? false;
+  const issues: ValidationIssue[] = [];
+  const baseIncrement = new Decimal(market.baseIncrement);
+  const quoteIncrement = new Decimal(market.quoteIncrement);
+
+  const check = (
+    field: string,
+    raw: Decimal.Value | undefined,
+    increment: Decimal,
+  ): Decimal | undefined => {
+    if (raw === undefined) return undefined;
+    const value = toDecimal(raw);
+    if (!value || !value.isFinite()) {
+      issues.push({ field, message: `${field} is not a number`, value: String(raw) });
+      return undefined;
+    }
+    if (value.lte(0)) {
+      issues.push({ field, message: `${field} must be positive`, value: value.toString() });
+      return undefined;
+    }
+    if (strict && !value.mod(increment).isZero()) {
+      issues.push({
+        field,
+        message: `${field} ${value.toString()} is not a multiple of ${increment.toString()}`,
+        value: value.toString(),
+        limit: increment.toString(),
+      });
+      return undefined;
+    }
+    const rounded = roundDown(value, increment);
+    if (rounded.isZero()) {
+      issues.push({
+        field,
+        message: `${field} ${value.toString()} rounds to zero at increment ${increment.toString()}`,
+        value: value.toString(),
+        limit: increment.toString(),
+      });
+      return undefined;
+    }
+    return rounded;
+  };
+
+  if (params.type === OrderType.LIMIT && params.price === undefined) {
+    issues.push({ field: 'price', message: 'price is required for limit orders', value: '' });
+  }
+  if (params.type && params.size === undefined && params.quoteSize === undefined) {
+    issues.push({ field: 'size', message: 'size or quoteSize is required', value: '' });
+  }
+
+  const result: ValidatedOrder = {
+    size: check('size', params.size, baseIncrement),
+    quoteSize: check('quoteSize', params.quoteSize, quoteIncrement),
+    price: check('price', params.price, quoteIncrement),
+    triggerPrice: check('triggerPrice', params.triggerPrice, quoteIncrement),
+  };
+
+  if (result.size) {
+    const minSize = new Decimal(market.minOrderSize);
+    if (result.size.lt(minSize)) {
+      issues.push({
+        field: 'size',
+        message: `size ${result.size.toString()} is below the minimum ${minSize.toString()}`,
+        value: result.size.toString(),
+        limit: minSize.toString(),
+      });
+    }
+    const maxSize = market.maxOrderSize ? new Decimal(market.maxOrderSize) : undefined;
+    if (maxSize && result.size.gt(maxSize)) {
+      issues.push({
+        field: 'size',
+        message: `size ${result.size.toString()} exceeds the maximum ${maxSize.toString()}`,
+        value: result.size.toString(),
+        limit: maxSize.toString(),
+      });
+    }
+
+    if (
+      market.maxPositionSize &&
+      params.positionSize !== undefined &&
+      params.side &&
+      !params.reduceOnly
+    ) {
+      const current = new Decimal(params.positionSize);
+      const signed = params.side === OrderSide.BUY ? result.size : result.size.neg();
+      const resulting = current.plus(signed);
+      const maxPosition = new Decimal(market.maxPositionSize);
+      if (resulting.abs().gt(maxPosition) && resulting.abs().gt(current.abs())) {
+        issues.push({
+          field: 'size',
+          message: `resulting position ${resulting.abs().toString()} exceeds the maximum ${maxPosition.toString()}`,
+          value: result.size.toString(),
+          limit: maxPosition.toString(),
+        });
+      }
+    }
+  }
+
+  if (params.leverage !== undefined) {
+    const maxLeverage = market.maxLeverage ?? 1;
+    const leverage = toDecimal(params.leverage);
+    if (!leverage || leverage.lte(0) || leverage.gt(maxLeverage)) {
+      issues.push({
+        field: 'leverage',
+        message: `leverage ${String(params.leverage)} must be between 0 and ${maxLeverage}`,
+        value: String(params.leverage),
+        limit: String(maxLeverage),
+      });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new OrderValidationError(market.market, issues);
+  }
+  return result;
+}
+
+function toDecimal(value: Decimal.Value): Decimal | undefined {
+  try {
+    return new Decimal(value);
+  } catch {
+    return undefined;
+  }
+}